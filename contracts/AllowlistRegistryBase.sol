@@ -0,0 +1,322 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/AllowlistRegistryBase.sol)
+pragma solidity 0.8.25;
+
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+
+/**
+ * @dev Contract module which provides a registry of allowlist accounts, where
+ * there is an account that can be granted access to specific.
+ *
+ * Only the owner are allowed to manages the allowlist accounts.
+ *
+ * The allowlist accounts are enumerable, see {allowlistCount} and {getAllowlist}.
+ *
+ * Each allowlist entry carries an expiry time after which the account is no longer
+ * allowlisted, an investor tier (e.g. 1 retail, 2 accredited, 3 institutional) and an
+ * ISO 3166-1 alpha-2 jurisdiction code, see {allowlistEntryOf}. Accounts added through
+ * {addAllowlist} never expire and have no tier nor jurisdiction, and an expired entry
+ * is renewed through {setAllowlist}.
+ *
+ * Ownership is transferred in two steps, the new owner accepting it through {acceptOwnership}.
+ *
+ * The registry is deployed either directly as {AllowlistRegistry}, or behind a proxy as
+ * {AllowlistRegistryUpgradeable}.
+ */
+abstract contract AllowlistRegistryBase is OwnableUpgradeable {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    struct AllowlistEntry {
+        uint64 expiresAt;
+        uint8 tier;
+        bytes2 jurisdiction;
+    }
+
+    EnumerableSet.AddressSet private _allowlist;
+    mapping(address => AllowlistEntry) private _entries;
+    address private _pendingOwner;
+
+    /**
+     * @dev Emitted when new account has added to allowlist.
+     */
+    event AddedAllowlist(address indexed account);
+
+    /**
+     * @dev Emitted when an account has removed from allowlist.
+     */
+    event RemovedAllowlist(address indexed account);
+
+    /**
+     * @dev Emitted when the entry of an allowlist account has updated.
+     */
+    event UpdatedAllowlist(address indexed account, uint64 expiresAt, uint8 tier, bytes2 jurisdiction);
+
+    /**
+     * @dev Emitted when the ownership transfer from `previousOwner` to `newOwner` has started.
+     */
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+
+    /**
+     * @dev Thrown when an array of `values` of a batch has a different length than its `accounts`.
+     */
+    error ArrayLengthMismatch(uint256 accounts, uint256 values);
+
+    /**
+     * @dev Thrown when `caller` is not the pending owner.
+     */
+    error CallerNotPendingOwner(address caller);
+
+    /**
+     * @dev Thrown when `account` is added through {addAllowlist} while its entry has expired,
+     * which {setAllowlist} renews instead.
+     */
+    error AllowlistExpired(address account);
+
+    /**
+     * @dev Sets the caller as the owner, see {Initializable}.
+     */
+    function __AllowlistRegistry_init() internal onlyInitializing {
+        __Ownable_init();
+    }
+
+    /**
+     * @dev Returns the account the ownership is being transferred to, see {transferOwnership}.
+     */
+    function pendingOwner() external view virtual returns (address) {
+        return _pendingOwner;
+    }
+
+    /**
+     * @dev Starts to transfer the ownership to `newOwner`, which takes effect once `newOwner`
+     * accepts it through {acceptOwnership}. Replaces the pending transfer, and the zero address
+     * cancels it.
+     *
+     * Emits an {OwnershipTransferStarted} event.
+     *
+     * Requirements:
+     *
+     * - the caller must be owner.
+     */
+    function transferOwnership(address newOwner) public virtual override onlyOwner {
+        _pendingOwner = newOwner;
+
+        emit OwnershipTransferStarted(owner(), newOwner);
+    }
+
+    /**
+     * @dev Accepts the pending ownership transfer.
+     *
+     * Emits an {OwnershipTransferred} event.
+     *
+     * Requirements:
+     *
+     * - the caller must be the pending owner.
+     */
+    function acceptOwnership() external virtual {
+        if (_msgSender() != _pendingOwner) {
+            revert CallerNotPendingOwner(_msgSender());
+        }
+
+        _transferOwnership(_msgSender());
+    }
+
+    /**
+     * @dev Returns the allowlist status of an account, that is false once its entry has expired.
+     */
+    function isAllowlist(address account) public view virtual returns (bool) {
+        uint64 expiresAt = _entries[account].expiresAt;
+        return _allowlist.contains(account) && (expiresAt == 0 || block.timestamp < expiresAt);
+    }
+
+    /**
+     * @dev Returns the allowlist entry of an account.
+     * @param account The address of the account to query.
+     * @return bool The allowlist status of the account, see {isAllowlist}.
+     * @return uint64 The time the entry expires, zero if it never expires.
+     * @return uint8 The investor tier of the account.
+     * @return bytes2 The jurisdiction code of the account.
+     */
+    function allowlistEntryOf(address account) external view virtual returns (bool, uint64, uint8, bytes2) {
+        AllowlistEntry memory entry = _entries[account];
+        return (isAllowlist(account), entry.expiresAt, entry.tier, entry.jurisdiction);
+    }
+
+    /**
+     * @dev Returns the number of allowlist accounts.
+     *
+     * NOTE: Includes the accounts whose entry has expired until they are removed, which
+     * {isAllowlist} tells apart.
+     */
+    function allowlistCount() external view virtual returns (uint256) {
+        return _allowlist.length();
+    }
+
+    /**
+     * @dev Returns up to `limit` allowlist accounts, starting at `offset`.
+     *
+     * NOTE: The order of accounts is not guaranteed to be preserved when an account is removed.
+     * The accounts whose entry has expired are listed until they are removed, which {isAllowlist}
+     * tells apart.
+     */
+    function getAllowlist(uint256 offset, uint256 limit) external view virtual returns (address[] memory) {
+        uint256 length = _allowlist.length();
+        if (offset >= length) {
+            return new address[](0);
+        }
+
+        uint256 end = limit > length - offset ? length : offset + limit;
+        address[] memory accounts = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            accounts[i - offset] = _allowlist.at(i);
+        }
+
+        return accounts;
+    }
+
+    /**
+     * @dev Add `account` to allowlist.
+     *
+     * Requirements:
+     *
+     * - the entry of `account` must not have expired, see {setAllowlist}.
+     * - the caller must be owner.
+     */
+    function addAllowlist(address account) external virtual onlyOwner {
+        _addAllowlist(account);
+    }
+
+    /**
+     * @dev Remove `account` to allowlist.
+     *
+     * Requirements:
+     *
+     * - the caller must be owner.
+     */
+    function removeAllowlist(address account) external virtual onlyOwner {
+        _removeAllowlist(account);
+    }
+
+    /**
+     * @dev Add `account` to allowlist, or update its entry if already added.
+     *
+     * Emits an {AddedAllowlist} event if the account is not allowlisted, and an {UpdatedAllowlist} event.
+     *
+     * Requirements:
+     *
+     * - the caller must be owner.
+     */
+    function setAllowlist(address account, uint64 expiresAt, uint8 tier, bytes2 jurisdiction) external virtual onlyOwner {
+        _setAllowlist(account, expiresAt, tier, jurisdiction);
+    }
+
+    /**
+     * @dev Add all `accounts` to allowlist, or update their entries if already added.
+     *
+     * Emits an {AddedAllowlist} event for each account that is not allowlisted, and an {UpdatedAllowlist} event for each account.
+     *
+     * Requirements:
+     *
+     * - all arrays must have the same length.
+     * - the caller must be owner.
+     */
+    function setAllowlistBatch(address[] calldata accounts, uint64[] calldata expiresAt, uint8[] calldata tiers, bytes2[] calldata jurisdictions) external virtual onlyOwner {
+        if (expiresAt.length != accounts.length) {
+            revert ArrayLengthMismatch(accounts.length, expiresAt.length);
+        }
+        if (tiers.length != accounts.length) {
+            revert ArrayLengthMismatch(accounts.length, tiers.length);
+        }
+        if (jurisdictions.length != accounts.length) {
+            revert ArrayLengthMismatch(accounts.length, jurisdictions.length);
+        }
+
+        for (uint256 i = 0; i < accounts.length; i++) {
+            _setAllowlist(accounts[i], expiresAt[i], tiers[i], jurisdictions[i]);
+        }
+    }
+
+    /**
+     * @dev Add all `accounts` to allowlist.
+     *
+     * Emits an {AddedAllowlist} event for each account.
+     *
+     * Requirements:
+     *
+     * - the entries of `accounts` must not have expired, see {setAllowlist}.
+     * - the caller must be owner.
+     */
+    function addAllowlistBatch(address[] calldata accounts) external virtual onlyOwner {
+        for (uint256 i = 0; i < accounts.length; i++) {
+            _addAllowlist(accounts[i]);
+        }
+    }
+
+    /**
+     * @dev Remove all `accounts` from allowlist.
+     *
+     * Emits a {RemovedAllowlist} event for each account.
+     *
+     * Requirements:
+     *
+     * - the caller must be owner.
+     */
+    function removeAllowlistBatch(address[] calldata accounts) external virtual onlyOwner {
+        for (uint256 i = 0; i < accounts.length; i++) {
+            _removeAllowlist(accounts[i]);
+        }
+    }
+
+    /**
+     * @dev Transfers the ownership to `newOwner` and clears the pending transfer.
+     */
+    function _transferOwnership(address newOwner) internal virtual override {
+        delete _pendingOwner;
+        super._transferOwnership(newOwner);
+    }
+
+    /**
+     * @dev Add `account` to allowlist.
+     *
+     * Requirements:
+     *
+     * - the entry of `account` must not have expired.
+     */
+    function _addAllowlist(address account) internal virtual {
+        if (!_allowlist.add(account) && !isAllowlist(account)) {
+            revert AllowlistExpired(account);
+        }
+
+        emit AddedAllowlist(account);
+    }
+
+    /**
+     * @dev Remove `account` from allowlist.
+     */
+    function _removeAllowlist(address account) internal virtual {
+        _allowlist.remove(account);
+        delete _entries[account];
+
+        emit RemovedAllowlist(account);
+    }
+
+    /**
+     * @dev Add `account` to allowlist if not added, and set its entry.
+     */
+    function _setAllowlist(address account, uint64 expiresAt, uint8 tier, bytes2 jurisdiction) internal virtual {
+        if (!_allowlist.contains(account)) {
+            _addAllowlist(account);
+        }
+
+        _entries[account] = AllowlistEntry({expiresAt: expiresAt, tier: tier, jurisdiction: jurisdiction});
+
+        emit UpdatedAllowlist(account, expiresAt, tier, jurisdiction);
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[46] private __gap;
+}
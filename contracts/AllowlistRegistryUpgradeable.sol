@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/AllowlistRegistryUpgradeable.sol)
+pragma solidity 0.8.25;
+
+import {AllowlistRegistryBase} from "./AllowlistRegistryBase.sol";
+
+/**
+ * @dev {AllowlistRegistryBase} registry deployed behind a transparent proxy, initialized
+ * through {initialize} instead of a constructor.
+ *
+ * The implementation itself cannot be initialized. Upgrades must keep the storage layout
+ * compatible, which the deploy scripts and the `upgrade:*` tasks validate before upgrading.
+ */
+contract AllowlistRegistryUpgradeable is AllowlistRegistryBase {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Sets the caller as the owner.
+     *
+     * Requirements:
+     *
+     * - the contract must not be initialized.
+     */
+    function initialize() external initializer {
+        __AllowlistRegistry_init();
+    }
+}
@@ -0,0 +1,487 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/GovernanceTimelock.sol)
+pragma solidity 0.8.25;
+
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+
+/**
+ * @dev Contract which executes calls approved by a threshold of signers after a timelock.
+ *
+ * It is meant to hold the roles of the high-risk actions of {InvestmentTokenM}, namely
+ * `DEFAULT_ADMIN_ROLE` (`renounceMintable`, `emergencyWithdraw`, `setTreasury` and the roles themselves),
+ * `COMPLIANCE_ROLE` (`adminTransfer`, `adminBurn`) and `REGISTRY_ADMIN_ROLE` (`setAllowlistRegistry`),
+ * so that no single key is allowed to take them.
+ *
+ * An operation is a call of `data` on `target`:
+ *
+ *  - A signer proposes the operation, approving it at the same time.
+ *  - Once approved by `threshold` signers, the operation is queued until `delay` has passed.
+ *  - Once queued and its delay passed, any signer is allowed to execute the operation.
+ *
+ * Any signer is allowed to cancel an operation until it is executed.
+ *
+ * `DEFAULT_ADMIN_ROLE` is handed over to this contract in two steps, the token admin calling
+ * `transferAdmin` and then anyone calling {acceptAdmin}.
+ *
+ * The signers, threshold and delay are only allowed to be changed by operations of this contract itself.
+ */
+contract GovernanceTimelock {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    enum OperationStatus {
+        None,
+        Proposed,
+        Queued,
+        Executed,
+        Cancelled
+    }
+
+    struct Operation {
+        address target;
+        bytes data;
+        uint64 eta;
+        OperationStatus status;
+    }
+
+    EnumerableSet.AddressSet private _signers;
+    uint256 private _threshold;
+    uint64 private _delay;
+
+    Operation[] private _operations;
+
+    mapping(uint256 => mapping(address => bool)) private _approved;
+
+    /**
+     * @dev Emitted when `signer` has been added.
+     */
+    event SignerAdded(address indexed signer);
+
+    /**
+     * @dev Emitted when `signer` has been removed.
+     */
+    event SignerRemoved(address indexed signer);
+
+    /**
+     * @dev Emitted when the approval threshold has changed.
+     */
+    event ThresholdChanged(uint256 previousThreshold, uint256 newThreshold);
+
+    /**
+     * @dev Emitted when the timelock delay has changed.
+     */
+    event DelayChanged(uint64 previousDelay, uint64 newDelay);
+
+    /**
+     * @dev Emitted when `proposer` has proposed the call of `data` on `target`.
+     */
+    event OperationProposed(uint256 indexed id, address indexed proposer, address indexed target, bytes data);
+
+    /**
+     * @dev Emitted when `signer` has approved an operation.
+     */
+    event OperationApproved(uint256 indexed id, address indexed signer);
+
+    /**
+     * @dev Emitted when an operation has reached the threshold and is executable from `eta`.
+     */
+    event OperationQueued(uint256 indexed id, uint64 eta);
+
+    /**
+     * @dev Emitted when `executor` has executed an operation.
+     */
+    event OperationExecuted(uint256 indexed id, address indexed executor);
+
+    /**
+     * @dev Emitted when `signer` has cancelled an operation.
+     */
+    event OperationCancelled(uint256 indexed id, address indexed signer);
+
+    /**
+     * @dev Thrown when `account` is not a signer.
+     */
+    error NotSigner(address account);
+
+    /**
+     * @dev Thrown when `caller` is not this contract itself.
+     */
+    error CallerNotSelf(address caller);
+
+    /**
+     * @dev Thrown when a signer is the zero address or already a signer.
+     */
+    error InvalidSigner(address signer);
+
+    /**
+     * @dev Thrown when the threshold is zero or above the number of signers.
+     */
+    error InvalidThreshold(uint256 threshold, uint256 signerCount);
+
+    /**
+     * @dev Thrown when the target of an operation is the zero address.
+     */
+    error InvalidTarget(address target);
+
+    /**
+     * @dev Thrown when the operation `id` is neither proposed nor queued.
+     */
+    error OperationNotPending(uint256 id, OperationStatus status);
+
+    /**
+     * @dev Thrown when the operation `id` is not queued.
+     */
+    error OperationNotQueued(uint256 id, OperationStatus status);
+
+    /**
+     * @dev Thrown when the delay of the operation `id` has not passed until `eta`.
+     */
+    error OperationNotReady(uint256 id, uint64 eta);
+
+    /**
+     * @dev Thrown when `signer` has already approved the operation `id`.
+     */
+    error AlreadyApproved(uint256 id, address signer);
+
+    /**
+     * @dev Thrown when the operation `id` does not exist.
+     */
+    error NonexistentOperation(uint256 id);
+
+    /**
+     * @dev Throws if the caller is not a signer.
+     */
+    modifier onlySigner() {
+        if (!_signers.contains(msg.sender)) {
+            revert NotSigner(msg.sender);
+        }
+        _;
+    }
+
+    /**
+     * @dev Throws if the caller is not this contract itself, i.e. not an executed operation.
+     */
+    modifier onlySelf() {
+        if (msg.sender != address(this)) {
+            revert CallerNotSelf(msg.sender);
+        }
+        _;
+    }
+
+    constructor(address[] memory signers_, uint256 threshold_, uint64 delay_) {
+        for (uint256 i = 0; i < signers_.length; i++) {
+            _addSigner(signers_[i]);
+        }
+
+        _setThreshold(threshold_);
+        _setDelay(delay_);
+    }
+
+    /**
+     * @dev Returns the signers.
+     */
+    function signers() external view returns (address[] memory) {
+        return _signers.values();
+    }
+
+    /**
+     * @dev Returns true if `account` is a signer.
+     */
+    function isSigner(address account) external view returns (bool) {
+        return _signers.contains(account);
+    }
+
+    /**
+     * @dev Returns the number of signer approvals an operation needs to be queued.
+     */
+    function threshold() external view returns (uint256) {
+        return _threshold;
+    }
+
+    /**
+     * @dev Returns the duration an operation is queued before it is allowed to be executed.
+     */
+    function delay() external view returns (uint64) {
+        return _delay;
+    }
+
+    /**
+     * @dev Returns the number of operations.
+     */
+    function operationCount() external view returns (uint256) {
+        return _operations.length;
+    }
+
+    /**
+     * @dev Returns the operation of a given id.
+     * @param id The id of the operation to query.
+     * @return address The target of the call.
+     * @return bytes The calldata of the call.
+     * @return uint64 The time from which the operation is allowed to be executed, zero until it is queued.
+     * @return OperationStatus The status of the operation.
+     */
+    function operationOf(uint256 id) external view returns (address, bytes memory, uint64, OperationStatus) {
+        Operation memory operation = _getOperation(id);
+        return (operation.target, operation.data, operation.eta, operation.status);
+    }
+
+    /**
+     * @dev Returns true if `signer` has approved the operation `id`.
+     */
+    function hasApproved(uint256 id, address signer) external view returns (bool) {
+        return _approved[id][signer];
+    }
+
+    /**
+     * @dev Returns the number of current signers that have approved the operation `id`.
+     */
+    function approvalCount(uint256 id) public view returns (uint256) {
+        uint256 count = 0;
+        uint256 length = _signers.length();
+        for (uint256 i = 0; i < length; i++) {
+            if (_approved[id][_signers.at(i)]) {
+                count++;
+            }
+        }
+
+        return count;
+    }
+
+    /**
+     * @dev Proposes the call of `data` on `target`, approved by the caller.
+     *
+     * Emits an {OperationProposed} and an {OperationApproved} event, and an {OperationQueued}
+     * event when the threshold is one.
+     *
+     * Requirements:
+     *
+     * - `target` must not be the zero address.
+     * - the caller must be a signer.
+     */
+    function propose(address target, bytes calldata data) external onlySigner returns (uint256) {
+        if (target == address(0)) {
+            revert InvalidTarget(target);
+        }
+
+        uint256 id = _operations.length;
+        _operations.push(Operation({target: target, data: data, eta: 0, status: OperationStatus.Proposed}));
+
+        emit OperationProposed(id, msg.sender, target, data);
+
+        _approve(id, msg.sender);
+
+        return id;
+    }
+
+    /**
+     * @dev Approves the operation `id`, queuing it once approved by the threshold of signers.
+     *
+     * Emits an {OperationApproved} event, and an {OperationQueued} event when the threshold is reached.
+     *
+     * Requirements:
+     *
+     * - the operation must be proposed or queued.
+     * - the caller must be a signer that has not approved the operation.
+     */
+    function approve(uint256 id) external onlySigner {
+        _getPendingOperation(id);
+
+        _approve(id, msg.sender);
+    }
+
+    /**
+     * @dev Executes the call of the operation `id`, bubbling up its revert.
+     *
+     * Emits an {OperationExecuted} event.
+     *
+     * Requirements:
+     *
+     * - the operation must be queued and its delay passed.
+     * - the caller must be a signer.
+     */
+    function execute(uint256 id) external onlySigner {
+        Operation storage operation = _getOperation(id);
+        if (operation.status != OperationStatus.Queued) {
+            revert OperationNotQueued(id, operation.status);
+        }
+        if (block.timestamp < operation.eta) {
+            revert OperationNotReady(id, operation.eta);
+        }
+
+        operation.status = OperationStatus.Executed;
+
+        Address.functionCall(operation.target, operation.data);
+
+        emit OperationExecuted(id, msg.sender);
+    }
+
+    /**
+     * @dev Cancels the operation `id`.
+     *
+     * Emits an {OperationCancelled} event.
+     *
+     * Requirements:
+     *
+     * - the operation must be proposed or queued.
+     * - the caller must be a signer.
+     */
+    function cancel(uint256 id) external onlySigner {
+        Operation storage operation = _getPendingOperation(id);
+
+        operation.status = OperationStatus.Cancelled;
+
+        emit OperationCancelled(id, msg.sender);
+    }
+
+    /**
+     * @dev Accepts the pending transfer of `DEFAULT_ADMIN_ROLE` of `target` to this contract,
+     * see {InvestmentTokenM-acceptAdmin}. Accepting only hands the role to this contract, so
+     * any account is allowed to call it, e.g. the deployer at the end of the deployment.
+     *
+     * Requirements:
+     *
+     * - this contract must be the pending admin of `target`.
+     */
+    function acceptAdmin(address target) external {
+        Address.functionCall(target, abi.encodeWithSignature("acceptAdmin()"));
+    }
+
+    /**
+     * @dev Adds `signer` to the signers.
+     *
+     * Emits a {SignerAdded} event.
+     *
+     * Requirements:
+     *
+     * - `signer` must not be the zero address or a signer.
+     * - the caller must be this contract itself.
+     */
+    function addSigner(address signer) external onlySelf {
+        _addSigner(signer);
+    }
+
+    /**
+     * @dev Removes `signer` from the signers. Its approvals no longer count towards the threshold.
+     *
+     * Emits a {SignerRemoved} event.
+     *
+     * Requirements:
+     *
+     * - `signer` must be a signer.
+     * - the threshold must not exceed the remaining signers.
+     * - the caller must be this contract itself.
+     */
+    function removeSigner(address signer) external onlySelf {
+        if (!_signers.remove(signer)) {
+            revert NotSigner(signer);
+        }
+        if (_threshold > _signers.length()) {
+            revert InvalidThreshold(_threshold, _signers.length());
+        }
+
+        emit SignerRemoved(signer);
+    }
+
+    /**
+     * @dev Sets the approval threshold of the next approvals, see {threshold}.
+     *
+     * Emits a {ThresholdChanged} event.
+     *
+     * Requirements:
+     *
+     * - `newThreshold` must not be zero or above the number of signers.
+     * - the caller must be this contract itself.
+     */
+    function setThreshold(uint256 newThreshold) external onlySelf {
+        _setThreshold(newThreshold);
+    }
+
+    /**
+     * @dev Sets the timelock delay of the next queued operations, see {delay}.
+     *
+     * Emits a {DelayChanged} event.
+     *
+     * Requirements:
+     *
+     * - the caller must be this contract itself.
+     */
+    function setDelay(uint64 newDelay) external onlySelf {
+        _setDelay(newDelay);
+    }
+
+    /**
+     * @dev Records the approval of `signer`, queuing the operation `id` once the threshold is reached.
+     */
+    function _approve(uint256 id, address signer) private {
+        if (_approved[id][signer]) {
+            revert AlreadyApproved(id, signer);
+        }
+
+        _approved[id][signer] = true;
+
+        emit OperationApproved(id, signer);
+
+        Operation storage operation = _operations[id];
+        if (operation.status == OperationStatus.Proposed && approvalCount(id) >= _threshold) {
+            operation.status = OperationStatus.Queued;
+            operation.eta = uint64(block.timestamp) + _delay;
+
+            emit OperationQueued(id, operation.eta);
+        }
+    }
+
+    /**
+     * @dev Adds `signer` to the signers.
+     */
+    function _addSigner(address signer) private {
+        if (signer == address(0) || !_signers.add(signer)) {
+            revert InvalidSigner(signer);
+        }
+
+        emit SignerAdded(signer);
+    }
+
+    /**
+     * @dev Sets the approval threshold to `newThreshold`.
+     */
+    function _setThreshold(uint256 newThreshold) private {
+        if (newThreshold == 0 || newThreshold > _signers.length()) {
+            revert InvalidThreshold(newThreshold, _signers.length());
+        }
+
+        emit ThresholdChanged(_threshold, newThreshold);
+
+        _threshold = newThreshold;
+    }
+
+    /**
+     * @dev Sets the timelock delay to `newDelay`.
+     */
+    function _setDelay(uint64 newDelay) private {
+        emit DelayChanged(_delay, newDelay);
+
+        _delay = newDelay;
+    }
+
+    /**
+     * @dev Returns the proposed or queued operation of a given id.
+     */
+    function _getPendingOperation(uint256 id) private view returns (Operation storage) {
+        Operation storage operation = _getOperation(id);
+        if (operation.status != OperationStatus.Proposed && operation.status != OperationStatus.Queued) {
+            revert OperationNotPending(id, operation.status);
+        }
+
+        return operation;
+    }
+
+    /**
+     * @dev Returns the operation of a given id.
+     */
+    function _getOperation(uint256 id) private view returns (Operation storage) {
+        if (id >= _operations.length) {
+            revert NonexistentOperation(id);
+        }
+
+        return _operations[id];
+    }
+}
@@ -0,0 +1,285 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/InvestmentTokenMAdminModule.sol)
+pragma solidity 0.8.25;
+
+import {ERC20Mintable} from "../extensions/ERC20Mintable.sol";
+import {ERC20TransferLimitable} from "../extensions/ERC20TransferLimitable.sol";
+import {ERC20Vestable} from "../extensions/ERC20Vestable.sol";
+import {ERC20Freezable} from "../extensions/ERC20Freezable.sol";
+import {ERC20HoldingLimitable} from "../extensions/ERC20HoldingLimitable.sol";
+import {ERC20Compliance} from "../extensions/ERC20Compliance.sol";
+import {ERC20AllowListableProxy} from "../extensions/ERC20AllowListableProxy.sol";
+import {EmergencyWithdrawable} from "../extensions/EmergencyWithdrawable.sol";
+import {InvestmentTokenMBase} from "./InvestmentTokenMBase.sol";
+import {TransferRestrictions} from "./TransferRestrictions.sol";
+import {AccessControlUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import {ERC20Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
+import {PausableUpgradeable} from "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
+import {ERC20BurnableUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20BurnableUpgradeable.sol";
+import {ERC20PermitUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/draft-ERC20PermitUpgradeable.sol";
+import {ERC20SnapshotUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20SnapshotUpgradeable.sol";
+
+/**
+ * @dev Module executing the administrative functions of {InvestmentTokenMBase}, which keeps the
+ * token under the contract size limit.
+ *
+ * The token checks the role of the caller, then delegates the call to this module, so that the
+ * functions below run on the storage of the token. The module therefore inherits the modules of
+ * the token in the same order, which lays out their storage the same way, and must not declare
+ * any state variable of its own.
+ *
+ * Called directly, the module only changes its own storage, which nothing reads.
+ */
+contract InvestmentTokenMAdminModule is AccessControlUpgradeable, PausableUpgradeable, ERC20BurnableUpgradeable, ERC20PermitUpgradeable, ERC20SnapshotUpgradeable, ERC20Mintable, ERC20TransferLimitable, ERC20Vestable, ERC20Freezable, ERC20HoldingLimitable, ERC20Compliance, ERC20AllowListableProxy, EmergencyWithdrawable {
+    /**
+     * @dev See {InvestmentTokenMBase-setAllowlistRegistry}.
+     */
+    function setAllowlistRegistry(address allowlistRegistry) external {
+        _setAllowlistRegistry(allowlistRegistry);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-enableTransferLimitable}.
+     */
+    function enableTransferLimitable() external {
+        _enableTransferLimitable();
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-disableTransferLimitable}.
+     */
+    function disableTransferLimitable() external {
+        _disableTransferLimitable();
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-setTransferLimit}.
+     */
+    function setTransferLimit(address account, uint256 amount) external {
+        _setTransferLimit(account, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-setPeriodicTransferLimit}.
+     */
+    function setPeriodicTransferLimit(address account, uint256 cap, uint256 period) external {
+        _setPeriodicTransferLimit(account, cap, period);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-unsetTransferLimit}.
+     */
+    function unsetTransferLimit(address account) external {
+        _unsetTransferLimit(account);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-increaseTransferLimit}.
+     */
+    function increaseTransferLimit(address account, uint256 amount) external {
+        _increaseTransferLimit(account, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-decreaseTransferLimit}.
+     */
+    function decreaseTransferLimit(address account, uint256 amount) external {
+        _decreaseTransferLimit(account, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-setReceiveLimit}.
+     */
+    function setReceiveLimit(address account, uint256 amount) external {
+        _setReceiveLimit(account, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-setPeriodicReceiveLimit}.
+     */
+    function setPeriodicReceiveLimit(address account, uint256 cap, uint256 period) external {
+        _setPeriodicReceiveLimit(account, cap, period);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-unsetReceiveLimit}.
+     */
+    function unsetReceiveLimit(address account) external {
+        _unsetReceiveLimit(account);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-increaseReceiveLimit}.
+     */
+    function increaseReceiveLimit(address account, uint256 amount) external {
+        _increaseReceiveLimit(account, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-decreaseReceiveLimit}.
+     */
+    function decreaseReceiveLimit(address account, uint256 amount) external {
+        _decreaseReceiveLimit(account, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-setGlobalTransferLimit}.
+     */
+    function setGlobalTransferLimit(uint256 cap, uint256 period) external {
+        _setGlobalTransferLimit(cap, period);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-unsetGlobalTransferLimit}.
+     */
+    function unsetGlobalTransferLimit() external {
+        _unsetGlobalTransferLimit();
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-setVestingSchedule}.
+     */
+    function setVestingSchedule(address account, uint64 start, uint64 cliff, uint64 duration, uint256 total) external {
+        _setVestingSchedule(account, start, cliff, duration, total);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-removeVestingSchedule}.
+     */
+    function removeVestingSchedule(address account) external {
+        _removeVestingSchedule(account);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-setMaxBalance}.
+     */
+    function setMaxBalance(address account, uint256 amount) external {
+        _setMaxBalance(account, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-setTierMaxBalance}.
+     */
+    function setTierMaxBalance(uint8 tier, uint256 amount) external {
+        _setTierMaxBalance(tier, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-setMaxHolderCount}.
+     */
+    function setMaxHolderCount(uint256 count) external {
+        _setMaxHolderCount(count);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-setMaxSupply}.
+     */
+    function setMaxSupply(uint256 newMaxSupply) external {
+        _setMaxSupply(newMaxSupply, totalSupply());
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-renounceMintable}.
+     */
+    function renounceMintable() external {
+        _renounceMintable();
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-freeze}.
+     */
+    function freeze(address account) external {
+        _freeze(account);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-unfreeze}.
+     */
+    function unfreeze(address account) external {
+        _unfreeze(account);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-freezeAmount}.
+     */
+    function freezeAmount(address account, uint256 amount) external {
+        _freezeAmount(account, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-addComplianceModule}.
+     */
+    function addComplianceModule(address module) external {
+        _addComplianceModule(module);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-removeComplianceModule}.
+     */
+    function removeComplianceModule(address module) external {
+        _removeComplianceModule(module);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-emergencyWithdraw}.
+     */
+    function emergencyWithdraw(Asset asset, address token, uint256 id, uint256 amount) external {
+        _emergencyWithdraw(asset, token, id, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-setTreasury}.
+     */
+    function setTreasury(address newTreasury) external {
+        _setTreasury(newTreasury);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-detectTransferRestriction}.
+     */
+    function detectTransferRestriction(address from, address to, uint256 amount) external view returns (uint8) {
+        return TransferRestrictions.detect(InvestmentTokenMBase(payable(address(this))), from, from, to, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-detectTransferFromRestriction}.
+     */
+    function detectTransferFromRestriction(address operator, address from, address to, uint256 amount) external view returns (uint8) {
+        return TransferRestrictions.detect(InvestmentTokenMBase(payable(address(this))), operator, from, to, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-messageForTransferRestriction}.
+     */
+    function messageForTransferRestriction(uint8 code) external pure returns (string memory) {
+        return TransferRestrictions.messageFor(code);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-_beforeTokenTransfer}.
+     */
+    function _beforeTokenTransfer(address from, address to, uint256 amount) internal virtual override(ERC20Upgradeable, ERC20SnapshotUpgradeable) {
+        super._beforeTokenTransfer(from, to, amount);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-_tierOf}.
+     */
+    function _tierOf(address account) internal view virtual override returns (uint8) {
+        return _allowlistTierOf(account);
+    }
+
+    /**
+     * @dev See {InvestmentTokenMBase-_isCustodied}.
+     */
+    function _isCustodied(address token) internal view virtual override returns (bool) {
+        return token == address(this);
+    }
+
+    /**
+     * @dev See {IERC20-balanceOf}.
+     */
+    function balanceOf(address account) public view virtual override(ERC20Upgradeable, ERC20Vestable, ERC20Freezable, ERC20HoldingLimitable) returns (uint256) {
+        return super.balanceOf(account);
+    }
+}
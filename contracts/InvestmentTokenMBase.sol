@@ -0,0 +1,1297 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/InvestmentTokenMBase.sol)
+pragma solidity 0.8.25;
+
+import {InvestmentTokenMAdminModule} from "./InvestmentTokenMAdminModule.sol";
+import {ERC20Mintable} from "../extensions/ERC20Mintable.sol";
+import {ERC20TransferLimitable} from "../extensions/ERC20TransferLimitable.sol";
+import {ERC20Vestable} from "../extensions/ERC20Vestable.sol";
+import {ERC20Freezable} from "../extensions/ERC20Freezable.sol";
+import {ERC20HoldingLimitable} from "../extensions/ERC20HoldingLimitable.sol";
+import {ERC20Compliance} from "../extensions/ERC20Compliance.sol";
+import {ERC20AllowListableProxy} from "../extensions/ERC20AllowListableProxy.sol";
+import {EmergencyWithdrawable} from "../extensions/EmergencyWithdrawable.sol";
+import {AccessControlUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import {ERC20Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
+import {PausableUpgradeable} from "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
+import {ERC20BurnableUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20BurnableUpgradeable.sol";
+import {ERC20PermitUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/draft-ERC20PermitUpgradeable.sol";
+import {ERC20SnapshotUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20SnapshotUpgradeable.sol";
+
+/**
+ * @dev {ERC20} token, including:
+ *
+ *  - Ability for holders to burn (destroy) their tokens
+ *  - Ability for holders to approve through a signed permit (EIP-2612)
+ *  - The minter is allowed to mint token.
+ *  - The pauser is allowed to stop all token transfers.
+ *  - The snapshotter is allowed to record the balances and total supply for later retrieval.
+ *  - The limit manager is allowed to set a transfer and receive limit for a specific address, and a global transfer limit.
+ *  - The limit manager is allowed to lock up the balance of a specific address behind a vesting schedule.
+ *  - The limit manager is allowed to cap the balance of a specific address or allowlist tier, and the number of holders.
+ *  - The compliance officer is allowed to force transfer and burn token.
+ *  - The freezer is allowed to freeze a specific address, or a specific amount of its balance.
+ *  - The registry admin is allowed to set the allowlist registry for transfer and receive token.
+ *  - The allowlist bypass holder is allowed to transfer and receive token without being allowlisted.
+ *  - The default admin is allowed to add and remove compliance modules checked on every transfer.
+ *
+ * The account that initializes the contract will be granted all of the roles, and
+ * the default admin role can grant and revoke the roles to other accounts.
+ *
+ * The token is deployed either directly as {InvestmentTokenM}, or behind a proxy as
+ * {InvestmentTokenMUpgradeable}. The storage is laid out for upgrades in both cases.
+ *
+ * The administrative functions check the role of the caller, then are executed on the storage
+ * of the token by the {InvestmentTokenMAdminModule} deployed along with it, which keeps the
+ * token under the contract size limit.
+ *
+ * This contract uses {AccessControl} to include access control capabilities.
+ * This contract uses {Pausable} to include pause capabilities.
+ * This contract uses {ERC20Burnable} to include burn capabilities.
+ * This contract uses {ERC20Permit} to include gasless approval capabilities.
+ * This contract uses {ERC20Snapshot} to include balance snapshot capabilities.
+ * This contract uses {ERC20Mintable} to include mint control capabilities.
+ * This contract uses {ERC20TransferLimitable} to include transfer limit control capabilities.
+ * This contract uses {ERC20Vestable} to include vesting lockup capabilities.
+ * This contract uses {ERC20Freezable} to include account freeze capabilities.
+ * This contract uses {ERC20HoldingLimitable} to include holding limit capabilities.
+ * This contract uses {ERC20AllowListableProxy} to include transfer and receive control capabilities.
+ * This contract uses {EmergencyWithdrawable} to include emergency withdraw capabilities.
+ */
+abstract contract InvestmentTokenMBase is AccessControlUpgradeable, PausableUpgradeable, ERC20BurnableUpgradeable, ERC20PermitUpgradeable, ERC20SnapshotUpgradeable, ERC20Mintable, ERC20TransferLimitable, ERC20Vestable, ERC20Freezable, ERC20HoldingLimitable, ERC20Compliance, ERC20AllowListableProxy, EmergencyWithdrawable {
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant SNAPSHOT_ROLE = keccak256("SNAPSHOT_ROLE");
+    bytes32 public constant LIMIT_MANAGER_ROLE = keccak256("LIMIT_MANAGER_ROLE");
+    bytes32 public constant COMPLIANCE_ROLE = keccak256("COMPLIANCE_ROLE");
+    bytes32 public constant FREEZER_ROLE = keccak256("FREEZER_ROLE");
+    bytes32 public constant REGISTRY_ADMIN_ROLE = keccak256("REGISTRY_ADMIN_ROLE");
+    bytes32 public constant ALLOWLIST_BYPASS_ROLE = keccak256("ALLOWLIST_BYPASS_ROLE");
+
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address public immutable ADMIN_MODULE;
+
+    address private _pendingAdmin;
+    address private _previousAdmin;
+
+    /**
+     * @dev Emitted when `previousAdmin` has started to transfer `DEFAULT_ADMIN_ROLE` to `newAdmin`.
+     */
+    event AdminTransferStarted(address indexed previousAdmin, address indexed newAdmin);
+
+    /**
+     * @dev Emitted when `amount` tokens are force transferred from `from` to `to`, for the
+     * `reason` code and the off-chain case referenced by `caseId`.
+     */
+    event ForcedTransfer(address indexed from, address indexed to, uint256 amount, uint8 reason, bytes32 indexed caseId);
+
+    /**
+     * @dev Emitted when `amount` tokens of `account` are force burned, for the `reason` code
+     * and the off-chain case referenced by `caseId`.
+     */
+    event ForcedBurn(address indexed account, uint256 amount, uint8 reason, bytes32 indexed caseId);
+
+    /**
+     * @dev Thrown when the arrays of a batch, e.g. the `recipients` and `amounts` of a batch mint,
+     * have different lengths.
+     */
+    error ArrayLengthMismatch(uint256 recipients, uint256 amounts);
+
+    /**
+     * @dev Thrown when `caller` is not the pending admin.
+     */
+    error CallerNotPendingAdmin(address caller);
+
+    /**
+     * @dev Thrown when the new `wallet` of a wallet recovery already has a balance, limits,
+     * a vesting schedule or a freeze, which the recovery would overwrite.
+     */
+    error RecoveryWalletInUse(address wallet);
+
+    /**
+     * @dev Thrown when `previousAdmin`, which started the pending admin transfer, no longer has
+     * `DEFAULT_ADMIN_ROLE`.
+     */
+    error AdminTransferRevoked(address previousAdmin);
+
+    /**
+     * @dev Thrown when `DEFAULT_ADMIN_ROLE` is granted through {grantRole} instead of {transferAdmin}.
+     */
+    error AdminRoleNotGrantable();
+
+    /**
+     * @dev Thrown when a transfer, approval or burn is made while the contract is paused.
+     */
+    error TokenPaused();
+
+    /**
+     * @dev Deploys the {InvestmentTokenMAdminModule} executing the administrative functions.
+     */
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        ADMIN_MODULE = address(new InvestmentTokenMAdminModule());
+    }
+
+    /**
+     * @dev Sets the name, symbol and allowlist registry of the token, and grants all of
+     * the roles to the caller, see {Initializable}.
+     */
+    function __InvestmentTokenM_init(string memory name_, string memory symbol_, address allowlistRegistry_) internal onlyInitializing {
+        __Pausable_init();
+        __ERC20_init(name_, symbol_);
+        __ERC20Permit_init(name_);
+        __ERC20Mintable_init();
+        __ERC20TransferLimitable_init();
+
+        address sender = _msgSender();
+
+        _grantRole(DEFAULT_ADMIN_ROLE, sender);
+        _grantRole(MINTER_ROLE, sender);
+        _grantRole(PAUSER_ROLE, sender);
+        _grantRole(SNAPSHOT_ROLE, sender);
+        _grantRole(LIMIT_MANAGER_ROLE, sender);
+        _grantRole(COMPLIANCE_ROLE, sender);
+        _grantRole(FREEZER_ROLE, sender);
+        _grantRole(REGISTRY_ADMIN_ROLE, sender);
+        _grantRole(ALLOWLIST_BYPASS_ROLE, sender);
+
+        _setAllowlistRegistry(allowlistRegistry_);
+    }
+
+    /**
+     * @dev Throws if sender, receiver or the caller are not allowlisted account,
+     * unless the caller has `ALLOWLIST_BYPASS_ROLE`.
+     */
+    modifier onlyAllowlist(address sender, address receiver) {
+        _validateAllowlist(sender, receiver);
+        _;
+    }
+
+    /**
+     * @dev See {ERC20AllowListableProxy-_setAllowlistRegistry}
+     * 
+     * Set the `allowlistRegistry` contract address.
+     * 
+     * Emits a {AllowlistRegistryChanged} event indicating allowlist registry has changed.
+     *
+     * Requirements:
+     *
+     * - the caller must have `REGISTRY_ADMIN_ROLE`.
+     */
+    function setAllowlistRegistry(address /* allowlistRegistry */) external virtual onlyRole(REGISTRY_ADMIN_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_enableTransferLimitable}
+     * 
+     * Enables transfer limits.
+     * 
+     * Emits a {EnableERC20TransferLimit} event indicating transfer limit are enabled.
+     *
+     * Requirements:
+     *
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function enableTransferLimitable() external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_disableTransferLimitable}
+     *
+     * Disables transfer limits.
+     * 
+     * Emits a {DisableERC20TransferLimit} event indicating transfer limit are disabled.
+     * 
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function disableTransferLimitable() external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_setTransferLimit}.
+     *
+     * Sets an account's transfer limit.
+     *
+     * Emits an {SetTransferLimit} event indicating that account has set transfer limit.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function setTransferLimit(address /* account */, uint256 /* amount */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_setPeriodicTransferLimit}.
+     *
+     * Sets an account's transfer limit that is replenished to `cap` every `period` seconds.
+     *
+     * Emits an {SetPeriodicTransferLimit} event indicating that account has set periodic transfer limit.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function setPeriodicTransferLimit(address /* account */, uint256 /* cap */, uint256 /* period */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_unsetTransferLimit}.
+     *
+     * Unsets an account's transfer limit.
+     *
+     * Emits an {UnsetTransferLimit} event indicating that account has unset transfer limit.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function unsetTransferLimit(address /* account */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_increaseTransferLimit}.
+     *
+     * Increases the transfer limit for a specific account.
+     *
+     * Emits an {IncreaseTransferLimit} event indicating that the account's transfer limit has been increased.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function increaseTransferLimit(address /* account */, uint256 /* amount */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_decreaseTransferLimit}.
+     *
+     * Decreases the transfer limit for a specific account.
+     *
+     * Emits an {DecreaseTransferLimit} event indicating that the account's transfer limit has been decreased.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function decreaseTransferLimit(address /* account */, uint256 /* amount */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_setReceiveLimit}.
+     *
+     * Sets an account's receive limit.
+     *
+     * Emits an {SetReceiveLimit} event indicating that account has set receive limit.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function setReceiveLimit(address /* account */, uint256 /* amount */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_setPeriodicReceiveLimit}.
+     *
+     * Sets an account's receive limit that is replenished to `cap` every `period` seconds.
+     *
+     * Emits an {SetPeriodicReceiveLimit} event indicating that account has set periodic receive limit.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function setPeriodicReceiveLimit(address /* account */, uint256 /* cap */, uint256 /* period */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_unsetReceiveLimit}.
+     *
+     * Unsets an account's receive limit.
+     *
+     * Emits an {UnsetReceiveLimit} event indicating that account has unset receive limit.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function unsetReceiveLimit(address /* account */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_increaseReceiveLimit}.
+     *
+     * Increases the receive limit for a specific account.
+     *
+     * Emits an {IncreaseReceiveLimit} event indicating that the account's receive limit has been increased.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function increaseReceiveLimit(address /* account */, uint256 /* amount */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_decreaseReceiveLimit}.
+     *
+     * Decreases the receive limit for a specific account.
+     *
+     * Emits an {DecreaseReceiveLimit} event indicating that the account's receive limit has been decreased.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function decreaseReceiveLimit(address /* account */, uint256 /* amount */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_setGlobalTransferLimit}.
+     *
+     * Caps the total amount transferred through the contract to `cap` every `period` seconds.
+     *
+     * Emits a {SetGlobalTransferLimit} event indicating that the global transfer limit has been set.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function setGlobalTransferLimit(uint256 /* cap */, uint256 /* period */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20TransferLimit-_unsetGlobalTransferLimit}.
+     *
+     * Unsets the global transfer limit.
+     *
+     * Emits an {UnsetGlobalTransferLimit} event indicating that the global transfer limit has been unset.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function unsetGlobalTransferLimit() external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20Vestable-_setVestingSchedule}.
+     *
+     * Locks up `total` tokens of `account` until `start + cliff`, then unlocks them linearly until `start + duration`.
+     *
+     * Emits a {SetVestingSchedule} event indicating that account has set vesting schedule.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function setVestingSchedule(address /* account */, uint64 /* start */, uint64 /* cliff */, uint64 /* duration */, uint256 /* total */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20Vestable-_removeVestingSchedule}.
+     *
+     * Removes the vesting schedule of `account`, unlocking all of its tokens.
+     *
+     * Emits a {RemoveVestingSchedule} event indicating that account has removed vesting schedule.
+     *
+     * Requirements:
+     * 
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function removeVestingSchedule(address /* account */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20HoldingLimitable-_setMaxBalance}.
+     *
+     * Caps the balance of `account`, zero falls back to the max balance of its allowlist tier.
+     *
+     * Emits a {SetMaxBalance} event indicating that account has set max balance.
+     *
+     * Requirements:
+     *
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function setMaxBalance(address /* account */, uint256 /* amount */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20HoldingLimitable-_setTierMaxBalance}.
+     *
+     * Caps the balance of the accounts of allowlist `tier`, zero removes the limit.
+     *
+     * Emits a {SetTierMaxBalance} event indicating that tier has set max balance.
+     *
+     * Requirements:
+     *
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function setTierMaxBalance(uint8 /* tier */, uint256 /* amount */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20HoldingLimitable-_setMaxHolderCount}.
+     *
+     * Caps the number of accounts holding tokens, zero removes the limit.
+     *
+     * Emits a {SetMaxHolderCount} event.
+     *
+     * Requirements:
+     *
+     * - `count` must be zero or at least equal to the current holder count.
+     * - the caller must have `LIMIT_MANAGER_ROLE`.
+     */
+    function setMaxHolderCount(uint256 /* count */) external virtual onlyRole(LIMIT_MANAGER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20Mintable-_mint}
+     * 
+     * Creates `amount` new tokens for the caller.
+     *
+     * Requirements:
+     *
+     * - the caller must have `MINTER_ROLE`.
+     * - `_mintable` must not be renounced.
+     * - the total supply must not exceed the max supply.
+     */
+    function mint(uint256 amount) external virtual onlyRole(MINTER_ROLE) whenMintable {
+        _mint(msg.sender, amount);
+    }
+
+    /**
+     * @dev See {ERC20-_mint}
+     * 
+     * Creates `amount` new tokens for `to`.
+     *
+     * Requirements:
+     *
+     * - the caller must have `MINTER_ROLE`.
+     * - `_mintable` must not be renounced.
+     * - `to` must be allowlisted account and not frozen.
+     * - every compliance module must allow the mint.
+     * - the total supply must not exceed the max supply.
+     */
+    function mintTo(address to, uint256 amount) external virtual onlyRole(MINTER_ROLE) whenMintable {
+        _mintTo(to, amount);
+    }
+
+    /**
+     * @dev See {ERC20-_mint}
+     * 
+     * Creates `amounts[i]` new tokens for each `recipients[i]`.
+     *
+     * Requirements:
+     *
+     * - the caller must have `MINTER_ROLE`.
+     * - `_mintable` must not be renounced.
+     * - `recipients` and `amounts` must have the same length.
+     * - all `recipients` must be allowlisted account and not frozen.
+     * - every compliance module must allow the mints.
+     * - the total supply must not exceed the max supply.
+     */
+    function mintToMany(address[] calldata recipients, uint256[] calldata amounts) external virtual onlyRole(MINTER_ROLE) whenMintable {
+        if (recipients.length != amounts.length) {
+            revert ArrayLengthMismatch(recipients.length, amounts.length);
+        }
+
+        for (uint256 i = 0; i < recipients.length; i++) {
+            _mintTo(recipients[i], amounts[i]);
+        }
+    }
+
+    /**
+     * @dev See {ERC20Mintable-_setMaxSupply}
+     * 
+     * Caps the total supply to `newMaxSupply`. Once set, the max supply can only be decreased.
+     *
+     * Emits a {MaxSupplyChanged} event indicating the max supply has changed.
+     *
+     * Requirements:
+     *
+     * - the caller must have `DEFAULT_ADMIN_ROLE`.
+     * - `newMaxSupply` must be at least equal to the total supply.
+     */
+    function setMaxSupply(uint256 /* newMaxSupply */) external virtual onlyRole(DEFAULT_ADMIN_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20Mintable-_renounceMintable}
+     * 
+     * Leaves the contract without mint capabilities. It will not be possible to call
+     * `mint` functions anymore. Can only be called by the default admin and mintable is not renounced yet.
+     *
+     * Emits an {RenouncedMintable} event indicating the mintable renonuced.
+     *
+     * NOTE: Renouncing mintable will leave the contract without mint capabilities,
+     * thereby removing any functionality that is only available when mintable.
+     *
+     * Requirements:
+     *
+     * - the caller must have `DEFAULT_ADMIN_ROLE`.
+     * - `_mintable` must not be renounced.
+     */
+    function renounceMintable() external virtual onlyRole(DEFAULT_ADMIN_ROLE) whenMintable {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {IERC20-transfer}.
+     *
+     * Requirements:
+     *
+     * - `to` cannot be the zero address.
+     * - the caller must have a balance of at least `amount`.
+     * - the caller and `to` must be allowlisted account.
+     * - the contract must not be paused.
+     * - if transfer limits are enabled on an account, the caller must have a transfer limit at least equal to `amount`.
+     * - if receive limits are enabled on `to` account, `to` must have a receive limit at least equal to `amount`.
+     * - if the global transfer limit is enabled, the remaining global transfer limit must be at least equal to `amount`.
+     * - the caller's balance after the transfer must be at least equal to its locked balance.
+     * - the caller and `to` must not be frozen, and the caller's balance after the transfer must be at least equal to its frozen amount.
+     * - every compliance module must allow the transfer.
+     */
+    function transfer(address to, uint256 amount) public virtual override returns (bool) {
+        _validateTransfer(msg.sender, to, amount);
+
+        return super.transfer(to, amount);
+    }
+
+    /**
+     * @dev See {IERC20-approve}.
+     *
+     * NOTE: If `amount` is the maximum `uint256`, the allowance is not updated on
+     * `transferFrom`. This is semantically equivalent to an infinite approval.
+     *
+     * Requirements:
+     *
+     * - `spender` cannot be the zero address.
+     * - the caller and `spender` must be allowlisted account.
+     * - the contract must not be paused.
+     * - the caller and `spender` must not be frozen.
+     */
+    function approve(address spender, uint256 amount) public virtual override returns (bool) {
+        _validateApproval(msg.sender, spender);
+
+        return super.approve(spender, amount);
+    }
+
+    /**
+     * @dev See {IERC20Permit-permit}.
+     *
+     * Sets `value` as the allowance of `spender` over `owner`'s tokens,
+     * given `owner`'s signed approval.
+     *
+     * Requirements:
+     *
+     * - `spender` cannot be the zero address.
+     * - `deadline` must be a timestamp in the future.
+     * - `v`, `r` and `s` must be a valid `secp256k1` signature from `owner`
+     * over the EIP712-formatted function arguments, using the current nonce of `owner`.
+     * - `owner`, `spender` and the caller must be allowlisted account.
+     * - the contract must not be paused.
+     * - `owner`, `spender` and the caller must not be frozen.
+     */
+    function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) public virtual override {
+        _validateApproval(owner, spender);
+
+        super.permit(owner, spender, value, deadline, v, r, s);
+    }
+
+    /**
+     * @dev See {IERC20-transferFrom}.
+     *
+     * Emits an {Approval} event indicating the updated allowance. This is not
+     * required by the EIP. See the note at the beginning of {ERC20}.
+     *
+     * NOTE: Does not update the allowance if the current allowance
+     * is the maximum `uint256`.
+     *
+     * Requirements:
+     *
+     * - `from` and `to` cannot be the zero address.
+     * - `from` must have a balance of at least `amount`.
+     * - the caller must have allowance for `from`'s tokens of at least `amount`.
+     * - the caller and `spender` must be allowlisted account.
+     * - the contract must not be paused.
+     * - if transfer limits are enabled on an `from` account, the caller must have a transfer limit at least equal to `amount`.
+     * - if receive limits are enabled on `to` account, `to` must have a receive limit at least equal to `amount`.
+     * - if the global transfer limit is enabled, the remaining global transfer limit must be at least equal to `amount`.
+     * - `from`'s balance after the transfer must be at least equal to its locked balance.
+     * - `from`, `to` and the caller must not be frozen, and `from`'s balance after the transfer must be at least equal to its frozen amount.
+     * - every compliance module must allow the transfer.
+     */
+    function transferFrom(address from, address to, uint256 amount) public virtual override returns (bool) {
+        _validateTransfer(from, to, amount);
+
+        return super.transferFrom(from, to, amount);
+    }
+
+    /**
+     * @dev See {IERC20-increaseAllowance}.
+     * 
+     * Atomically increases the allowance granted to `spender` by the caller.
+     *
+     * This is an alternative to {approve} that can be used as a mitigation for
+     * problems described in {IERC20-approve}.
+     *
+     * Emits an {Approval} event indicating the updated allowance.
+     *
+     * Requirements:
+     *
+     * - `spender` cannot be the zero address.
+     * - the caller and `spender` must be allowlisted account.
+     * - the contract must not be paused.
+     * - the caller and `spender` must not be frozen.
+     */
+    function increaseAllowance(address spender, uint256 addedValue) public override virtual returns (bool) {
+        _validateApproval(msg.sender, spender);
+
+        return super.increaseAllowance(spender, addedValue);
+    }
+
+    /**
+     * @dev See {IERC20-decreaseAllowance}.
+     * 
+     * Atomically decreases the allowance granted to `spender` by the caller.
+     *
+     * This is an alternative to {approve} that can be used as a mitigation for
+     * problems described in {IERC20-approve}.
+     *
+     * Emits an {Approval} event indicating the updated allowance.
+     *
+     * Requirements:
+     *
+     * - `spender` cannot be the zero address.
+     * - `spender` must have allowance for the caller of at least
+     * `subtractedValue`.
+     * - the caller and `spender` must be allowlisted account.
+     * - the contract must not be paused.
+     * - the caller and `spender` must not be frozen.
+     */
+    function decreaseAllowance(address spender, uint256 subtractedValue) public override virtual returns (bool) {
+        _validateApproval(msg.sender, spender);
+
+        return super.decreaseAllowance(spender, subtractedValue);
+    }
+
+    /**
+     * @dev See {ERC20-_burn}.
+     * 
+     * Destroys `amount` tokens from the caller.
+     *
+     * Requirements:
+     *
+     * - the caller must be allowlisted account.
+     * - the contract must not be paused.
+     * - the caller's balance after the burn must be at least equal to its locked balance.
+     * - the caller must not be frozen, and its balance after the burn must be at least equal to its frozen amount.
+     */
+    function burn(uint256 amount) public virtual override {
+        _validateBurn(msg.sender, amount);
+
+        super.burn(amount);
+    }
+
+    /**
+     * @dev See {ERC20-_burn} and {ERC20-allowance}.
+     * 
+     * Destroys `amount` tokens from `account`, deducting from the caller's
+     * allowance.
+     *
+     * Requirements:
+     *
+     * - the caller must have allowance for `accounts`'s tokens of at least
+     * `amount`.
+     * - the caller and `account` must be allowlisted account.
+     * - the contract must not be paused.
+     * - `account`'s balance after the burn must be at least equal to its locked balance.
+     * - `account` and the caller must not be frozen, and `account`'s balance after the burn must be at least equal to its frozen amount.
+     */
+    function burnFrom(address account, uint256 amount) public virtual override {
+        _validateBurn(account, amount);
+
+        super.burnFrom(account, amount);
+    }
+
+    /**
+     * @dev Force transfer by the compliance officer, for the `reason` code and the off-chain
+     * case referenced by `caseId`.
+     *
+     * Emits a {ForcedTransfer} event.
+     *
+     * Requirements:
+     *
+     * - `from` cannot be the zero address.
+     * - `from` must have a balance of at least `amount`.
+     * - `to` cannot be the zero address.
+     * - the caller must have `COMPLIANCE_ROLE`.
+     */
+    function adminTransfer(address from, address to, uint256 amount, uint8 reason, bytes32 caseId) external virtual onlyRole(COMPLIANCE_ROLE) {
+        _forceTransfer(from, to, amount, reason, caseId);
+    }
+
+    /**
+     * @dev Force burn by the compliance officer, for the `reason` code and the off-chain case
+     * referenced by `caseId`.
+     *
+     * Emits a {ForcedBurn} event.
+     *
+     * Requirements:
+     *
+     * - `account` cannot be the zero address.
+     * - `account` must have a balance of at least `amount`.
+     * - the caller must have `COMPLIANCE_ROLE`.
+     */
+    function adminBurn(address account, uint256 amount, uint8 reason, bytes32 caseId) external virtual onlyRole(COMPLIANCE_ROLE) {
+        _burn(account, amount);
+
+        emit ForcedBurn(account, amount, reason, caseId);
+    }
+
+    /**
+     * @dev Recovers lost wallets by the compliance officer, moving the full balance, the transfer
+     * and receive limits, the vesting schedule and the freeze of each of `lostWallets` to the same
+     * index of `newWallets`, for the `reason` code and the off-chain case referenced by `caseId`.
+     *
+     * Emits a {ForcedTransfer}, a {MoveTransferLimit}, a {MoveVestingSchedule} and a {MoveFreeze}
+     * event for each wallet.
+     *
+     * Requirements:
+     *
+     * - `lostWallets` and `newWallets` must have the same length.
+     * - each of `lostWallets` cannot be the zero address.
+     * - each of `newWallets` must be allowlisted account, without balance, limits, vesting
+     * schedule nor freeze.
+     * - the caller must have `COMPLIANCE_ROLE`.
+     */
+    function recoverWallets(address[] calldata lostWallets, address[] calldata newWallets, uint8 reason, bytes32 caseId) external virtual onlyRole(COMPLIANCE_ROLE) {
+        if (lostWallets.length != newWallets.length) {
+            revert ArrayLengthMismatch(lostWallets.length, newWallets.length);
+        }
+
+        for (uint256 i = 0; i < lostWallets.length; i++) {
+            address lostWallet = lostWallets[i];
+            address newWallet = newWallets[i];
+            if (!isAllowlist(newWallet)) {
+                revert NotAllowlisted(newWallet);
+            }
+            if (balanceOf(newWallet) != 0 || _hasTransferLimit(newWallet) || _hasVestingSchedule(newWallet) || _hasFreeze(newWallet)) {
+                revert RecoveryWalletInUse(newWallet);
+            }
+
+            _forceTransfer(lostWallet, newWallet, balanceOf(lostWallet), reason, caseId);
+            _moveTransferLimit(lostWallet, newWallet);
+            _moveVestingSchedule(lostWallet, newWallet);
+            _moveFreeze(lostWallet, newWallet);
+        }
+    }
+
+    /**
+     * @dev See {ERC20Freezable-_freeze}.
+     *
+     * Freezes `account`, which can no longer send, receive, burn or approve tokens.
+     *
+     * Emits a {Freeze} event indicating that account has frozen.
+     *
+     * Requirements:
+     *
+     * - the account must not be frozen.
+     * - the caller must have `FREEZER_ROLE`.
+     */
+    function freeze(address /* account */) external virtual onlyRole(FREEZER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20Freezable-_unfreeze}.
+     *
+     * Emits an {Unfreeze} event indicating that account has unfrozen.
+     *
+     * Requirements:
+     *
+     * - the account must be frozen.
+     * - the caller must have `FREEZER_ROLE`.
+     */
+    function unfreeze(address /* account */) external virtual onlyRole(FREEZER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20Freezable-_freezeAmount}.
+     *
+     * Freezes `amount` of the balance of `account`, which can no longer spend its balance below it.
+     *
+     * Emits a {FreezeAmount} event indicating that account has set frozen amount.
+     *
+     * Requirements:
+     *
+     * - the caller must have `FREEZER_ROLE`.
+     */
+    function freezeAmount(address /* account */, uint256 /* amount */) external virtual onlyRole(FREEZER_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20Compliance-_addComplianceModule}.
+     *
+     * Appends `module` to the compliance modules checked on every transfer.
+     *
+     * Emits a {ComplianceModuleAdded} event.
+     *
+     * Requirements:
+     *
+     * - `module` cannot be the zero address nor already added.
+     * - the caller must have `DEFAULT_ADMIN_ROLE`.
+     */
+    function addComplianceModule(address /* module */) external virtual onlyRole(DEFAULT_ADMIN_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20Compliance-_removeComplianceModule}.
+     *
+     * Emits a {ComplianceModuleRemoved} event.
+     *
+     * Requirements:
+     *
+     * - `module` must be added.
+     * - the caller must have `DEFAULT_ADMIN_ROLE`.
+     */
+    function removeComplianceModule(address /* module */) external virtual onlyRole(DEFAULT_ADMIN_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {ERC20Pausable} and {Pausable-_pause}.
+     * 
+     * Pauses all token transfers.
+     *
+     * Requirements:
+     *
+     * - the caller must have `PAUSER_ROLE`.
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @dev See {ERC20Pausable} and {Pausable-_unpause}.
+     * 
+     * Unpauses all token transfers.
+     *
+     * Requirements:
+     *
+     * - the caller must have `PAUSER_ROLE`.
+     */
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @dev See {ERC20Snapshot-_snapshot}.
+     *
+     * Records the balances and total supply, retrievable with {balanceOfAt} and {totalSupplyAt}.
+     *
+     * Emits a {Snapshot} event that contains the id of the created snapshot.
+     *
+     * Requirements:
+     *
+     * - the caller must have `SNAPSHOT_ROLE`.
+     */
+    function snapshot() external onlyRole(SNAPSHOT_ROLE) returns (uint256) {
+        return _snapshot();
+    }
+
+    /**
+     * @dev See {EmergencyWithdrawable-_emergencyWithdraw}.
+     * 
+     * Withdraw `amount` of `asset` from (this) contract to the treasury.
+     *
+     * The contract accepts Ether, see {receive}, which is recovered through this function. It
+     * rejects ERC721 and ERC1155 safe transfers, so only the tokens sent regardless (e.g. by a
+     * plain ERC721 `transferFrom` or before deployment) are stuck in it.
+     *
+     * Requirements:
+     *
+     * - the caller must have `DEFAULT_ADMIN_ROLE`.
+     */
+    function emergencyWithdraw(Asset /* asset */, address /* token */, uint256 /* id */, uint256 /* amount */) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev See {EmergencyWithdrawable-_setTreasury}.
+     *
+     * Requirements:
+     *
+     * - the caller must have `DEFAULT_ADMIN_ROLE`.
+     */
+    function setTreasury(address /* newTreasury */) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _delegateToAdminModule();
+    }
+
+    /**
+     * @dev Accepts Ether, which the contract does not use, so that it is recovered through
+     * {emergencyWithdraw} rather than rejected.
+     */
+    receive() external payable {}
+
+    /**
+     * @dev Returns the account `DEFAULT_ADMIN_ROLE` is being transferred to, see {transferAdmin}.
+     */
+    function pendingAdmin() external view returns (address) {
+        return _pendingAdmin;
+    }
+
+    /**
+     * @dev Starts to transfer `DEFAULT_ADMIN_ROLE` from the caller to `newAdmin`, which takes
+     * effect once `newAdmin` accepts it through {acceptAdmin}. Replaces the pending transfer,
+     * and the zero address cancels it.
+     *
+     * Unlike {grantRole} followed by {renounceRole}, a mistyped `newAdmin` cannot take
+     * the admin role away from the caller.
+     *
+     * Emits an {AdminTransferStarted} event.
+     *
+     * Requirements:
+     *
+     * - the caller must have `DEFAULT_ADMIN_ROLE`.
+     */
+    function transferAdmin(address newAdmin) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _pendingAdmin = newAdmin;
+        _previousAdmin = newAdmin == address(0) ? address(0) : _msgSender();
+
+        emit AdminTransferStarted(_msgSender(), newAdmin);
+    }
+
+    /**
+     * @dev Accepts the pending transfer of `DEFAULT_ADMIN_ROLE`, granting it to the caller and
+     * revoking it from the account that started the transfer.
+     *
+     * Emits a {RoleGranted} and a {RoleRevoked} event.
+     *
+     * Requirements:
+     *
+     * - the caller must be the pending admin.
+     * - the account that started the transfer must still have `DEFAULT_ADMIN_ROLE`.
+     */
+    function acceptAdmin() external {
+        address sender = _msgSender();
+        if (sender != _pendingAdmin) {
+            revert CallerNotPendingAdmin(sender);
+        }
+
+        address previousAdmin = _previousAdmin;
+        if (!hasRole(DEFAULT_ADMIN_ROLE, previousAdmin)) {
+            revert AdminTransferRevoked(previousAdmin);
+        }
+        delete _pendingAdmin;
+        delete _previousAdmin;
+
+        _grantRole(DEFAULT_ADMIN_ROLE, sender);
+        _revokeRole(DEFAULT_ADMIN_ROLE, previousAdmin);
+    }
+
+    /**
+     * @dev See {AccessControl-grantRole}.
+     *
+     * Requirements:
+     *
+     * - `role` must not be `DEFAULT_ADMIN_ROLE`, which is transferred through {transferAdmin}.
+     * - the caller must have `role`'s admin role.
+     */
+    function grantRole(bytes32 role, address account) public virtual override {
+        if (role == DEFAULT_ADMIN_ROLE) {
+            revert AdminRoleNotGrantable();
+        }
+
+        super.grantRole(role, account);
+    }
+
+    /**
+     * @dev See {ERC20Compliance-canTransfer}.
+     *
+     * Also requires `from`, `to` and `operator` to be allowlisted account, unless `operator`
+     * has `ALLOWLIST_BYPASS_ROLE`. Pause, limits, vesting and freezes are not checked.
+     */
+    function canTransfer(address from, address to, address operator, uint256 amount) public view virtual override returns (bool) {
+        return _isAllowlistOrBypass(from, to, operator) && super.canTransfer(from, to, operator, amount);
+    }
+
+    /**
+     * @dev Returns the ERC-1404 restriction code of `from` transferring `amount` tokens to `to`,
+     * zero if the transfer is not restricted. See {TransferRestrictions-detect}.
+     */
+    function detectTransferRestriction(address /* from */, address /* to */, uint256 /* amount */) external view returns (uint8) {
+        return abi.decode(_staticDelegateToAdminModule(), (uint8));
+    }
+
+    /**
+     * @dev Returns the ERC-1404 restriction code of `operator` transferring `amount` tokens
+     * from `from` to `to`, zero if the transfer is not restricted. See {TransferRestrictions-detect}.
+     */
+    function detectTransferFromRestriction(address /* operator */, address /* from */, address /* to */, uint256 /* amount */) external view returns (uint8) {
+        return abi.decode(_staticDelegateToAdminModule(), (uint8));
+    }
+
+    /**
+     * @dev Returns a human readable message for an ERC-1404 restriction code.
+     * See {TransferRestrictions-messageFor}.
+     */
+    function messageForTransferRestriction(uint8 /* code */) external view returns (string memory) {
+        return abi.decode(_staticDelegateToAdminModule(), (string));
+    }
+
+    /**
+     * @dev Creates `amount` new tokens for the allowlisted account `to`, which must not be frozen.
+     * The mint is checked against the compliance modules as a transfer from the zero address.
+     */
+    function _mintTo(address to, uint256 amount) internal virtual {
+        if (!isAllowlist(to)) {
+            revert NotAllowlisted(to);
+        }
+        _validateNotFrozen(to);
+        _validateCompliance(address(0), to, _msgSender(), amount);
+
+        _mint(to, amount);
+    }
+
+    /**
+     * @dev Transfers `amount` tokens from `from` to `to` without validating the transfer.
+     *
+     * Emits a {ForcedTransfer} event.
+     */
+    function _forceTransfer(address from, address to, uint256 amount, uint8 reason, bytes32 caseId) internal virtual {
+        _transfer(from, to, amount);
+
+        emit ForcedTransfer(from, to, amount, reason, caseId);
+    }
+
+    /**
+     * @dev Throws if the transfer of `amount` tokens from `from` to `to` by the caller is not allowed,
+     * consuming the transfer limits otherwise. See the requirements of {transfer} and {transferFrom}.
+     */
+    function _validateTransfer(address from, address to, uint256 amount) internal virtual {
+        _requireNotPaused();
+        _validateAllowlist(from, to);
+        _validateTransferLimit(from, amount);
+        _validateReceiveLimit(to, amount);
+        _validateGlobalTransferLimit(amount);
+        _validateVesting(from, amount);
+        _validateFreeze(from, to, amount);
+        _validateCompliance(from, to, _msgSender(), amount);
+    }
+
+    /**
+     * @dev Throws if the approval of `spender` over `owner`'s tokens by the caller is not allowed.
+     * See the requirements of {approve} and {permit}.
+     */
+    function _validateApproval(address owner, address spender) internal view virtual {
+        _requireNotPaused();
+        _validateAllowlist(owner, spender);
+        _validateFreeze(owner, spender, 0);
+    }
+
+    /**
+     * @dev Throws if the burn of `amount` tokens from `account` by the caller is not allowed.
+     * See the requirements of {burn} and {burnFrom}.
+     */
+    function _validateBurn(address account, uint256 amount) internal view virtual {
+        _requireNotPaused();
+        _validateAllowlist(account, account);
+        _validateVesting(account, amount);
+        _validateFreeze(account, _msgSender(), amount);
+    }
+
+    /**
+     * @dev Throws if the contract is paused.
+     */
+    function _requireNotPaused() internal view virtual {
+        if (paused()) {
+            revert TokenPaused();
+        }
+    }
+
+    /**
+     * @dev Executes the current call on the storage of (this) contract by {ADMIN_MODULE},
+     * and returns or reverts with its result.
+     */
+    /// @custom:oz-upgrades-unsafe-allow delegatecall
+    function _delegateToAdminModule() private {
+        address module = ADMIN_MODULE;
+
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+
+            switch result
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+
+    /**
+     * @dev Same as {_delegateCallToAdminModule}, for the view functions. The delegate call is
+     * cast to a view, as the module only reads the storage for them.
+     */
+    function _staticDelegateToAdminModule() private view returns (bytes memory) {
+        function() internal returns (bytes memory) delegateCall = _delegateCallToAdminModule;
+        function() internal view returns (bytes memory) staticDelegateCall;
+
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            staticDelegateCall := delegateCall
+        }
+        return staticDelegateCall();
+    }
+
+    /**
+     * @dev Returns the result of the current call executed by {ADMIN_MODULE} on the storage of (this)
+     * contract, or reverts with it.
+     */
+    /// @custom:oz-upgrades-unsafe-allow delegatecall
+    function _delegateCallToAdminModule() private returns (bytes memory) {
+        // solhint-disable-next-line avoid-low-level-calls
+        (bool success, bytes memory result) = ADMIN_MODULE.delegatecall(msg.data);
+        if (!success) {
+            // solhint-disable-next-line no-inline-assembly
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+        return result;
+    }
+
+    /**
+     * @dev See {onlyAllowlist}.
+     */
+    function _validateAllowlist(address sender, address receiver) internal view virtual {
+        address operator = _msgSender();
+        if (hasRole(ALLOWLIST_BYPASS_ROLE, operator)) {
+            return;
+        }
+
+        if (!isAllowlist(sender)) {
+            revert NotAllowlisted(sender);
+        }
+        if (!isAllowlist(receiver)) {
+            revert NotAllowlisted(receiver);
+        }
+        if (!isAllowlist(operator)) {
+            revert NotAllowlisted(operator);
+        }
+    }
+
+    /**
+     * @dev Returns true if `operator` has `ALLOWLIST_BYPASS_ROLE`, or if `sender`, `receiver`
+     * and `operator` are allowlisted account.
+     */
+    function _isAllowlistOrBypass(address sender, address receiver, address operator) internal view virtual returns (bool) {
+        return hasRole(ALLOWLIST_BYPASS_ROLE, operator) || (isAllowlist(sender) && isAllowlist(receiver) && isAllowlist(operator));
+    }
+
+    /**
+     * @dev See {ERC20-_mint}.
+     *
+     * Requirements:
+     *
+     * - the total supply must not exceed the max supply.
+     */
+    function _mint(address account, uint256 amount) internal virtual override {
+        super._mint(account, amount);
+
+        _validateMaxSupply(totalSupply());
+    }
+
+    /**
+     * @dev See {ERC20Snapshot-_beforeTokenTransfer}.
+     *
+     * Updates the balance and total supply checkpoints of the current snapshot, including
+     * on {adminTransfer} and {adminBurn}.
+     */
+    function _beforeTokenTransfer(address from, address to, uint256 amount) internal virtual override(ERC20Upgradeable, ERC20SnapshotUpgradeable) {
+        super._beforeTokenTransfer(from, to, amount);
+    }
+
+    /**
+     * @dev See {ERC20-_afterTokenTransfer}.
+     *
+     * Counts the holders and checks the holding limits on every transfer, mint and burn.
+     */
+    function _afterTokenTransfer(address from, address to, uint256 amount) internal virtual override {
+        super._afterTokenTransfer(from, to, amount);
+
+        _updateHolders(from, to, amount);
+    }
+
+    /**
+     * @dev See {ERC20HoldingLimitable-_tierOf}.
+     */
+    function _tierOf(address account) internal view virtual override returns (uint8) {
+        return _allowlistTierOf(account);
+    }
+
+    /**
+     * @dev See {EmergencyWithdrawable-_isCustodied}.
+     *
+     * Guards the balance of this very token held by (this) contract, which belongs to its holders.
+     */
+    function _isCustodied(address token) internal view virtual override returns (bool) {
+        return token == address(this);
+    }
+
+    /**
+     * @dev See {ERC20Freezable-availableBalanceOf}.
+     *
+     * Also excludes the balance locked by the vesting schedule of `account`.
+     */
+    function availableBalanceOf(address account) public view virtual override returns (uint256) {
+        uint256 balance = balanceOf(account);
+        uint256 locked = lockedBalanceOf(account);
+        uint256 available = super.availableBalanceOf(account);
+
+        if (locked >= balance) {
+            return 0;
+        }
+        return available < balance - locked ? available : balance - locked;
+    }
+
+    /**
+     * @dev See {IERC20-balanceOf}.
+     */
+    function balanceOf(address account) public view virtual override(ERC20Upgradeable, ERC20Vestable, ERC20Freezable, ERC20HoldingLimitable) returns (uint256) {
+        return super.balanceOf(account);
+    }
+}
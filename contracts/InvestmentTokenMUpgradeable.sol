@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/InvestmentTokenMUpgradeable.sol)
+pragma solidity 0.8.25;
+
+import {InvestmentTokenMBase} from "./InvestmentTokenMBase.sol";
+
+/**
+ * @dev {InvestmentTokenMBase} token deployed behind a transparent proxy, initialized
+ * through {initialize} instead of a constructor.
+ *
+ * The implementation itself cannot be initialized. Upgrades must keep the storage layout
+ * compatible, which the deploy scripts and the `upgrade:*` tasks validate before upgrading.
+ */
+contract InvestmentTokenMUpgradeable is InvestmentTokenMBase {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Sets the name, symbol and allowlist registry of the token, and grants all of
+     * the roles to the caller.
+     *
+     * Requirements:
+     *
+     * - the contract must not be initialized.
+     */
+    function initialize(string memory name_, string memory symbol_, address allowlistRegistry_) external initializer {
+        __InvestmentTokenM_init(name_, symbol_, allowlistRegistry_);
+    }
+}
@@ -0,0 +1,501 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/RedemptionManager.sol)
+pragma solidity 0.8.25;
+
+import {ERC20AllowListableProxy} from "../extensions/ERC20AllowListableProxy.sol";
+import {ERC20Freezable} from "../extensions/ERC20Freezable.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Pausable} from "@openzeppelin/contracts/security/Pausable.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {ERC20Burnable} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @dev Contract which redeems {InvestmentTokenM} tokens against a payout ERC20 token.
+ *
+ * A holder requests the redemption of an amount of tokens, which are escrowed in this
+ * contract. The owner then approves or rejects the request within the redemption window:
+ *
+ *  - Approval burns the escrowed tokens and pays out `amount * rate / RATE_PRECISION` payout tokens to the holder,
+ *    converted from the decimals of the token to the decimals of the payout token.
+ *  - Rejection returns the escrowed tokens to the holder, or to another account when the holder
+ *    can no longer receive them, because it is frozen or no longer allowlisted by the token.
+ *
+ * Once the window has passed, the holder is allowed to cancel the request and get the escrowed tokens back.
+ *
+ * Only allowlisted accounts in the {AllowlistRegistry} are allowed to request and be paid out.
+ * This contract must itself be allowlisted to escrow and burn tokens, and it must be funded with
+ * the payout token to approve requests.
+ *
+ * Only the owner is allowed to approve and reject requests, and to manage the rate, window and payout funds.
+ */
+contract RedemptionManager is Ownable, Pausable, ERC20AllowListableProxy {
+    using SafeERC20 for IERC20;
+
+    enum RedemptionStatus {
+        None,
+        Pending,
+        Approved,
+        Rejected,
+        Cancelled
+    }
+
+    struct Redemption {
+        address account;
+        uint256 amount;
+        uint256 payout;
+        uint64 deadline;
+        RedemptionStatus status;
+    }
+
+    uint256 public constant RATE_PRECISION = 1e18;
+
+    address private immutable TOKEN;
+    address private immutable PAYOUT_TOKEN;
+    uint256 private immutable TOKEN_UNIT;
+    uint256 private immutable PAYOUT_UNIT;
+    uint256 private _rate;
+    uint64 private _window;
+
+    Redemption[] private _redemptions;
+
+    /**
+     * @dev Emitted when the payout rate has changed.
+     */
+    event RateChanged(uint256 previousRate, uint256 newRate);
+
+    /**
+     * @dev Emitted when the redemption window has changed.
+     */
+    event WindowChanged(uint64 previousWindow, uint64 newWindow);
+
+    /**
+     * @dev Emitted when `account` has requested the redemption of `amount` tokens for `payout` payout tokens.
+     */
+    event RedemptionRequested(uint256 indexed id, address indexed account, uint256 amount, uint256 payout, uint64 deadline);
+
+    /**
+     * @dev Emitted when a redemption has approved, burning `amount` tokens and paying out `payout` payout tokens.
+     */
+    event RedemptionApproved(uint256 indexed id, address indexed account, uint256 amount, uint256 payout);
+
+    /**
+     * @dev Emitted when a redemption has rejected, returning `amount` tokens to `account`.
+     */
+    event RedemptionRejected(uint256 indexed id, address indexed account, uint256 amount);
+
+    /**
+     * @dev Emitted when a redemption has rejected, returning `amount` tokens of `account` to `receiver`.
+     */
+    event RedemptionRejectedTo(uint256 indexed id, address indexed account, address indexed receiver, uint256 amount);
+
+    /**
+     * @dev Emitted when a redemption has cancelled after its window, returning `amount` tokens to `account`.
+     */
+    event RedemptionCancelled(uint256 indexed id, address indexed account, uint256 amount);
+
+    /**
+     * @dev Emitted when the owner has withdrawn `amount` payout tokens to `beneficiary`.
+     */
+    event PayoutWithdrawn(address indexed beneficiary, uint256 amount);
+
+    /**
+     * @dev Thrown when the redeemed token is the zero address.
+     */
+    error InvalidToken(address token);
+
+    /**
+     * @dev Thrown when the payout token is the zero address or the redeemed token.
+     */
+    error InvalidPayoutToken(address payoutToken);
+
+    /**
+     * @dev Thrown when the payout of `amount` tokens is zero.
+     */
+    error ZeroPayout(uint256 amount);
+
+    /**
+     * @dev Thrown when the window of the redemption `id` has passed at `deadline`.
+     */
+    error RedemptionWindowPassed(uint256 id, uint64 deadline);
+
+    /**
+     * @dev Thrown when the window of the redemption `id` has not passed until `deadline`.
+     */
+    error RedemptionWindowNotPassed(uint256 id, uint64 deadline);
+
+    /**
+     * @dev Thrown when `caller` is not the account of the redemption `id`.
+     */
+    error CallerNotAccount(uint256 id, address caller);
+
+    /**
+     * @dev Thrown when the tokens of the redemption `id` are returned to another account than
+     * `account`, which is neither frozen nor removed from the allowlist of the token.
+     */
+    error AccountNotStuck(uint256 id, address account);
+
+    /**
+     * @dev Thrown when the payout rate is set to zero.
+     */
+    error InvalidRate();
+
+    /**
+     * @dev Thrown when the redemption window is set to zero.
+     */
+    error InvalidWindow();
+
+    /**
+     * @dev Thrown when the redemption `id` is not pending.
+     */
+    error RedemptionNotPending(uint256 id, RedemptionStatus status);
+
+    /**
+     * @dev Thrown when the redemption `id` does not exist.
+     */
+    error NonexistentRedemption(uint256 id);
+
+    constructor(address token_, address payoutToken_, uint256 rate_, uint64 window_, address allowlistRegistry_) {
+        if (token_ == address(0)) {
+            revert InvalidToken(token_);
+        }
+        if (payoutToken_ == address(0) || payoutToken_ == token_) {
+            revert InvalidPayoutToken(payoutToken_);
+        }
+
+        TOKEN = token_;
+        PAYOUT_TOKEN = payoutToken_;
+        TOKEN_UNIT = 10 ** IERC20Metadata(token_).decimals();
+        PAYOUT_UNIT = 10 ** IERC20Metadata(payoutToken_).decimals();
+
+        _setRate(rate_);
+        _setWindow(window_);
+        _setAllowlistRegistry(allowlistRegistry_);
+    }
+
+    /**
+     * @dev Returns the address of the redeemed token.
+     */
+    function token() external view returns (address) {
+        return TOKEN;
+    }
+
+    /**
+     * @dev Returns the address of the payout token.
+     */
+    function payoutToken() external view returns (address) {
+        return PAYOUT_TOKEN;
+    }
+
+    /**
+     * @dev Returns the payout tokens paid per redeemed token, scaled by `RATE_PRECISION`.
+     *
+     * The rate is in whole tokens, regardless of their decimals: a rate of `RATE_PRECISION` pays
+     * out one payout token per redeemed token.
+     */
+    function rate() external view returns (uint256) {
+        return _rate;
+    }
+
+    /**
+     * @dev Returns the duration after a request within which the owner is allowed to approve it.
+     */
+    function window() external view returns (uint64) {
+        return _window;
+    }
+
+    /**
+     * @dev Returns the number of redemptions.
+     */
+    function redemptionCount() external view returns (uint256) {
+        return _redemptions.length;
+    }
+
+    /**
+     * @dev Returns the redemption of a given id.
+     * @param id The id of the redemption to query.
+     * @return address The account that requested the redemption.
+     * @return uint256 The amount of escrowed tokens.
+     * @return uint256 The amount of payout tokens paid on approval.
+     * @return uint64 The time until the owner is allowed to approve the redemption.
+     * @return RedemptionStatus The status of the redemption.
+     */
+    function redemptionOf(uint256 id) external view returns (address, uint256, uint256, uint64, RedemptionStatus) {
+        Redemption memory redemption = _getRedemption(id);
+        return (redemption.account, redemption.amount, redemption.payout, redemption.deadline, redemption.status);
+    }
+
+    /**
+     * @dev Returns the amount of payout tokens paid for `amount` tokens at the current rate, both
+     * in the base units of their token.
+     */
+    function payoutOf(uint256 amount) public view returns (uint256) {
+        return (amount * _rate * PAYOUT_UNIT) / (RATE_PRECISION * TOKEN_UNIT);
+    }
+
+    /**
+     * @dev Requests the redemption of `amount` tokens of the caller, escrowed in this contract
+     * until the redemption is approved, rejected or cancelled.
+     *
+     * Emits a {RedemptionRequested} event.
+     *
+     * Requirements:
+     *
+     * - the caller must be allowlisted account.
+     * - the caller must have approved at least `amount` tokens to this contract.
+     * - the payout of `amount` must not be zero.
+     * - the contract must not be paused.
+     */
+    function requestRedemption(uint256 amount) external whenNotPaused returns (uint256) {
+        address account = _msgSender();
+        if (!isAllowlist(account)) {
+            revert NotAllowlisted(account);
+        }
+
+        uint256 payout = payoutOf(amount);
+        if (payout == 0) {
+            revert ZeroPayout(amount);
+        }
+
+        uint256 id = _redemptions.length;
+        uint64 deadline = uint64(block.timestamp) + _window;
+        _redemptions.push(Redemption({account: account, amount: amount, payout: payout, deadline: deadline, status: RedemptionStatus.Pending}));
+
+        IERC20(TOKEN).safeTransferFrom(account, address(this), amount);
+
+        emit RedemptionRequested(id, account, amount, payout, deadline);
+
+        return id;
+    }
+
+    /**
+     * @dev Approves a redemption, burning the escrowed tokens and paying out the payout tokens to the account.
+     *
+     * Emits a {RedemptionApproved} event.
+     *
+     * Requirements:
+     *
+     * - the redemption must be pending and within its window.
+     * - the account must be allowlisted account.
+     * - this contract must hold at least the payout of the redemption.
+     * - the caller must be the owner.
+     * - the contract must not be paused.
+     */
+    function approveRedemption(uint256 id) external onlyOwner whenNotPaused {
+        Redemption storage redemption = _getPendingRedemption(id);
+        if (block.timestamp > redemption.deadline) {
+            revert RedemptionWindowPassed(id, redemption.deadline);
+        }
+        if (!isAllowlist(redemption.account)) {
+            revert NotAllowlisted(redemption.account);
+        }
+
+        redemption.status = RedemptionStatus.Approved;
+
+        ERC20Burnable(TOKEN).burn(redemption.amount);
+        IERC20(PAYOUT_TOKEN).safeTransfer(redemption.account, redemption.payout);
+
+        emit RedemptionApproved(id, redemption.account, redemption.amount, redemption.payout);
+    }
+
+    /**
+     * @dev Rejects a redemption, returning the escrowed tokens to the account.
+     *
+     * Emits a {RedemptionRejected} event.
+     *
+     * Requirements:
+     *
+     * - the redemption must be pending.
+     * - the caller must be the owner.
+     * - the contract must not be paused.
+     */
+    function rejectRedemption(uint256 id) external onlyOwner whenNotPaused {
+        Redemption storage redemption = _getPendingRedemption(id);
+
+        redemption.status = RedemptionStatus.Rejected;
+
+        IERC20(TOKEN).safeTransfer(redemption.account, redemption.amount);
+
+        emit RedemptionRejected(id, redemption.account, redemption.amount);
+    }
+
+    /**
+     * @dev Rejects a redemption, returning the escrowed tokens to `receiver` instead of the account,
+     * for an account which can no longer receive them, such as to its recovered wallet.
+     *
+     * Emits a {RedemptionRejectedTo} event.
+     *
+     * Requirements:
+     *
+     * - the redemption must be pending.
+     * - the account must be frozen or no longer allowlisted by the token.
+     * - the caller must be the owner.
+     * - the contract must not be paused.
+     */
+    function rejectRedemptionTo(uint256 id, address receiver) external onlyOwner whenNotPaused {
+        Redemption storage redemption = _getPendingRedemption(id);
+        if (!ERC20Freezable(TOKEN).isFrozen(redemption.account) && ERC20AllowListableProxy(TOKEN).isAllowlist(redemption.account)) {
+            revert AccountNotStuck(id, redemption.account);
+        }
+
+        redemption.status = RedemptionStatus.Rejected;
+
+        IERC20(TOKEN).safeTransfer(receiver, redemption.amount);
+
+        emit RedemptionRejectedTo(id, redemption.account, receiver, redemption.amount);
+    }
+
+    /**
+     * @dev Cancels a redemption of the caller that was not processed within its window,
+     * returning the escrowed tokens to the caller.
+     *
+     * Emits a {RedemptionCancelled} event.
+     *
+     * Requirements:
+     *
+     * - the redemption must be pending and its window must have passed.
+     * - the caller must be the account of the redemption.
+     * - the contract must not be paused.
+     */
+    function cancelRedemption(uint256 id) external whenNotPaused {
+        Redemption storage redemption = _getPendingRedemption(id);
+        if (redemption.account != _msgSender()) {
+            revert CallerNotAccount(id, _msgSender());
+        }
+        if (block.timestamp <= redemption.deadline) {
+            revert RedemptionWindowNotPassed(id, redemption.deadline);
+        }
+
+        redemption.status = RedemptionStatus.Cancelled;
+
+        IERC20(TOKEN).safeTransfer(redemption.account, redemption.amount);
+
+        emit RedemptionCancelled(id, redemption.account, redemption.amount);
+    }
+
+    /**
+     * @dev Sets the payout rate of the next requests, see {rate}.
+     *
+     * Emits a {RateChanged} event.
+     *
+     * Requirements:
+     *
+     * - `newRate` must not be zero.
+     * - the caller must be the owner.
+     */
+    function setRate(uint256 newRate) external onlyOwner {
+        _setRate(newRate);
+    }
+
+    /**
+     * @dev Sets the redemption window of the next requests, see {window}.
+     *
+     * Emits a {WindowChanged} event.
+     *
+     * Requirements:
+     *
+     * - `newWindow` must not be zero.
+     * - the caller must be the owner.
+     */
+    function setWindow(uint64 newWindow) external onlyOwner {
+        _setWindow(newWindow);
+    }
+
+    /**
+     * @dev Withdraws `amount` payout tokens from (this) contract to `beneficiary`.
+     *
+     * Emits a {PayoutWithdrawn} event.
+     *
+     * Requirements:
+     *
+     * - the caller must be the owner.
+     */
+    function withdrawPayout(address beneficiary, uint256 amount) external onlyOwner {
+        IERC20(PAYOUT_TOKEN).safeTransfer(beneficiary, amount);
+
+        emit PayoutWithdrawn(beneficiary, amount);
+    }
+
+    /**
+     * @dev See {ERC20AllowListableProxy-_setAllowlistRegistry}
+     *
+     * Requirements:
+     *
+     * - the caller must be the owner.
+     */
+    function setAllowlistRegistry(address registry) external onlyOwner {
+        _setAllowlistRegistry(registry);
+    }
+
+    /**
+     * @dev See {Pausable-_pause}.
+     *
+     * Requirements:
+     *
+     * - the caller must be the owner.
+     */
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    /**
+     * @dev See {Pausable-_unpause}.
+     *
+     * Requirements:
+     *
+     * - the caller must be the owner.
+     */
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    /**
+     * @dev Sets the payout rate to `newRate`.
+     */
+    function _setRate(uint256 newRate) private {
+        if (newRate == 0) {
+            revert InvalidRate();
+        }
+
+        emit RateChanged(_rate, newRate);
+
+        _rate = newRate;
+    }
+
+    /**
+     * @dev Sets the redemption window to `newWindow`.
+     */
+    function _setWindow(uint64 newWindow) private {
+        if (newWindow == 0) {
+            revert InvalidWindow();
+        }
+
+        emit WindowChanged(_window, newWindow);
+
+        _window = newWindow;
+    }
+
+    /**
+     * @dev Returns the pending redemption of a given id.
+     */
+    function _getPendingRedemption(uint256 id) private view returns (Redemption storage) {
+        Redemption storage redemption = _getRedemption(id);
+        if (redemption.status != RedemptionStatus.Pending) {
+            revert RedemptionNotPending(id, redemption.status);
+        }
+
+        return redemption;
+    }
+
+    /**
+     * @dev Returns the redemption of a given id.
+     */
+    function _getRedemption(uint256 id) private view returns (Redemption storage) {
+        if (id >= _redemptions.length) {
+            revert NonexistentRedemption(id);
+        }
+
+        return _redemptions[id];
+    }
+}
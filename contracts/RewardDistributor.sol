@@ -0,0 +1,240 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/RewardDistributor.sol)
+pragma solidity 0.8.25;
+
+import {ERC20AllowListableProxy} from "../extensions/ERC20AllowListableProxy.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/**
+ * @dev Contract which distributes ERC20 rewards to {InvestmentTokenM} holders.
+ *
+ * Each distribution holds a deposit of a reward token and the Merkle root of the
+ * `(account, amount)` rewards of the holders, usually computed pro-rata from the
+ * balances at a snapshot. Holders claim their reward with the Merkle proof of it.
+ *
+ * Only allowlisted accounts in the {AllowlistRegistry} are allowed to claim.
+ *
+ * Only the owner is allowed to create and close distributions.
+ *
+ * The leaves of the Merkle tree are `keccak256(bytes.concat(keccak256(abi.encode(account, amount))))`,
+ * and the pairs of nodes are hashed sorted, see {MerkleProof}.
+ */
+contract RewardDistributor is Ownable, ERC20AllowListableProxy {
+    using SafeERC20 for IERC20;
+
+    struct Distribution {
+        address rewardToken;
+        bytes32 merkleRoot;
+        uint256 total;
+        uint256 claimed;
+        bool closed;
+    }
+
+    Distribution[] private _distributions;
+
+    mapping(uint256 => mapping(address => bool)) private _claimed;
+
+    /**
+     * @dev Emitted when a distribution of `total` `rewardToken` has created.
+     */
+    event DistributionCreated(uint256 indexed id, address indexed rewardToken, bytes32 merkleRoot, uint256 total);
+
+    /**
+     * @dev Emitted when a distribution has closed and its unclaimed rewards returned to `beneficiary`.
+     */
+    event DistributionClosed(uint256 indexed id, address indexed beneficiary, uint256 unclaimed);
+
+    /**
+     * @dev Emitted when `account` has claimed `amount` of a distribution.
+     */
+    event Claimed(uint256 indexed id, address indexed account, uint256 amount);
+
+    /**
+     * @dev Thrown when the reward token of a distribution is the zero address.
+     */
+    error InvalidRewardToken(address rewardToken);
+
+    /**
+     * @dev Thrown when the Merkle root of a distribution is zero.
+     */
+    error InvalidMerkleRoot(bytes32 merkleRoot);
+
+    /**
+     * @dev Thrown when the distribution `id` is closed.
+     */
+    error ClosedDistribution(uint256 id);
+
+    /**
+     * @dev Thrown when `account` has already claimed the distribution `id`.
+     */
+    error AlreadyClaimed(uint256 id, address account);
+
+    /**
+     * @dev Thrown when a proof does not prove the reward of `account`.
+     */
+    error InvalidProof(uint256 id, address account, uint256 amount);
+
+    /**
+     * @dev Thrown when a claim of `amount` exceeds the `remaining` rewards of the distribution `id`.
+     */
+    error ClaimExceedsTotal(uint256 id, uint256 amount, uint256 remaining);
+
+    /**
+     * @dev Thrown when the distribution `id` does not exist.
+     */
+    error NonexistentDistribution(uint256 id);
+
+    constructor(address allowlistRegistry_) {
+        _setAllowlistRegistry(allowlistRegistry_);
+    }
+
+    /**
+     * @dev Returns the number of distributions.
+     */
+    function distributionCount() external view returns (uint256) {
+        return _distributions.length;
+    }
+
+    /**
+     * @dev Returns the distribution of a given id.
+     * @param id The id of the distribution to query.
+     * @return address The reward token of the distribution.
+     * @return bytes32 The Merkle root of the rewards.
+     * @return uint256 The total amount of rewards deposited.
+     * @return uint256 The amount of rewards claimed.
+     * @return bool True if the distribution is closed, false otherwise.
+     */
+    function distributionOf(uint256 id) external view returns (address, bytes32, uint256, uint256, bool) {
+        Distribution memory distribution = _getDistribution(id);
+        return (distribution.rewardToken, distribution.merkleRoot, distribution.total, distribution.claimed, distribution.closed);
+    }
+
+    /**
+     * @dev Returns true if `account` has claimed its reward of a distribution.
+     */
+    function isClaimed(uint256 id, address account) external view returns (bool) {
+        return _claimed[id][account];
+    }
+
+    /**
+     * @dev Creates a distribution of `total` `rewardToken`, deposited from the caller.
+     *
+     * Emits a {DistributionCreated} event.
+     *
+     * Requirements:
+     *
+     * - `rewardToken` cannot be the zero address.
+     * - `merkleRoot` cannot be zero.
+     * - the caller must have approved at least `total` `rewardToken` to this contract.
+     * - the caller must be the owner.
+     */
+    function createDistribution(address rewardToken, bytes32 merkleRoot, uint256 total) external onlyOwner returns (uint256) {
+        if (rewardToken == address(0)) {
+            revert InvalidRewardToken(rewardToken);
+        }
+        if (merkleRoot == bytes32(0)) {
+            revert InvalidMerkleRoot(merkleRoot);
+        }
+
+        uint256 id = _distributions.length;
+        _distributions.push(Distribution({rewardToken: rewardToken, merkleRoot: merkleRoot, total: total, claimed: 0, closed: false}));
+
+        IERC20(rewardToken).safeTransferFrom(_msgSender(), address(this), total);
+
+        emit DistributionCreated(id, rewardToken, merkleRoot, total);
+
+        return id;
+    }
+
+    /**
+     * @dev Closes a distribution and returns its unclaimed rewards to `beneficiary`.
+     *
+     * Emits a {DistributionClosed} event.
+     *
+     * Requirements:
+     *
+     * - the distribution must exist and must not be closed.
+     * - the caller must be the owner.
+     */
+    function closeDistribution(uint256 id, address beneficiary) external onlyOwner {
+        Distribution storage distribution = _getDistribution(id);
+        if (distribution.closed) {
+            revert ClosedDistribution(id);
+        }
+
+        distribution.closed = true;
+        uint256 unclaimed = distribution.total - distribution.claimed;
+
+        IERC20(distribution.rewardToken).safeTransfer(beneficiary, unclaimed);
+
+        emit DistributionClosed(id, beneficiary, unclaimed);
+    }
+
+    /**
+     * @dev Claims the `amount` reward of `account` from a distribution, sent to `account`.
+     *
+     * Emits a {Claimed} event.
+     *
+     * Requirements:
+     *
+     * - the distribution must exist and must not be closed.
+     * - `account` must be allowlisted account.
+     * - `account` must not have claimed the distribution.
+     * - `proof` must prove `(account, amount)` against the Merkle root of the distribution.
+     * - the claimed rewards must not exceed the total of the distribution.
+     */
+    function claim(uint256 id, address account, uint256 amount, bytes32[] calldata proof) external {
+        Distribution storage distribution = _getDistribution(id);
+        if (distribution.closed) {
+            revert ClosedDistribution(id);
+        }
+        if (!isAllowlist(account)) {
+            revert NotAllowlisted(account);
+        }
+        if (_claimed[id][account]) {
+            revert AlreadyClaimed(id, account);
+        }
+
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account, amount))));
+        if (!MerkleProof.verify(proof, distribution.merkleRoot, leaf)) {
+            revert InvalidProof(id, account, amount);
+        }
+
+        uint256 remaining = distribution.total - distribution.claimed;
+        if (amount > remaining) {
+            revert ClaimExceedsTotal(id, amount, remaining);
+        }
+
+        _claimed[id][account] = true;
+        distribution.claimed += amount;
+
+        IERC20(distribution.rewardToken).safeTransfer(account, amount);
+
+        emit Claimed(id, account, amount);
+    }
+
+    /**
+     * @dev See {ERC20AllowListableProxy-_setAllowlistRegistry}
+     *
+     * Requirements:
+     *
+     * - the caller must be the owner.
+     */
+    function setAllowlistRegistry(address registry) external onlyOwner {
+        _setAllowlistRegistry(registry);
+    }
+
+    /**
+     * @dev Returns the distribution of a given id.
+     */
+    function _getDistribution(uint256 id) private view returns (Distribution storage) {
+        if (id >= _distributions.length) {
+            revert NonexistentDistribution(id);
+        }
+
+        return _distributions[id];
+    }
+}
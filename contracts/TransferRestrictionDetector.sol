@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/TransferRestrictionDetector.sol)
+pragma solidity 0.8.25;
+
+import {InvestmentTokenM} from "./InvestmentTokenM.sol";
+import {TransferRestrictions} from "./TransferRestrictions.sol";
+
+/**
+ * @dev Contract which pre-checks the transfers of an {InvestmentTokenM} token, returning
+ * an ERC-1404 restriction code for the first check a transfer fails, and a human readable
+ * message for each code.
+ *
+ * The token answers the same functions itself, both deriving from {TransferRestrictions}.
+ * The detector is kept for the integrations already pointing to it.
+ */
+contract TransferRestrictionDetector {
+    uint8 public constant SUCCESS = TransferRestrictions.SUCCESS;
+    uint8 public constant RECEIVER_ZERO_ADDRESS = TransferRestrictions.RECEIVER_ZERO_ADDRESS;
+    uint8 public constant PAUSED = TransferRestrictions.PAUSED;
+    uint8 public constant SENDER_NOT_ALLOWLISTED = TransferRestrictions.SENDER_NOT_ALLOWLISTED;
+    uint8 public constant RECEIVER_NOT_ALLOWLISTED = TransferRestrictions.RECEIVER_NOT_ALLOWLISTED;
+    uint8 public constant OPERATOR_NOT_ALLOWLISTED = TransferRestrictions.OPERATOR_NOT_ALLOWLISTED;
+    uint8 public constant ACCOUNT_FROZEN = TransferRestrictions.ACCOUNT_FROZEN;
+    uint8 public constant INSUFFICIENT_BALANCE = TransferRestrictions.INSUFFICIENT_BALANCE;
+    uint8 public constant INSUFFICIENT_ALLOWANCE = TransferRestrictions.INSUFFICIENT_ALLOWANCE;
+    uint8 public constant BALANCE_LOCKED = TransferRestrictions.BALANCE_LOCKED;
+    uint8 public constant TRANSFER_LIMIT_EXCEEDED = TransferRestrictions.TRANSFER_LIMIT_EXCEEDED;
+    uint8 public constant RECEIVE_LIMIT_EXCEEDED = TransferRestrictions.RECEIVE_LIMIT_EXCEEDED;
+    uint8 public constant GLOBAL_TRANSFER_LIMIT_EXCEEDED = TransferRestrictions.GLOBAL_TRANSFER_LIMIT_EXCEEDED;
+    uint8 public constant MAX_BALANCE_EXCEEDED = TransferRestrictions.MAX_BALANCE_EXCEEDED;
+    uint8 public constant MAX_HOLDER_COUNT_EXCEEDED = TransferRestrictions.MAX_HOLDER_COUNT_EXCEEDED;
+    uint8 public constant NOT_COMPLIANT = TransferRestrictions.NOT_COMPLIANT;
+
+    InvestmentTokenM private immutable TOKEN;
+
+    /**
+     * @dev Thrown when the token is the zero address.
+     */
+    error InvalidToken(address token);
+
+    constructor(address token_) {
+        if (token_ == address(0)) {
+            revert InvalidToken(token_);
+        }
+
+        TOKEN = InvestmentTokenM(payable(token_));
+    }
+
+    /**
+     * @dev Returns the address of the checked token.
+     */
+    function token() external view returns (address) {
+        return address(TOKEN);
+    }
+
+    /**
+     * @dev Returns the restriction code of `from` transferring `amount` tokens to `to`
+     * through {InvestmentTokenM-transfer}, `SUCCESS` if the transfer is not restricted.
+     */
+    function detectTransferRestriction(address from, address to, uint256 amount) external view returns (uint8) {
+        return TransferRestrictions.detect(TOKEN, from, from, to, amount);
+    }
+
+    /**
+     * @dev Returns the restriction code of `operator` transferring `amount` tokens from `from`
+     * to `to`, `SUCCESS` if the transfer is not restricted. The transfer goes through
+     * {InvestmentTokenM-transferFrom} unless `operator` is `from`.
+     */
+    function detectTransferFromRestriction(address operator, address from, address to, uint256 amount) external view returns (uint8) {
+        return TransferRestrictions.detect(TOKEN, operator, from, to, amount);
+    }
+
+    /**
+     * @dev Returns a human readable message for a given restriction code.
+     */
+    function messageForTransferRestriction(uint8 code) external pure returns (string memory) {
+        return TransferRestrictions.messageFor(code);
+    }
+}
@@ -0,0 +1,166 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/TransferRestrictions.sol)
+pragma solidity 0.8.25;
+
+import {InvestmentTokenMBase} from "./InvestmentTokenMBase.sol";
+
+/**
+ * @dev Library of the ERC-1404 restriction codes of {InvestmentTokenMBase} transfers, their
+ * messages and their detection, shared by the token and {TransferRestrictionDetector}.
+ *
+ * The detection mirrors the checks of {InvestmentTokenMBase-transfer} and
+ * {InvestmentTokenMBase-transferFrom} from the token's public state, returning the code of the
+ * first check a transfer fails.
+ */
+library TransferRestrictions {
+    uint8 internal constant SUCCESS = 0;
+    uint8 internal constant RECEIVER_ZERO_ADDRESS = 1;
+    uint8 internal constant PAUSED = 2;
+    uint8 internal constant SENDER_NOT_ALLOWLISTED = 3;
+    uint8 internal constant RECEIVER_NOT_ALLOWLISTED = 4;
+    uint8 internal constant OPERATOR_NOT_ALLOWLISTED = 5;
+    uint8 internal constant ACCOUNT_FROZEN = 6;
+    uint8 internal constant INSUFFICIENT_BALANCE = 7;
+    uint8 internal constant INSUFFICIENT_ALLOWANCE = 8;
+    uint8 internal constant BALANCE_LOCKED = 9;
+    uint8 internal constant TRANSFER_LIMIT_EXCEEDED = 10;
+    uint8 internal constant RECEIVE_LIMIT_EXCEEDED = 11;
+    uint8 internal constant GLOBAL_TRANSFER_LIMIT_EXCEEDED = 12;
+    uint8 internal constant MAX_BALANCE_EXCEEDED = 13;
+    uint8 internal constant MAX_HOLDER_COUNT_EXCEEDED = 14;
+    uint8 internal constant NOT_COMPLIANT = 15;
+
+    /**
+     * @dev Returns the restriction code of `operator` transferring `amount` tokens of `token`
+     * from `from` to `to`, `SUCCESS` if the transfer is not restricted. The transfer goes through
+     * {InvestmentTokenMBase-transferFrom} unless `operator` is `from`.
+     */
+    function detect(InvestmentTokenMBase token, address operator, address from, address to, uint256 amount) internal view returns (uint8) {
+        if (to == address(0)) {
+            return RECEIVER_ZERO_ADDRESS;
+        }
+        if (token.paused()) {
+            return PAUSED;
+        }
+
+        uint8 code = _detectAllowlistRestriction(token, operator, from, to);
+        if (code != SUCCESS) {
+            return code;
+        }
+
+        code = _detectBalanceRestriction(token, operator, from, to, amount);
+        if (code != SUCCESS) {
+            return code;
+        }
+
+        code = _detectLimitRestriction(token, from, to, amount);
+        if (code != SUCCESS) {
+            return code;
+        }
+
+        if (!token.canTransfer(from, to, operator, amount)) {
+            return NOT_COMPLIANT;
+        }
+        return SUCCESS;
+    }
+
+    /**
+     * @dev Returns a human readable message for a given restriction code.
+     */
+    function messageFor(uint8 code) internal pure returns (string memory) {
+        if (code == SUCCESS) return "No restriction";
+        if (code == RECEIVER_ZERO_ADDRESS) return "Receiver is the zero address";
+        if (code == PAUSED) return "Token is paused";
+        if (code == SENDER_NOT_ALLOWLISTED) return "Sender is not allowlisted";
+        if (code == RECEIVER_NOT_ALLOWLISTED) return "Receiver is not allowlisted";
+        if (code == OPERATOR_NOT_ALLOWLISTED) return "Operator is not allowlisted";
+        if (code == ACCOUNT_FROZEN) return "Sender, receiver or operator is frozen";
+        if (code == INSUFFICIENT_BALANCE) return "Sender has insufficient balance";
+        if (code == INSUFFICIENT_ALLOWANCE) return "Operator has insufficient allowance";
+        if (code == BALANCE_LOCKED) return "Amount exceeds the available balance of the sender";
+        if (code == TRANSFER_LIMIT_EXCEEDED) return "Amount exceeds the transfer limit of the sender";
+        if (code == RECEIVE_LIMIT_EXCEEDED) return "Amount exceeds the receive limit of the receiver";
+        if (code == GLOBAL_TRANSFER_LIMIT_EXCEEDED) return "Amount exceeds the global transfer limit";
+        if (code == MAX_BALANCE_EXCEEDED) return "Amount exceeds the max balance of the receiver";
+        if (code == MAX_HOLDER_COUNT_EXCEEDED) return "Transfer exceeds the max holder count";
+        if (code == NOT_COMPLIANT) return "Transfer is not allowed by a compliance module";
+        return "Unknown restriction code";
+    }
+
+    /**
+     * @dev Returns the allowlist restriction of the transfer, unless `operator` has `ALLOWLIST_BYPASS_ROLE`.
+     */
+    function _detectAllowlistRestriction(InvestmentTokenMBase token, address operator, address from, address to) private view returns (uint8) {
+        if (operator != address(0) && token.hasRole(token.ALLOWLIST_BYPASS_ROLE(), operator)) {
+            return SUCCESS;
+        }
+        if (from == address(0) || !token.isAllowlist(from)) {
+            return SENDER_NOT_ALLOWLISTED;
+        }
+        if (!token.isAllowlist(to)) {
+            return RECEIVER_NOT_ALLOWLISTED;
+        }
+        if (operator == address(0) || !token.isAllowlist(operator)) {
+            return OPERATOR_NOT_ALLOWLISTED;
+        }
+        return SUCCESS;
+    }
+
+    /**
+     * @dev Returns the freeze, balance, allowance and vesting restriction of the transfer.
+     */
+    function _detectBalanceRestriction(InvestmentTokenMBase token, address operator, address from, address to, uint256 amount) private view returns (uint8) {
+        if (token.isFrozen(from) || token.isFrozen(to) || token.isFrozen(operator)) {
+            return ACCOUNT_FROZEN;
+        }
+        if (token.balanceOf(from) < amount) {
+            return INSUFFICIENT_BALANCE;
+        }
+        if (operator != from && token.allowance(from, operator) < amount) {
+            return INSUFFICIENT_ALLOWANCE;
+        }
+        if (token.availableBalanceOf(from) < amount) {
+            return BALANCE_LOCKED;
+        }
+        return SUCCESS;
+    }
+
+    /**
+     * @dev Returns the transfer limit and holding limit restriction of the transfer.
+     */
+    function _detectLimitRestriction(InvestmentTokenMBase token, address from, address to, uint256 amount) private view returns (uint8) {
+        if (token.transferLimitable()) {
+            (bool limitable, uint256 remaining, ) = token.transferLimitOf(from);
+            if (limitable && amount > remaining) {
+                return TRANSFER_LIMIT_EXCEEDED;
+            }
+
+            (limitable, remaining, ) = token.receiveLimitOf(to);
+            if (limitable && amount > remaining) {
+                return RECEIVE_LIMIT_EXCEEDED;
+            }
+
+            (limitable, remaining, ) = token.globalTransferLimit();
+            if (limitable && amount > remaining) {
+                return GLOBAL_TRANSFER_LIMIT_EXCEEDED;
+            }
+        }
+
+        if (amount == 0 || from == to) {
+            return SUCCESS;
+        }
+
+        uint256 balance = token.balanceOf(to);
+        uint256 maxBalance = token.maxBalanceOf(to);
+        if (maxBalance > 0 && balance + amount > maxBalance) {
+            return MAX_BALANCE_EXCEEDED;
+        }
+
+        uint256 maxHolderCount = token.maxHolderCount();
+        bool newHolder = balance == 0 && token.balanceOf(from) != amount;
+        if (maxHolderCount > 0 && newHolder && token.holderCount() >= maxHolderCount) {
+            return MAX_HOLDER_COUNT_EXCEEDED;
+        }
+        return SUCCESS;
+    }
+}
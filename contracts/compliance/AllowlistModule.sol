@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/compliance/AllowlistModule.sol)
+pragma solidity 0.8.25;
+
+import {AllowlistRegistry} from "../AllowlistRegistry.sol";
+import {IComplianceModule} from "./IComplianceModule.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @dev Compliance module which allows a transfer when the sender, receiver and operator are
+ * each allowlisted in at least one of its {AllowlistRegistry}, e.g. one registry per jurisdiction.
+ * A mint is allowed when the receiver is allowlisted.
+ *
+ * Only the owner are allowed to add and remove registries.
+ */
+contract AllowlistModule is IComplianceModule, Ownable {
+    address[] private _registries;
+
+    /**
+     * @dev Emitted when a registry has added.
+     */
+    event RegistryAdded(address indexed registry);
+
+    /**
+     * @dev Emitted when a registry has removed.
+     */
+    event RegistryRemoved(address indexed registry);
+
+    /**
+     * @dev Thrown when a registry is the zero address.
+     */
+    error InvalidRegistry(address registry);
+
+    /**
+     * @dev Thrown when `registry` is already added.
+     */
+    error RegistryAlreadyAdded(address registry);
+
+    /**
+     * @dev Thrown when `registry` is not added.
+     */
+    error RegistryNotAdded(address registry);
+
+    constructor(address[] memory registries_) {
+        for (uint256 i = 0; i < registries_.length; i++) {
+            _addRegistry(registries_[i]);
+        }
+    }
+
+    /**
+     * @dev Returns the registries, in the order they are queried.
+     */
+    function registries() external view returns (address[] memory) {
+        return _registries;
+    }
+
+    /**
+     * @dev Returns true if the account is allowlisted in at least one of the registries.
+     */
+    function isAllowlist(address account) public view returns (bool) {
+        for (uint256 i = 0; i < _registries.length; i++) {
+            if (AllowlistRegistry(_registries[i]).isAllowlist(account)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @dev See {IComplianceModule-canTransfer}.
+     */
+    function canTransfer(address from, address to, address operator, uint256) external view returns (bool) {
+        if (from == address(0)) {
+            return isAllowlist(to);
+        }
+        return isAllowlist(from) && isAllowlist(to) && isAllowlist(operator);
+    }
+
+    /**
+     * @dev Adds `registry` to the registries.
+     *
+     * Emits a {RegistryAdded} event.
+     *
+     * Requirements:
+     *
+     * - `registry` cannot be the zero address nor already added.
+     * - the caller must be the owner.
+     */
+    function addRegistry(address registry) external onlyOwner {
+        _addRegistry(registry);
+    }
+
+    /**
+     * @dev Removes `registry` from the registries.
+     *
+     * Emits a {RegistryRemoved} event.
+     *
+     * Requirements:
+     *
+     * - `registry` must be added.
+     * - the caller must be the owner.
+     */
+    function removeRegistry(address registry) external onlyOwner {
+        uint256 length = _registries.length;
+        for (uint256 i = 0; i < length; i++) {
+            if (_registries[i] == registry) {
+                _registries[i] = _registries[length - 1];
+                _registries.pop();
+
+                emit RegistryRemoved(registry);
+                return;
+            }
+        }
+        revert RegistryNotAdded(registry);
+    }
+
+    /**
+     * @dev Adds `registry` to the registries.
+     */
+    function _addRegistry(address registry) private {
+        if (registry == address(0)) {
+            revert InvalidRegistry(registry);
+        }
+        for (uint256 i = 0; i < _registries.length; i++) {
+            if (_registries[i] == registry) {
+                revert RegistryAlreadyAdded(registry);
+            }
+        }
+
+        _registries.push(registry);
+
+        emit RegistryAdded(registry);
+    }
+}
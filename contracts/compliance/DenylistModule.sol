@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/compliance/DenylistModule.sol)
+pragma solidity 0.8.25;
+
+import {IComplianceModule} from "./IComplianceModule.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @dev Compliance module which blocks a transfer when the sender, receiver or operator is denylisted,
+ * e.g. a sanctioned address.
+ *
+ * Only the owner are allowed to manages the denylist accounts.
+ */
+contract DenylistModule is IComplianceModule, Ownable {
+    mapping(address => bool) private _denylist;
+
+    /**
+     * @dev Emitted when the denylist status of an account has changed.
+     */
+    event DenylistChanged(address indexed account, bool denied);
+
+    /**
+     * @dev Returns true if the account is denylisted, and false otherwise.
+     */
+    function isDenylist(address account) external view returns (bool) {
+        return _denylist[account];
+    }
+
+    /**
+     * @dev See {IComplianceModule-canTransfer}.
+     */
+    function canTransfer(address from, address to, address operator, uint256) external view returns (bool) {
+        return !_denylist[from] && !_denylist[to] && !_denylist[operator];
+    }
+
+    /**
+     * @dev Sets the denylist status of `account`.
+     *
+     * Emits a {DenylistChanged} event.
+     *
+     * Requirements:
+     *
+     * - the caller must be the owner.
+     */
+    function setDenylist(address account, bool denied) external onlyOwner {
+        _denylist[account] = denied;
+
+        emit DenylistChanged(account, denied);
+    }
+}
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/compliance/IComplianceModule.sol)
+pragma solidity 0.8.25;
+
+/**
+ * @dev Interface of a compliance module, a rule checked on every transfer of a token
+ * implementing {ERC20Compliance}.
+ */
+interface IComplianceModule {
+    /**
+     * @dev Returns true if `operator` is allowed to transfer `amount` tokens from `from` to `to`,
+     * and false otherwise. For a mint, `from` is the zero address and `operator` the minter.
+     */
+    function canTransfer(address from, address to, address operator, uint256 amount) external view returns (bool);
+}
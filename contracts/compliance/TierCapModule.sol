@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/compliance/TierCapModule.sol)
+pragma solidity 0.8.25;
+
+import {AllowlistRegistry} from "../AllowlistRegistry.sol";
+import {IComplianceModule} from "./IComplianceModule.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @dev Compliance module which caps the amount of a single transfer by the investor tier of
+ * the sender in its {AllowlistRegistry}. A cap of zero means there is no limit, and mints are
+ * not capped.
+ *
+ * Only the owner are allowed to set the caps.
+ */
+contract TierCapModule is IComplianceModule, Ownable {
+    address private immutable REGISTRY;
+
+    mapping(uint8 => uint256) private _caps;
+
+    /**
+     * @dev Emitted when the transfer cap of a tier has changed.
+     */
+    event TierCapChanged(uint8 indexed tier, uint256 cap);
+
+    /**
+     * @dev Thrown when the registry is the zero address.
+     */
+    error InvalidRegistry(address registry);
+
+    constructor(address registry_) {
+        if (registry_ == address(0)) {
+            revert InvalidRegistry(registry_);
+        }
+
+        REGISTRY = registry_;
+    }
+
+    /**
+     * @dev Returns the allowlist registry contract address.
+     */
+    function registry() external view returns (address) {
+        return REGISTRY;
+    }
+
+    /**
+     * @dev Returns the transfer cap of a given tier, zero if there is no limit.
+     */
+    function tierCap(uint8 tier) external view returns (uint256) {
+        return _caps[tier];
+    }
+
+    /**
+     * @dev See {IComplianceModule-canTransfer}.
+     */
+    function canTransfer(address from, address, address, uint256 amount) external view returns (bool) {
+        if (from == address(0)) {
+            return true;
+        }
+
+        (, , uint8 tier, ) = AllowlistRegistry(REGISTRY).allowlistEntryOf(from);
+        uint256 cap = _caps[tier];
+        return cap == 0 || amount <= cap;
+    }
+
+    /**
+     * @dev Sets the transfer cap of `tier`, zero removes the limit.
+     *
+     * Emits a {TierCapChanged} event.
+     *
+     * Requirements:
+     *
+     * - the caller must be the owner.
+     */
+    function setTierCap(uint8 tier, uint256 cap) external onlyOwner {
+        _caps[tier] = cap;
+
+        emit TierCapChanged(tier, cap);
+    }
+}
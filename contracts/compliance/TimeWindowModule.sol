@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/compliance/TimeWindowModule.sol)
+pragma solidity 0.8.25;
+
+import {IComplianceModule} from "./IComplianceModule.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @dev Compliance module which allows transfers only from the window start time and
+ * before its end time, e.g. a trading window. An end time of zero means the window
+ * never closes. Mints are restricted to the window as well.
+ *
+ * Only the owner are allowed to set the window.
+ */
+contract TimeWindowModule is IComplianceModule, Ownable {
+    uint64 private _start;
+    uint64 private _end;
+
+    /**
+     * @dev Emitted when the window has changed.
+     */
+    event WindowChanged(uint64 start, uint64 end);
+
+    /**
+     * @dev Thrown when the `end` of the window is not zero nor after its `start`.
+     */
+    error InvalidWindow(uint64 start, uint64 end);
+
+    constructor(uint64 start_, uint64 end_) {
+        _setWindow(start_, end_);
+    }
+
+    /**
+     * @dev Returns the start and end time of the window.
+     */
+    function window() external view returns (uint64, uint64) {
+        return (_start, _end);
+    }
+
+    /**
+     * @dev See {IComplianceModule-canTransfer}.
+     */
+    function canTransfer(address, address, address, uint256) external view returns (bool) {
+        return block.timestamp >= _start && (_end == 0 || block.timestamp < _end);
+    }
+
+    /**
+     * @dev Sets the window to start at `start` and end at `end`.
+     *
+     * Emits a {WindowChanged} event.
+     *
+     * Requirements:
+     *
+     * - `end` must be zero or after `start`.
+     * - the caller must be the owner.
+     */
+    function setWindow(uint64 start, uint64 end) external onlyOwner {
+        _setWindow(start, end);
+    }
+
+    /**
+     * @dev Sets the window to start at `start` and end at `end`.
+     */
+    function _setWindow(uint64 start, uint64 end) private {
+        if (end != 0 && end <= start) {
+            revert InvalidWindow(start, end);
+        }
+
+        _start = start;
+        _end = end;
+
+        emit WindowChanged(start, end);
+    }
+}
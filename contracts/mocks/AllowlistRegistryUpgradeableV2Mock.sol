@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/mocks/AllowlistRegistryUpgradeableV2Mock.sol)
+pragma solidity 0.8.25;
+
+import {AllowlistRegistryUpgradeable} from "../AllowlistRegistryUpgradeable.sol";
+
+/**
+ * @dev Next version of {AllowlistRegistryUpgradeable}, appending a state variable set by a reinitializer.
+ * Only used to test upgrades.
+ *
+ * The proxy is already initialized by the previous version, so it has no initializer of its own.
+ *
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract AllowlistRegistryUpgradeableV2Mock is AllowlistRegistryUpgradeable {
+    string private _version;
+
+    function initializeV2(string memory version_) external reinitializer(2) {
+        _version = version_;
+    }
+
+    function version() external view returns (string memory) {
+        return _version;
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/mocks/ERC1155Mock.sol)
+pragma solidity 0.8.25;
+
+import {ERC1155} from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+
+/**
+ * @dev ERC1155 token freely minted by anyone. Only used to test emergency withdraws.
+ */
+contract ERC1155Mock is ERC1155 {
+    constructor() ERC1155("") {}
+
+    function mint(address to, uint256 id, uint256 amount) external {
+        _mint(to, id, amount, "");
+    }
+}
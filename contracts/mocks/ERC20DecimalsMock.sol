@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/mocks/ERC20DecimalsMock.sol)
+pragma solidity 0.8.25;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @dev ERC20 token with configurable decimals freely minted by anyone. Only used to test redemption payouts.
+ */
+contract ERC20DecimalsMock is ERC20 {
+    uint8 private immutable DECIMALS;
+
+    constructor(uint8 decimals_) ERC20("ERC20 Decimals Mock", "MDEC") {
+        DECIMALS = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return DECIMALS;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/mocks/ERC721Mock.sol)
+pragma solidity 0.8.25;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/**
+ * @dev ERC721 token freely minted by anyone. Only used to test emergency withdraws.
+ */
+contract ERC721Mock is ERC721 {
+    constructor() ERC721("ERC721 Mock", "M721") {}
+
+    function mint(address to, uint256 id) external {
+        _mint(to, id);
+    }
+}
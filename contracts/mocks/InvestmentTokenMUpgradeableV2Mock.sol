@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (contracts/mocks/InvestmentTokenMUpgradeableV2Mock.sol)
+pragma solidity 0.8.25;
+
+import {InvestmentTokenMUpgradeable} from "../InvestmentTokenMUpgradeable.sol";
+
+/**
+ * @dev Next version of {InvestmentTokenMUpgradeable}, appending a state variable set by a reinitializer.
+ * Only used to test upgrades.
+ *
+ * The proxy is already initialized by the previous version, so it has no initializer of its own.
+ *
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract InvestmentTokenMUpgradeableV2Mock is InvestmentTokenMUpgradeable {
+    uint256 private _version;
+
+    function initializeV2(uint256 version_) external reinitializer(2) {
+        _version = version_;
+    }
+
+    function version() external view returns (uint256) {
+        return _version;
+    }
+}
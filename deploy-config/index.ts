@@ -0,0 +1,142 @@
+import fs from "fs";
+import path from "path";
+import { isAddress } from "ethers";
+
+export interface AllowlistRegistryConfig {
+  // An already deployed registry to wire the token to. Leave empty to deploy a new one.
+  address: string;
+  // Deploys AllowlistRegistryUpgradeable behind a transparent proxy instead of AllowlistRegistry.
+  upgradeable: boolean;
+}
+
+export interface InvestmentTokenMConfig {
+  name: string;
+  symbol: string;
+  // Deploys InvestmentTokenMUpgradeable behind a transparent proxy instead of InvestmentTokenM.
+  upgradeable: boolean;
+  // The account receiving the emergency withdrawn assets. Leave empty to set it later.
+  treasury: string;
+}
+
+export interface RedemptionManagerConfig {
+  // The ERC20 token paid out on redemption. Leave empty to skip the deployment.
+  payoutToken: string;
+  // The payout tokens paid per whole redeemed token (e.g. "0.5"), converted by RedemptionManager
+  // between the decimals of both tokens.
+  rate: string;
+  // The duration in seconds within which the owner is allowed to approve a redemption.
+  window: number;
+}
+
+export interface GovernanceConfig {
+  // The signers of GovernanceTimelock. Leave empty to skip the deployment and keep the roles with the deployer.
+  signers: string[];
+  // The number of signer approvals an operation needs to be queued.
+  threshold: number;
+  // The duration in seconds an operation is queued before it is allowed to be executed.
+  delay: number;
+}
+
+export interface DeployConfig {
+  allowlistRegistry: AllowlistRegistryConfig;
+  investmentTokenM: InvestmentTokenMConfig;
+  redemptionManager: RedemptionManagerConfig;
+  governance: GovernanceConfig;
+}
+
+/**
+ * Loads the deployment config of `network` from `deploy-config/<network>.json`, or from the
+ * `DEPLOY_CONFIG_DIR` directory when it is set.
+ */
+export function loadDeployConfig(network: string): DeployConfig {
+  const file = path.join(process.env.DEPLOY_CONFIG_DIR ?? __dirname, `${network}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`DeployConfig: missing config file for network "${network}" (${file})`);
+  }
+
+  const config: unknown = JSON.parse(fs.readFileSync(file, "utf8"));
+
+  return validateDeployConfig(network, config);
+}
+
+type ConfigSection = Record<string, unknown>;
+
+function isSection(value: unknown): value is ConfigSection {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the `key` section of `config`, empty when it is not set.
+ */
+function sectionOf(network: string, config: ConfigSection, key: keyof DeployConfig): ConfigSection {
+  const section = config[key] ?? {};
+  if (!isSection(section)) {
+    throw new Error(`DeployConfig: invalid ${key} on "${network}"`);
+  }
+
+  return section;
+}
+
+function validateDeployConfig(network: string, config: unknown): DeployConfig {
+  if (!isSection(config)) {
+    throw new Error(`DeployConfig: invalid config on "${network}"`);
+  }
+
+  const { address: registryAddress = "", upgradeable: registryUpgradeable = false } = sectionOf(
+    network,
+    config,
+    "allowlistRegistry"
+  );
+  if (typeof registryAddress !== "string" || (registryAddress !== "" && !isAddress(registryAddress))) {
+    throw new Error(`DeployConfig: invalid allowlistRegistry.address "${registryAddress}" on "${network}"`);
+  }
+  if (typeof registryUpgradeable !== "boolean") {
+    throw new Error(`DeployConfig: invalid allowlistRegistry.upgradeable "${registryUpgradeable}" on "${network}"`);
+  }
+
+  const { name, symbol, upgradeable = false, treasury = "" } = sectionOf(network, config, "investmentTokenM");
+  if (typeof name !== "string" || name.trim() === "") {
+    throw new Error(`DeployConfig: investmentTokenM.name is required on "${network}"`);
+  }
+  if (typeof symbol !== "string" || symbol.trim() === "") {
+    throw new Error(`DeployConfig: investmentTokenM.symbol is required on "${network}"`);
+  }
+  if (typeof upgradeable !== "boolean") {
+    throw new Error(`DeployConfig: invalid investmentTokenM.upgradeable "${upgradeable}" on "${network}"`);
+  }
+  if (typeof treasury !== "string" || (treasury !== "" && !isAddress(treasury))) {
+    throw new Error(`DeployConfig: invalid investmentTokenM.treasury "${treasury}" on "${network}"`);
+  }
+
+  const { payoutToken = "", rate = "", window = 0 } = sectionOf(network, config, "redemptionManager");
+  if (typeof payoutToken !== "string" || (payoutToken !== "" && !isAddress(payoutToken))) {
+    throw new Error(`DeployConfig: invalid redemptionManager.payoutToken "${payoutToken}" on "${network}"`);
+  }
+  if (typeof rate !== "string" || (payoutToken !== "" && !/^\d+(\.\d+)?$/.test(rate))) {
+    throw new Error(`DeployConfig: invalid redemptionManager.rate "${rate}" on "${network}"`);
+  }
+  if (typeof window !== "number" || (payoutToken !== "" && !(Number.isInteger(window) && window > 0))) {
+    throw new Error(`DeployConfig: invalid redemptionManager.window "${window}" on "${network}"`);
+  }
+
+  const { signers = [], threshold = 0, delay = 0 } = sectionOf(network, config, "governance");
+  if (!Array.isArray(signers) || signers.some((signer) => typeof signer !== "string" || !isAddress(signer))) {
+    throw new Error(`DeployConfig: invalid governance.signers "${signers}" on "${network}"`);
+  }
+  if (
+    typeof threshold !== "number" ||
+    (signers.length > 0 && !(Number.isInteger(threshold) && threshold > 0 && threshold <= signers.length))
+  ) {
+    throw new Error(`DeployConfig: invalid governance.threshold "${threshold}" on "${network}"`);
+  }
+  if (typeof delay !== "number" || (signers.length > 0 && !(Number.isInteger(delay) && delay >= 0))) {
+    throw new Error(`DeployConfig: invalid governance.delay "${delay}" on "${network}"`);
+  }
+
+  return {
+    allowlistRegistry: { address: registryAddress, upgradeable: registryUpgradeable },
+    investmentTokenM: { name, symbol, upgradeable, treasury },
+    redemptionManager: { payoutToken, rate, window },
+    governance: { signers, threshold, delay },
+  };
+}
@@ -0,0 +1,34 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { loadDeployConfig } from "../deploy-config";
+import { deployProxy } from "../tasks/helpers";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, network } = hre;
+  const { deployer } = await getNamedAccounts();
+  const config = loadDeployConfig(network.name);
+
+  // Reuse a registry that was deployed outside of this pipeline.
+  if (config.allowlistRegistry.address !== "") {
+    const artifact = await deployments.getExtendedArtifact("AllowlistRegistry");
+    await deployments.save("AllowlistRegistry", { ...artifact, address: config.allowlistRegistry.address });
+
+    deployments.log(`AllowlistRegistry reused at: ${config.allowlistRegistry.address}`);
+    return;
+  }
+
+  const result = config.allowlistRegistry.upgradeable
+    ? await deployProxy(hre, "AllowlistRegistry", "AllowlistRegistryUpgradeable", [])
+    : await deployments.deploy("AllowlistRegistry", {
+        from: deployer,
+        args: [],
+        log: true,
+        skipIfAlreadyDeployed: true,
+      });
+
+  deployments.log(`AllowlistRegistry ${result.newlyDeployed ? "deployed" : "reused"} at: ${result.address}`);
+};
+
+func.tags = ["AllowlistRegistry"];
+
+export default func;
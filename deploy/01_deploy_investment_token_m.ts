@@ -0,0 +1,36 @@
+import { getAddress } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { loadDeployConfig } from "../deploy-config";
+import { deployProxy } from "../tasks/helpers";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, network } = hre;
+  const { deployer } = await getNamedAccounts();
+  const config = loadDeployConfig(network.name);
+
+  const registry = await deployments.get("AllowlistRegistry");
+
+  const args = [config.investmentTokenM.name, config.investmentTokenM.symbol, registry.address];
+  const result = config.investmentTokenM.upgradeable
+    ? await deployProxy(hre, "InvestmentTokenM", "InvestmentTokenMUpgradeable", args)
+    : await deployments.deploy("InvestmentTokenM", {
+        from: deployer,
+        args,
+        log: true,
+        skipIfAlreadyDeployed: true,
+      });
+
+  deployments.log(`InvestmentTokenM ${result.newlyDeployed ? "deployed" : "reused"} at: ${result.address}`);
+
+  // Sets the treasury before the governance takes the admin role over, if not already set.
+  const { treasury } = config.investmentTokenM;
+  if (treasury !== "" && (await deployments.read("InvestmentTokenM", "treasury")) !== getAddress(treasury)) {
+    await deployments.execute("InvestmentTokenM", { from: deployer, log: true }, "setTreasury", treasury);
+  }
+};
+
+func.tags = ["InvestmentTokenM"];
+func.dependencies = ["AllowlistRegistry"];
+
+export default func;
@@ -0,0 +1,23 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts } = hre;
+  const { deployer } = await getNamedAccounts();
+
+  const registry = await deployments.get("AllowlistRegistry");
+
+  const result = await deployments.deploy("RewardDistributor", {
+    from: deployer,
+    args: [registry.address],
+    log: true,
+    skipIfAlreadyDeployed: true,
+  });
+
+  deployments.log(`RewardDistributor ${result.newlyDeployed ? "deployed" : "reused"} at: ${result.address}`);
+};
+
+func.tags = ["RewardDistributor"];
+func.dependencies = ["AllowlistRegistry"];
+
+export default func;
@@ -0,0 +1,30 @@
+import { parseUnits } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { loadDeployConfig } from "../deploy-config";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, network } = hre;
+  const { deployer } = await getNamedAccounts();
+  const config = loadDeployConfig(network.name).redemptionManager;
+
+  const registry = await deployments.get("AllowlistRegistry");
+  const token = await deployments.get("InvestmentTokenM");
+
+  const result = await deployments.deploy("RedemptionManager", {
+    from: deployer,
+    args: [token.address, config.payoutToken, parseUnits(config.rate, 18), config.window, registry.address],
+    log: true,
+    skipIfAlreadyDeployed: true,
+  });
+
+  deployments.log(`RedemptionManager ${result.newlyDeployed ? "deployed" : "reused"} at: ${result.address}`);
+};
+
+func.tags = ["RedemptionManager"];
+func.dependencies = ["AllowlistRegistry", "InvestmentTokenM"];
+// The redemption needs a payout token, so it is only deployed on networks that configure one.
+func.skip = async (hre: HardhatRuntimeEnvironment) =>
+  loadDeployConfig(hre.network.name).redemptionManager.payoutToken === "";
+
+export default func;
@@ -0,0 +1,23 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts } = hre;
+  const { deployer } = await getNamedAccounts();
+
+  const token = await deployments.get("InvestmentTokenM");
+
+  const result = await deployments.deploy("TransferRestrictionDetector", {
+    from: deployer,
+    args: [token.address],
+    log: true,
+    skipIfAlreadyDeployed: true,
+  });
+
+  deployments.log(`TransferRestrictionDetector ${result.newlyDeployed ? "deployed" : "reused"} at: ${result.address}`);
+};
+
+func.tags = ["TransferRestrictionDetector"];
+func.dependencies = ["InvestmentTokenM"];
+
+export default func;
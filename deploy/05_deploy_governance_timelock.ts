@@ -0,0 +1,79 @@
+import { Contract } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { loadDeployConfig } from "../deploy-config";
+
+// The InvestmentTokenM roles of the high-risk actions, handed over to GovernanceTimelock
+// along with DEFAULT_ADMIN_ROLE.
+const GOVERNED_ROLES = ["COMPLIANCE_ROLE", "REGISTRY_ADMIN_ROLE"];
+
+// The contracts whose proxy admin, which upgrades them, is handed over to GovernanceTimelock
+// when they are deployed behind a proxy.
+const PROXIES = ["AllowlistRegistry", "InvestmentTokenM"];
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, network } = hre;
+  const { deployer } = await getNamedAccounts();
+  const config = loadDeployConfig(network.name).governance;
+
+  const result = await deployments.deploy("GovernanceTimelock", {
+    from: deployer,
+    args: [config.signers, config.threshold, config.delay],
+    log: true,
+    skipIfAlreadyDeployed: true,
+  });
+
+  deployments.log(`GovernanceTimelock ${result.newlyDeployed ? "deployed" : "reused"} at: ${result.address}`);
+
+  // Grants the roles before handing DEFAULT_ADMIN_ROLE over, as granting needs it. The steps
+  // already done are skipped, so that an interrupted handover is resumed.
+  for (const name of GOVERNED_ROLES) {
+    const role = await deployments.read("InvestmentTokenM", name);
+    if (!(await deployments.read("InvestmentTokenM", "hasRole", role, result.address))) {
+      await deployments.execute("InvestmentTokenM", { from: deployer, log: true }, "grantRole", role, result.address);
+    }
+    if (await deployments.read("InvestmentTokenM", "hasRole", role, deployer)) {
+      await deployments.execute("InvestmentTokenM", { from: deployer, log: true }, "renounceRole", role, deployer);
+    }
+  }
+
+  // DEFAULT_ADMIN_ROLE moves in two steps, the governance accepting the transfer started by the deployer.
+  const adminRole = await deployments.read("InvestmentTokenM", "DEFAULT_ADMIN_ROLE");
+  if (!(await deployments.read("InvestmentTokenM", "hasRole", adminRole, result.address))) {
+    const token = await deployments.get("InvestmentTokenM");
+    if ((await deployments.read("InvestmentTokenM", "pendingAdmin")) !== result.address) {
+      await deployments.execute("InvestmentTokenM", { from: deployer, log: true }, "transferAdmin", result.address);
+    }
+    await deployments.execute("GovernanceTimelock", { from: deployer, log: true }, "acceptAdmin", token.address);
+  }
+
+  deployments.log(
+    `InvestmentTokenM DEFAULT_ADMIN_ROLE, ${GOVERNED_ROLES.join(", ")} handed over to GovernanceTimelock`
+  );
+
+  const signer = await hre.ethers.getSigner(deployer);
+  for (const name of PROXIES) {
+    const deployment = await deployments.get(name);
+    if (deployment.implementation === undefined) {
+      continue;
+    }
+
+    const proxyAdmin = await hre.upgrades.erc1967.getAdminAddress(deployment.address);
+    const owner = await new Contract(proxyAdmin, ["function owner() view returns (address)"], signer).owner();
+    if (owner !== result.address) {
+      await hre.upgrades.admin.transferProxyAdminOwnership(deployment.address, result.address, signer, {
+        silent: true,
+      });
+    }
+
+    deployments.log(`${name} proxy admin ${proxyAdmin} handed over to GovernanceTimelock`);
+  }
+};
+
+func.tags = ["GovernanceTimelock"];
+func.dependencies = ["InvestmentTokenM"];
+// The roles are only handed over on networks that configure the signers of the governance.
+func.skip = async (hre: HardhatRuntimeEnvironment) =>
+  loadDeployConfig(hre.network.name).governance.signers.length === 0;
+
+export default func;
@@ -0,0 +1,49 @@
+import fs from "fs";
+import path from "path";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+
+interface ManifestEntry {
+  address: string;
+  args: any[];
+  transactionHash?: string;
+  implementation?: string;
+}
+
+/**
+ * Writes `deployments/<network>/manifest.json` with the address, constructor
+ * args and deployment transaction of every contract of the network, and the
+ * implementation address of the contracts deployed behind a proxy. It is
+ * written on every network, the manifests of the in-process `hardhat` network
+ * being ignored by git.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, network } = hre;
+
+  const contracts: Record<string, ManifestEntry> = {};
+  for (const [name, deployment] of Object.entries(await deployments.all())) {
+    contracts[name] = {
+      address: deployment.address,
+      args: deployment.args ?? [],
+      transactionHash: deployment.transactionHash,
+      implementation: deployment.implementation,
+    };
+  }
+
+  const manifest = {
+    network: network.name,
+    chainId: await hre.getChainId(),
+    contracts,
+  };
+
+  const file = path.join(hre.config.paths.deployments, network.name, "manifest.json");
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+
+  deployments.log(`Deployments manifest written to: ${file}`);
+};
+
+func.tags = ["Manifest"];
+func.runAtTheEnd = true;
+
+export default func;
@@ -18,6 +18,21 @@ abstract contract ERC20AllowListableProxy {
      */
     event AllowlistRegistryChanged(address indexed previousRegistry, address indexed newRegistry);
 
+    /**
+     * @dev Thrown when `account` is not allowlisted.
+     */
+    error NotAllowlisted(address account);
+
+    /**
+     * @dev Thrown when the allowlist status of the zero address is queried.
+     */
+    error InvalidAllowlistAccount(address account);
+
+    /**
+     * @dev Thrown when the allowlist registry is set to an address that is not an allowlist registry.
+     */
+    error InvalidAllowlistRegistry(address registry);
+
     /**
      * @dev Returns the allowlist registry contract address.
      */
@@ -29,21 +44,62 @@ abstract contract ERC20AllowListableProxy {
      * @dev Returns the allowlist status of an account.
      */
     function isAllowlist(address account) public view virtual returns (bool) {
-        require(account != address(0), "ERC20AllowListableProxy: account cannot be zero address");
+        if (account == address(0)) {
+            revert InvalidAllowlistAccount(account);
+        }
 
         AllowlistRegistry registry = AllowlistRegistry(_registry);
         return registry.isAllowlist(account);
     }
 
+    /**
+     * @dev Returns the allowlist tier of an account.
+     */
+    function _allowlistTierOf(address account) internal view virtual returns (uint8) {
+        (, , uint8 tier, ) = AllowlistRegistry(_registry).allowlistEntryOf(account);
+        return tier;
+    }
+
     /**
      * @dev Set the `registry` contract address.
+     *
+     * Requirements:
+     *
+     * - `newRegistry` must be a contract answering {AllowlistRegistry-isAllowlist} and
+     * {AllowlistRegistry-allowlistEntryOf}, probed with the address of (this) contract.
      */
     function _setAllowlistRegistry(address newRegistry) internal virtual {
-        require(address(newRegistry) != address(0), "ERC20AllowListableProxy: registry cannot be zero address");
+        if (!_isAllowlistRegistry(newRegistry)) {
+            revert InvalidAllowlistRegistry(newRegistry);
+        }
 
         address oldRegistry = _registry;
         _registry = newRegistry;
 
         emit AllowlistRegistryChanged(oldRegistry, newRegistry);
     }
+
+    /**
+     * @dev Returns true if `registry` answers the allowlist queries with well-formed results.
+     */
+    function _isAllowlistRegistry(address registry) private view returns (bool) {
+        if (registry.code.length == 0) {
+            return false;
+        }
+
+        (bool success, bytes memory result) = registry.staticcall(abi.encodeCall(AllowlistRegistry(registry).isAllowlist, (address(this))));
+        if (!success || result.length != 32) {
+            return false;
+        }
+
+        (success, result) = registry.staticcall(abi.encodeCall(AllowlistRegistry(registry).allowlistEntryOf, (address(this))));
+        return success && result.length == 128;
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[49] private __gap;
 }
\ No newline at end of file
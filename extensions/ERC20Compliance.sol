@@ -0,0 +1,145 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (extensions/ERC20Compliance.sol)
+pragma solidity 0.8.25;
+
+import {IComplianceModule} from "../contracts/compliance/IComplianceModule.sol";
+
+/**
+ * @dev Contract module which allows children to check transfers against an ordered
+ * list of compliance modules, see {IComplianceModule}. A transfer is compliant when
+ * every module allows it. The modules can be managed by an authorized account.
+ *
+ * This module is used through inheritance.
+ */
+abstract contract ERC20Compliance {
+    uint256 public constant MAX_COMPLIANCE_MODULES = 10;
+
+    address[] private _modules;
+
+    /**
+     * @dev Emitted when a compliance module has added.
+     */
+    event ComplianceModuleAdded(address indexed module);
+
+    /**
+     * @dev Emitted when a compliance module has removed.
+     */
+    event ComplianceModuleRemoved(address indexed module);
+
+    /**
+     * @dev Thrown when a compliance module is the zero address.
+     */
+    error InvalidComplianceModule(address module);
+
+    /**
+     * @dev Thrown when adding a module would exceed `MAX_COMPLIANCE_MODULES`.
+     */
+    error TooManyComplianceModules();
+
+    /**
+     * @dev Thrown when `module` is already added.
+     */
+    error ComplianceModuleAlreadyAdded(address module);
+
+    /**
+     * @dev Thrown when `module` is not added.
+     */
+    error ComplianceModuleNotAdded(address module);
+
+    /**
+     * @dev Thrown when a compliance module does not allow `operator` to transfer `amount` tokens from `from` to `to`.
+     */
+    error TransferNotCompliant(address from, address to, address operator, uint256 amount);
+
+    /**
+     * @dev Returns the compliance modules, in the order they are checked.
+     */
+    function complianceModules() external view returns (address[] memory) {
+        return _modules;
+    }
+
+    /**
+     * @dev Returns true if `operator` is allowed to transfer `amount` tokens from `from` to `to`,
+     * and false otherwise. Allows frontends to pre-check a transfer.
+     */
+    function canTransfer(address from, address to, address operator, uint256 amount) public view virtual returns (bool) {
+        return _isCompliant(from, to, operator, amount);
+    }
+
+    /**
+     * @dev Appends `module` to the compliance modules.
+     *
+     * Requirements:
+     *
+     * - `module` cannot be the zero address nor already added.
+     * - the number of modules must not exceed `MAX_COMPLIANCE_MODULES`.
+     */
+    function _addComplianceModule(address module) internal virtual {
+        if (module == address(0)) {
+            revert InvalidComplianceModule(module);
+        }
+        if (_modules.length >= MAX_COMPLIANCE_MODULES) {
+            revert TooManyComplianceModules();
+        }
+        for (uint256 i = 0; i < _modules.length; i++) {
+            if (_modules[i] == module) {
+                revert ComplianceModuleAlreadyAdded(module);
+            }
+        }
+
+        _modules.push(module);
+
+        emit ComplianceModuleAdded(module);
+    }
+
+    /**
+     * @dev Removes `module` from the compliance modules, preserving the order of the others.
+     *
+     * Requirements:
+     *
+     * - `module` must be added.
+     */
+    function _removeComplianceModule(address module) internal virtual {
+        uint256 length = _modules.length;
+        for (uint256 i = 0; i < length; i++) {
+            if (_modules[i] == module) {
+                for (uint256 j = i; j < length - 1; j++) {
+                    _modules[j] = _modules[j + 1];
+                }
+                _modules.pop();
+
+                emit ComplianceModuleRemoved(module);
+                return;
+            }
+        }
+        revert ComplianceModuleNotAdded(module);
+    }
+
+    /**
+     * @dev Throws if a compliance module does not allow the transfer.
+     */
+    function _validateCompliance(address from, address to, address operator, uint256 amount) internal view virtual {
+        if (!_isCompliant(from, to, operator, amount)) {
+            revert TransferNotCompliant(from, to, operator, amount);
+        }
+    }
+
+    /**
+     * @dev Returns true if every compliance module allows the transfer.
+     */
+    function _isCompliant(address from, address to, address operator, uint256 amount) internal view virtual returns (bool) {
+        for (uint256 i = 0; i < _modules.length; i++) {
+            if (!IComplianceModule(_modules[i]).canTransfer(from, to, operator, amount)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[49] private __gap;
+}
@@ -0,0 +1,197 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (extensions/ERC20Freezable.sol)
+pragma solidity 0.8.25;
+
+import {ContextUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable.sol";
+
+/**
+ * @dev Contract module that allows child contracts to freeze individual accounts,
+ * either entirely or up to an amount of their balance. This mechanism can be
+ * managed by an authorized account.
+ *
+ * A frozen account cannot send, receive, burn or approve tokens, nor act as the
+ * caller of a transfer. An account with a frozen amount cannot spend its balance
+ * below that amount.
+ *
+ * This module is designed for use through inheritance.
+ */
+abstract contract ERC20Freezable is ContextUpgradeable {
+    mapping(address => bool) private _frozen;
+    mapping(address => uint256) private _frozenAmounts;
+
+    /**
+     * @dev Emitted when an account is frozen.
+     */
+    event Freeze(address indexed account);
+
+    /**
+     * @dev Emitted when an account is unfrozen.
+     */
+    event Unfreeze(address indexed account);
+
+    /**
+     * @dev Emitted when the frozen amount of an account is set.
+     */
+    event FreezeAmount(address indexed account, uint256 amount);
+
+    /**
+     * @dev Emitted when the freeze and frozen amount of `from` are moved to `to`.
+     */
+    event MoveFreeze(address indexed from, address indexed to);
+
+    /**
+     * @dev Thrown when `account` is frozen.
+     */
+    error AccountFrozen(address account);
+
+    /**
+     * @dev Thrown when `account` is not frozen.
+     */
+    error AccountNotFrozen(address account);
+
+    /**
+     * @dev Thrown when spending `amount` would leave the balance of `account` below its `frozenAmount`.
+     */
+    error AmountExceedsAvailableBalance(address account, uint256 amount, uint256 frozenAmount);
+
+    /**
+     * @dev Modifier that checks `account`, `counterparty` and the caller are not frozen, and that
+     * `account` keeps at least its frozen amount after spending `amount`. If not, the transaction reverts.
+     *
+     * @param account The address of the account spending its balance.
+     * @param counterparty The address of the account receiving the tokens or the allowance.
+     * @param amount The amount being spent.
+     */
+    modifier validateFreeze(address account, address counterparty, uint256 amount) {
+        _validateFreeze(account, counterparty, amount);
+        _;
+    }
+
+    /**
+     * @dev Returns the amount of tokens owned by `account`.
+     */
+    function balanceOf(address account) public view virtual returns (uint256);
+
+    /**
+     * @dev Returns true if the account is frozen, and false otherwise.
+     */
+    function isFrozen(address account) external view returns (bool) {
+        return _frozen[account];
+    }
+
+    /**
+     * @dev Returns the frozen amount of a given account.
+     */
+    function frozenAmountOf(address account) external view returns (uint256) {
+        return _frozenAmounts[account];
+    }
+
+    /**
+     * @dev Returns the amount of tokens a given account is allowed to spend, that is
+     * zero when the account is frozen, and its balance above the frozen amount otherwise.
+     * @param account The address of the account to query.
+     */
+    function availableBalanceOf(address account) public view virtual returns (uint256) {
+        uint256 balance = balanceOf(account);
+        uint256 frozenAmount = _frozenAmounts[account];
+
+        if (_frozen[account] || frozenAmount >= balance) {
+            return 0;
+        }
+        return balance - frozenAmount;
+    }
+
+    /**
+     * @dev Freezes `account`.
+     *
+     * Requirements:
+     *
+     * - the account must not be frozen.
+     */
+    function _freeze(address account) internal virtual {
+        if (_frozen[account]) {
+            revert AccountFrozen(account);
+        }
+
+        _frozen[account] = true;
+
+        emit Freeze(account);
+    }
+
+    /**
+     * @dev Unfreezes `account`.
+     *
+     * Requirements:
+     *
+     * - the account must be frozen.
+     */
+    function _unfreeze(address account) internal virtual {
+        if (!_frozen[account]) {
+            revert AccountNotFrozen(account);
+        }
+
+        _frozen[account] = false;
+
+        emit Unfreeze(account);
+    }
+
+    /**
+     * @dev Sets the frozen amount of `account`, zero unfreezes all of its balance.
+     */
+    function _freezeAmount(address account, uint256 amount) internal virtual {
+        _frozenAmounts[account] = amount;
+
+        emit FreezeAmount(account, amount);
+    }
+
+    /**
+     * @dev Moves the freeze and frozen amount of `from` to `to`, replacing those of `to` and
+     * leaving `from` unfrozen.
+     */
+    function _moveFreeze(address from, address to) internal virtual {
+        _frozen[to] = _frozen[from];
+        _frozenAmounts[to] = _frozenAmounts[from];
+        delete _frozen[from];
+        delete _frozenAmounts[from];
+
+        emit MoveFreeze(from, to);
+    }
+
+    /**
+     * @dev Returns true if `account` is frozen or has a frozen amount.
+     */
+    function _hasFreeze(address account) internal view virtual returns (bool) {
+        return _frozen[account] || _frozenAmounts[account] != 0;
+    }
+
+    /**
+     * @dev See {validateFreeze}.
+     */
+    function _validateFreeze(address account, address counterparty, uint256 amount) internal view virtual {
+        _validateNotFrozen(account);
+        _validateNotFrozen(counterparty);
+        _validateNotFrozen(_msgSender());
+
+        uint256 balance = balanceOf(account);
+        uint256 frozenAmount = _frozenAmounts[account];
+        if (amount <= balance && balance - amount < frozenAmount) {
+            revert AmountExceedsAvailableBalance(account, amount, frozenAmount);
+        }
+    }
+
+    /**
+     * @dev Throws if `account` is frozen.
+     */
+    function _validateNotFrozen(address account) internal view virtual {
+        if (_frozen[account]) {
+            revert AccountFrozen(account);
+        }
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[48] private __gap;
+}
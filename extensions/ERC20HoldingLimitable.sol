@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (extensions/ERC20HoldingLimitable.sol)
+pragma solidity 0.8.25;
+
+/**
+ * @dev Contract module that allows child contracts to cap the balance of each account
+ * and the number of accounts holding tokens. This mechanism can be managed by an
+ * authorized account.
+ *
+ * The max balance of an account is its own max balance if set, and the max balance
+ * of its allowlist tier otherwise. A max balance or max holder count of zero means
+ * there is no limit.
+ *
+ * The holders are counted by {_updateHolders}, that must be called after every
+ * balance change.
+ *
+ * This module is designed for use through inheritance.
+ */
+abstract contract ERC20HoldingLimitable {
+    mapping(address => uint256) private _maxBalances;
+    mapping(uint8 => uint256) private _tierMaxBalances;
+    uint256 private _maxHolderCount;
+    uint256 private _holderCount;
+
+    /**
+     * @dev Emitted when the max balance of a specific account is set.
+     */
+    event SetMaxBalance(address indexed account, uint256 amount);
+
+    /**
+     * @dev Emitted when the max balance of the accounts of an allowlist tier is set.
+     */
+    event SetTierMaxBalance(uint8 indexed tier, uint256 amount);
+
+    /**
+     * @dev Emitted when the max holder count is set.
+     */
+    event SetMaxHolderCount(uint256 count);
+
+    /**
+     * @dev Thrown when the max holder count is set below the current `holderCount`.
+     */
+    error MaxHolderCountBelowHolderCount(uint256 count, uint256 holderCount);
+
+    /**
+     * @dev Thrown when a transfer would make the holder count exceed the `maxHolderCount`.
+     */
+    error MaxHolderCountExceeded(uint256 maxHolderCount);
+
+    /**
+     * @dev Thrown when a transfer would make the `balance` of `account` exceed its `maxBalance`.
+     */
+    error MaxBalanceExceeded(address account, uint256 balance, uint256 maxBalance);
+
+    /**
+     * @dev Returns the amount of tokens owned by `account`.
+     */
+    function balanceOf(address account) public view virtual returns (uint256);
+
+    /**
+     * @dev Returns the max balance of a given account, zero if there is no limit.
+     * @param account The address of the account to query.
+     */
+    function maxBalanceOf(address account) public view virtual returns (uint256) {
+        uint256 maxBalance = _maxBalances[account];
+        if (maxBalance > 0) {
+            return maxBalance;
+        }
+        return _tierMaxBalances[_tierOf(account)];
+    }
+
+    /**
+     * @dev Returns the max balance of the accounts of a given allowlist tier, zero if there is no limit.
+     */
+    function tierMaxBalance(uint8 tier) external view returns (uint256) {
+        return _tierMaxBalances[tier];
+    }
+
+    /**
+     * @dev Returns the max number of accounts holding tokens, zero if there is no limit.
+     */
+    function maxHolderCount() external view returns (uint256) {
+        return _maxHolderCount;
+    }
+
+    /**
+     * @dev Returns the number of accounts holding tokens.
+     */
+    function holderCount() external view returns (uint256) {
+        return _holderCount;
+    }
+
+    /**
+     * @dev Returns the allowlist tier of `account`.
+     */
+    function _tierOf(address account) internal view virtual returns (uint8);
+
+    /**
+     * @dev Sets the max balance of a specific account, zero falls back to the max balance of its tier.
+     */
+    function _setMaxBalance(address account, uint256 amount) internal virtual {
+        _maxBalances[account] = amount;
+
+        emit SetMaxBalance(account, amount);
+    }
+
+    /**
+     * @dev Sets the max balance of the accounts of an allowlist tier, zero removes the limit.
+     */
+    function _setTierMaxBalance(uint8 tier, uint256 amount) internal virtual {
+        _tierMaxBalances[tier] = amount;
+
+        emit SetTierMaxBalance(tier, amount);
+    }
+
+    /**
+     * @dev Sets the max number of accounts holding tokens, zero removes the limit.
+     *
+     * Requirements:
+     *
+     * - `count` must be zero or at least equal to the current holder count.
+     */
+    function _setMaxHolderCount(uint256 count) internal virtual {
+        if (count > 0 && count < _holderCount) {
+            revert MaxHolderCountBelowHolderCount(count, _holderCount);
+        }
+
+        _maxHolderCount = count;
+
+        emit SetMaxHolderCount(count);
+    }
+
+    /**
+     * @dev Updates the holder count after `amount` tokens moved from `from` to `to`,
+     * and checks the balance of `to` and the holder count are within their limits.
+     *
+     * Requirements:
+     *
+     * - the balance of `to` must not exceed its max balance.
+     * - the holder count must not exceed the max holder count.
+     */
+    function _updateHolders(address from, address to, uint256 amount) internal virtual {
+        if (amount == 0 || from == to) {
+            return;
+        }
+
+        if (from != address(0) && balanceOf(from) == 0) {
+            _holderCount -= 1;
+        }
+
+        if (to != address(0)) {
+            uint256 balance = balanceOf(to);
+            if (balance == amount) {
+                _holderCount += 1;
+                if (_maxHolderCount > 0 && _holderCount > _maxHolderCount) {
+                    revert MaxHolderCountExceeded(_maxHolderCount);
+                }
+            }
+
+            uint256 maxBalance = maxBalanceOf(to);
+            if (maxBalance > 0 && balance > maxBalance) {
+                revert MaxBalanceExceeded(to, balance, maxBalance);
+            }
+        }
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[46] private __gap;
+}
@@ -2,25 +2,64 @@
 // TokenX Contracts v1.0.4 (extensions/ERC20Mintable.sol)
 pragma solidity 0.8.25;
 
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
 /**
  * @dev Contract module which allows children to implement an mintable control
  * mechanism that can be called by an authorized account.
  *
+ * Besides renouncing mintable entirely, a max supply can cap the total supply.
+ * Once set, the max supply can only be decreased.
+ *
  * This module is used through inheritance.
  */
-abstract contract ERC20Mintable {
-    bool private _mintable = true;
+abstract contract ERC20Mintable is Initializable {
+    bool private _mintable;
+
+    uint256 private _maxSupply;
 
     /**
      * @dev Emitted when mintable has renounced.
      */
     event MintableRenounced();
 
+    /**
+     * @dev Emitted when max supply has changed.
+     */
+    event MaxSupplyChanged(uint256 previousMaxSupply, uint256 newMaxSupply);
+
+    /**
+     * @dev Thrown when minting after mintable has renounced.
+     */
+    error MintingRenounced();
+
+    /**
+     * @dev Thrown when the max supply is set to zero.
+     */
+    error InvalidMaxSupply(uint256 maxSupply);
+
+    /**
+     * @dev Thrown when the max supply is set below the `totalSupply`.
+     */
+    error MaxSupplyBelowTotalSupply(uint256 maxSupply, uint256 totalSupply);
+
+    /**
+     * @dev Thrown when the max supply is set to at least the `currentMaxSupply`.
+     */
+    error MaxSupplyNotDecreased(uint256 maxSupply, uint256 currentMaxSupply);
+
+    /**
+     * @dev Thrown when the `totalSupply` exceeds the `maxSupply`.
+     */
+    error MaxSupplyExceeded(uint256 totalSupply, uint256 maxSupply);
+
     /**
      * @dev Throws if called when mintable has renounced.
      */
     modifier whenMintable() {
-        require(_mintable, "ERC20Mintable: mintable has renounced");
+        if (!_mintable) {
+            revert MintingRenounced();
+        }
         _;
     }
 
@@ -31,6 +70,20 @@ abstract contract ERC20Mintable {
         return _mintable;
     }
 
+    /**
+     * @dev Returns the max supply, zero when the supply is not capped.
+     */
+    function maxSupply() external view returns (uint256) {
+        return _maxSupply;
+    }
+
+    /**
+     * @dev Sets the contract mintable, see {Initializable}.
+     */
+    function __ERC20Mintable_init() internal onlyInitializing {
+        _mintable = true;
+    }
+
     /**
      * @dev Renonuce mintable of the contract.
      */
@@ -39,4 +92,46 @@ abstract contract ERC20Mintable {
 
         emit MintableRenounced();
     }
-}
\ No newline at end of file
+
+    /**
+     * @dev Set the max supply to `newMaxSupply`, given the current `totalSupply`.
+     *
+     * Requirements:
+     *
+     * - `newMaxSupply` must not be zero.
+     * - `newMaxSupply` must be at least equal to `totalSupply`.
+     * - `newMaxSupply` must be less than the current max supply, if any.
+     */
+    function _setMaxSupply(uint256 newMaxSupply, uint256 totalSupply) internal virtual {
+        if (newMaxSupply == 0) {
+            revert InvalidMaxSupply(newMaxSupply);
+        }
+        if (newMaxSupply < totalSupply) {
+            revert MaxSupplyBelowTotalSupply(newMaxSupply, totalSupply);
+        }
+        if (_maxSupply > 0 && newMaxSupply >= _maxSupply) {
+            revert MaxSupplyNotDecreased(newMaxSupply, _maxSupply);
+        }
+
+        uint256 previousMaxSupply = _maxSupply;
+        _maxSupply = newMaxSupply;
+
+        emit MaxSupplyChanged(previousMaxSupply, newMaxSupply);
+    }
+
+    /**
+     * @dev Throws if `totalSupply` exceeds the max supply.
+     */
+    function _validateMaxSupply(uint256 totalSupply) internal view virtual {
+        if (_maxSupply > 0 && totalSupply > _maxSupply) {
+            revert MaxSupplyExceeded(totalSupply, _maxSupply);
+        }
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[48] private __gap;
+}
@@ -2,22 +2,37 @@
 // TokenX Contracts v1.0.1 (extensions/ERC20TransferLimitable.sol)
 pragma solidity 0.8.25;
 
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
 /**
  * @dev Contract module that allows child contracts to implement a transfer limit control
  * mechanism for individual accounts. This mechanism can be managed by an authorized account.
  *
+ * A transfer limit is either absolute, where the amount is only replenished by an authorized account,
+ * or periodic, where the amount is replenished to a cap at the start of every fixed-length period.
+ *
+ * Besides the transfer limit on the sending account, a receive limit can be set on the receiving
+ * account, and a periodic global transfer limit can cap the total transferred volume of the contract.
+ *
  * This module is designed for use through inheritance.
  */
-abstract contract ERC20TransferLimitable {
+abstract contract ERC20TransferLimitable is Initializable {
     struct TransferLimit {
         bool limitable;
         uint256 amount;
+        uint256 cap;
+        uint256 period;
+        uint256 resetAt;
     }
 
-    bool private _transferLimitable = true;
+    bool private _transferLimitable;
 
     mapping(address => TransferLimit) private _transferLimitList;
 
+    mapping(address => TransferLimit) private _receiveLimitList;
+
+    TransferLimit private _globalTransferLimit;
+
     /**
      * @dev Emitted when transfer limits are enabled for the contract.
      */
@@ -33,6 +48,11 @@ abstract contract ERC20TransferLimitable {
      */
     event SetTransferLimit(address indexed account, uint256 amount);
 
+    /**
+     * @dev Emitted when a periodic transfer limit is set for a specific account.
+     */
+    event SetPeriodicTransferLimit(address indexed account, uint256 cap, uint256 period);
+
     /**
      * @dev Emitted when the transfer limit is removed from a specific account.
      */
@@ -48,6 +68,106 @@ abstract contract ERC20TransferLimitable {
      */
     event DecreaseTransferLimit(address indexed account, uint256 amount);
 
+    /**
+     * @dev Emitted when a receive limit is set for a specific account.
+     */
+    event SetReceiveLimit(address indexed account, uint256 amount);
+
+    /**
+     * @dev Emitted when a periodic receive limit is set for a specific account.
+     */
+    event SetPeriodicReceiveLimit(address indexed account, uint256 cap, uint256 period);
+
+    /**
+     * @dev Emitted when the receive limit is removed from a specific account.
+     */
+    event UnsetReceiveLimit(address indexed account);
+
+    /**
+     * @dev Emitted when the receive limit for a specific account is increased.
+     */
+    event IncreaseReceiveLimit(address indexed account, uint256 amount);
+
+    /**
+     * @dev Emitted when the receive limit for a specific account is decreased.
+     */
+    event DecreaseReceiveLimit(address indexed account, uint256 amount);
+
+    /**
+     * @dev Emitted when the transfer and receive limits of `from` are moved to `to`.
+     */
+    event MoveTransferLimit(address indexed from, address indexed to);
+
+    /**
+     * @dev Emitted when the global transfer limit is set for the contract.
+     */
+    event SetGlobalTransferLimit(uint256 cap, uint256 period);
+
+    /**
+     * @dev Emitted when the global transfer limit is removed from the contract.
+     */
+    event UnsetGlobalTransferLimit();
+
+    /**
+     * @dev Thrown when a transfer of `requested` exceeds the `remaining` transfer limit of `account`.
+     */
+    error TransferLimitExceeded(address account, uint256 requested, uint256 remaining);
+
+    /**
+     * @dev Thrown when a transfer of `requested` exceeds the `remaining` receive limit of `account`.
+     */
+    error ReceiveLimitExceeded(address account, uint256 requested, uint256 remaining);
+
+    /**
+     * @dev Thrown when a transfer of `requested` exceeds the `remaining` global transfer limit.
+     */
+    error GlobalTransferLimitExceeded(uint256 requested, uint256 remaining);
+
+    /**
+     * @dev Thrown when transfer limits are disabled for the contract.
+     */
+    error TransferLimitableDisabled();
+
+    /**
+     * @dev Thrown when transfer limits are enabled for the contract.
+     */
+    error TransferLimitableEnabled();
+
+    /**
+     * @dev Thrown when `account` has no transfer limit.
+     */
+    error AccountTransferLimitDisabled(address account);
+
+    /**
+     * @dev Thrown when `account` already has a transfer limit.
+     */
+    error AccountTransferLimitEnabled(address account);
+
+    /**
+     * @dev Thrown when `account` has no receive limit.
+     */
+    error AccountReceiveLimitDisabled(address account);
+
+    /**
+     * @dev Thrown when `account` already has a receive limit.
+     */
+    error AccountReceiveLimitEnabled(address account);
+
+    /**
+     * @dev Thrown when the contract has no global transfer limit.
+     */
+    error GlobalTransferLimitDisabled();
+
+    /**
+     * @dev Thrown when the contract already has a global transfer limit.
+     */
+    error GlobalTransferLimitEnabled();
+
+    /**
+     * @dev Thrown when the period of a periodic limit is zero.
+     */
+    error InvalidLimitPeriod();
+
     /**
      * @dev Modifier that a transfer amount against the account's transfer limit. If the limit is exceeded, the transaction reverts.
      *
@@ -57,10 +177,32 @@ abstract contract ERC20TransferLimitable {
      * @param amount The amount being transferred.
      */
     modifier validateTransferLimit(address account, uint256 amount) {
-        if (_transferLimitable && _transferLimitList[account].limitable) {
-            require(amount <= _transferLimitList[account].amount, "ERC20TransferLimit: transfer exceeds limit");
-            _transferLimitList[account].amount -= amount;
-        }
+        _validateTransferLimit(account, amount);
+        _;
+    }
+
+    /**
+     * @dev Modifier that a received amount against the account's receive limit. If the limit is exceeded, the transaction reverts.
+     *
+     * NOTE: Updates the remaining receive limit for the account if the transfer is valid.
+     *
+     * @param account The address of the account receiving the transfer.
+     * @param amount The amount being transferred.
+     */
+    modifier validateReceiveLimit(address account, uint256 amount) {
+        _validateReceiveLimit(account, amount);
+        _;
+    }
+
+    /**
+     * @dev Modifier that a transfer amount against the global transfer limit. If the limit is exceeded, the transaction reverts.
+     *
+     * NOTE: Updates the remaining global transfer limit if the transfer is valid.
+     *
+     * @param amount The amount being transferred.
+     */
+    modifier validateGlobalTransferLimit(uint256 amount) {
+        _validateGlobalTransferLimit(amount);
         _;
     }
 
@@ -68,7 +210,9 @@ abstract contract ERC20TransferLimitable {
      * @dev Throws if called when transfer limitable are disabled.
      */
     modifier whenTransferLimitableEnabled() {
-        require(_transferLimitable, "ERC20TransferLimit: transfer limit disabled");
+        if (!_transferLimitable) {
+            revert TransferLimitableDisabled();
+        }
         _;
     }
 
@@ -76,7 +220,9 @@ abstract contract ERC20TransferLimitable {
      * @dev Throws if called when transfer limitable are enabled.
      */
     modifier whenTransferLimitableDisabled() {
-        require(!_transferLimitable, "ERC20TransferLimit: transfer limit enabled");
+        if (_transferLimitable) {
+            revert TransferLimitableEnabled();
+        }
         _;
     }
 
@@ -84,7 +230,9 @@ abstract contract ERC20TransferLimitable {
      * @dev Throws if the specified account's transfer limits are disabled. 
      */
     modifier requireTransferLimitEnabled(address account) {
-        require(_transferLimitList[account].limitable, "ERC20TransferLimit: account transfer limit disabled");
+        if (!_transferLimitList[account].limitable) {
+            revert AccountTransferLimitDisabled(account);
+        }
         _;
     }
 
@@ -92,7 +240,29 @@ abstract contract ERC20TransferLimitable {
      * @dev Throws if the specified account's transfer limits are enabled. 
      */
     modifier requireTransferLimitDisabled(address account) {
-        require(!_transferLimitList[account].limitable, "ERC20TransferLimit: account transfer limit enabled");
+        if (_transferLimitList[account].limitable) {
+            revert AccountTransferLimitEnabled(account);
+        }
+        _;
+    }
+
+    /**
+     * @dev Throws if the specified account's receive limits are disabled.
+     */
+    modifier requireReceiveLimitEnabled(address account) {
+        if (!_receiveLimitList[account].limitable) {
+            revert AccountReceiveLimitDisabled(account);
+        }
+        _;
+    }
+
+    /**
+     * @dev Throws if the specified account's receive limits are enabled.
+     */
+    modifier requireReceiveLimitDisabled(address account) {
+        if (_receiveLimitList[account].limitable) {
+            revert AccountReceiveLimitEnabled(account);
+        }
         _;
     }
 
@@ -104,14 +274,73 @@ abstract contract ERC20TransferLimitable {
     }
 
     /**
-     * @dev Returns the transfer limit status and amount for a given account.
+     * @dev Returns the transfer limit status, remaining amount and next reset time for a given account.
      * @param account The address of the account to query.
      * @return bool True if the account has a transfer limit, false otherwise.
      * @return uint256 The current transfer limit amount for the account.
+     * @return uint256 The time the amount is next replenished, zero for an absolute transfer limit.
      */
-    function transferLimitOf(address account) external view returns (bool, uint256) {
+    function transferLimitOf(address account) external view returns (bool, uint256, uint256) {
+        return _currentLimit(_transferLimitList[account]);
+    }
+
+    /**
+     * @dev Returns the periodic transfer limit settings for a given account.
+     * @param account The address of the account to query.
+     * @return uint256 The amount the transfer limit is replenished to at every period.
+     * @return uint256 The period length in seconds, zero for an absolute transfer limit.
+     */
+    function transferLimitPeriodOf(address account) external view returns (uint256, uint256) {
         TransferLimit memory _account = _transferLimitList[account];
-        return (_account.limitable, _account.amount);
+        return (_account.cap, _account.period);
+    }
+
+    /**
+     * @dev Returns the receive limit status, remaining amount and next reset time for a given account.
+     * @param account The address of the account to query.
+     * @return bool True if the account has a receive limit, false otherwise.
+     * @return uint256 The current receive limit amount for the account.
+     * @return uint256 The time the amount is next replenished, zero for an absolute receive limit.
+     */
+    function receiveLimitOf(address account) external view returns (bool, uint256, uint256) {
+        return _currentLimit(_receiveLimitList[account]);
+    }
+
+    /**
+     * @dev Returns the periodic receive limit settings for a given account.
+     * @param account The address of the account to query.
+     * @return uint256 The amount the receive limit is replenished to at every period.
+     * @return uint256 The period length in seconds, zero for an absolute receive limit.
+     */
+    function receiveLimitPeriodOf(address account) external view returns (uint256, uint256) {
+        TransferLimit memory _account = _receiveLimitList[account];
+        return (_account.cap, _account.period);
+    }
+
+    /**
+     * @dev Returns the global transfer limit status, remaining amount and next reset time.
+     * @return bool True if the contract has a global transfer limit, false otherwise.
+     * @return uint256 The amount that can still be transferred in the current period.
+     * @return uint256 The time the amount is next replenished.
+     */
+    function globalTransferLimit() external view returns (bool, uint256, uint256) {
+        return _currentLimit(_globalTransferLimit);
+    }
+
+    /**
+     * @dev Returns the global transfer limit settings.
+     * @return uint256 The amount the global transfer limit is replenished to at every period.
+     * @return uint256 The period length in seconds.
+     */
+    function globalTransferLimitPeriod() external view returns (uint256, uint256) {
+        return (_globalTransferLimit.cap, _globalTransferLimit.period);
+    }
+
+    /**
+     * @dev Enables transfer limits for the contract, see {Initializable}.
+     */
+    function __ERC20TransferLimitable_init() internal onlyInitializing {
+        _transferLimitable = true;
     }
 
     /**
@@ -156,6 +385,24 @@ abstract contract ERC20TransferLimitable {
         emit SetTransferLimit(account, amount);
     }
 
+    /**
+     * @dev Sets a periodic transfer limit for a specific account, which is replenished
+     * to `cap` at the start of every `period`.
+     * @param account The address of the account to set the limit for.
+     * @param cap The transfer limit amount of each period.
+     * @param period The period length in seconds.
+     *
+     * Requirements:
+     *
+     * - the account transfer limit must be disabled.
+     * - `period` must not be zero.
+     */
+    function _setPeriodicTransferLimit(address account, uint256 cap, uint256 period) internal virtual requireTransferLimitDisabled(account) {
+        _transferLimitList[account] = _periodicLimit(cap, period);
+
+        emit SetPeriodicTransferLimit(account, cap, period);
+    }
+
     /**
      * @dev Removes the transfer limit for a specific account.
      * @param account The address of the account to remove the limit for.
@@ -165,8 +412,7 @@ abstract contract ERC20TransferLimitable {
      * - the account transfer limit must be enabled.
      */
     function _unsetTransferLimit(address account) internal virtual requireTransferLimitEnabled(account) {
-        _transferLimitList[account].limitable = false;
-        _transferLimitList[account].amount = 0;
+        delete _transferLimitList[account];
 
         emit UnsetTransferLimit(account);
     }
@@ -175,8 +421,11 @@ abstract contract ERC20TransferLimitable {
      * @dev Increases the transfer limit for a specific account.
      * @param account The address of the account whose limit will be increased.
      * @param amount The amount by which to increase the transfer limit.
+     *
+     * NOTE: For a periodic transfer limit, only the amount of the current period is increased.
      */
     function _increaseTransferLimit(address account, uint256 amount) internal virtual requireTransferLimitEnabled(account) {
+        _resetLimit(_transferLimitList[account]);
         _transferLimitList[account].amount += amount;
 
         emit IncreaseTransferLimit(account, amount);
@@ -186,14 +435,257 @@ abstract contract ERC20TransferLimitable {
      * @dev Decreases the transfer limit for a specific account.
      * @param account The address of the account whose limit will be decreased.
      * @param amount The amount by which to decrease the transfer limit.
+     *
+     * NOTE: For a periodic transfer limit, only the amount of the current period is decreased.
      */
     function _decreaseTransferLimit(address account, uint256 amount) internal virtual requireTransferLimitEnabled(account) {
-        if (_transferLimitList[account].amount < amount) {
-            _transferLimitList[account].amount = 0;
+        _decreaseLimit(_transferLimitList[account], amount);
+
+        emit DecreaseTransferLimit(account, amount);
+    }
+
+    /**
+     * @dev Sets a receive limit for a specific account.
+     * @param account The address of the account to set the limit for.
+     * @param amount The new receive limit amount.
+     *
+     * Requirements:
+     *
+     * - the account receive limit must be disabled.
+     */
+    function _setReceiveLimit(address account, uint256 amount) internal virtual requireReceiveLimitDisabled(account) {
+        _receiveLimitList[account].limitable = true;
+        _receiveLimitList[account].amount = amount;
+
+        emit SetReceiveLimit(account, amount);
+    }
+
+    /**
+     * @dev Sets a periodic receive limit for a specific account, which is replenished
+     * to `cap` at the start of every `period`.
+     * @param account The address of the account to set the limit for.
+     * @param cap The receive limit amount of each period.
+     * @param period The period length in seconds.
+     *
+     * Requirements:
+     *
+     * - the account receive limit must be disabled.
+     * - `period` must not be zero.
+     */
+    function _setPeriodicReceiveLimit(address account, uint256 cap, uint256 period) internal virtual requireReceiveLimitDisabled(account) {
+        _receiveLimitList[account] = _periodicLimit(cap, period);
+
+        emit SetPeriodicReceiveLimit(account, cap, period);
+    }
+
+    /**
+     * @dev Removes the receive limit for a specific account.
+     * @param account The address of the account to remove the limit for.
+     *
+     * Requirements:
+     *
+     * - the account receive limit must be enabled.
+     */
+    function _unsetReceiveLimit(address account) internal virtual requireReceiveLimitEnabled(account) {
+        delete _receiveLimitList[account];
+
+        emit UnsetReceiveLimit(account);
+    }
+
+    /**
+     * @dev Increases the receive limit for a specific account.
+     * @param account The address of the account whose limit will be increased.
+     * @param amount The amount by which to increase the receive limit.
+     *
+     * NOTE: For a periodic receive limit, only the amount of the current period is increased.
+     */
+    function _increaseReceiveLimit(address account, uint256 amount) internal virtual requireReceiveLimitEnabled(account) {
+        _resetLimit(_receiveLimitList[account]);
+        _receiveLimitList[account].amount += amount;
+
+        emit IncreaseReceiveLimit(account, amount);
+    }
+
+    /**
+     * @dev Decreases the receive limit for a specific account.
+     * @param account The address of the account whose limit will be decreased.
+     * @param amount The amount by which to decrease the receive limit.
+     *
+     * NOTE: For a periodic receive limit, only the amount of the current period is decreased.
+     */
+    function _decreaseReceiveLimit(address account, uint256 amount) internal virtual requireReceiveLimitEnabled(account) {
+        _decreaseLimit(_receiveLimitList[account], amount);
+
+        emit DecreaseReceiveLimit(account, amount);
+    }
+
+    /**
+     * @dev Sets the global transfer limit, capping the total amount transferred
+     * through the contract to `cap` for every `period`.
+     * @param cap The total transfer amount of each period.
+     * @param period The period length in seconds.
+     *
+     * Requirements:
+     *
+     * - the global transfer limit must be disabled.
+     * - `period` must not be zero.
+     */
+    function _setGlobalTransferLimit(uint256 cap, uint256 period) internal virtual {
+        if (_globalTransferLimit.limitable) {
+            revert GlobalTransferLimitEnabled();
+        }
+
+        _globalTransferLimit = _periodicLimit(cap, period);
+
+        emit SetGlobalTransferLimit(cap, period);
+    }
+
+    /**
+     * @dev Removes the global transfer limit.
+     *
+     * Requirements:
+     *
+     * - the global transfer limit must be enabled.
+     */
+    function _unsetGlobalTransferLimit() internal virtual {
+        if (!_globalTransferLimit.limitable) {
+            revert GlobalTransferLimitDisabled();
+        }
+
+        delete _globalTransferLimit;
+
+        emit UnsetGlobalTransferLimit();
+    }
+
+    /**
+     * @dev Moves the transfer and receive limits of `from`, including their consumed amount, to `to`,
+     * replacing those of `to` and leaving `from` without limits.
+     */
+    function _moveTransferLimit(address from, address to) internal virtual {
+        _moveLimit(_transferLimitList, from, to);
+        _moveLimit(_receiveLimitList, from, to);
+
+        emit MoveTransferLimit(from, to);
+    }
+
+    /**
+     * @dev Returns true if `account` has a transfer or receive limit.
+     */
+    function _hasTransferLimit(address account) internal view virtual returns (bool) {
+        return _transferLimitList[account].limitable || _receiveLimitList[account].limitable;
+    }
+
+    /**
+     * @dev Throws if `amount` exceeds the transfer limit of `account`, consuming it otherwise, see {validateTransferLimit}.
+     */
+    function _validateTransferLimit(address account, uint256 amount) internal virtual {
+        if (_transferLimitable && _transferLimitList[account].limitable) {
+            TransferLimit storage limit = _transferLimitList[account];
+            if (!_consumeLimit(limit, amount)) {
+                revert TransferLimitExceeded(account, amount, limit.amount);
+            }
+        }
+    }
+
+    /**
+     * @dev Throws if `amount` exceeds the receive limit of `account`, consuming it otherwise, see {validateReceiveLimit}.
+     */
+    function _validateReceiveLimit(address account, uint256 amount) internal virtual {
+        if (_transferLimitable && _receiveLimitList[account].limitable) {
+            TransferLimit storage limit = _receiveLimitList[account];
+            if (!_consumeLimit(limit, amount)) {
+                revert ReceiveLimitExceeded(account, amount, limit.amount);
+            }
+        }
+    }
+
+    /**
+     * @dev Throws if `amount` exceeds the global transfer limit, consuming it otherwise, see {validateGlobalTransferLimit}.
+     */
+    function _validateGlobalTransferLimit(uint256 amount) internal virtual {
+        if (_transferLimitable && _globalTransferLimit.limitable) {
+            if (!_consumeLimit(_globalTransferLimit, amount)) {
+                revert GlobalTransferLimitExceeded(amount, _globalTransferLimit.amount);
+            }
+        }
+    }
+
+    /**
+     * @dev Moves the limit of `from` in `limits` to `to`.
+     */
+    function _moveLimit(mapping(address => TransferLimit) storage limits, address from, address to) private {
+        limits[to] = limits[from];
+        delete limits[from];
+    }
+
+    /**
+     * @dev Returns a new periodic limit of `cap` for every `period`, starting now.
+     */
+    function _periodicLimit(uint256 cap, uint256 period) private view returns (TransferLimit memory) {
+        if (period == 0) {
+            revert InvalidLimitPeriod();
+        }
+
+        return TransferLimit({limitable: true, amount: cap, cap: cap, period: period, resetAt: block.timestamp + period});
+    }
+
+    /**
+     * @dev Returns the status, remaining amount and next reset time of `limit` as of now.
+     */
+    function _currentLimit(TransferLimit memory limit) private view returns (bool, uint256, uint256) {
+        if (limit.period > 0 && block.timestamp >= limit.resetAt) {
+            return (limit.limitable, limit.cap, _nextResetAt(limit));
+        }
+        return (limit.limitable, limit.amount, limit.resetAt);
+    }
+
+    /**
+     * @dev Deducts `amount` from `limit`, returns false when it exceeds the remaining amount.
+     */
+    function _consumeLimit(TransferLimit storage limit, uint256 amount) private returns (bool) {
+        _resetLimit(limit);
+        if (amount > limit.amount) {
+            return false;
+        }
+
+        limit.amount -= amount;
+        return true;
+    }
+
+    /**
+     * @dev Decreases the remaining amount of `limit` by `amount`, down to zero.
+     */
+    function _decreaseLimit(TransferLimit storage limit, uint256 amount) private {
+        _resetLimit(limit);
+        if (limit.amount < amount) {
+            limit.amount = 0;
         } else {
-            _transferLimitList[account].amount -= amount;
+            limit.amount -= amount;
         }
+    }
 
-        emit DecreaseTransferLimit(account, amount);
+    /**
+     * @dev Replenishes a periodic `limit` when its period has elapsed.
+     */
+    function _resetLimit(TransferLimit storage limit) private {
+        if (limit.period > 0 && block.timestamp >= limit.resetAt) {
+            limit.amount = limit.cap;
+            limit.resetAt = _nextResetAt(limit);
+        }
+    }
+
+    /**
+     * @dev Returns the end of the period containing the current time for a periodic transfer limit.
+     */
+    function _nextResetAt(TransferLimit memory limit) private view returns (uint256) {
+        uint256 elapsedPeriods = (block.timestamp - limit.resetAt) / limit.period + 1;
+        return limit.resetAt + elapsedPeriods * limit.period;
     }
-}
\ No newline at end of file
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[42] private __gap;
+}
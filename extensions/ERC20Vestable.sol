@@ -0,0 +1,187 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+// TokenX Contracts v1.0.4 (extensions/ERC20Vestable.sol)
+pragma solidity 0.8.25;
+
+/**
+ * @dev Contract module that allows child contracts to lock up the balance of individual
+ * accounts behind a vesting schedule. This mechanism can be managed by an authorized account.
+ *
+ * A vesting schedule locks `total` tokens until `start + cliff`, then unlocks them linearly
+ * until `start + duration`. An account cannot spend its balance below the still-locked amount.
+ *
+ * This module is designed for use through inheritance.
+ */
+abstract contract ERC20Vestable {
+    struct VestingSchedule {
+        uint64 start;
+        uint64 cliff;
+        uint64 duration;
+        uint256 total;
+    }
+
+    mapping(address => VestingSchedule) private _vestingSchedules;
+
+    /**
+     * @dev Emitted when a vesting schedule is set for a specific account.
+     */
+    event SetVestingSchedule(address indexed account, uint64 start, uint64 cliff, uint64 duration, uint256 total);
+
+    /**
+     * @dev Emitted when the vesting schedule is removed from a specific account.
+     */
+    event RemoveVestingSchedule(address indexed account);
+
+    /**
+     * @dev Emitted when the vesting schedule of `from` is moved to `to`.
+     */
+    event MoveVestingSchedule(address indexed from, address indexed to);
+
+    /**
+     * @dev Thrown when a vesting schedule has a zero duration.
+     */
+    error InvalidVestingDuration();
+
+    /**
+     * @dev Thrown when the `cliff` of a vesting schedule exceeds its `duration`.
+     */
+    error VestingCliffExceedsDuration(uint64 cliff, uint64 duration);
+
+    /**
+     * @dev Thrown when `account` has no vesting schedule.
+     */
+    error NoVestingSchedule(address account);
+
+    /**
+     * @dev Thrown when spending `amount` would leave the balance of `account` below its `locked` balance.
+     */
+    error AmountExceedsUnlockedBalance(address account, uint256 amount, uint256 locked);
+
+    /**
+     * @dev Modifier that checks the account's balance remains at least equal to its locked amount
+     * after spending `amount`. If the locked amount is exceeded, the transaction reverts.
+     *
+     * @param account The address of the account spending its balance.
+     * @param amount The amount being spent.
+     */
+    modifier validateVesting(address account, uint256 amount) {
+        _validateVesting(account, amount);
+        _;
+    }
+
+    /**
+     * @dev Returns the amount of tokens owned by `account`.
+     */
+    function balanceOf(address account) public view virtual returns (uint256);
+
+    /**
+     * @dev Returns the vesting schedule of a given account.
+     * @param account The address of the account to query.
+     * @return uint64 The time the vesting starts.
+     * @return uint64 The duration after the start before tokens start to unlock.
+     * @return uint64 The duration after the start when all tokens are unlocked.
+     * @return uint256 The total amount of tokens locked by the schedule.
+     */
+    function vestingScheduleOf(address account) external view returns (uint64, uint64, uint64, uint256) {
+        VestingSchedule memory schedule = _vestingSchedules[account];
+        return (schedule.start, schedule.cliff, schedule.duration, schedule.total);
+    }
+
+    /**
+     * @dev Returns the amount of tokens of a given account that are still locked by its vesting schedule.
+     * @param account The address of the account to query.
+     */
+    function lockedBalanceOf(address account) public view virtual returns (uint256) {
+        VestingSchedule memory schedule = _vestingSchedules[account];
+        if (block.timestamp < schedule.start + schedule.cliff) {
+            return schedule.total;
+        }
+        if (block.timestamp >= schedule.start + schedule.duration) {
+            return 0;
+        }
+
+        uint256 elapsed = block.timestamp - schedule.start;
+        return schedule.total - (schedule.total * elapsed) / schedule.duration;
+    }
+
+    /**
+     * @dev Sets the vesting schedule of a specific account, replacing the current one if any.
+     * @param account The address of the account to set the schedule for.
+     * @param start The time the vesting starts.
+     * @param cliff The duration after the start before tokens start to unlock.
+     * @param duration The duration after the start when all tokens are unlocked.
+     * @param total The total amount of tokens locked by the schedule.
+     *
+     * Requirements:
+     *
+     * - `duration` must not be zero.
+     * - `cliff` must not be greater than `duration`.
+     */
+    function _setVestingSchedule(address account, uint64 start, uint64 cliff, uint64 duration, uint256 total) internal virtual {
+        if (duration == 0) {
+            revert InvalidVestingDuration();
+        }
+        if (cliff > duration) {
+            revert VestingCliffExceedsDuration(cliff, duration);
+        }
+
+        _vestingSchedules[account] = VestingSchedule({start: start, cliff: cliff, duration: duration, total: total});
+
+        emit SetVestingSchedule(account, start, cliff, duration, total);
+    }
+
+    /**
+     * @dev Removes the vesting schedule of a specific account, unlocking all of its tokens.
+     * @param account The address of the account to remove the schedule for.
+     *
+     * Requirements:
+     *
+     * - the account must have a vesting schedule.
+     */
+    function _removeVestingSchedule(address account) internal virtual {
+        if (_vestingSchedules[account].duration == 0) {
+            revert NoVestingSchedule(account);
+        }
+
+        delete _vestingSchedules[account];
+
+        emit RemoveVestingSchedule(account);
+    }
+
+    /**
+     * @dev Moves the vesting schedule of `from` to `to`, replacing that of `to` and leaving `from`
+     * without vesting schedule.
+     */
+    function _moveVestingSchedule(address from, address to) internal virtual {
+        _vestingSchedules[to] = _vestingSchedules[from];
+        delete _vestingSchedules[from];
+
+        emit MoveVestingSchedule(from, to);
+    }
+
+    /**
+     * @dev Returns true if `account` has a vesting schedule.
+     */
+    function _hasVestingSchedule(address account) internal view virtual returns (bool) {
+        return _vestingSchedules[account].duration != 0;
+    }
+
+    /**
+     * @dev See {validateVesting}.
+     */
+    function _validateVesting(address account, uint256 amount) internal view virtual {
+        uint256 balance = balanceOf(account);
+        if (amount <= balance) {
+            uint256 locked = lockedBalanceOf(account);
+            if (balance - amount < locked) {
+                revert AmountExceedsUnlockedBalance(account, amount, locked);
+            }
+        }
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[49] private __gap;
+}
@@ -2,49 +2,153 @@
 // TokenX Contracts v1.0.4 (extensions/EmergencyWithdrawable.sol)
 pragma solidity 0.8.25;
 
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC721} from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import {IERC1155} from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
 
 /**
  * @dev Contract module which allows children to implement an emergency withdraw
  * mechanism that can be called by an authorized account.
  *
+ * Ether, ERC20, ERC721 and ERC1155 assets stuck in (this) contract are withdrawn, in full or
+ * in part, to a designated treasury rather than to the caller. Assets held by the contract on
+ * behalf of its holders are reported by {_isCustodied} and can never be withdrawn.
+ *
  * This module is used through inheritance.
  */
 abstract contract EmergencyWithdrawable {
-    using SafeERC20 for IERC20;
+    /**
+     * @dev The kinds of asset that can be withdrawn.
+     */
+    enum Asset {
+        Ether,
+        ERC20,
+        ERC721,
+        ERC1155
+    }
+
+    address private _treasury;
+
+    /**
+     * @dev Emitted when `amount` of `asset` is withdrawn to `beneficiary`.
+     *
+     * `token` is the zero address for Ether, and `id` is zero unless `asset` is ERC721 or ERC1155.
+     */
+    event EmergencyWithdraw(Asset indexed asset, address indexed token, address indexed beneficiary, uint256 id, uint256 amount);
+
+    /**
+     * @dev Emitted when the treasury receiving the withdrawn assets is changed.
+     */
+    event TreasuryChanged(address indexed previousTreasury, address indexed newTreasury);
+
+    /**
+     * @dev Thrown when the withdrawn amount is zero or exceeds the Ether balance.
+     */
+    error OutOfBalance();
+
+    /**
+     * @dev Thrown when sending the withdrawn asset of `token` to the treasury fails.
+     */
+    error EmergencyWithdrawFailed(address token);
 
     /**
-     * @dev Emitted when emergeny withdraw ether has called.
+     * @dev Thrown when withdrawing `token`, which is held on behalf of the holders.
      */
-    event EmergencyWithdrawEther(address indexed beneficiary, uint256 amount);
+    error CustodiedToken(address token);
 
     /**
-     * @dev Emitted when emergeny withdraw token has called.
+     * @dev Thrown when the treasury is, or is set to, the zero address.
      */
-    event EmergencyWithdrawToken(address indexed token, address indexed beneficiary, uint256 amount);
+    error InvalidTreasury(address treasury);
 
     /**
-     * @dev Withdraw ether from (this) contract to `beneficiary`.
+     * @dev Returns the account receiving the withdrawn assets.
      */
-    function _emergencyWithdrawEther(address payable beneficiary) internal virtual {
-        uint256 balance = address(this).balance;
-        require(balance > 0, "EmergencyWithdrawable: out of balance");
+    function treasury() public view virtual returns (address) {
+        return _treasury;
+    }
 
-        (bool succeed,) = beneficiary.call{value: balance}("");
-        require(succeed, "EmergencyWithdrawable: failed to withdraw Ether");
+    /**
+     * @dev Sets the account receiving the withdrawn assets to `newTreasury`.
+     *
+     * Requirements:
+     *
+     * - `newTreasury` cannot be the zero address.
+     *
+     * Emits a {TreasuryChanged} event.
+     */
+    function _setTreasury(address newTreasury) internal virtual {
+        if (newTreasury == address(0)) {
+            revert InvalidTreasury(newTreasury);
+        }
 
-        emit EmergencyWithdrawEther(beneficiary, balance);
+        emit TreasuryChanged(_treasury, newTreasury);
+        _treasury = newTreasury;
     }
 
     /**
-     * @dev Withdraw token from (this) contract to `beneficiary`.
+     * @dev Withdraw `amount` of `asset` from (this) contract to the treasury.
+     *
+     * `token` is ignored for Ether, and `id` is ignored unless `asset` is ERC721 or ERC1155.
+     * An ERC721 is always withdrawn as a whole, `amount` only has to be nonzero.
+     *
+     * Requirements:
+     *
+     * - the treasury must be set.
+     * - `amount` cannot be zero, nor exceed the Ether balance when withdrawing Ether.
+     * - `token` cannot be custodied, see {_isCustodied}.
+     * - the treasury must accept the asset.
+     *
+     * Emits an {EmergencyWithdraw} event.
      */
-    function _emergencyWithdrawToken(address beneficiary, address token) internal virtual {
-        uint256 balance = IERC20(token).balanceOf(address(this));
+    function _emergencyWithdraw(Asset asset, address token, uint256 id, uint256 amount) internal virtual {
+        address beneficiary = _treasury;
+        if (beneficiary == address(0)) {
+            revert InvalidTreasury(beneficiary);
+        }
+        if (amount == 0 || (asset == Asset.Ether && amount > address(this).balance)) {
+            revert OutOfBalance();
+        }
+        if (_isCustodied(token)) {
+            revert CustodiedToken(token);
+        }
 
-        IERC20(token).safeTransfer(beneficiary, balance);
+        bool success;
+        if (asset == Asset.Ether) {
+            (success,) = beneficiary.call{value: amount}("");
+        } else if (asset == Asset.ERC20) {
+            success = _callToken(token, abi.encodeCall(IERC20.transfer, (beneficiary, amount)));
+        } else if (asset == Asset.ERC721) {
+            success = _callToken(token, abi.encodeCall(IERC721.transferFrom, (address(this), beneficiary, id)));
+        } else {
+            success = _callToken(token, abi.encodeCall(IERC1155.safeTransferFrom, (address(this), beneficiary, id, amount, "")));
+        }
+        if (!success) {
+            revert EmergencyWithdrawFailed(token);
+        }
 
-        emit EmergencyWithdrawToken(token, beneficiary, balance);
+        emit EmergencyWithdraw(asset, token, beneficiary, id, amount);
     }
-}
\ No newline at end of file
+
+    /**
+     * @dev Returns true if `token` is held by (this) contract on behalf of its holders, which
+     * guards it from {_emergencyWithdraw}.
+     */
+    function _isCustodied(address token) internal view virtual returns (bool);
+
+    /**
+     * @dev Calls `token` with `data`, returning false if the call reverts, `token` has no code,
+     * or the call returns false, like {SafeERC20} but without reverting.
+     */
+    function _callToken(address token, bytes memory data) private returns (bool) {
+        (bool success, bytes memory returndata) = token.call(data);
+        return success && token.code.length > 0 && (returndata.length == 0 || abi.decode(returndata, (bool)));
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[49] private __gap;
+}
@@ -3,8 +3,11 @@ import * as dotenv from "dotenv";
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomiclabs/hardhat-solhint";
+import "@openzeppelin/hardhat-upgrades";
 import "hardhat-deploy";
 
+import "./tasks";
+
 dotenv.config();
 
 const config: HardhatUserConfig = {
@@ -26,6 +29,11 @@ const config: HardhatUserConfig = {
       accounts: process.env.PRIVATE_KEY !== undefined ? [process.env.PRIVATE_KEY] : [],
     },
   },
+  namedAccounts: {
+    deployer: {
+      default: 0,
+    },
+  },
   sourcify: {
     enabled: true,
   },
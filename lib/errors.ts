@@ -0,0 +1,96 @@
+import { Interface, InterfaceAbi, isBytesLike } from "ethers";
+
+export interface DecodedError {
+  /** Name of the error, `Error` for a revert string and `Panic` for a panic code. */
+  name: string;
+  /** Signature of the error, e.g. `NotAllowlisted(address)`. */
+  signature: string;
+  /** Arguments of the error keyed by their parameter name. */
+  args: Record<string, unknown>;
+  /** Human readable error, e.g. `NotAllowlisted(account=0x...)`. */
+  message: string;
+}
+
+/**
+ * Returns the revert data carried by `error`, searching the nested errors wrapped by ethers
+ * and the JSON-RPC providers, or undefined when the error carries no revert data.
+ */
+export function getRevertData(error: unknown): string | undefined {
+  const seen = new Set<unknown>();
+  const queue: unknown[] = [error];
+
+  while (queue.length > 0) {
+    const current: any = queue.shift();
+    if (current === null || typeof current !== "object" || seen.has(current)) {
+      continue;
+    }
+    seen.add(current);
+
+    if (typeof current.data === "string" && isBytesLike(current.data) && current.data.length >= 10) {
+      return current.data;
+    }
+
+    queue.push(current.data, current.error, current.info, current.cause, current.revert);
+  }
+
+  return undefined;
+}
+
+/**
+ * Decodes the revert data of `error` (a thrown error or the revert data itself) against `abis`,
+ * covering revert strings and panic codes as well. Returns undefined when the error carries no
+ * revert data or none of `abis` declares the error.
+ */
+export function decodeError(error: unknown, abis: (Interface | InterfaceAbi)[] = []): DecodedError | undefined {
+  const data = typeof error === "string" && isBytesLike(error) ? error : getRevertData(error);
+  if (data === undefined) {
+    return undefined;
+  }
+
+  for (const iface of [...abis.map((abi) => Interface.from(abi)), new Interface([])]) {
+    const description = iface.parseError(data);
+    if (description === null) {
+      continue;
+    }
+
+    const args: Record<string, unknown> = {};
+    description.fragment.inputs.forEach((input, i) => {
+      args[input.name || String(i)] = description.args[i];
+    });
+
+    return {
+      name: description.name,
+      signature: description.signature,
+      args,
+      message: formatError(description.name, args),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns a human readable message of `error` decoded against `abis`, falling back to the
+ * message of `error` when it cannot be decoded.
+ */
+export function renderError(error: unknown, abis: (Interface | InterfaceAbi)[] = []): string {
+  const decoded = decodeError(error, abis);
+  if (decoded !== undefined) {
+    return decoded.message;
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
+
+function formatError(name: string, args: Record<string, unknown>): string {
+  const [value] = Object.values(args);
+  if (name === "Error") {
+    return String(value);
+  }
+  if (name === "Panic") {
+    return `Panic(0x${(value as bigint).toString(16).padStart(2, "0")})`;
+  }
+
+  const params = Object.entries(args).map(([key, value]) => `${key}=${value}`);
+  return `${name}(${params.join(", ")})`;
+}
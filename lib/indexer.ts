@@ -0,0 +1,482 @@
+import fs from "fs";
+import { Block, getAddress, Log, LogDescription, Provider, ZeroAddress } from "ethers";
+import type { AllowlistRegistry, InvestmentTokenM } from "../typechain-types";
+import { AllowlistRegistry__factory, InvestmentTokenM__factory } from "../typechain-types";
+import type { TypedContractEvent, TypedLogDescription } from "../typechain-types/common";
+
+/**
+ * A transfer or receive limit, as stored by `ERC20TransferLimitable`.
+ */
+export interface TransferLimit {
+  limitable: boolean;
+  /** The remaining amount, as of the last event that consumed or changed it. */
+  amount: bigint;
+  /** The amount replenished at every period, zero for an absolute limit. */
+  cap: bigint;
+  /** The period length in seconds, zero for an absolute limit. */
+  period: bigint;
+  /** The time the current period ends. */
+  resetAt: bigint;
+}
+
+export interface AllowlistEntry {
+  /** The time the entry expires, zero if it never expires. */
+  expiresAt: bigint;
+  tier: number;
+  jurisdiction: string;
+}
+
+/**
+ * The state of an `InvestmentTokenM` and its `AllowlistRegistry` folded from their logs.
+ *
+ * Accounts are keyed by their checksummed address, and only the accounts with a balance,
+ * an allowlist entry or a limit are kept.
+ */
+export interface IndexedState {
+  paused: boolean;
+  transferLimitable: boolean;
+  totalSupply: bigint;
+  balances: Record<string, bigint>;
+  allowlist: Record<string, AllowlistEntry>;
+  transferLimits: Record<string, TransferLimit>;
+  receiveLimits: Record<string, TransferLimit>;
+  globalTransferLimit: TransferLimit;
+}
+
+/**
+ * The state as of the end of block `blockNumber`, which had the hash `blockHash` when indexed.
+ */
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+  state: IndexedState;
+}
+
+export interface IndexerOptions {
+  /** The `InvestmentTokenM` address. */
+  token: string;
+  /** The `AllowlistRegistry` address the token is wired to. */
+  registry: string;
+  /** The first block indexed, e.g. the deployment block of the contracts. Defaults to 0. */
+  startBlock?: number;
+  /** The JSON file the checkpoints are persisted to. Defaults to in-memory checkpoints only. */
+  file?: string;
+  /** The maximum number of blocks of a single `eth_getLogs` call. Defaults to 2000. */
+  batchSize?: number;
+  /** The number of blocks left unindexed behind the head. Defaults to 0. */
+  confirmations?: number;
+  /** The number of checkpoints kept to rewind to on a reorg. Defaults to 16. */
+  maxCheckpoints?: number;
+}
+
+interface LogContext {
+  timestamp: bigint;
+  /** True for the `Transfer` of an `adminTransfer` or `recoverWallets`, which consumes no limits. */
+  forced: boolean;
+}
+
+type Handler<TCEvent extends TypedContractEvent> = (
+  state: IndexedState,
+  args: TypedLogDescription<TCEvent>["args"],
+  context: LogContext
+) => void;
+
+/**
+ * The handlers of the events of a contract, keyed by event name.
+ */
+type Handlers<Events extends Record<string, TypedContractEvent>> = { [E in keyof Events]?: Handler<Events[E]> };
+
+/**
+ * The JSON form of `T` saved to the checkpoint file, with its bigints as strings.
+ */
+type Serialized<T> = T extends bigint ? string : T extends object ? { [K in keyof T]: Serialized<T[K]> } : T;
+
+interface IndexerFile {
+  token: string;
+  registry: string;
+  checkpoints: Serialized<Checkpoint>[];
+}
+
+const TOKEN = InvestmentTokenM__factory.createInterface();
+const REGISTRY = AllowlistRegistry__factory.createInterface();
+
+/**
+ * Returns the state of a freshly initialized token and an empty registry.
+ */
+export function createState(): IndexedState {
+  return {
+    paused: false,
+    transferLimitable: true,
+    totalSupply: 0n,
+    balances: {},
+    allowlist: {},
+    transferLimits: {},
+    receiveLimits: {},
+    globalTransferLimit: noLimit(),
+  };
+}
+
+/**
+ * Returns true if `account` is allowlisted at `timestamp`, like `AllowlistRegistry.isAllowlist`.
+ */
+export function isAllowlisted(state: IndexedState, account: string, timestamp: bigint | number): boolean {
+  const entry = state.allowlist[getAddress(account)];
+  return entry !== undefined && (entry.expiresAt === 0n || BigInt(timestamp) < entry.expiresAt);
+}
+
+/**
+ * Returns the amount remaining of `limit` at `timestamp`, replenished if its period has elapsed,
+ * like `transferLimitOf` and `receiveLimitOf`.
+ */
+export function remainingLimit(limit: TransferLimit, timestamp: bigint | number): bigint {
+  const current = { ...limit };
+  resetLimit(current, BigInt(timestamp));
+  return current.amount;
+}
+
+function noLimit(): TransferLimit {
+  return { limitable: false, amount: 0n, cap: 0n, period: 0n, resetAt: 0n };
+}
+
+function periodicLimit(cap: bigint, period: bigint, timestamp: bigint): TransferLimit {
+  return { limitable: true, amount: cap, cap, period, resetAt: timestamp + period };
+}
+
+// The limit helpers mirror the private functions of `ERC20TransferLimitable`.
+
+function resetLimit(limit: TransferLimit, timestamp: bigint): void {
+  if (limit.period > 0n && timestamp >= limit.resetAt) {
+    limit.amount = limit.cap;
+    limit.resetAt += ((timestamp - limit.resetAt) / limit.period + 1n) * limit.period;
+  }
+}
+
+function consumeLimit(limit: TransferLimit | undefined, amount: bigint, timestamp: bigint): void {
+  if (limit?.limitable) {
+    resetLimit(limit, timestamp);
+    limit.amount -= amount;
+  }
+}
+
+function decreaseLimit(limit: TransferLimit, amount: bigint, timestamp: bigint): void {
+  resetLimit(limit, timestamp);
+  limit.amount = limit.amount < amount ? 0n : limit.amount - amount;
+}
+
+function moveLimit(limits: Record<string, TransferLimit>, from: string, to: string): void {
+  if (limits[from] === undefined) {
+    delete limits[to];
+  } else {
+    limits[to] = limits[from];
+    delete limits[from];
+  }
+}
+
+function addBalance(state: IndexedState, account: string, amount: bigint): void {
+  const balance = (state.balances[account] ?? 0n) + amount;
+  if (balance === 0n) {
+    delete state.balances[account];
+  } else {
+    state.balances[account] = balance;
+  }
+}
+
+const TOKEN_HANDLERS: Handlers<InvestmentTokenM["filters"]> = {
+  Transfer: (state, { from, to, value }, { timestamp, forced }) => {
+    if (from === ZeroAddress) {
+      state.totalSupply += value;
+    } else {
+      addBalance(state, from, -value);
+    }
+    if (to === ZeroAddress) {
+      state.totalSupply -= value;
+    } else {
+      addBalance(state, to, value);
+    }
+
+    if (from !== ZeroAddress && to !== ZeroAddress && !forced && state.transferLimitable) {
+      consumeLimit(state.transferLimits[from], value, timestamp);
+      consumeLimit(state.receiveLimits[to], value, timestamp);
+      consumeLimit(state.globalTransferLimit, value, timestamp);
+    }
+  },
+  Paused: (state) => {
+    state.paused = true;
+  },
+  Unpaused: (state) => {
+    state.paused = false;
+  },
+  EnableTransferLimitable: (state) => {
+    state.transferLimitable = true;
+  },
+  DisableTransferLimitable: (state) => {
+    state.transferLimitable = false;
+  },
+  SetTransferLimit: (state, { account, amount }) => {
+    state.transferLimits[account] = { ...noLimit(), limitable: true, amount };
+  },
+  SetPeriodicTransferLimit: (state, { account, cap, period }, { timestamp }) => {
+    state.transferLimits[account] = periodicLimit(cap, period, timestamp);
+  },
+  UnsetTransferLimit: (state, { account }) => {
+    delete state.transferLimits[account];
+  },
+  IncreaseTransferLimit: (state, { account, amount }, { timestamp }) => {
+    resetLimit(state.transferLimits[account], timestamp);
+    state.transferLimits[account].amount += amount;
+  },
+  DecreaseTransferLimit: (state, { account, amount }, { timestamp }) => {
+    decreaseLimit(state.transferLimits[account], amount, timestamp);
+  },
+  SetReceiveLimit: (state, { account, amount }) => {
+    state.receiveLimits[account] = { ...noLimit(), limitable: true, amount };
+  },
+  SetPeriodicReceiveLimit: (state, { account, cap, period }, { timestamp }) => {
+    state.receiveLimits[account] = periodicLimit(cap, period, timestamp);
+  },
+  UnsetReceiveLimit: (state, { account }) => {
+    delete state.receiveLimits[account];
+  },
+  IncreaseReceiveLimit: (state, { account, amount }, { timestamp }) => {
+    resetLimit(state.receiveLimits[account], timestamp);
+    state.receiveLimits[account].amount += amount;
+  },
+  DecreaseReceiveLimit: (state, { account, amount }, { timestamp }) => {
+    decreaseLimit(state.receiveLimits[account], amount, timestamp);
+  },
+  MoveTransferLimit: (state, { from, to }) => {
+    moveLimit(state.transferLimits, from, to);
+    moveLimit(state.receiveLimits, from, to);
+  },
+  SetGlobalTransferLimit: (state, { cap, period }, { timestamp }) => {
+    state.globalTransferLimit = periodicLimit(cap, period, timestamp);
+  },
+  UnsetGlobalTransferLimit: (state) => {
+    state.globalTransferLimit = noLimit();
+  },
+};
+
+const REGISTRY_HANDLERS: Handlers<AllowlistRegistry["filters"]> = {
+  AddedAllowlist: (state, { account }) => {
+    state.allowlist[account] ??= { expiresAt: 0n, tier: 0, jurisdiction: "0x0000" };
+  },
+  RemovedAllowlist: (state, { account }) => {
+    delete state.allowlist[account];
+  },
+  UpdatedAllowlist: (state, { account, expiresAt, tier, jurisdiction }) => {
+    state.allowlist[account] = { expiresAt, tier: Number(tier), jurisdiction };
+  },
+};
+
+/**
+ * Applies the parsed log `description` to `state` with the handler of its event, if any.
+ */
+function handleLog<Events extends Record<string, TypedContractEvent>>(
+  handlers: Handlers<Events>,
+  description: LogDescription | null,
+  state: IndexedState,
+  context: LogContext
+): void {
+  if (description === null) {
+    return;
+  }
+
+  const handler = handlers[description.name];
+  handler?.(state, (description as TypedLogDescription<Events[string]>).args, context);
+}
+
+/**
+ * Folds the logs of `InvestmentTokenM` and its `AllowlistRegistry` into an {@link IndexedState}.
+ *
+ * The state is checkpointed at the end of every batch of blocks, and persisted to `file` when given,
+ * so that a new indexer on the same file resumes where the last one stopped. Before every batch,
+ * the hash of the last checkpoint is checked against the chain, and the indexer rewinds to the last
+ * checkpoint still on the chain when it was reorganized, or to `startBlock` when none is.
+ *
+ * The registry is the one given, even if the token is later wired to another registry.
+ */
+export class StateIndexer {
+  readonly token: string;
+  readonly registry: string;
+  readonly startBlock: number;
+
+  private readonly batchSize: number;
+  private readonly confirmations: number;
+  private readonly maxCheckpoints: number;
+  private checkpoints: Checkpoint[] = [];
+  private current: IndexedState = createState();
+
+  constructor(readonly provider: Provider, readonly options: IndexerOptions) {
+    this.token = getAddress(options.token);
+    this.registry = getAddress(options.registry);
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+    this.maxCheckpoints = options.maxCheckpoints ?? 16;
+
+    if (options.file !== undefined && fs.existsSync(options.file)) {
+      this.load(options.file);
+    }
+  }
+
+  /**
+   * The state as of the end of {@link blockNumber}.
+   */
+  get state(): IndexedState {
+    return this.current;
+  }
+
+  /**
+   * The last indexed block, `startBlock - 1` when nothing is indexed yet.
+   */
+  get blockNumber(): number {
+    return this.checkpoints.at(-1)?.blockNumber ?? this.startBlock - 1;
+  }
+
+  /**
+   * Indexes the blocks up to `toBlock`, defaulting to the head minus the confirmations,
+   * and returns the last indexed block.
+   */
+  async sync(toBlock?: number): Promise<number> {
+    const head = toBlock ?? (await this.provider.getBlockNumber()) - this.confirmations;
+
+    while ((await this.rewind()) < head) {
+      const from = this.blockNumber + 1;
+      const to = Math.min(from + this.batchSize - 1, head);
+
+      const logs = await this.provider.getLogs({ address: [this.token, this.registry], fromBlock: from, toBlock: to });
+      const blocks = await this.getBlocks([...logs.map((log) => log.blockNumber), to]);
+
+      // A log of a block which is no longer on the chain means a reorg while fetching the batch, which is retried.
+      if (logs.some((log) => log.blockHash !== blocks.get(log.blockNumber)!.hash)) {
+        continue;
+      }
+
+      this.apply(logs, blocks);
+      this.checkpoint({ blockNumber: to, blockHash: blocks.get(to)!.hash!, state: structuredClone(this.current) });
+    }
+
+    return this.blockNumber;
+  }
+
+  private async getBlocks(blockNumbers: number[]): Promise<Map<number, Block>> {
+    const blocks = new Map<number, Block>();
+    for (const blockNumber of new Set(blockNumbers)) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (block === null) {
+        throw new Error(`Indexer: missing block ${blockNumber}`);
+      }
+      blocks.set(blockNumber, block);
+    }
+    return blocks;
+  }
+
+  private apply(logs: Log[], blocks: Map<number, Block>): void {
+    const forced = new Set<string>();
+    for (const log of logs) {
+      if (log.address === this.token && log.topics[0] === TOKEN.getEvent("ForcedTransfer").topicHash) {
+        // `_forceTransfer` emits `ForcedTransfer` right after the `Transfer` it forced.
+        forced.add(`${log.transactionHash}:${log.index - 1}`);
+      }
+    }
+
+    for (const log of [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)) {
+      const context = {
+        timestamp: BigInt(blocks.get(log.blockNumber)!.timestamp),
+        forced: forced.has(`${log.transactionHash}:${log.index}`),
+      };
+      if (log.address === this.token) {
+        handleLog(TOKEN_HANDLERS, TOKEN.parseLog(log), this.current, context);
+      } else {
+        handleLog(REGISTRY_HANDLERS, REGISTRY.parseLog(log), this.current, context);
+      }
+    }
+  }
+
+  /**
+   * Drops the checkpoints of blocks which are no longer on the chain, restoring the state of the last one left,
+   * and returns the last indexed block.
+   */
+  private async rewind(): Promise<number> {
+    let reorged = false;
+    while (this.checkpoints.length > 0) {
+      const { blockNumber, blockHash } = this.checkpoints.at(-1)!;
+      if ((await this.provider.getBlock(blockNumber))?.hash === blockHash) {
+        break;
+      }
+
+      this.checkpoints.pop();
+      reorged = true;
+    }
+
+    if (reorged) {
+      const last = this.checkpoints.at(-1);
+      this.current = last === undefined ? createState() : structuredClone(last.state);
+      this.save();
+    }
+
+    return this.blockNumber;
+  }
+
+  private checkpoint(checkpoint: Checkpoint): void {
+    this.checkpoints.push(checkpoint);
+    if (this.checkpoints.length > this.maxCheckpoints) {
+      this.checkpoints.shift();
+    }
+    this.save();
+  }
+
+  private load(file: string): void {
+    const json: IndexerFile = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (getAddress(json.token) !== this.token || getAddress(json.registry) !== this.registry) {
+      throw new Error(`Indexer: ${file} indexes token ${json.token} and registry ${json.registry}`);
+    }
+
+    this.checkpoints = json.checkpoints.map((checkpoint) => ({
+      ...checkpoint,
+      state: parseState(checkpoint.state),
+    }));
+    this.current = structuredClone(this.checkpoints.at(-1)?.state ?? createState());
+  }
+
+  private save(): void {
+    const file = this.options.file;
+    if (file === undefined) {
+      return;
+    }
+
+    const json = { token: this.token, registry: this.registry, checkpoints: this.checkpoints };
+    fs.writeFileSync(
+      `${file}.tmp`,
+      JSON.stringify(json, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2)
+    );
+    fs.renameSync(`${file}.tmp`, file);
+  }
+}
+
+function parseLimit(limit: Serialized<TransferLimit>): TransferLimit {
+  return {
+    limitable: limit.limitable,
+    amount: BigInt(limit.amount),
+    cap: BigInt(limit.cap),
+    period: BigInt(limit.period),
+    resetAt: BigInt(limit.resetAt),
+  };
+}
+
+function mapValues<T, U>(record: Record<string, T>, fn: (value: T) => U): Record<string, U> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]));
+}
+
+function parseState(state: Serialized<IndexedState>): IndexedState {
+  return {
+    paused: state.paused,
+    transferLimitable: state.transferLimitable,
+    totalSupply: BigInt(state.totalSupply),
+    balances: mapValues(state.balances, (balance) => BigInt(balance)),
+    allowlist: mapValues(state.allowlist, (entry) => ({ ...entry, expiresAt: BigInt(entry.expiresAt) })),
+    transferLimits: mapValues(state.transferLimits, parseLimit),
+    receiveLimits: mapValues(state.receiveLimits, parseLimit),
+    globalTransferLimit: parseLimit(state.globalTransferLimit),
+  };
+}
@@ -0,0 +1,82 @@
+import { AbiCoder, concat, getAddress, keccak256 } from "ethers";
+
+export interface MerkleClaim {
+  amount: bigint;
+  proof: string[];
+}
+
+export interface MerkleDistribution {
+  root: string;
+  total: bigint;
+  claims: Record<string, MerkleClaim>;
+}
+
+/**
+ * Returns the leaf of the `amount` reward of `account`, as computed by `RewardDistributor`.
+ */
+export function hashLeaf(account: string, amount: bigint): string {
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [account, amount])));
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Returns true if `proof` proves `leaf` against `root`.
+ */
+export function verifyProof(leaf: string, proof: string[], root: string): boolean {
+  return proof.reduce(hashPair, leaf) === root;
+}
+
+/**
+ * Builds the Merkle tree of the `account => amount` rewards, returning its root and the proof of each account.
+ *
+ * Pairs of nodes are hashed sorted, and an odd node is carried up to the next layer.
+ */
+export function buildMerkleDistribution(rewards: Map<string, bigint>): MerkleDistribution {
+  if (rewards.size === 0) {
+    throw new Error("Merkle: no rewards to distribute");
+  }
+
+  const accounts = [...rewards.keys()].map((account) => getAddress(account)).sort();
+  if (new Set(accounts).size !== accounts.length) {
+    throw new Error("Merkle: duplicate accounts");
+  }
+
+  const amounts = [...rewards.entries()].reduce(
+    (map, [account, amount]) => map.set(getAddress(account), amount),
+    new Map<string, bigint>()
+  );
+
+  const layers = [accounts.map((account) => hashLeaf(account, amounts.get(account)!))];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  const claims: Record<string, MerkleClaim> = {};
+  accounts.forEach((account, leafIndex) => {
+    const proof: string[] = [];
+    let index = leafIndex;
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+
+    claims[account] = { amount: amounts.get(account)!, proof };
+  });
+
+  return {
+    root: layers[layers.length - 1][0],
+    total: [...amounts.values()].reduce((sum, amount) => sum + amount, 0n),
+    claims,
+  };
+}
@@ -0,0 +1,102 @@
+import { ContractTransactionResponse, Signature, Signer, TypedDataDomain, TypedDataField } from "ethers";
+import type { InvestmentTokenM } from "../typechain-types";
+
+export const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface PermitMessage {
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface PermitTypedData {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  message: PermitMessage;
+}
+
+/**
+ * Builds the EIP-712 typed data of a permit of `owner` on `token`, using the current nonce of `owner`
+ * unless `nonce` is given.
+ */
+export async function buildPermitTypedData(
+  token: InvestmentTokenM,
+  owner: string,
+  spender: string,
+  value: bigint,
+  deadline: bigint,
+  nonce?: bigint
+): Promise<PermitTypedData> {
+  const provider = token.runner?.provider;
+  if (provider == null) {
+    throw new Error("Permit: token is not connected to a provider");
+  }
+
+  const { chainId } = await provider.getNetwork();
+
+  return {
+    domain: {
+      name: await token.name(),
+      version: "1",
+      chainId,
+      verifyingContract: await token.getAddress(),
+    },
+    types: PERMIT_TYPES,
+    message: {
+      owner,
+      spender,
+      value,
+      nonce: nonce ?? (await token.nonces(owner)),
+      deadline,
+    },
+  };
+}
+
+/**
+ * Signs a permit allowing `spender` to spend `value` tokens of `signer` on `token` until `deadline`.
+ */
+export async function signPermit(
+  token: InvestmentTokenM,
+  signer: Signer,
+  spender: string,
+  value: bigint,
+  deadline: bigint,
+  nonce?: bigint
+): Promise<Signature> {
+  const { domain, types, message } = await buildPermitTypedData(
+    token,
+    await signer.getAddress(),
+    spender,
+    value,
+    deadline,
+    nonce
+  );
+
+  return Signature.from(await signer.signTypedData(domain, types, message));
+}
+
+/**
+ * Signs a permit with `signer` and submits it to `token` through the token's runner,
+ * so that the transaction can be sent by `spender` or a relayer.
+ */
+export async function permit(
+  token: InvestmentTokenM,
+  signer: Signer,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<ContractTransactionResponse> {
+  const { v, r, s } = await signPermit(token, signer, spender, value, deadline);
+
+  return token.permit(await signer.getAddress(), spender, value, deadline, v, r, s);
+}
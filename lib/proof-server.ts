@@ -0,0 +1,43 @@
+import http from "http";
+import { getAddress, isAddress } from "ethers";
+import { MerkleDistribution } from "./merkle";
+
+function send(response: http.ServerResponse, status: number, body: any): void {
+  response.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+  response.end(JSON.stringify(body, (_, value) => (typeof value === "bigint" ? value.toString() : value)));
+}
+
+/**
+ * Creates an HTTP server serving the claims of `distribution`:
+ *
+ * - `GET /root` returns the Merkle root and total of the distribution.
+ * - `GET /proofs/<address>` returns the amount and proof of the account, or 404 when it has no reward.
+ */
+export function createProofServer(distribution: MerkleDistribution): http.Server {
+  return http.createServer((request, response) => {
+    const [, resource, account, ...rest] = (request.url ?? "").split("?")[0].split("/");
+
+    if (request.method !== "GET" || rest.length > 0) {
+      return send(response, 404, { error: "Not found" });
+    }
+
+    if (resource === "root" && account === undefined) {
+      return send(response, 200, { root: distribution.root, total: distribution.total });
+    }
+
+    if (resource === "proofs" && account !== undefined) {
+      if (!isAddress(account)) {
+        return send(response, 400, { error: `Invalid address: ${account}` });
+      }
+
+      const claim = distribution.claims[getAddress(account)];
+      if (claim === undefined) {
+        return send(response, 404, { error: `No reward for ${account}` });
+      }
+
+      return send(response, 200, { account: getAddress(account), ...claim });
+    }
+
+    return send(response, 404, { error: "Not found" });
+  });
+}
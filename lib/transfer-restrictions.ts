@@ -0,0 +1,133 @@
+import type { TransferRestrictionDetector } from "../typechain-types";
+
+/**
+ * Restriction codes returned by `InvestmentTokenM` and `TransferRestrictionDetector`, see the
+ * constants of the `TransferRestrictions` library.
+ */
+export enum TransferRestrictionCode {
+  Success = 0,
+  ReceiverZeroAddress = 1,
+  Paused = 2,
+  SenderNotAllowlisted = 3,
+  ReceiverNotAllowlisted = 4,
+  OperatorNotAllowlisted = 5,
+  AccountFrozen = 6,
+  InsufficientBalance = 7,
+  InsufficientAllowance = 8,
+  BalanceLocked = 9,
+  TransferLimitExceeded = 10,
+  ReceiveLimitExceeded = 11,
+  GlobalTransferLimitExceeded = 12,
+  MaxBalanceExceeded = 13,
+  MaxHolderCountExceeded = 14,
+  NotCompliant = 15,
+}
+
+/**
+ * The party of a transfer at fault for a restriction, if any.
+ */
+export type TransferParty = "sender" | "receiver" | "operator";
+
+export class TransferRestrictionError extends Error {
+  constructor(readonly code: TransferRestrictionCode, message: string, readonly party?: TransferParty) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class TransferPausedError extends TransferRestrictionError {}
+
+export class InvalidReceiverError extends TransferRestrictionError {}
+
+export class NotAllowlistedError extends TransferRestrictionError {}
+
+export class AccountFrozenError extends TransferRestrictionError {}
+
+export class InsufficientBalanceError extends TransferRestrictionError {}
+
+export class InsufficientAllowanceError extends TransferRestrictionError {}
+
+export class BalanceLockedError extends TransferRestrictionError {}
+
+export class TransferLimitExceededError extends TransferRestrictionError {}
+
+export class HoldingLimitExceededError extends TransferRestrictionError {}
+
+export class NotCompliantError extends TransferRestrictionError {}
+
+type ErrorClass = new (
+  code: TransferRestrictionCode,
+  message: string,
+  party?: TransferParty
+) => TransferRestrictionError;
+
+const RESTRICTIONS: Record<
+  Exclude<TransferRestrictionCode, TransferRestrictionCode.Success>,
+  [ErrorClass, TransferParty?]
+> = {
+  [TransferRestrictionCode.ReceiverZeroAddress]: [InvalidReceiverError, "receiver"],
+  [TransferRestrictionCode.Paused]: [TransferPausedError],
+  [TransferRestrictionCode.SenderNotAllowlisted]: [NotAllowlistedError, "sender"],
+  [TransferRestrictionCode.ReceiverNotAllowlisted]: [NotAllowlistedError, "receiver"],
+  [TransferRestrictionCode.OperatorNotAllowlisted]: [NotAllowlistedError, "operator"],
+  [TransferRestrictionCode.AccountFrozen]: [AccountFrozenError],
+  [TransferRestrictionCode.InsufficientBalance]: [InsufficientBalanceError, "sender"],
+  [TransferRestrictionCode.InsufficientAllowance]: [InsufficientAllowanceError, "operator"],
+  [TransferRestrictionCode.BalanceLocked]: [BalanceLockedError, "sender"],
+  [TransferRestrictionCode.TransferLimitExceeded]: [TransferLimitExceededError, "sender"],
+  [TransferRestrictionCode.ReceiveLimitExceeded]: [TransferLimitExceededError, "receiver"],
+  [TransferRestrictionCode.GlobalTransferLimitExceeded]: [TransferLimitExceededError],
+  [TransferRestrictionCode.MaxBalanceExceeded]: [HoldingLimitExceededError, "receiver"],
+  [TransferRestrictionCode.MaxHolderCountExceeded]: [HoldingLimitExceededError, "receiver"],
+  [TransferRestrictionCode.NotCompliant]: [NotCompliantError],
+};
+
+/**
+ * Returns the typed error of a restriction `code`, or undefined for `Success`.
+ *
+ * Throws on an unknown code.
+ */
+export function toTransferRestrictionError(
+  code: number | bigint,
+  message?: string
+): TransferRestrictionError | undefined {
+  const value = Number(code);
+  if (value === TransferRestrictionCode.Success) {
+    return undefined;
+  }
+
+  const restriction = RESTRICTIONS[value as keyof typeof RESTRICTIONS];
+  if (restriction === undefined) {
+    throw new Error(`TransferRestrictions: unknown restriction code ${code}`);
+  }
+
+  const [ErrorClass, party] = restriction;
+  return new ErrorClass(value, message ?? TransferRestrictionCode[value], party);
+}
+
+/**
+ * A contract answering the ERC-1404 functions, either `InvestmentTokenM` or a `TransferRestrictionDetector`.
+ */
+export type TransferRestrictionSource = Pick<
+  TransferRestrictionDetector,
+  "detectTransferFromRestriction" | "messageForTransferRestriction"
+>;
+
+/**
+ * Pre-checks the transfer of `amount` tokens from `from` to `to` by `operator` (`from` by default)
+ * against `detector`, throwing the typed error of its restriction with the detector's message.
+ */
+export async function assertTransferAllowed(
+  detector: TransferRestrictionSource,
+  from: string,
+  to: string,
+  amount: bigint,
+  operator: string = from
+): Promise<void> {
+  const code = await detector.detectTransferFromRestriction(operator, from, to, amount);
+  if (Number(code) === TransferRestrictionCode.Success) {
+    return;
+  }
+
+  throw toTransferRestrictionError(code, await detector.messageForTransferRestriction(code));
+}
@@ -0,0 +1,419 @@
+import { getAddress, hexlify, toUtf8Bytes } from "ethers";
+import { task, types } from "hardhat/config";
+import type { AllowlistRegistry } from "../typechain-types";
+import { execute, getContract, readCsv, readJson, requireAddress, writeCsv, writeJson } from "./helpers";
+
+type AllowlistAction = "add" | "remove";
+
+interface ImportProgress {
+  registry: string;
+  chunks: { action: AllowlistAction; accounts: string[]; transactionHash: string }[];
+}
+
+type BatchMethod = "addAllowlistBatch" | "removeAllowlistBatch";
+
+const BATCH_METHODS: Record<AllowlistAction, BatchMethod> = {
+  add: "addAllowlistBatch",
+  remove: "removeAllowlistBatch",
+};
+
+/**
+ * Parses `address[,add|remove]` rows, the action defaults to `add`.
+ */
+function parseAllowlistCsv(file: string): Map<string, AllowlistAction> {
+  const rows = readCsv(file);
+  if (rows.length > 0 && rows[0][0].toLowerCase() === "address") {
+    rows.shift();
+  }
+
+  const actions = new Map<string, AllowlistAction>();
+  for (const [value, action = "add"] of rows) {
+    const account = getAddress(requireAddress("account", value));
+    if (action !== "add" && action !== "remove") {
+      throw new Error(`Invalid action "${action}" for ${account}`);
+    }
+    if (actions.has(account) && actions.get(account) !== action) {
+      throw new Error(`Conflicting actions for ${account}`);
+    }
+
+    actions.set(account, action);
+  }
+
+  return actions;
+}
+
+/**
+ * Splits `accounts` into chunks whose batch call on `method` estimates to at most `maxGas`.
+ */
+async function splitByGas(
+  registry: AllowlistRegistry,
+  method: BatchMethod,
+  accounts: string[],
+  maxGas: bigint
+): Promise<string[][]> {
+  const gas = await registry[method].estimateGas(accounts);
+  if (gas <= maxGas) {
+    return [accounts];
+  }
+  if (accounts.length === 1) {
+    throw new Error(`${method} for ${accounts[0]} exceeds max gas: ${gas}`);
+  }
+
+  const half = Math.ceil(accounts.length / 2);
+
+  return [
+    ...(await splitByGas(registry, method, accounts.slice(0, half), maxGas)),
+    ...(await splitByGas(registry, method, accounts.slice(half), maxGas)),
+  ];
+}
+
+interface ImportArgs {
+  file: string;
+  registry?: string;
+  chunkSize: number;
+  maxGas: number;
+  progress?: string;
+}
+
+task("allowlist:import", "Applies the allowlist changes of a CSV of `address[,add|remove]` rows")
+  .addParam("file", "The CSV file", undefined, types.inputFile)
+  .addOptionalParam(
+    "registry",
+    "The AllowlistRegistry address, defaults to its deployment address",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("chunkSize", "The max number of accounts per transaction", 200, types.int)
+  .addOptionalParam("maxGas", "The max gas per transaction", 5_000_000, types.int)
+  .addOptionalParam("progress", "The progress file, defaults to `<file>.progress.json`", undefined, types.string)
+  .setAction(async (args: ImportArgs, hre) => {
+    const registry = await getContract(hre, "AllowlistRegistry", args.registry);
+    const registryAddr = await registry.getAddress();
+    const progressFile = args.progress ?? `${args.file}.progress.json`;
+
+    const progress = readJson<ImportProgress>(progressFile, { registry: registryAddr, chunks: [] });
+    if (progress.registry !== registryAddr) {
+      throw new Error(`Progress file ${progressFile} belongs to registry ${progress.registry}`);
+    }
+
+    const done = new Set(progress.chunks.flatMap((chunk) => chunk.accounts));
+    const pending: Record<AllowlistAction, string[]> = { add: [], remove: [] };
+    const expired: string[] = [];
+
+    for (const [account, action] of parseAllowlistCsv(args.file)) {
+      if (done.has(account)) {
+        continue;
+      }
+
+      // An expired entry is still enumerated, so it is removed but not added again.
+      const [listed, expiresAt] = await registry.allowlistEntryOf(account);
+      if (action === "add" && !listed && expiresAt !== 0n) {
+        expired.push(account);
+      } else if ((action === "add" && !listed) || (action === "remove" && (listed || expiresAt !== 0n))) {
+        pending[action].push(account);
+      }
+    }
+
+    console.log(`Accounts to add: ${pending.add.length}, to remove: ${pending.remove.length}`);
+    for (const account of expired) {
+      console.warn(`  Skipped ${account}: its entry has expired, renew it with allowlist:set`);
+    }
+
+    for (const action of ["add", "remove"] as AllowlistAction[]) {
+      const method = BATCH_METHODS[action];
+
+      for (let i = 0; i < pending[action].length; i += args.chunkSize) {
+        const chunks = await splitByGas(
+          registry,
+          method,
+          pending[action].slice(i, i + args.chunkSize),
+          BigInt(args.maxGas)
+        );
+
+        for (const accounts of chunks) {
+          const receipt = await execute(registry, method, [accounts]);
+
+          progress.chunks.push({ action, accounts, transactionHash: receipt.hash });
+          writeJson(progressFile, progress);
+        }
+      }
+    }
+  });
+
+/**
+ * Encodes an ISO 3166-1 alpha-2 `code` (e.g. "TH") to bytes2, an empty code encodes to zero.
+ */
+function encodeJurisdiction(code: string): string {
+  if (code === "") {
+    return "0x0000";
+  }
+  if (!/^[A-Z]{2}$/.test(code)) {
+    throw new Error(`Invalid jurisdiction: ${code}, expected an ISO 3166-1 alpha-2 code`);
+  }
+
+  return hexlify(toUtf8Bytes(code));
+}
+
+interface AllowlistSetArgs {
+  account: string;
+  expiresAt: number;
+  tier: number;
+  jurisdiction: string;
+  registry?: string;
+}
+
+task("allowlist:set", "Allowlists an account with its expiry, tier and jurisdiction")
+  .addParam("account", "The account address", undefined, types.string)
+  .addOptionalParam("expiresAt", "The expiry as a unix timestamp, 0 never expires", 0, types.int)
+  .addOptionalParam("tier", "The investor tier, e.g. 1 retail, 2 accredited, 3 institutional", 0, types.int)
+  .addOptionalParam("jurisdiction", "The ISO 3166-1 alpha-2 jurisdiction code, e.g. TH", "", types.string)
+  .addOptionalParam(
+    "registry",
+    "The AllowlistRegistry address, defaults to its deployment address",
+    undefined,
+    types.string
+  )
+  .setAction(async (args: AllowlistSetArgs, hre) => {
+    const registry = await getContract(hre, "AllowlistRegistry", args.registry);
+    const account = requireAddress("account", args.account);
+
+    await execute(registry, "setAllowlist", [
+      account,
+      args.expiresAt,
+      args.tier,
+      encodeJurisdiction(args.jurisdiction),
+    ]);
+  });
+
+interface AllowlistSnapshotEntry {
+  account: string;
+  expiresAt: string;
+  addedBlock: number | null;
+  transactionHash: string | null;
+}
+
+interface AllowlistMismatch {
+  account: string;
+  reason: "missing-added-event" | "not-enumerated";
+}
+
+/**
+ * Returns the allowlist accounts enumerated by `registry` at `blockTag`.
+ */
+async function enumerateAllowlist(registry: AllowlistRegistry, blockTag: number, pageSize: number): Promise<string[]> {
+  const count = Number(await registry.allowlistCount({ blockTag }));
+
+  const accounts: string[] = [];
+  for (let offset = 0; offset < count; offset += pageSize) {
+    accounts.push(...(await registry.getAllowlist(offset, pageSize, { blockTag })));
+  }
+
+  return accounts;
+}
+
+/**
+ * Replays the `AddedAllowlist` and `RemovedAllowlist` events of `registry` up to `toBlock`,
+ * returning the listed accounts with the event that last added them.
+ */
+async function replayAllowlistEvents(registry: AllowlistRegistry, fromBlock: number, toBlock: number) {
+  const events = [
+    ...(await registry.queryFilter(registry.filters.AddedAllowlist(), fromBlock, toBlock)),
+    ...(await registry.queryFilter(registry.filters.RemovedAllowlist(), fromBlock, toBlock)),
+  ].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const listed = new Map<string, { blockNumber: number; transactionHash: string }>();
+  for (const event of events) {
+    const account = event.args.account;
+
+    if (event.fragment.name === "RemovedAllowlist") {
+      listed.delete(account);
+    } else if (!listed.has(account)) {
+      listed.set(account, { blockNumber: event.blockNumber, transactionHash: event.transactionHash });
+    }
+  }
+
+  return listed;
+}
+
+interface SnapshotArgs {
+  out: string;
+  registry?: string;
+  block?: number;
+  fromBlock: number;
+  pageSize: number;
+}
+
+task("allowlist:snapshot", "Exports the allowlist accounts at a block to JSON and CSV")
+  .addParam("out", "The output path, without extension", undefined, types.string)
+  .addOptionalParam(
+    "registry",
+    "The AllowlistRegistry address, defaults to its deployment address",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("block", "The snapshot block, defaults to the latest block", undefined, types.int)
+  .addOptionalParam("fromBlock", "The block to replay events from", 0, types.int)
+  .addOptionalParam("pageSize", "The number of accounts per listing call", 500, types.int)
+  .setAction(async (args: SnapshotArgs, hre) => {
+    const registry = await getContract(hre, "AllowlistRegistry", args.registry);
+    const block = args.block ?? (await hre.ethers.provider.getBlockNumber());
+
+    const enumerated = await enumerateAllowlist(registry, block, args.pageSize);
+    const entries = await readEntries(registry, enumerated, block);
+    const replayed = await replayAllowlistEvents(registry, args.fromBlock, block);
+    const listed = new Set(enumerated);
+
+    const snapshotEntry = (account: string): AllowlistSnapshotEntry => ({
+      account,
+      expiresAt: entries.get(account)![1].toString(),
+      addedBlock: replayed.get(account)?.blockNumber ?? null,
+      transactionHash: replayed.get(account)?.transactionHash ?? null,
+    });
+
+    // The expired entries are still enumerated until removed, so they are exported apart.
+    const accounts = enumerated.filter((account) => entries.get(account)![0]).map(snapshotEntry);
+    const expired = enumerated.filter((account) => !entries.get(account)![0]).map(snapshotEntry);
+
+    const mismatches: AllowlistMismatch[] = [
+      ...enumerated
+        .filter((account) => !replayed.has(account))
+        .map((account) => ({ account, reason: "missing-added-event" as const })),
+      ...[...replayed.keys()]
+        .filter((account) => !listed.has(account))
+        .map((account) => ({ account, reason: "not-enumerated" as const })),
+    ];
+
+    writeJson(`${args.out}.json`, {
+      registry: await registry.getAddress(),
+      block,
+      count: accounts.length,
+      accounts,
+      expired,
+      mismatches,
+    });
+    writeCsv(`${args.out}.csv`, [
+      ["address", "expires_at", "added_block", "transaction_hash"],
+      ...accounts.map((entry) => [entry.account, entry.expiresAt, entry.addedBlock ?? "", entry.transactionHash ?? ""]),
+    ]);
+
+    console.log(`Allowlist snapshot at block ${block}: ${accounts.length} accounts written to ${args.out}.{json,csv}`);
+    if (expired.length > 0) {
+      console.warn(`  ${expired.length} expired accounts are still enumerated, see "expired" in ${args.out}.json`);
+    }
+    for (const mismatch of mismatches) {
+      console.warn(`  Mismatch ${mismatch.account}: ${mismatch.reason}`);
+    }
+  });
+
+type AllowlistEntry = [boolean, bigint, bigint, string];
+
+/**
+ * Returns the allowlist entries of `accounts` in `registry` at `blockTag`, keyed by account.
+ */
+async function readEntries(
+  registry: AllowlistRegistry,
+  accounts: string[],
+  blockTag: number
+): Promise<Map<string, AllowlistEntry>> {
+  const entries = new Map<string, AllowlistEntry>();
+  for (const account of accounts) {
+    const [listed, expiresAt, tier, jurisdiction] = await registry.allowlistEntryOf(account, { blockTag });
+    entries.set(account, [listed, expiresAt, tier, jurisdiction]);
+  }
+
+  return entries;
+}
+
+/**
+ * Returns the differences between the allowlists of `source` and `target` at `blockTag`, empty
+ * when both enumerate the same accounts with the same entries.
+ */
+async function diffAllowlists(
+  source: AllowlistRegistry,
+  target: AllowlistRegistry,
+  blockTag: number,
+  pageSize: number
+): Promise<string[]> {
+  const sourceEntries = await readEntries(source, await enumerateAllowlist(source, blockTag, pageSize), blockTag);
+  const targetAccounts = await enumerateAllowlist(target, blockTag, pageSize);
+  const targetEntries = await readEntries(target, targetAccounts, blockTag);
+
+  const differences: string[] = [];
+  for (const [account, entry] of sourceEntries) {
+    const copied = targetEntries.get(account);
+    if (copied === undefined) {
+      differences.push(`${account} is missing`);
+    } else if (copied.join() !== entry.join()) {
+      differences.push(`${account} has entry ${copied.join()}, expected ${entry.join()}`);
+    }
+  }
+  for (const account of targetAccounts) {
+    if (!sourceEntries.has(account)) {
+      differences.push(`${account} is not in the source registry`);
+    }
+  }
+
+  return differences;
+}
+
+interface MigrateArgs {
+  to: string;
+  from?: string;
+  token?: string;
+  chunkSize: number;
+  pageSize: number;
+  skipRepoint: boolean;
+}
+
+task(
+  "allowlist:migrate",
+  "Copies the allowlist of the token's registry to a new registry, verifies parity and repoints the token to it"
+)
+  .addParam("to", "The new AllowlistRegistry address", undefined, types.string)
+  .addOptionalParam("from", "The AllowlistRegistry copied, defaults to the token's registry", undefined, types.string)
+  .addOptionalParam(
+    "token",
+    "The InvestmentTokenM address, defaults to its deployment address",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("chunkSize", "The max number of accounts per transaction", 200, types.int)
+  .addOptionalParam("pageSize", "The number of accounts per listing call", 500, types.int)
+  .addFlag("skipRepoint", "Copies and verifies only, e.g. when the token is repointed through the governance")
+  .setAction(async (args: MigrateArgs, hre) => {
+    const token = await getContract(hre, "InvestmentTokenM", args.token);
+    const source = await getContract(hre, "AllowlistRegistry", args.from ?? (await token.allowlistRegistry()));
+    const target = await getContract(hre, "AllowlistRegistry", args.to);
+    const block = await hre.ethers.provider.getBlockNumber();
+
+    const accounts = await enumerateAllowlist(source, block, args.pageSize);
+    const entries = await readEntries(source, accounts, block);
+    const copied = await readEntries(target, accounts, block);
+    const pending = accounts.filter((account) => copied.get(account)!.join() !== entries.get(account)!.join());
+
+    console.log(`Accounts to copy: ${pending.length} of ${accounts.length}`);
+
+    for (let i = 0; i < pending.length; i += args.chunkSize) {
+      const chunk = pending.slice(i, i + args.chunkSize);
+
+      await execute(target, "setAllowlistBatch", [
+        chunk,
+        chunk.map((account) => entries.get(account)![1]),
+        chunk.map((account) => entries.get(account)![2]),
+        chunk.map((account) => entries.get(account)![3]),
+      ]);
+    }
+
+    const differences = await diffAllowlists(source, target, await hre.ethers.provider.getBlockNumber(), args.pageSize);
+    if (differences.length > 0) {
+      throw new Error(`Allowlist parity check failed:\n  ${differences.join("\n  ")}`);
+    }
+
+    console.log(`Allowlist of ${target.target} matches ${source.target}: ${accounts.length} accounts`);
+
+    if (args.skipRepoint) {
+      return;
+    }
+
+    await execute(token, "setAllowlistRegistry", [await target.getAddress()]);
+  });
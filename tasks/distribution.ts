@@ -0,0 +1,192 @@
+import { getAddress, ZeroAddress } from "ethers";
+import { task, types } from "hardhat/config";
+import { buildMerkleDistribution, MerkleDistribution } from "../lib/merkle";
+import { createProofServer } from "../lib/proof-server";
+import type { InvestmentTokenM } from "../typechain-types";
+import {
+  connectContract,
+  execute,
+  getContract,
+  parseAmount,
+  readCsv,
+  readJson,
+  requireAddress,
+  writeCsv,
+  writeJson,
+} from "./helpers";
+
+interface DistributionEntry {
+  account: string;
+  balance: bigint;
+  reward: bigint;
+}
+
+/**
+ * Returns the block of the `Snapshot` event of `snapshotId` on `token`.
+ */
+async function findSnapshotBlock(token: InvestmentTokenM, snapshotId: number, fromBlock: number): Promise<number> {
+  const events = await token.queryFilter(token.filters.Snapshot(), fromBlock);
+  const event = events.find((event) => event.args.id === BigInt(snapshotId));
+  if (event === undefined) {
+    throw new Error(`Snapshot ${snapshotId} not found`);
+  }
+
+  return event.blockNumber;
+}
+
+/**
+ * Returns the accounts that received tokens on `token` up to `toBlock`.
+ */
+async function findHolders(token: InvestmentTokenM, fromBlock: number, toBlock: number): Promise<string[]> {
+  const events = await token.queryFilter(token.filters.Transfer(), fromBlock, toBlock);
+  const holders = new Set(events.map((event) => event.args.to));
+  holders.delete(ZeroAddress);
+
+  return [...holders].sort();
+}
+
+interface ExportArgs {
+  snapshot: number;
+  out: string;
+  token?: string;
+  reward?: string;
+  rewardDecimals: number;
+  fromBlock: number;
+}
+
+task("distribution:export", "Exports the holder balances at a snapshot to a distribution CSV")
+  .addParam("snapshot", "The snapshot id", undefined, types.int)
+  .addParam("out", "The output CSV path", undefined, types.string)
+  .addOptionalParam(
+    "token",
+    "The InvestmentTokenM address, defaults to its deployment address",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("reward", "The total reward to split pro-rata, in decimal units", undefined, types.string)
+  .addOptionalParam("rewardDecimals", "The decimals of the reward token", 18, types.int)
+  .addOptionalParam("fromBlock", "The block to replay events from", 0, types.int)
+  .setAction(async (args: ExportArgs, hre) => {
+    const token = await getContract(hre, "InvestmentTokenM", args.token);
+    const snapshotBlock = await findSnapshotBlock(token, args.snapshot, args.fromBlock);
+    const totalSupply = await token.totalSupplyAt(args.snapshot);
+    const reward = args.reward === undefined ? 0n : parseAmount(args.reward, args.rewardDecimals);
+
+    const entries: DistributionEntry[] = [];
+    for (const account of await findHolders(token, args.fromBlock, snapshotBlock)) {
+      const balance = await token.balanceOfAt(account, args.snapshot);
+      if (balance > 0n) {
+        entries.push({ account, balance, reward: (reward * balance) / totalSupply });
+      }
+    }
+
+    const total = entries.reduce((sum, entry) => sum + entry.balance, 0n);
+    if (total !== totalSupply) {
+      throw new Error(
+        `Snapshot ${args.snapshot} balances sum to ${total} but total supply is ${totalSupply}, ` +
+          `is fromBlock after the token deployment?`
+      );
+    }
+
+    writeCsv(args.out, [
+      ["address", "balance", "reward"],
+      ...entries.map((entry) => [entry.account, entry.balance, entry.reward]),
+    ]);
+
+    console.log(
+      `Snapshot ${args.snapshot} at block ${snapshotBlock}: ${entries.length} holders written to ${args.out}`
+    );
+  });
+
+/**
+ * Reads the rewards of a distribution CSV written by `distribution:export`.
+ */
+function readRewards(file: string): Map<string, bigint> {
+  const rows = readCsv(file);
+  if (rows.length > 0 && rows[0][0].toLowerCase() === "address") {
+    rows.shift();
+  }
+
+  const rewards = new Map<string, bigint>();
+  for (const [value, , reward] of rows) {
+    const account = getAddress(requireAddress("account", value));
+    if (!/^\d+$/.test(reward ?? "")) {
+      throw new Error(`Invalid reward "${reward}" for ${account}`);
+    }
+
+    if (BigInt(reward) > 0n) {
+      rewards.set(account, BigInt(reward));
+    }
+  }
+
+  return rewards;
+}
+
+/**
+ * A Merkle distribution as written to JSON, with its amounts as decimal strings.
+ */
+interface MerkleDistributionFile {
+  root: string;
+  total: string;
+  claims: Record<string, { amount: string; proof: string[] }>;
+}
+
+/**
+ * Reads a Merkle distribution written by `distribution:merkle`.
+ */
+function readMerkleDistribution(file: string): MerkleDistribution {
+  const distribution = readJson<MerkleDistributionFile | undefined>(file, undefined);
+  if (distribution === undefined) {
+    throw new Error(`Missing Merkle distribution file: ${file}`);
+  }
+
+  const claims: MerkleDistribution["claims"] = {};
+  for (const [account, claim] of Object.entries(distribution.claims)) {
+    claims[account] = { amount: BigInt(claim.amount), proof: claim.proof };
+  }
+
+  return { root: distribution.root, total: BigInt(distribution.total), claims };
+}
+
+task("distribution:merkle", "Builds the Merkle tree of the rewards of a distribution CSV")
+  .addParam("file", "The distribution CSV written by distribution:export", undefined, types.inputFile)
+  .addParam("out", "The output JSON path", undefined, types.string)
+  .setAction(async (args: { file: string; out: string }) => {
+    const distribution = buildMerkleDistribution(readRewards(args.file));
+
+    writeJson(args.out, distribution);
+
+    console.log(
+      `Merkle root ${distribution.root}: ${Object.keys(distribution.claims).length} claims written to ${args.out}`
+    );
+  });
+
+task("distribution:create", "Deposits the rewards of a Merkle distribution into the RewardDistributor")
+  .addParam("merkle", "The Merkle distribution JSON written by distribution:merkle", undefined, types.inputFile)
+  .addParam("rewardToken", "The ERC20 reward token address", undefined, types.string)
+  .addOptionalParam(
+    "distributor",
+    "The RewardDistributor address, defaults to its deployment address",
+    undefined,
+    types.string
+  )
+  .setAction(async (args: { merkle: string; rewardToken: string; distributor?: string }, hre) => {
+    const distributor = await getContract(hre, "RewardDistributor", args.distributor);
+    const rewardToken = await connectContract(hre, "IERC20", requireAddress("rewardToken", args.rewardToken));
+    const { root, total } = readMerkleDistribution(args.merkle);
+
+    await execute(rewardToken, "approve", [await distributor.getAddress(), total]);
+    await execute(distributor, "createDistribution", [await rewardToken.getAddress(), root, total]);
+  });
+
+task("distribution:serve", "Serves the claims and proofs of a Merkle distribution over HTTP")
+  .addParam("merkle", "The Merkle distribution JSON written by distribution:merkle", undefined, types.inputFile)
+  .addOptionalParam("port", "The port to listen on", 8080, types.int)
+  .setAction(async (args: { merkle: string; port: number }) => {
+    const server = createProofServer(readMerkleDistribution(args.merkle));
+
+    await new Promise<void>((resolve) => server.listen(args.port, resolve));
+    console.log(`Serving proofs on http://localhost:${args.port}/proofs/<address>`);
+
+    await new Promise((resolve) => server.on("close", resolve));
+  });
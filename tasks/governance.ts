@@ -0,0 +1,111 @@
+import { Interface } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { decodeError } from "../lib/errors";
+import type { GovernanceTimelock } from "../typechain-types";
+import { execute, getContract, getDeploymentAddress, writeCsv } from "./helpers";
+
+const STATUSES = ["None", "Proposed", "Queued", "Executed", "Cancelled"];
+
+interface GovernanceArgs {
+  governance?: string;
+}
+
+interface ProposeArgs extends GovernanceArgs {
+  contract: string;
+  method: string;
+  args: unknown[];
+  target?: string;
+}
+
+function getGovernance(hre: HardhatRuntimeEnvironment, args: GovernanceArgs): Promise<GovernanceTimelock> {
+  return getContract(hre, "GovernanceTimelock", args.governance);
+}
+
+/**
+ * Declares a task on GovernanceTimelock, with the `--governance` param defaulting to its deployment address.
+ */
+function governanceTask(name: string, description: string) {
+  return task(name, description).addOptionalParam(
+    "governance",
+    "The GovernanceTimelock address, defaults to its deployment address",
+    undefined,
+    types.string
+  );
+}
+
+governanceTask("governance:propose", "Proposes a call of a contract, dry-run from the governance")
+  .addParam("contract", "The contract called, e.g. InvestmentTokenM or GovernanceTimelock", undefined, types.string)
+  .addParam("method", "The method called, e.g. adminTransfer", undefined, types.string)
+  .addOptionalParam("args", "The JSON array of arguments of the method, amounts in wei", [], types.json)
+  .addOptionalParam("target", "The contract address, defaults to its deployment address", undefined, types.string)
+  .setAction(async (args: ProposeArgs, hre) => {
+    const governance = await getGovernance(hre, args);
+    // The called contract and method are only known at runtime, so they are resolved from the artifact.
+    const target = await getDeploymentAddress(hre, args.contract, args.target);
+    const targetInterface = new Interface((await hre.artifacts.readArtifact(args.contract)).abi);
+    const data = targetInterface.encodeFunctionData(args.method, args.args);
+
+    try {
+      await hre.ethers.provider.call({ from: await governance.getAddress(), to: target, data });
+    } catch (error) {
+      const decoded = decodeError(error, [targetInterface]);
+      if (decoded === undefined) {
+        throw error;
+      }
+
+      throw new Error(`${args.method} would revert from the governance: ${decoded.message}`);
+    }
+
+    await execute(governance, "propose", [target, data]);
+  });
+
+governanceTask("governance:approve", "Approves an operation, queuing it once approved by the threshold of signers")
+  .addParam("id", "The operation id", undefined, types.int)
+  .setAction(async (args: GovernanceArgs & { id: number }, hre) => {
+    const governance = await getGovernance(hre, args);
+
+    await execute(governance, "approve", [args.id]);
+  });
+
+governanceTask("governance:execute", "Executes a queued operation once its delay has passed")
+  .addParam("id", "The operation id", undefined, types.int)
+  .setAction(async (args: GovernanceArgs & { id: number }, hre) => {
+    const governance = await getGovernance(hre, args);
+
+    await execute(governance, "execute", [args.id]);
+  });
+
+governanceTask("governance:cancel", "Cancels a proposed or queued operation")
+  .addParam("id", "The operation id", undefined, types.int)
+  .setAction(async (args: GovernanceArgs & { id: number }, hre) => {
+    const governance = await getGovernance(hre, args);
+
+    await execute(governance, "cancel", [args.id]);
+  });
+
+governanceTask("governance:pending", "Lists the proposed and queued operations")
+  .addOptionalParam("out", "The output CSV path", undefined, types.string)
+  .setAction(async (args: GovernanceArgs & { out?: string }, hre) => {
+    const governance = await getGovernance(hre, args);
+    const count = Number(await governance.operationCount());
+    const threshold = await governance.threshold();
+
+    const rows: (string | bigint)[][] = [];
+    for (let id = 0; id < count; id++) {
+      const [target, data, eta, status] = await governance.operationOf(id);
+      const name = STATUSES[Number(status)];
+      if (name === "Proposed" || name === "Queued") {
+        rows.push([BigInt(id), name, target, data, await governance.approvalCount(id), eta]);
+      }
+    }
+
+    if (args.out !== undefined) {
+      writeCsv(args.out, [["id", "status", "target", "data", "approvals", "eta"], ...rows]);
+    }
+
+    console.log(`${rows.length} pending operations`);
+    for (const [id, name, target, data, approvals, eta] of rows) {
+      console.log(`  #${id} ${name} target=${target} data=${data} approvals=${approvals}/${threshold} eta=${eta}`);
+    }
+  });
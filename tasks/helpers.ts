@@ -0,0 +1,244 @@
+import fs from "fs";
+import {
+  BaseContract,
+  BaseContractMethod,
+  ContractRunner,
+  ContractTransactionReceipt,
+  isAddress,
+  parseUnits,
+} from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { decodeError } from "../lib/errors";
+import type * as typechain from "../typechain-types";
+import type { TypedContractMethod } from "../typechain-types/common";
+
+type Factories = typeof typechain;
+
+/**
+ * The name of a contract with a typechain factory, e.g. `InvestmentTokenM` or `IERC20`.
+ */
+export type ContractName = {
+  [K in keyof Factories]: K extends `${infer Name}__factory` ? Name : never;
+}[keyof Factories];
+
+/**
+ * The typechain type of the `Name` contract.
+ */
+export type ContractOf<Name extends ContractName> = Factories[`${Name}__factory` & keyof Factories] extends {
+  connect(address: string, runner?: ContractRunner | null): infer Contract;
+}
+  ? Contract
+  : never;
+
+/**
+ * The arguments of the `Method` method of `Contract`, or of each of them when `Method` is a union.
+ */
+type MethodArgs<Contract, Method extends keyof Contract> = Method extends keyof Contract
+  ? Contract[Method] extends TypedContractMethod<infer Args, any, any>
+    ? Args
+    : never
+  : never;
+
+/**
+ * Throws if `value` is not a valid address, returns the address otherwise.
+ */
+export function requireAddress(name: string, value: string): string {
+  if (!isAddress(value)) {
+    throw new Error(`Invalid ${name} address: ${value}`);
+  }
+
+  return value;
+}
+
+/**
+ * Converts a human-readable decimal `amount` (e.g. "1000.5") to the token base unit.
+ */
+export function parseAmount(amount: string, decimals: bigint | number): bigint {
+  if (!/^\d+(\.\d+)?$/.test(amount)) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  return parseUnits(amount, decimals);
+}
+
+/**
+ * Returns `address`, or the deployment address of `name` when `address` is not given.
+ */
+export async function getDeploymentAddress(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  address?: string
+): Promise<string> {
+  return address ? requireAddress(name, address) : (await hre.deployments.get(name)).address;
+}
+
+/**
+ * Returns the `name` contract at `address` through its typechain factory, connected to the first signer.
+ */
+export async function connectContract<Name extends ContractName>(
+  hre: HardhatRuntimeEnvironment,
+  name: Name,
+  address: string
+): Promise<ContractOf<Name>> {
+  // The tasks are loaded by the config before the compilation generates typechain-types.
+  const factories: Factories = await import("../typechain-types");
+  const factory = factories[`${name}__factory` as keyof Factories] as unknown as {
+    connect(address: string, runner?: ContractRunner | null): ContractOf<Name>;
+  };
+  const [signer] = await hre.ethers.getSigners();
+
+  return factory.connect(address, signer ?? hre.ethers.provider);
+}
+
+/**
+ * Returns the `name` contract at `address`, or at its deployment address when `address` is not given.
+ */
+export async function getContract<Name extends ContractName>(
+  hre: HardhatRuntimeEnvironment,
+  name: Name,
+  address?: string
+): Promise<ContractOf<Name>> {
+  return connectContract(hre, name, await getDeploymentAddress(hre, name, address));
+}
+
+/**
+ * Deploys `implementation` behind a transparent proxy initialized with `args` and records the proxy as
+ * the `name` deployment, unless `name` is already deployed. The implementation is validated to be
+ * upgrade safe before it is deployed.
+ */
+export async function deployProxy(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  implementation: string,
+  args: unknown[]
+): Promise<{ address: string; newlyDeployed: boolean }> {
+  const existing = await hre.deployments.getOrNull(name);
+  if (existing) {
+    return { address: existing.address, newlyDeployed: false };
+  }
+
+  const factory = await hre.ethers.getContractFactory(implementation);
+  const proxy = await hre.upgrades.deployProxy(factory, args, { kind: "transparent" });
+  await proxy.waitForDeployment();
+
+  const address = await proxy.getAddress();
+  await saveProxy(hre, name, implementation, address, {
+    args,
+    transactionHash: proxy.deploymentTransaction()?.hash,
+  });
+
+  return { address, newlyDeployed: true };
+}
+
+/**
+ * Records the proxy at `address` as the `name` deployment, with the ABI and the current implementation
+ * address of `implementation`.
+ */
+export async function saveProxy(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  implementation: string,
+  address: string,
+  options: { args?: unknown[]; transactionHash?: string } = {}
+): Promise<void> {
+  const artifact = await hre.deployments.getExtendedArtifact(implementation);
+
+  await hre.deployments.save(name, {
+    ...artifact,
+    ...options,
+    address,
+    implementation: await hre.upgrades.erc1967.getImplementationAddress(address),
+  });
+}
+
+/**
+ * Dry-runs `method` through `staticCall` and sends the transaction when it would succeed,
+ * then prints the events emitted by `contract`. A reverted dry-run throws the decoded error.
+ */
+export async function execute<Contract extends BaseContract, Method extends keyof Contract & string>(
+  contract: Contract,
+  method: Method,
+  args: MethodArgs<Contract, Method>
+): Promise<ContractTransactionReceipt> {
+  const send = contract[method] as BaseContractMethod;
+
+  try {
+    await send.staticCall(...args);
+  } catch (error) {
+    const decoded = decodeError(error, [contract.interface]);
+    if (decoded === undefined) {
+      throw error;
+    }
+
+    throw new Error(`${method} reverted: ${decoded.message}`);
+  }
+
+  const tx = await send.send(...args);
+  console.log(`${method} transaction sent: ${tx.hash}`);
+
+  const receipt = (await tx.wait()) as ContractTransactionReceipt;
+  printEvents(contract, receipt);
+
+  return receipt;
+}
+
+/**
+ * Prints the events of `contract` found in `receipt`.
+ */
+export function printEvents(contract: BaseContract, receipt: ContractTransactionReceipt): void {
+  const address = String(contract.target).toLowerCase();
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== address) {
+      continue;
+    }
+
+    const event = contract.interface.parseLog(log);
+    if (event === null) {
+      continue;
+    }
+
+    const args = event.fragment.inputs.map((input, i) => `${input.name}=${event.args[i]}`);
+    console.log(`  ${event.name}(${args.join(", ")})`);
+  }
+}
+
+/**
+ * Reads the rows of a CSV `file`, skipping blank lines and `#` comments.
+ */
+export function readCsv(file: string): string[][] {
+  return fs
+    .readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"))
+    .map((line) => line.split(",").map((cell) => cell.trim()));
+}
+
+/**
+ * Writes `rows` to a CSV `file`.
+ */
+export function writeCsv(file: string, rows: (string | number | bigint)[][]): void {
+  fs.writeFileSync(file, rows.map((row) => row.join(",")).join("\n") + "\n");
+}
+
+/**
+ * Reads a JSON `file`, or returns `fallback` when the file does not exist.
+ */
+export function readJson<T>(file: string, fallback: T): T {
+  if (!fs.existsSync(file)) {
+    return fallback;
+  }
+
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+/**
+ * Writes `data` to a JSON `file`.
+ */
+export function writeJson(file: string, data: unknown): void {
+  fs.writeFileSync(
+    file,
+    JSON.stringify(data, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2) + "\n"
+  );
+}
@@ -0,0 +1,6 @@
+import "./allowlist";
+import "./distribution";
+import "./governance";
+import "./redemption";
+import "./token";
+import "./upgrade";
@@ -0,0 +1,76 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { RedemptionManager } from "../typechain-types";
+import { execute, getContract, requireAddress, writeCsv } from "./helpers";
+
+const PENDING = 1n;
+
+interface RedemptionArgs {
+  manager?: string;
+}
+
+function getManager(hre: HardhatRuntimeEnvironment, args: RedemptionArgs): Promise<RedemptionManager> {
+  return getContract(hre, "RedemptionManager", args.manager);
+}
+
+/**
+ * Declares a task on RedemptionManager, with the `--manager` param defaulting to its deployment address.
+ */
+function redemptionTask(name: string, description: string) {
+  return task(name, description).addOptionalParam(
+    "manager",
+    "The RedemptionManager address, defaults to its deployment address",
+    undefined,
+    types.string
+  );
+}
+
+redemptionTask("redemption:pending", "Lists the pending redemptions")
+  .addOptionalParam("out", "The output CSV path", undefined, types.string)
+  .setAction(async (args: RedemptionArgs & { out?: string }, hre) => {
+    const manager = await getManager(hre, args);
+    const count = Number(await manager.redemptionCount());
+
+    const rows: (string | bigint)[][] = [];
+    for (let id = 0; id < count; id++) {
+      const [account, amount, payout, deadline, status] = await manager.redemptionOf(id);
+      if (status === PENDING) {
+        rows.push([BigInt(id), account, amount, payout, deadline]);
+      }
+    }
+
+    if (args.out !== undefined) {
+      writeCsv(args.out, [["id", "account", "amount", "payout", "deadline"], ...rows]);
+    }
+
+    console.log(`${rows.length} pending redemptions`);
+    for (const [id, account, amount, payout, deadline] of rows) {
+      console.log(`  #${id} ${account} amount=${amount} payout=${payout} deadline=${deadline}`);
+    }
+  });
+
+redemptionTask("redemption:approve", "Approves a redemption, burning its tokens and paying out")
+  .addParam("id", "The redemption id", undefined, types.int)
+  .setAction(async (args: RedemptionArgs & { id: number }, hre) => {
+    const manager = await getManager(hre, args);
+
+    await execute(manager, "approveRedemption", [args.id]);
+  });
+
+redemptionTask("redemption:reject", "Rejects a redemption, returning its tokens")
+  .addParam("id", "The redemption id", undefined, types.int)
+  .addOptionalParam(
+    "to",
+    "The account receiving the tokens instead of the holder, e.g. when the holder is frozen",
+    undefined,
+    types.string
+  )
+  .setAction(async (args: RedemptionArgs & { id: number; to?: string }, hre) => {
+    const manager = await getManager(hre, args);
+
+    if (args.to === undefined) {
+      await execute(manager, "rejectRedemption", [args.id]);
+    } else {
+      await execute(manager, "rejectRedemptionTo", [args.id, requireAddress("to", args.to)]);
+    }
+  });
@@ -0,0 +1,453 @@
+import { id, isHexString, ZeroAddress } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { InvestmentTokenM } from "../typechain-types";
+import { connectContract, execute, getContract, parseAmount, readCsv, requireAddress } from "./helpers";
+
+interface TokenArgs {
+  token?: string;
+}
+
+function getToken(hre: HardhatRuntimeEnvironment, args: TokenArgs): Promise<InvestmentTokenM> {
+  return getContract(hre, "InvestmentTokenM", args.token);
+}
+
+async function toBaseUnit(token: InvestmentTokenM, amount: string): Promise<bigint> {
+  return parseAmount(amount, await token.decimals());
+}
+
+/**
+ * Declares a task on InvestmentTokenM, with the `--token` param defaulting to its deployment address.
+ */
+function tokenTask(name: string, description: string) {
+  return task(name, description).addOptionalParam(
+    "token",
+    "The InvestmentTokenM address, defaults to its deployment address",
+    undefined,
+    types.string
+  );
+}
+
+tokenTask("token:mint", "Mints tokens to the caller")
+  .addParam("amount", "The amount of tokens, in decimal units", undefined, types.string)
+  .setAction(async (args: TokenArgs & { amount: string }, hre) => {
+    const token = await getToken(hre, args);
+
+    await execute(token, "mint", [await toBaseUnit(token, args.amount)]);
+  });
+
+tokenTask("token:mint-to", "Mints tokens to an allowlisted account")
+  .addParam("to", "The account to mint to", undefined, types.string)
+  .addParam("amount", "The amount of tokens, in decimal units", undefined, types.string)
+  .setAction(async (args: TokenArgs & { to: string; amount: string }, hre) => {
+    const token = await getToken(hre, args);
+    const to = requireAddress("to", args.to);
+
+    await execute(token, "mintTo", [to, await toBaseUnit(token, args.amount)]);
+  });
+
+tokenTask("token:set-max-supply", "Caps the total supply, can only be decreased once set")
+  .addParam("amount", "The max supply, in decimal units", undefined, types.string)
+  .setAction(async (args: TokenArgs & { amount: string }, hre) => {
+    const token = await getToken(hre, args);
+
+    await execute(token, "setMaxSupply", [await toBaseUnit(token, args.amount)]);
+  });
+
+tokenTask("token:pause", "Pauses all token transfers").setAction(async (args: TokenArgs, hre) => {
+  const token = await getToken(hre, args);
+
+  await execute(token, "pause", []);
+});
+
+tokenTask("token:unpause", "Unpauses all token transfers").setAction(async (args: TokenArgs, hre) => {
+  const token = await getToken(hre, args);
+
+  await execute(token, "unpause", []);
+});
+
+tokenTask("token:snapshot", "Snapshots the balances and total supply").setAction(async (args: TokenArgs, hre) => {
+  const token = await getToken(hre, args);
+
+  await execute(token, "snapshot", []);
+});
+
+tokenTask("token:set-transfer-limit", "Sets the transfer limit of an account")
+  .addParam("account", "The account address", undefined, types.string)
+  .addParam("amount", "The transfer limit, in decimal units", undefined, types.string)
+  .setAction(async (args: TokenArgs & { account: string; amount: string }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    await execute(token, "setTransferLimit", [account, await toBaseUnit(token, args.amount)]);
+  });
+
+tokenTask("token:set-periodic-transfer-limit", "Sets the transfer limit of an account, replenished every period")
+  .addParam("account", "The account address", undefined, types.string)
+  .addParam("amount", "The transfer limit of each period, in decimal units", undefined, types.string)
+  .addParam("period", "The period length in seconds", undefined, types.int)
+  .setAction(async (args: TokenArgs & { account: string; amount: string; period: number }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    await execute(token, "setPeriodicTransferLimit", [account, await toBaseUnit(token, args.amount), args.period]);
+  });
+
+tokenTask("token:increase-transfer-limit", "Increases the transfer limit of an account")
+  .addParam("account", "The account address", undefined, types.string)
+  .addParam("amount", "The amount to increase by, in decimal units", undefined, types.string)
+  .setAction(async (args: TokenArgs & { account: string; amount: string }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    await execute(token, "increaseTransferLimit", [account, await toBaseUnit(token, args.amount)]);
+  });
+
+interface VestingScheduleArgs {
+  account: string;
+  start: number;
+  cliff: number;
+  duration: number;
+  amount: string;
+}
+
+tokenTask("token:set-vesting-schedule", "Locks up tokens of an account behind a cliff and linear unlock")
+  .addParam("account", "The account address", undefined, types.string)
+  .addParam("start", "The vesting start as a unix timestamp", undefined, types.int)
+  .addParam("cliff", "The cliff length after the start in seconds", undefined, types.int)
+  .addParam("duration", "The vesting length after the start in seconds", undefined, types.int)
+  .addParam("amount", "The total amount of locked tokens, in decimal units", undefined, types.string)
+  .setAction(async (args: TokenArgs & VestingScheduleArgs, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+    const total = await toBaseUnit(token, args.amount);
+
+    await execute(token, "setVestingSchedule", [account, args.start, args.cliff, args.duration, total]);
+  });
+
+tokenTask("token:remove-vesting-schedule", "Removes the vesting schedule of an account, unlocking its tokens")
+  .addParam("account", "The account address", undefined, types.string)
+  .setAction(async (args: TokenArgs & { account: string }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    await execute(token, "removeVestingSchedule", [account]);
+  });
+
+interface ForcedActionArgs extends TokenArgs {
+  reason: number;
+  caseId: string;
+}
+
+/**
+ * Returns the bytes32 reference of an off-chain case, `caseId` itself when it is already
+ * a bytes32 hash, or its keccak256 hash otherwise.
+ */
+function toCaseHash(caseId: string): string {
+  return isHexString(caseId, 32) ? caseId : id(caseId);
+}
+
+/**
+ * Declares a forced action task on InvestmentTokenM, with the `--reason` and `--case-id` params.
+ */
+function forcedActionTask(name: string, description: string) {
+  return tokenTask(name, description)
+    .addParam("reason", "The reason code, e.g. 1 court order, 2 lost wallet", undefined, types.int)
+    .addParam("caseId", "The off-chain case ID, or its bytes32 hash", undefined, types.string);
+}
+
+forcedActionTask("token:admin-transfer", "Force transfers tokens between accounts")
+  .addParam("from", "The account to transfer from", undefined, types.string)
+  .addParam("to", "The account to transfer to", undefined, types.string)
+  .addParam("amount", "The amount of tokens, in decimal units", undefined, types.string)
+  .setAction(async (args: ForcedActionArgs & { from: string; to: string; amount: string }, hre) => {
+    const token = await getToken(hre, args);
+    const from = requireAddress("from", args.from);
+    const to = requireAddress("to", args.to);
+
+    await execute(token, "adminTransfer", [
+      from,
+      to,
+      await toBaseUnit(token, args.amount),
+      args.reason,
+      toCaseHash(args.caseId),
+    ]);
+  });
+
+forcedActionTask("token:admin-burn", "Force burns tokens of an account")
+  .addParam("account", "The account to burn from", undefined, types.string)
+  .addParam("amount", "The amount of tokens, in decimal units", undefined, types.string)
+  .setAction(async (args: ForcedActionArgs & { account: string; amount: string }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    await execute(token, "adminBurn", [
+      account,
+      await toBaseUnit(token, args.amount),
+      args.reason,
+      toCaseHash(args.caseId),
+    ]);
+  });
+
+forcedActionTask(
+  "token:recover-wallets",
+  "Moves the balance and transfer limits of lost wallets to new wallets, from a CSV of `lost,new` rows"
+)
+  .addParam("file", "The CSV file", undefined, types.inputFile)
+  .addOptionalParam("chunkSize", "The max number of wallets per transaction", 50, types.int)
+  .setAction(async (args: ForcedActionArgs & { file: string; chunkSize: number }, hre) => {
+    const token = await getToken(hre, args);
+    const rows = readCsv(args.file);
+    if (rows.length > 0 && rows[0][0].toLowerCase() === "lost") {
+      rows.shift();
+    }
+
+    const lostWallets = rows.map(([lost]) => requireAddress("lost wallet", lost));
+    const newWallets = rows.map(([, replacement]) => requireAddress("new wallet", replacement));
+
+    for (let i = 0; i < rows.length; i += args.chunkSize) {
+      await execute(token, "recoverWallets", [
+        lostWallets.slice(i, i + args.chunkSize),
+        newWallets.slice(i, i + args.chunkSize),
+        args.reason,
+        toCaseHash(args.caseId),
+      ]);
+    }
+  });
+
+tokenTask("token:freeze", "Freezes an account")
+  .addParam("account", "The account address", undefined, types.string)
+  .setAction(async (args: TokenArgs & { account: string }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    await execute(token, "freeze", [account]);
+  });
+
+tokenTask("token:unfreeze", "Unfreezes an account")
+  .addParam("account", "The account address", undefined, types.string)
+  .setAction(async (args: TokenArgs & { account: string }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    await execute(token, "unfreeze", [account]);
+  });
+
+tokenTask("token:freeze-amount", "Freezes an amount of the balance of an account, zero unfreezes it")
+  .addParam("account", "The account address", undefined, types.string)
+  .addParam("amount", "The frozen amount, in decimal units", undefined, types.string)
+  .setAction(async (args: TokenArgs & { account: string; amount: string }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    await execute(token, "freezeAmount", [account, await toBaseUnit(token, args.amount)]);
+  });
+
+tokenTask("token:set-max-balance", "Sets the max balance of an account, zero falls back to its tier")
+  .addParam("account", "The account address", undefined, types.string)
+  .addParam("amount", "The max balance, in decimal units", undefined, types.string)
+  .setAction(async (args: TokenArgs & { account: string; amount: string }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    await execute(token, "setMaxBalance", [account, await toBaseUnit(token, args.amount)]);
+  });
+
+tokenTask("token:set-tier-max-balance", "Sets the max balance of the accounts of an allowlist tier, zero removes it")
+  .addParam("tier", "The allowlist tier", undefined, types.int)
+  .addParam("amount", "The max balance, in decimal units", undefined, types.string)
+  .setAction(async (args: TokenArgs & { tier: number; amount: string }, hre) => {
+    const token = await getToken(hre, args);
+
+    await execute(token, "setTierMaxBalance", [args.tier, await toBaseUnit(token, args.amount)]);
+  });
+
+tokenTask("token:set-max-holder-count", "Sets the max number of holders, zero removes the limit")
+  .addParam("count", "The max holder count", undefined, types.int)
+  .setAction(async (args: TokenArgs & { count: number }, hre) => {
+    const token = await getToken(hre, args);
+
+    await execute(token, "setMaxHolderCount", [args.count]);
+  });
+
+tokenTask("token:add-compliance-module", "Appends a compliance module checked on every transfer")
+  .addParam("module", "The compliance module address", undefined, types.string)
+  .setAction(async (args: TokenArgs & { module: string }, hre) => {
+    const token = await getToken(hre, args);
+    const module = requireAddress("module", args.module);
+
+    await execute(token, "addComplianceModule", [module]);
+  });
+
+tokenTask("token:remove-compliance-module", "Removes a compliance module")
+  .addParam("module", "The compliance module address", undefined, types.string)
+  .setAction(async (args: TokenArgs & { module: string }, hre) => {
+    const token = await getToken(hre, args);
+    const module = requireAddress("module", args.module);
+
+    await execute(token, "removeComplianceModule", [module]);
+  });
+
+tokenTask("token:renounce-mintable", "Permanently disables minting").setAction(async (args: TokenArgs, hre) => {
+  const token = await getToken(hre, args);
+
+  await execute(token, "renounceMintable", []);
+});
+
+tokenTask("token:set-allowlist-registry", "Sets the allowlist registry")
+  .addParam("registry", "The AllowlistRegistry address", undefined, types.string)
+  .setAction(async (args: TokenArgs & { registry: string }, hre) => {
+    const token = await getToken(hre, args);
+    const registry = requireAddress("registry", args.registry);
+
+    await execute(token, "setAllowlistRegistry", [registry]);
+  });
+
+const ASSETS = ["Ether", "ERC20", "ERC721", "ERC1155"];
+
+/**
+ * Returns the whole balance of `asset` held by `token`, in base units.
+ */
+async function assetBalanceOf(
+  hre: HardhatRuntimeEnvironment,
+  token: InvestmentTokenM,
+  kind: string,
+  asset: string,
+  id: bigint
+): Promise<bigint> {
+  const tokenAddr = await token.getAddress();
+  if (kind === "Ether") {
+    return hre.ethers.provider.getBalance(tokenAddr);
+  }
+  if (kind === "ERC20") {
+    return (await connectContract(hre, "IERC20", asset)).balanceOf(tokenAddr);
+  }
+  if (kind === "ERC721") {
+    return 1n;
+  }
+  return (await connectContract(hre, "IERC1155", asset)).balanceOf(tokenAddr, id);
+}
+
+/**
+ * Converts `amount` of `asset` to base units, from decimal units for Ether and ERC20 assets,
+ * and from a number of tokens for ERC721 and ERC1155 assets.
+ */
+async function toAssetBaseUnit(
+  hre: HardhatRuntimeEnvironment,
+  kind: string,
+  asset: string,
+  amount: string
+): Promise<bigint> {
+  if (kind === "Ether") {
+    return parseAmount(amount, 18);
+  }
+  if (kind === "ERC20") {
+    return parseAmount(amount, await (await connectContract(hre, "IERC20Metadata", asset)).decimals());
+  }
+  if (!/^\d+$/.test(amount)) {
+    throw new Error(`Invalid amount: ${amount}, expected a number of tokens`);
+  }
+  return BigInt(amount);
+}
+
+tokenTask("token:emergency-withdraw", "Withdraws an asset stuck in the contract to the treasury")
+  .addParam("kind", `The kind of asset, one of ${ASSETS.join(", ")}`, undefined, types.string)
+  .addOptionalParam("asset", "The asset contract address, unused for Ether", undefined, types.string)
+  .addOptionalParam("id", "The ERC721 or ERC1155 token id", "0", types.string)
+  .addOptionalParam(
+    "amount",
+    "The amount, in decimal units for Ether and ERC20, in tokens for ERC721 and ERC1155, defaults to the whole balance",
+    undefined,
+    types.string
+  )
+  .setAction(async (args: TokenArgs & { kind: string; asset?: string; id: string; amount?: string }, hre) => {
+    const token = await getToken(hre, args);
+    const kind = ASSETS.indexOf(args.kind);
+    if (kind === -1) {
+      throw new Error(`Invalid kind: ${args.kind}, expected one of ${ASSETS.join(", ")}`);
+    }
+
+    const asset = args.kind === "Ether" ? ZeroAddress : requireAddress("asset", args.asset ?? "");
+    const id = BigInt(args.id);
+    const amount =
+      args.amount === undefined
+        ? await assetBalanceOf(hre, token, args.kind, asset, id)
+        : await toAssetBaseUnit(hre, args.kind, asset, args.amount);
+
+    await execute(token, "emergencyWithdraw", [kind, asset, id, amount]);
+  });
+
+tokenTask("token:set-treasury", "Sets the account receiving the emergency withdrawn assets")
+  .addParam("treasury", "The treasury address", undefined, types.string)
+  .setAction(async (args: TokenArgs & { treasury: string }, hre) => {
+    const token = await getToken(hre, args);
+    const treasury = requireAddress("treasury", args.treasury);
+
+    await execute(token, "setTreasury", [treasury]);
+  });
+
+// DEFAULT_ADMIN_ROLE is not granted, but transferred through token:transfer-admin and token:accept-admin.
+const ROLES = [
+  "MINTER_ROLE",
+  "PAUSER_ROLE",
+  "SNAPSHOT_ROLE",
+  "LIMIT_MANAGER_ROLE",
+  "COMPLIANCE_ROLE",
+  "FREEZER_ROLE",
+  "REGISTRY_ADMIN_ROLE",
+  "ALLOWLIST_BYPASS_ROLE",
+] as const;
+
+const REVOCABLE_ROLES = ["DEFAULT_ADMIN_ROLE", ...ROLES] as const;
+
+type Role = (typeof REVOCABLE_ROLES)[number];
+
+async function getRole(token: InvestmentTokenM, role: string, roles: readonly Role[]): Promise<string> {
+  const known = roles.find((name) => name === role);
+  if (known === undefined) {
+    throw new Error(`Invalid role: ${role}, expected one of ${roles.join(", ")}`);
+  }
+
+  return token[known]();
+}
+
+tokenTask("token:grant-role", "Grants a role to an account")
+  .addParam("role", `The role name, one of ${ROLES.join(", ")}`, undefined, types.string)
+  .addParam("account", "The account address", undefined, types.string)
+  .setAction(async (args: TokenArgs & { role: string; account: string }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    if (args.role === "DEFAULT_ADMIN_ROLE") {
+      throw new Error("DEFAULT_ADMIN_ROLE is not granted, transfer it with token:transfer-admin");
+    }
+
+    await execute(token, "grantRole", [await getRole(token, args.role, ROLES), account]);
+  });
+
+tokenTask("token:revoke-role", "Revokes a role from an account")
+  .addParam("role", `The role name, one of ${REVOCABLE_ROLES.join(", ")}`, undefined, types.string)
+  .addParam("account", "The account address", undefined, types.string)
+  .setAction(async (args: TokenArgs & { role: string; account: string }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    await execute(token, "revokeRole", [await getRole(token, args.role, REVOCABLE_ROLES), account]);
+  });
+
+tokenTask("token:transfer-admin", "Starts to transfer DEFAULT_ADMIN_ROLE to an account, the zero address cancels it")
+  .addParam("account", "The new admin address", undefined, types.string)
+  .setAction(async (args: TokenArgs & { account: string }, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress("account", args.account);
+
+    await execute(token, "transferAdmin", [account]);
+  });
+
+tokenTask("token:accept-admin", "Accepts the pending transfer of DEFAULT_ADMIN_ROLE, sent by the new admin").setAction(
+  async (args: TokenArgs, hre) => {
+    const token = await getToken(hre, args);
+
+    await execute(token, "acceptAdmin", []);
+  }
+);
@@ -0,0 +1,85 @@
+import { ContractFactory } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { requireAddress, saveProxy } from "./helpers";
+
+/**
+ * The implementation deployed behind the proxy of each upgradeable contract.
+ */
+const IMPLEMENTATIONS: Record<string, string> = {
+  AllowlistRegistry: "AllowlistRegistryUpgradeable",
+  InvestmentTokenM: "InvestmentTokenMUpgradeable",
+};
+
+interface UpgradeArgs {
+  name: string;
+  implementation?: string;
+  proxy?: string;
+}
+
+interface Upgrade {
+  proxy: string;
+  implementation: string;
+  factory: ContractFactory;
+}
+
+async function resolveUpgrade(hre: HardhatRuntimeEnvironment, args: UpgradeArgs): Promise<Upgrade> {
+  const implementation = args.implementation ?? IMPLEMENTATIONS[args.name];
+  if (implementation === undefined) {
+    throw new Error(`Unknown upgradeable contract: ${args.name}`);
+  }
+
+  const proxy = args.proxy ? requireAddress(args.name, args.proxy) : (await hre.deployments.get(args.name)).address;
+  const factory = await hre.ethers.getContractFactory(implementation);
+
+  return { proxy, implementation, factory };
+}
+
+/**
+ * Declares a task on the proxy of an upgradeable contract, with the `--proxy` param defaulting
+ * to its deployment address.
+ */
+function upgradeTask(name: string, description: string) {
+  return task(name, description)
+    .addParam("name", "The upgradeable contract, InvestmentTokenM or AllowlistRegistry", undefined, types.string)
+    .addOptionalParam(
+      "implementation",
+      "The new implementation contract, defaults to the upgradeable variant of the contract",
+      undefined,
+      types.string
+    )
+    .addOptionalParam("proxy", "The proxy address, defaults to the deployment address", undefined, types.string);
+}
+
+upgradeTask("upgrade:validate", "Validates the storage layout of a new implementation against a proxy").setAction(
+  async (args: UpgradeArgs, hre) => {
+    const { proxy, implementation, factory } = await resolveUpgrade(hre, args);
+
+    await hre.upgrades.validateUpgrade(proxy, factory, { kind: "transparent" });
+    console.log(`${implementation} is upgrade safe for ${args.name} at ${proxy}`);
+  }
+);
+
+upgradeTask("upgrade:apply", "Validates the storage layout of a new implementation and upgrades a proxy to it")
+  .addOptionalParam("call", "A function of the new implementation to call on upgrade", undefined, types.string)
+  .addOptionalParam("callArgs", "The JSON array of arguments of --call", [], types.json)
+  .setAction(async (args: UpgradeArgs & { call?: string; callArgs: unknown[] }, hre) => {
+    const { proxy, implementation, factory } = await resolveUpgrade(hre, args);
+
+    await hre.upgrades.validateUpgrade(proxy, factory, { kind: "transparent" });
+    await hre.upgrades.upgradeProxy(proxy, factory, {
+      kind: "transparent",
+      call: args.call ? { fn: args.call, args: args.callArgs } : undefined,
+    });
+
+    const deployment = await hre.deployments.getOrNull(args.name);
+    if (deployment?.address === proxy) {
+      await saveProxy(hre, args.name, implementation, proxy, {
+        args: deployment.args,
+        transactionHash: deployment.transactionHash,
+      });
+    }
+
+    const implementationAddress = await hre.upgrades.erc1967.getImplementationAddress(proxy);
+    console.log(`${args.name} at ${proxy} upgraded to ${implementation} at ${implementationAddress}`);
+  });
@@ -0,0 +1,304 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+const RETAIL = 1;
+const ACCREDITED = 2;
+const TH = ethers.hexlify(ethers.toUtf8Bytes("TH"));
+const SG = ethers.hexlify(ethers.toUtf8Bytes("SG"));
+
+describe("AllowlistRegistry Contract", () => {
+  let registry: any;
+  let OWNER: any;
+  let ADDR1: any;
+  let ADDR2: any;
+  let ADDR3: any;
+
+  beforeEach(async () => {
+    const Registry = await ethers.getContractFactory("AllowlistRegistry");
+    [OWNER, ADDR1, ADDR2, ADDR3] = await ethers.getSigners();
+
+    registry = await Registry.deploy();
+  });
+
+  describe("addAllowlist", () => {
+    it("Should add account to allowlist", async () => {
+      await expect(registry.addAllowlist(ADDR1.address)).to.emit(registry, "AddedAllowlist").withArgs(ADDR1.address);
+
+      expect(await registry.isAllowlist(ADDR1.address)).to.be.true;
+    });
+
+    it("Should add failed when sender is not the owner", async () => {
+      await expect(registry.connect(ADDR1).addAllowlist(ADDR1.address)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("removeAllowlist", () => {
+    it("Should remove account from allowlist", async () => {
+      await registry.addAllowlist(ADDR1.address);
+
+      await expect(registry.removeAllowlist(ADDR1.address))
+        .to.emit(registry, "RemovedAllowlist")
+        .withArgs(ADDR1.address);
+
+      expect(await registry.isAllowlist(ADDR1.address)).to.be.false;
+    });
+
+    it("Should remove failed when sender is not the owner", async () => {
+      await expect(registry.connect(ADDR1).removeAllowlist(ADDR1.address)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("addAllowlistBatch", () => {
+    it("Should add all accounts to allowlist", async () => {
+      await expect(registry.addAllowlistBatch([ADDR1.address, ADDR2.address]))
+        .to.emit(registry, "AddedAllowlist")
+        .withArgs(ADDR1.address)
+        .and.to.emit(registry, "AddedAllowlist")
+        .withArgs(ADDR2.address);
+
+      expect(await registry.isAllowlist(ADDR1.address)).to.be.true;
+      expect(await registry.isAllowlist(ADDR2.address)).to.be.true;
+    });
+
+    it("Should add batch failed when sender is not the owner", async () => {
+      await expect(registry.connect(ADDR1).addAllowlistBatch([ADDR1.address])).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("removeAllowlistBatch", () => {
+    it("Should remove all accounts from allowlist", async () => {
+      await registry.addAllowlistBatch([ADDR1.address, ADDR2.address]);
+      await registry.removeAllowlistBatch([ADDR1.address, ADDR2.address]);
+
+      expect(await registry.isAllowlist(ADDR1.address)).to.be.false;
+      expect(await registry.isAllowlist(ADDR2.address)).to.be.false;
+    });
+
+    it("Should remove batch failed when sender is not the owner", async () => {
+      await expect(registry.connect(ADDR1).removeAllowlistBatch([ADDR1.address])).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("setAllowlist", () => {
+    let expiresAt: number;
+
+    beforeEach(async () => {
+      expiresAt = (await time.latest()) + 24 * 60 * 60;
+    });
+
+    it("Should add account to allowlist with its entry", async () => {
+      await expect(registry.setAllowlist(ADDR1.address, expiresAt, RETAIL, TH))
+        .to.emit(registry, "AddedAllowlist")
+        .withArgs(ADDR1.address)
+        .and.to.emit(registry, "UpdatedAllowlist")
+        .withArgs(ADDR1.address, expiresAt, RETAIL, TH);
+
+      expect(await registry.isAllowlist(ADDR1.address)).to.be.true;
+      expect(await registry.allowlistEntryOf(ADDR1.address)).to.deep.equal([
+        true,
+        BigInt(expiresAt),
+        BigInt(RETAIL),
+        TH,
+      ]);
+    });
+
+    it("Should update the entry of an allowlist account", async () => {
+      await registry.addAllowlist(ADDR1.address);
+
+      await expect(registry.setAllowlist(ADDR1.address, 0, ACCREDITED, SG))
+        .to.emit(registry, "UpdatedAllowlist")
+        .and.not.to.emit(registry, "AddedAllowlist");
+
+      expect(await registry.allowlistEntryOf(ADDR1.address)).to.deep.equal([true, 0n, BigInt(ACCREDITED), SG]);
+      expect(await registry.allowlistCount()).to.equal(1);
+    });
+
+    it("Should not allowlist account after its entry has expired", async () => {
+      await registry.setAllowlist(ADDR1.address, expiresAt, RETAIL, TH);
+
+      await time.increaseTo(expiresAt);
+
+      expect(await registry.isAllowlist(ADDR1.address)).to.be.false;
+      expect(await registry.allowlistEntryOf(ADDR1.address)).to.deep.equal([
+        false,
+        BigInt(expiresAt),
+        BigInt(RETAIL),
+        TH,
+      ]);
+    });
+
+    it("Should renew an expired entry", async () => {
+      await registry.setAllowlist(ADDR1.address, expiresAt, RETAIL, TH);
+      await time.increaseTo(expiresAt);
+
+      await registry.setAllowlist(ADDR1.address, expiresAt * 2, RETAIL, TH);
+
+      expect(await registry.isAllowlist(ADDR1.address)).to.be.true;
+    });
+
+    it("Should add failed when the entry has expired", async () => {
+      await registry.setAllowlist(ADDR1.address, expiresAt, RETAIL, TH);
+      await time.increaseTo(expiresAt);
+
+      await expect(registry.addAllowlist(ADDR1.address))
+        .to.be.revertedWithCustomError(registry, "AllowlistExpired")
+        .withArgs(ADDR1.address);
+      await expect(registry.addAllowlistBatch([ADDR2.address, ADDR1.address]))
+        .to.be.revertedWithCustomError(registry, "AllowlistExpired")
+        .withArgs(ADDR1.address);
+    });
+
+    it("Should clear the entry on remove", async () => {
+      await registry.setAllowlist(ADDR1.address, expiresAt, RETAIL, TH);
+
+      await registry.removeAllowlist(ADDR1.address);
+
+      expect(await registry.allowlistEntryOf(ADDR1.address)).to.deep.equal([false, 0n, 0n, "0x0000"]);
+    });
+
+    it("Should keep accounts added without entry allowlisted", async () => {
+      await registry.addAllowlist(ADDR1.address);
+
+      expect(await registry.allowlistEntryOf(ADDR1.address)).to.deep.equal([true, 0n, 0n, "0x0000"]);
+    });
+
+    it("Should set failed when sender is not the owner", async () => {
+      await expect(registry.connect(ADDR1).setAllowlist(ADDR1.address, 0, RETAIL, TH)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("setAllowlistBatch", () => {
+    it("Should set the entries of all accounts", async () => {
+      await registry.setAllowlistBatch([ADDR1.address, ADDR2.address], [0, 0], [RETAIL, ACCREDITED], [TH, SG]);
+
+      expect((await registry.allowlistEntryOf(ADDR1.address))[2]).to.equal(RETAIL);
+      expect((await registry.allowlistEntryOf(ADDR2.address))[3]).to.equal(SG);
+    });
+
+    it("Should set batch failed when arrays length mismatch", async () => {
+      await expect(registry.setAllowlistBatch([ADDR1.address, ADDR2.address], [0], [RETAIL, ACCREDITED], [TH, SG]))
+        .to.be.revertedWithCustomError(registry, "ArrayLengthMismatch")
+        .withArgs(2, 1);
+    });
+
+    it("Should set batch failed when jurisdictions length mismatch", async () => {
+      await expect(registry.setAllowlistBatch([ADDR1.address, ADDR2.address], [0, 0], [RETAIL, ACCREDITED], [TH]))
+        .to.be.revertedWithCustomError(registry, "ArrayLengthMismatch")
+        .withArgs(2, 1);
+    });
+
+    it("Should share the ArrayLengthMismatch selector with the token", async () => {
+      const token = await ethers.getContractFactory("InvestmentTokenM");
+
+      expect(registry.interface.getError("ArrayLengthMismatch")?.selector).to.equal(
+        token.interface.getError("ArrayLengthMismatch")?.selector
+      );
+    });
+
+    it("Should set batch failed when sender is not the owner", async () => {
+      await expect(registry.connect(ADDR1).setAllowlistBatch([ADDR1.address], [0], [RETAIL], [TH])).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("Enumerable", () => {
+    beforeEach(async () => {
+      await registry.addAllowlistBatch([ADDR1.address, ADDR2.address, ADDR3.address]);
+    });
+
+    it("Should count allowlist accounts", async () => {
+      expect(await registry.allowlistCount()).to.equal(3);
+
+      await registry.removeAllowlist(ADDR2.address);
+
+      expect(await registry.allowlistCount()).to.equal(2);
+    });
+
+    it("Should not count an account added twice", async () => {
+      await registry.addAllowlist(ADDR1.address);
+
+      expect(await registry.allowlistCount()).to.equal(3);
+    });
+
+    it("Should list allowlist accounts by page", async () => {
+      expect(await registry.getAllowlist(0, 2)).to.deep.equal([ADDR1.address, ADDR2.address]);
+      expect(await registry.getAllowlist(2, 2)).to.deep.equal([ADDR3.address]);
+      expect(await registry.getAllowlist(3, 2)).to.deep.equal([]);
+    });
+
+    it("Should list allowlist accounts with unbounded limit", async () => {
+      expect(await registry.getAllowlist(1, ethers.MaxUint256)).to.deep.equal([ADDR2.address, ADDR3.address]);
+    });
+
+    it("Should not list removed accounts", async () => {
+      await registry.removeAllowlist(ADDR1.address);
+
+      expect([...(await registry.getAllowlist(0, 10))]).to.have.members([ADDR2.address, ADDR3.address]);
+    });
+  });
+
+  describe("Ownable", () => {
+    it("Should transfer the ownership once accepted by the new owner", async () => {
+      await expect(registry.transferOwnership(ADDR1.address))
+        .to.emit(registry, "OwnershipTransferStarted")
+        .withArgs(OWNER.address, ADDR1.address);
+
+      expect(await registry.owner()).to.equal(OWNER.address);
+      expect(await registry.pendingOwner()).to.equal(ADDR1.address);
+
+      await expect(registry.connect(ADDR1).acceptOwnership())
+        .to.emit(registry, "OwnershipTransferred")
+        .withArgs(OWNER.address, ADDR1.address);
+
+      expect(await registry.owner()).to.equal(ADDR1.address);
+      expect(await registry.pendingOwner()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should cancel the transfer with the zero address", async () => {
+      await registry.transferOwnership(ADDR1.address);
+      await registry.transferOwnership(ethers.ZeroAddress);
+
+      await expect(registry.connect(ADDR1).acceptOwnership())
+        .to.be.revertedWithCustomError(registry, "CallerNotPendingOwner")
+        .withArgs(ADDR1.address);
+      expect(await registry.owner()).to.equal(OWNER.address);
+    });
+
+    it("Should clear the pending transfer when the ownership is renounced", async () => {
+      await registry.transferOwnership(ADDR1.address);
+      await registry.renounceOwnership();
+
+      expect(await registry.pendingOwner()).to.equal(ethers.ZeroAddress);
+      await expect(registry.connect(ADDR1).acceptOwnership()).to.be.revertedWithCustomError(
+        registry,
+        "CallerNotPendingOwner"
+      );
+    });
+
+    it("Should acceptOwnership failed when caller is not the pending owner", async () => {
+      await registry.transferOwnership(ADDR1.address);
+
+      await expect(registry.connect(ADDR2).acceptOwnership())
+        .to.be.revertedWithCustomError(registry, "CallerNotPendingOwner")
+        .withArgs(ADDR2.address);
+    });
+
+    it("Should transferOwnership failed when sender is not the owner", async () => {
+      await expect(registry.connect(ADDR1).transferOwnership(ADDR1.address)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+});
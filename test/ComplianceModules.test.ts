@@ -0,0 +1,192 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+const ONE_THOUSAND = ethers.parseEther("1000");
+const ONE_HUNDRED = ethers.parseEther("100");
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ONE_DAY = 24 * 60 * 60;
+
+describe("Compliance Modules", () => {
+  let registry: any;
+  let OWNER: any;
+  let ADDR1: any;
+  let ADDR2: any;
+
+  beforeEach(async () => {
+    const Registry = await ethers.getContractFactory("AllowlistRegistry");
+    [OWNER, ADDR1, ADDR2] = await ethers.getSigners();
+
+    registry = await Registry.deploy();
+  });
+
+  describe("AllowlistModule", () => {
+    let module: any;
+    let otherRegistry: any;
+
+    beforeEach(async () => {
+      const Registry = await ethers.getContractFactory("AllowlistRegistry");
+      const Module = await ethers.getContractFactory("AllowlistModule");
+
+      otherRegistry = await Registry.deploy();
+      module = await Module.deploy([await registry.getAddress()]);
+
+      await registry.addAllowlistBatch([OWNER.address, ADDR1.address]);
+      await otherRegistry.addAllowlist(ADDR2.address);
+    });
+
+    it("Should allow the transfer when all accounts are allowlisted in a registry", async () => {
+      expect(await module.canTransfer(OWNER.address, ADDR1.address, OWNER.address, ONE_HUNDRED)).to.be.true;
+      expect(await module.canTransfer(OWNER.address, ADDR2.address, OWNER.address, ONE_HUNDRED)).to.be.false;
+
+      await module.addRegistry(await otherRegistry.getAddress());
+
+      expect(await module.canTransfer(OWNER.address, ADDR2.address, OWNER.address, ONE_HUNDRED)).to.be.true;
+    });
+
+    it("Should allow the mint when the receiver is allowlisted", async () => {
+      await registry.removeAllowlist(OWNER.address);
+
+      expect(await module.canTransfer(ZERO_ADDRESS, ADDR1.address, OWNER.address, ONE_HUNDRED)).to.be.true;
+      expect(await module.canTransfer(ZERO_ADDRESS, ADDR2.address, OWNER.address, ONE_HUNDRED)).to.be.false;
+    });
+
+    it("Should add and remove registries", async () => {
+      await expect(module.addRegistry(await otherRegistry.getAddress()))
+        .to.emit(module, "RegistryAdded")
+        .withArgs(await otherRegistry.getAddress());
+      expect(await module.registries()).to.deep.equal([await registry.getAddress(), await otherRegistry.getAddress()]);
+
+      await expect(module.removeRegistry(await registry.getAddress()))
+        .to.emit(module, "RegistryRemoved")
+        .withArgs(await registry.getAddress());
+      expect(await module.registries()).to.deep.equal([await otherRegistry.getAddress()]);
+    });
+
+    it("Should addRegistry failed when registry is zero address or already added", async () => {
+      await expect(module.addRegistry(ZERO_ADDRESS)).to.be.revertedWithCustomError(module, "InvalidRegistry");
+      await expect(module.addRegistry(await registry.getAddress())).to.be.revertedWithCustomError(
+        module,
+        "RegistryAlreadyAdded"
+      );
+    });
+
+    it("Should removeRegistry failed when registry is not added", async () => {
+      await expect(module.removeRegistry(await otherRegistry.getAddress())).to.be.revertedWithCustomError(
+        module,
+        "RegistryNotAdded"
+      );
+    });
+
+    it("Should addRegistry failed when sender is not the owner", async () => {
+      await expect(module.connect(ADDR1).addRegistry(await otherRegistry.getAddress())).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("DenylistModule", () => {
+    let module: any;
+
+    beforeEach(async () => {
+      const Module = await ethers.getContractFactory("DenylistModule");
+      module = await Module.deploy();
+    });
+
+    it("Should block the transfer when an account is denylisted", async () => {
+      await expect(module.setDenylist(ADDR2.address, true))
+        .to.emit(module, "DenylistChanged")
+        .withArgs(ADDR2.address, true);
+
+      expect(await module.isDenylist(ADDR2.address)).to.be.true;
+      expect(await module.canTransfer(OWNER.address, ADDR1.address, OWNER.address, ONE_HUNDRED)).to.be.true;
+      expect(await module.canTransfer(OWNER.address, ADDR2.address, OWNER.address, ONE_HUNDRED)).to.be.false;
+      expect(await module.canTransfer(ADDR2.address, ADDR1.address, OWNER.address, ONE_HUNDRED)).to.be.false;
+      expect(await module.canTransfer(OWNER.address, ADDR1.address, ADDR2.address, ONE_HUNDRED)).to.be.false;
+    });
+
+    it("Should setDenylist failed when sender is not the owner", async () => {
+      await expect(module.connect(ADDR1).setDenylist(ADDR2.address, true)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("TierCapModule", () => {
+    const RETAIL = 1;
+    let module: any;
+
+    beforeEach(async () => {
+      const Module = await ethers.getContractFactory("TierCapModule");
+      module = await Module.deploy(await registry.getAddress());
+
+      await registry.setAllowlist(ADDR1.address, 0, RETAIL, "0x5448");
+    });
+
+    it("Should cap the transfer amount by the tier of the sender", async () => {
+      await expect(module.setTierCap(RETAIL, ONE_HUNDRED))
+        .to.emit(module, "TierCapChanged")
+        .withArgs(RETAIL, ONE_HUNDRED);
+
+      expect(await module.tierCap(RETAIL)).to.equal(ONE_HUNDRED);
+      expect(await module.canTransfer(ADDR1.address, ADDR2.address, ADDR1.address, ONE_HUNDRED)).to.be.true;
+      expect(await module.canTransfer(ADDR1.address, ADDR2.address, ADDR1.address, ONE_HUNDRED + 1n)).to.be.false;
+      expect(await module.canTransfer(ADDR2.address, ADDR1.address, ADDR2.address, ONE_THOUSAND)).to.be.true;
+    });
+
+    it("Should not cap the mint", async () => {
+      await module.setTierCap(0, ONE_HUNDRED);
+
+      expect(await module.canTransfer(ZERO_ADDRESS, ADDR1.address, OWNER.address, ONE_THOUSAND)).to.be.true;
+    });
+
+    it("Should deploy failed when registry is zero address", async () => {
+      const Module = await ethers.getContractFactory("TierCapModule");
+
+      await expect(Module.deploy(ZERO_ADDRESS)).to.be.revertedWithCustomError(Module, "InvalidRegistry");
+    });
+
+    it("Should setTierCap failed when sender is not the owner", async () => {
+      await expect(module.connect(ADDR1).setTierCap(RETAIL, ONE_HUNDRED)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("TimeWindowModule", () => {
+    let module: any;
+    let start: number;
+
+    beforeEach(async () => {
+      const Module = await ethers.getContractFactory("TimeWindowModule");
+      start = (await time.latest()) + ONE_DAY;
+      module = await Module.deploy(start, start + ONE_DAY);
+    });
+
+    it("Should allow the transfer only within the window", async () => {
+      expect(await module.window()).to.deep.equal([BigInt(start), BigInt(start + ONE_DAY)]);
+      expect(await module.canTransfer(OWNER.address, ADDR1.address, OWNER.address, ONE_HUNDRED)).to.be.false;
+
+      await time.increaseTo(start);
+      expect(await module.canTransfer(OWNER.address, ADDR1.address, OWNER.address, ONE_HUNDRED)).to.be.true;
+
+      await time.increaseTo(start + ONE_DAY);
+      expect(await module.canTransfer(OWNER.address, ADDR1.address, OWNER.address, ONE_HUNDRED)).to.be.false;
+    });
+
+    it("Should never close the window when end is zero", async () => {
+      await expect(module.setWindow(start, 0)).to.emit(module, "WindowChanged").withArgs(start, 0);
+
+      await time.increaseTo(start + ONE_DAY * 365);
+      expect(await module.canTransfer(OWNER.address, ADDR1.address, OWNER.address, ONE_HUNDRED)).to.be.true;
+    });
+
+    it("Should setWindow failed when end is not after start", async () => {
+      await expect(module.setWindow(start, start)).to.be.revertedWithCustomError(module, "InvalidWindow");
+    });
+
+    it("Should setWindow failed when sender is not the owner", async () => {
+      await expect(module.connect(ADDR1).setWindow(start, 0)).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+});
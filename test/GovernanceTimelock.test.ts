@@ -0,0 +1,361 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+const ONE_MILLION = ethers.parseEther("1000000");
+const ONE_HUNDRED = ethers.parseEther("100");
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ONE_DAY = 24 * 60 * 60;
+const COURT_ORDER = 1;
+const CASE_ID = ethers.id("CASE-001");
+
+const PROPOSED = 1;
+const QUEUED = 2;
+const EXECUTED = 3;
+const CANCELLED = 4;
+
+const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
+
+describe("GovernanceTimelock Contract", () => {
+  let governance: any;
+  let token: any;
+  let registry: any;
+  let OWNER: any;
+  let SIGNER1: any;
+  let SIGNER2: any;
+  let SIGNER3: any;
+  let ADDR1: any;
+
+  // Proposes a call of `method` on the token by SIGNER1, returning the operation id.
+  const propose = async (method: string, args: any[], target: any = token) => {
+    const id = await governance.operationCount();
+    await governance
+      .connect(SIGNER1)
+      .propose(await target.getAddress(), target.interface.encodeFunctionData(method, args));
+
+    return id;
+  };
+
+  beforeEach(async () => {
+    const Registry = await ethers.getContractFactory("AllowlistRegistry");
+    const Token = await ethers.getContractFactory("InvestmentTokenM");
+    const Governance = await ethers.getContractFactory("GovernanceTimelock");
+    [OWNER, SIGNER1, SIGNER2, SIGNER3, ADDR1] = await ethers.getSigners();
+
+    registry = await Registry.deploy();
+    token = await Token.deploy("Investment Token", "ITK", await registry.getAddress());
+    governance = await Governance.deploy([SIGNER1.address, SIGNER2.address, SIGNER3.address], 2, ONE_DAY);
+
+    await registry.addAllowlistBatch([OWNER.address, ADDR1.address]);
+    await token.mint(ONE_MILLION);
+    await token.transfer(ADDR1.address, ONE_HUNDRED);
+
+    for (const role of [await token.COMPLIANCE_ROLE(), await token.REGISTRY_ADMIN_ROLE()]) {
+      await token.grantRole(role, await governance.getAddress());
+      await token.renounceRole(role, OWNER.address);
+    }
+    await token.transferAdmin(await governance.getAddress());
+    await governance.acceptAdmin(await token.getAddress());
+  });
+
+  describe("constructor", () => {
+    it("Should set the signers, threshold and delay", async () => {
+      expect(await governance.signers()).to.deep.equal([SIGNER1.address, SIGNER2.address, SIGNER3.address]);
+      expect(await governance.isSigner(SIGNER1.address)).to.be.true;
+      expect(await governance.isSigner(OWNER.address)).to.be.false;
+      expect(await governance.threshold()).to.equal(2);
+      expect(await governance.delay()).to.equal(ONE_DAY);
+    });
+
+    it("Should deploy failed when a signer is invalid", async () => {
+      const Governance = await ethers.getContractFactory("GovernanceTimelock");
+
+      await expect(Governance.deploy([SIGNER1.address, ZERO_ADDRESS], 1, ONE_DAY))
+        .to.be.revertedWithCustomError(Governance, "InvalidSigner")
+        .withArgs(ZERO_ADDRESS);
+      await expect(Governance.deploy([SIGNER1.address, SIGNER1.address], 1, ONE_DAY))
+        .to.be.revertedWithCustomError(Governance, "InvalidSigner")
+        .withArgs(SIGNER1.address);
+    });
+
+    it("Should deploy failed when the threshold is invalid", async () => {
+      const Governance = await ethers.getContractFactory("GovernanceTimelock");
+
+      await expect(Governance.deploy([SIGNER1.address], 0, ONE_DAY))
+        .to.be.revertedWithCustomError(Governance, "InvalidThreshold")
+        .withArgs(0, 1);
+      await expect(Governance.deploy([SIGNER1.address], 2, ONE_DAY))
+        .to.be.revertedWithCustomError(Governance, "InvalidThreshold")
+        .withArgs(2, 1);
+    });
+  });
+
+  describe("propose", () => {
+    it("Should propose an operation approved by the proposer", async () => {
+      const data = token.interface.encodeFunctionData("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]);
+
+      await expect(governance.connect(SIGNER1).propose(await token.getAddress(), data))
+        .to.emit(governance, "OperationProposed")
+        .withArgs(0, SIGNER1.address, await token.getAddress(), data)
+        .to.emit(governance, "OperationApproved")
+        .withArgs(0, SIGNER1.address)
+        .to.not.emit(governance, "OperationQueued");
+
+      expect(await governance.operationCount()).to.equal(1);
+      expect(await governance.operationOf(0)).to.deep.equal([await token.getAddress(), data, 0n, BigInt(PROPOSED)]);
+      expect(await governance.hasApproved(0, SIGNER1.address)).to.be.true;
+      expect(await governance.approvalCount(0)).to.equal(1);
+    });
+
+    it("Should propose failed when the caller is not a signer", async () => {
+      await expect(governance.connect(OWNER).propose(await token.getAddress(), "0x"))
+        .to.be.revertedWithCustomError(governance, "NotSigner")
+        .withArgs(OWNER.address);
+    });
+
+    it("Should propose failed when the target is zero address", async () => {
+      await expect(governance.connect(SIGNER1).propose(ZERO_ADDRESS, "0x"))
+        .to.be.revertedWithCustomError(governance, "InvalidTarget")
+        .withArgs(ZERO_ADDRESS);
+    });
+  });
+
+  describe("approve", () => {
+    it("Should queue the operation once approved by the threshold", async () => {
+      const id = await propose("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]);
+
+      const tx = governance.connect(SIGNER2).approve(id);
+      await expect(tx).to.emit(governance, "OperationApproved").withArgs(id, SIGNER2.address);
+
+      const eta = BigInt(await time.latest()) + BigInt(ONE_DAY);
+      await expect(tx).to.emit(governance, "OperationQueued").withArgs(id, eta);
+      const [, , operationEta, status] = await governance.operationOf(id);
+      expect(operationEta).to.equal(eta);
+      expect(status).to.equal(QUEUED);
+    });
+
+    it("Should approve failed when the signer has already approved", async () => {
+      const id = await propose("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]);
+
+      await expect(governance.connect(SIGNER1).approve(id))
+        .to.be.revertedWithCustomError(governance, "AlreadyApproved")
+        .withArgs(id, SIGNER1.address);
+    });
+
+    it("Should approve failed when the caller is not a signer", async () => {
+      const id = await propose("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]);
+
+      await expect(governance.connect(OWNER).approve(id))
+        .to.be.revertedWithCustomError(governance, "NotSigner")
+        .withArgs(OWNER.address);
+    });
+
+    it("Should approve failed when the operation does not exist", async () => {
+      await expect(governance.connect(SIGNER1).approve(0))
+        .to.be.revertedWithCustomError(governance, "NonexistentOperation")
+        .withArgs(0);
+    });
+  });
+
+  describe("execute", () => {
+    it("Should execute a queued operation once its delay has passed", async () => {
+      const id = await propose("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]);
+      await governance.connect(SIGNER2).approve(id);
+      await time.increase(ONE_DAY);
+
+      await expect(governance.connect(SIGNER3).execute(id))
+        .to.emit(governance, "OperationExecuted")
+        .withArgs(id, SIGNER3.address)
+        .to.emit(token, "Transfer")
+        .withArgs(ADDR1.address, ZERO_ADDRESS, ONE_HUNDRED);
+
+      expect(await token.balanceOf(ADDR1.address)).to.equal(0);
+      expect((await governance.operationOf(id))[3]).to.equal(EXECUTED);
+    });
+
+    it("Should execute the governed actions of the token", async () => {
+      const Registry = await ethers.getContractFactory("AllowlistRegistry");
+      const newRegistry = await Registry.deploy();
+
+      const ids = [
+        await propose("adminTransfer", [ADDR1.address, OWNER.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]),
+        await propose("setAllowlistRegistry", [await newRegistry.getAddress()]),
+        await propose("renounceMintable", []),
+      ];
+      for (const id of ids) {
+        await governance.connect(SIGNER2).approve(id);
+      }
+      await time.increase(ONE_DAY);
+      for (const id of ids) {
+        await governance.connect(SIGNER1).execute(id);
+      }
+
+      expect(await token.balanceOf(ADDR1.address)).to.equal(0);
+      expect(await token.allowlistRegistry()).to.equal(await newRegistry.getAddress());
+      expect(await token.mintable()).to.be.false;
+    });
+
+    it("Should execute failed when the delay has not passed", async () => {
+      const id = await propose("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]);
+      await governance.connect(SIGNER2).approve(id);
+      const [, , eta] = await governance.operationOf(id);
+
+      await expect(governance.connect(SIGNER1).execute(id))
+        .to.be.revertedWithCustomError(governance, "OperationNotReady")
+        .withArgs(id, eta);
+    });
+
+    it("Should execute failed when the operation is not queued", async () => {
+      const id = await propose("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]);
+
+      await expect(governance.connect(SIGNER1).execute(id))
+        .to.be.revertedWithCustomError(governance, "OperationNotQueued")
+        .withArgs(id, PROPOSED);
+    });
+
+    it("Should execute failed with the revert of the call", async () => {
+      const id = await propose("adminBurn", [ADDR1.address, ONE_MILLION, COURT_ORDER, CASE_ID]);
+      await governance.connect(SIGNER2).approve(id);
+      await time.increase(ONE_DAY);
+
+      await expect(governance.connect(SIGNER1).execute(id)).to.be.revertedWith("ERC20: burn amount exceeds balance");
+      expect((await governance.operationOf(id))[3]).to.equal(QUEUED);
+    });
+
+    it("Should execute failed when the caller is not a signer", async () => {
+      await expect(governance.connect(OWNER).execute(0))
+        .to.be.revertedWithCustomError(governance, "NotSigner")
+        .withArgs(OWNER.address);
+    });
+
+    it("Should not allow the former owner to take the governed actions", async () => {
+      await expect(token.adminBurn(ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID)).to.be.revertedWith(
+        `AccessControl: account ${OWNER.address.toLowerCase()} is missing role ${await token.COMPLIANCE_ROLE()}`
+      );
+    });
+  });
+
+  describe("acceptAdmin", () => {
+    it("Should accept the admin role of the token transferred to the governance", async () => {
+      expect(await token.hasRole(DEFAULT_ADMIN_ROLE, await governance.getAddress())).to.be.true;
+      expect(await token.hasRole(DEFAULT_ADMIN_ROLE, OWNER.address)).to.be.false;
+    });
+
+    it("Should acceptAdmin failed when the governance is not the pending admin", async () => {
+      await expect(governance.acceptAdmin(await token.getAddress()))
+        .to.be.revertedWithCustomError(token, "CallerNotPendingAdmin")
+        .withArgs(await governance.getAddress());
+    });
+  });
+
+  describe("cancel", () => {
+    it("Should cancel a queued operation", async () => {
+      const id = await propose("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]);
+      await governance.connect(SIGNER2).approve(id);
+
+      await expect(governance.connect(SIGNER3).cancel(id))
+        .to.emit(governance, "OperationCancelled")
+        .withArgs(id, SIGNER3.address);
+      await time.increase(ONE_DAY);
+
+      await expect(governance.connect(SIGNER1).execute(id))
+        .to.be.revertedWithCustomError(governance, "OperationNotQueued")
+        .withArgs(id, CANCELLED);
+      await expect(governance.connect(SIGNER3).approve(id))
+        .to.be.revertedWithCustomError(governance, "OperationNotPending")
+        .withArgs(id, CANCELLED);
+    });
+
+    it("Should cancel failed when the operation is executed", async () => {
+      const id = await propose("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]);
+      await governance.connect(SIGNER2).approve(id);
+      await time.increase(ONE_DAY);
+      await governance.connect(SIGNER1).execute(id);
+
+      await expect(governance.connect(SIGNER1).cancel(id))
+        .to.be.revertedWithCustomError(governance, "OperationNotPending")
+        .withArgs(id, EXECUTED);
+    });
+
+    it("Should cancel failed when the caller is not a signer", async () => {
+      const id = await propose("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]);
+
+      await expect(governance.connect(OWNER).cancel(id))
+        .to.be.revertedWithCustomError(governance, "NotSigner")
+        .withArgs(OWNER.address);
+    });
+  });
+
+  describe("configuration", () => {
+    // Proposes, approves and executes a call of `method` on the governance itself.
+    const govern = async (method: string, args: any[]) => {
+      const id = await propose(method, args, governance);
+      await governance.connect(SIGNER2).approve(id);
+      await time.increase(await governance.delay());
+
+      return governance.connect(SIGNER1).execute(id);
+    };
+
+    it("Should change the signers, threshold and delay through operations", async () => {
+      await expect(govern("addSigner", [OWNER.address]))
+        .to.emit(governance, "SignerAdded")
+        .withArgs(OWNER.address);
+      await expect(govern("setDelay", [2 * ONE_DAY]))
+        .to.emit(governance, "DelayChanged")
+        .withArgs(ONE_DAY, 2 * ONE_DAY);
+      await expect(govern("setThreshold", [3]))
+        .to.emit(governance, "ThresholdChanged")
+        .withArgs(2, 3);
+
+      expect(await governance.signers()).to.deep.equal([
+        SIGNER1.address,
+        SIGNER2.address,
+        SIGNER3.address,
+        OWNER.address,
+      ]);
+      expect(await governance.threshold()).to.equal(3);
+      expect(await governance.delay()).to.equal(2 * ONE_DAY);
+    });
+
+    it("Should not count the approvals of a removed signer", async () => {
+      const id = await propose("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID]);
+
+      await expect(govern("removeSigner", [SIGNER1.address]))
+        .to.emit(governance, "SignerRemoved")
+        .withArgs(SIGNER1.address);
+
+      expect(await governance.hasApproved(id, SIGNER1.address)).to.be.true;
+      expect(await governance.approvalCount(id)).to.equal(0);
+
+      await governance.connect(SIGNER2).approve(id);
+      expect((await governance.operationOf(id))[3]).to.equal(PROPOSED);
+    });
+
+    it("Should remove signer failed when the threshold exceeds the remaining signers", async () => {
+      await govern("setThreshold", [3]);
+      const id = await propose("removeSigner", [SIGNER3.address], governance);
+      await governance.connect(SIGNER2).approve(id);
+      await governance.connect(SIGNER3).approve(id);
+      await time.increase(ONE_DAY);
+
+      await expect(governance.connect(SIGNER1).execute(id))
+        .to.be.revertedWithCustomError(governance, "InvalidThreshold")
+        .withArgs(3, 2);
+    });
+
+    it("Should change the configuration failed when the caller is not the governance", async () => {
+      await expect(governance.connect(SIGNER1).setThreshold(1))
+        .to.be.revertedWithCustomError(governance, "CallerNotSelf")
+        .withArgs(SIGNER1.address);
+      await expect(governance.connect(SIGNER1).setDelay(0))
+        .to.be.revertedWithCustomError(governance, "CallerNotSelf")
+        .withArgs(SIGNER1.address);
+      await expect(governance.connect(SIGNER1).addSigner(OWNER.address))
+        .to.be.revertedWithCustomError(governance, "CallerNotSelf")
+        .withArgs(SIGNER1.address);
+      await expect(governance.connect(SIGNER1).removeSigner(SIGNER2.address))
+        .to.be.revertedWithCustomError(governance, "CallerNotSelf")
+        .withArgs(SIGNER1.address);
+    });
+  });
+});
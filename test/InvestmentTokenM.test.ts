@@ -1,9 +1,29 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { artifacts, ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { decodeError, renderError } from "../lib/errors";
+import { buildPermitTypedData, permit, signPermit } from "../lib/permit";
 
 let ONE_MILLION = ethers.parseEther("1000000");
 const ONE_THOUSAND = ethers.parseEther("1000");
 const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ONE_DAY = 24 * 60 * 60;
+const COURT_ORDER = 1;
+const CASE_ID = ethers.id("CASE-001");
+const [ETHER, ERC20, ERC721, ERC1155] = [0, 1, 2, 3];
+
+const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
+const MINTER_ROLE = ethers.id("MINTER_ROLE");
+const PAUSER_ROLE = ethers.id("PAUSER_ROLE");
+const SNAPSHOT_ROLE = ethers.id("SNAPSHOT_ROLE");
+const LIMIT_MANAGER_ROLE = ethers.id("LIMIT_MANAGER_ROLE");
+const COMPLIANCE_ROLE = ethers.id("COMPLIANCE_ROLE");
+const FREEZER_ROLE = ethers.id("FREEZER_ROLE");
+const REGISTRY_ADMIN_ROLE = ethers.id("REGISTRY_ADMIN_ROLE");
+const ALLOWLIST_BYPASS_ROLE = ethers.id("ALLOWLIST_BYPASS_ROLE");
+
+const missingRole = (account: any, role: string) =>
+  `AccessControl: account ${account.address.toLowerCase()} is missing role ${role}`;
 
 describe("InvestmentTokenM Contract", () => {
   let token: any;
@@ -30,6 +50,36 @@ describe("InvestmentTokenM Contract", () => {
     });
   });
 
+  describe("Admin module", () => {
+    const storageLayout = async (source: string, name: string) => {
+      const buildInfo = await artifacts.getBuildInfo(`${source}:${name}`);
+      const { storage, types } = (buildInfo!.output.contracts[source][name] as any).storageLayout;
+
+      // The type ids embed AST ids, which differ between compilations, so their labels are compared instead.
+      return storage.map(({ label, slot, offset, type }: any) => ({ label, slot, offset, type: types[type].label }));
+    };
+
+    it("Should lay out the storage of the admin module like the token", async () => {
+      const tokenLayout = await storageLayout("contracts/InvestmentTokenM.sol", "InvestmentTokenM");
+      const moduleLayout = await storageLayout(
+        "contracts/InvestmentTokenMAdminModule.sol",
+        "InvestmentTokenMAdminModule"
+      );
+
+      expect(moduleLayout).to.deep.equal(tokenLayout.slice(0, moduleLayout.length));
+    });
+
+    it("Should not change the token when the admin module is called directly", async () => {
+      const module = await ethers.getContractAt("InvestmentTokenMAdminModule", await token.ADMIN_MODULE());
+
+      await module.connect(ADDR1).setTransferLimit(ADDR1.address, ONE_THOUSAND);
+      await module.connect(ADDR1).freeze(OWNER.address);
+
+      expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([false, 0n, 0n]);
+      expect(await token.isFrozen(OWNER.address)).to.be.false;
+    });
+  });
+
   describe("ERC20Mintable", () => {
     describe("mint", () => {
       it("Should mint tokens to the owner", async () => {
@@ -40,16 +90,156 @@ describe("InvestmentTokenM Contract", () => {
         expect(await token.balanceOf(OWNER.address)).to.equal(expected);
       });
 
-      it("Should mint failed when caller is not the owner", async () => {
-        await expect(token.connect(ADDR1).adminTransfer(ADDR2.address, ADDR1.address, ONE_THOUSAND)).to.be.revertedWith(
-          "Ownable: caller is not the owner"
-        );
+      it("Should mint failed when caller is missing the role", async () => {
+        await expect(token.connect(ADDR1).mint(ONE_THOUSAND)).to.be.revertedWith(missingRole(ADDR1, MINTER_ROLE));
       });
 
       it("Should mint failed when mintable has renounced", async () => {
         await token.renounceMintable();
 
-        await expect(token.mint(ONE_THOUSAND)).to.be.revertedWith("ERC20Mintable: mintable has renounced");
+        await expect(token.mint(ONE_THOUSAND)).to.be.revertedWithCustomError(token, "MintingRenounced");
+      });
+    });
+
+    describe("mintTo", () => {
+      it("Should mint tokens to an allowlisted account", async () => {
+        await registry.addAllowlist(ADDR1.address);
+
+        await expect(token.mintTo(ADDR1.address, ONE_THOUSAND))
+          .to.emit(token, "Transfer")
+          .withArgs(ZERO_ADDRESS, ADDR1.address, ONE_THOUSAND);
+
+        expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+      });
+
+      it("Should mintTo failed when account are not allowlisted", async () => {
+        await expect(token.mintTo(ADDR1.address, ONE_THOUSAND)).to.be.revertedWithCustomError(token, "NotAllowlisted");
+      });
+
+      it("Should mintTo failed when account is frozen", async () => {
+        await registry.addAllowlist(ADDR1.address);
+        await token.freeze(ADDR1.address);
+
+        await expect(token.mintTo(ADDR1.address, ONE_THOUSAND))
+          .to.be.revertedWithCustomError(token, "AccountFrozen")
+          .withArgs(ADDR1.address);
+      });
+
+      it("Should mintTo failed when caller is missing the role", async () => {
+        await registry.addAllowlist(ADDR1.address);
+
+        await expect(token.connect(ADDR1).mintTo(ADDR1.address, ONE_THOUSAND)).to.be.revertedWith(
+          missingRole(ADDR1, MINTER_ROLE)
+        );
+      });
+
+      it("Should mintTo failed when mintable has renounced", async () => {
+        await registry.addAllowlist(ADDR1.address);
+        await token.renounceMintable();
+
+        await expect(token.mintTo(ADDR1.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "MintingRenounced"
+        );
+      });
+    });
+
+    describe("mintToMany", () => {
+      it("Should mint tokens to all allowlisted accounts", async () => {
+        await registry.addAllowlist(ADDR1.address);
+        await registry.addAllowlist(ADDR2.address);
+
+        await token.mintToMany([ADDR1.address, ADDR2.address], [ONE_THOUSAND, ONE_MILLION]);
+
+        expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+        expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_MILLION);
+      });
+
+      it("Should mintToMany failed when any account are not allowlisted", async () => {
+        await registry.addAllowlist(ADDR1.address);
+
+        await expect(
+          token.mintToMany([ADDR1.address, ADDR2.address], [ONE_THOUSAND, ONE_THOUSAND])
+        ).to.be.revertedWithCustomError(token, "NotAllowlisted");
+      });
+
+      it("Should mintToMany failed when lengths mismatch", async () => {
+        await expect(token.mintToMany([ADDR1.address], [ONE_THOUSAND, ONE_THOUSAND])).to.be.revertedWithCustomError(
+          token,
+          "ArrayLengthMismatch"
+        );
+      });
+
+      it("Should mintToMany failed when caller is missing the role", async () => {
+        await expect(token.connect(ADDR1).mintToMany([ADDR1.address], [ONE_THOUSAND])).to.be.revertedWith(
+          missingRole(ADDR1, MINTER_ROLE)
+        );
+      });
+    });
+
+    describe("setMaxSupply", () => {
+      it("Should set max supply", async () => {
+        await expect(token.setMaxSupply(ONE_MILLION + ONE_THOUSAND))
+          .to.emit(token, "MaxSupplyChanged")
+          .withArgs(0, ONE_MILLION + ONE_THOUSAND);
+
+        expect(await token.maxSupply()).to.equal(ONE_MILLION + ONE_THOUSAND);
+      });
+
+      it("Should mint up to the max supply", async () => {
+        await registry.addAllowlist(ADDR1.address);
+        await token.setMaxSupply(ONE_MILLION + ONE_THOUSAND);
+
+        await token.mintTo(ADDR1.address, ONE_THOUSAND);
+
+        await expect(token.mint(1n))
+          .to.be.revertedWithCustomError(token, "MaxSupplyExceeded")
+          .withArgs(ONE_MILLION + ONE_THOUSAND + 1n, ONE_MILLION + ONE_THOUSAND);
+        await expect(token.mintTo(ADDR1.address, 1n)).to.be.revertedWithCustomError(token, "MaxSupplyExceeded");
+      });
+
+      it("Should allow minting again after burn under the max supply", async () => {
+        await token.setMaxSupply(ONE_MILLION);
+        await token.burn(ONE_THOUSAND);
+
+        await token.mint(ONE_THOUSAND);
+
+        expect(await token.totalSupply()).to.equal(ONE_MILLION);
+      });
+
+      it("Should decrease max supply", async () => {
+        await token.setMaxSupply(ONE_MILLION + ONE_THOUSAND);
+        await token.setMaxSupply(ONE_MILLION);
+
+        expect(await token.maxSupply()).to.equal(ONE_MILLION);
+      });
+
+      it("Should setMaxSupply failed when increasing max supply", async () => {
+        await token.setMaxSupply(ONE_MILLION);
+
+        await expect(token.setMaxSupply(ONE_MILLION + ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "MaxSupplyNotDecreased"
+        );
+      });
+
+      it("Should setMaxSupply failed when below total supply", async () => {
+        await expect(token.setMaxSupply(ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "MaxSupplyBelowTotalSupply"
+        );
+      });
+
+      it("Should setMaxSupply failed when max supply is zero", async () => {
+        await token.burn(ONE_MILLION);
+
+        await expect(token.setMaxSupply(0)).to.be.revertedWithCustomError(token, "InvalidMaxSupply");
+      });
+
+      it("Should setMaxSupply failed when caller is missing the role", async () => {
+        await expect(token.connect(ADDR1).setMaxSupply(ONE_MILLION)).to.be.revertedWith(
+          missingRole(ADDR1, DEFAULT_ADMIN_ROLE)
+        );
       });
     });
 
@@ -60,14 +250,16 @@ describe("InvestmentTokenM Contract", () => {
         expect(await token.mintable()).to.be.false;
       });
 
-      it("Should renounceMintable failed when caller is not the owner", async () => {
-        await expect(token.connect(ADDR1).renounceMintable()).to.be.revertedWith("Ownable: caller is not the owner");
+      it("Should renounceMintable failed when caller is missing the role", async () => {
+        await expect(token.connect(ADDR1).renounceMintable()).to.be.revertedWith(
+          missingRole(ADDR1, DEFAULT_ADMIN_ROLE)
+        );
       });
 
       it("Should renounceMintable failed when mintable has renounced", async () => {
         await token.renounceMintable();
 
-        await expect(token.renounceMintable()).to.be.revertedWith("ERC20Mintable: mintable has renounced");
+        await expect(token.renounceMintable()).to.be.revertedWithCustomError(token, "MintingRenounced");
       });
     });
   });
@@ -75,49 +267,168 @@ describe("InvestmentTokenM Contract", () => {
   describe("Admin", () => {
     describe("adminTransfer", () => {
       it("Should adminTransfer when sender is the owner", async () => {
-        await token.adminTransfer(OWNER.address, ADDR1.address, ONE_THOUSAND);
+        await token.adminTransfer(OWNER.address, ADDR1.address, ONE_THOUSAND, COURT_ORDER, CASE_ID);
 
         expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
 
-        await token.adminTransfer(ADDR1.address, OWNER.address, ONE_THOUSAND);
+        await token.adminTransfer(ADDR1.address, OWNER.address, ONE_THOUSAND, COURT_ORDER, CASE_ID);
 
         expect(await token.balanceOf(OWNER.address)).to.equal(ONE_MILLION);
       });
 
+      it("Should emit ForcedTransfer with the reason and case ID", async () => {
+        await expect(token.adminTransfer(OWNER.address, ADDR1.address, ONE_THOUSAND, COURT_ORDER, CASE_ID))
+          .to.emit(token, "ForcedTransfer")
+          .withArgs(OWNER.address, ADDR1.address, ONE_THOUSAND, COURT_ORDER, CASE_ID)
+          .and.to.emit(token, "Transfer")
+          .withArgs(OWNER.address, ADDR1.address, ONE_THOUSAND);
+      });
+
       it("Should adminTransfer failed when amount exceeds balance", async () => {
-        await expect(token.adminTransfer(ADDR2.address, ADDR1.address, ONE_THOUSAND)).to.be.revertedWith(
-          "ERC20: transfer amount exceeds balance"
-        );
+        await expect(
+          token.adminTransfer(ADDR2.address, ADDR1.address, ONE_THOUSAND, COURT_ORDER, CASE_ID)
+        ).to.be.revertedWith("ERC20: transfer amount exceeds balance");
       });
 
-      it("Should adminTransfer failed when sender is not the owner", async () => {
-        await expect(token.connect(ADDR1).adminTransfer(ADDR2.address, ADDR1.address, ONE_THOUSAND)).to.be.revertedWith(
-          "Ownable: caller is not the owner"
-        );
+      it("Should adminTransfer failed when sender is missing the role", async () => {
+        await expect(
+          token.connect(ADDR1).adminTransfer(ADDR2.address, ADDR1.address, ONE_THOUSAND, COURT_ORDER, CASE_ID)
+        ).to.be.revertedWith(missingRole(ADDR1, COMPLIANCE_ROLE));
       });
     });
 
     describe("adminBurn", () => {
       it("Should adminBurn when sender is the owner", async () => {
-        await token.adminTransfer(OWNER.address, ADDR1.address, ONE_THOUSAND);
+        await token.adminTransfer(OWNER.address, ADDR1.address, ONE_THOUSAND, COURT_ORDER, CASE_ID);
 
         expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
 
-        await token.adminBurn(ADDR1.address, ONE_THOUSAND);
+        await token.adminBurn(ADDR1.address, ONE_THOUSAND, COURT_ORDER, CASE_ID);
 
         expect(await token.balanceOf(ADDR1.address)).to.equal(0);
       });
 
+      it("Should emit ForcedBurn with the reason and case ID", async () => {
+        await expect(token.adminBurn(OWNER.address, ONE_THOUSAND, COURT_ORDER, CASE_ID))
+          .to.emit(token, "ForcedBurn")
+          .withArgs(OWNER.address, ONE_THOUSAND, COURT_ORDER, CASE_ID);
+      });
+
       it("Should adminBurn failed when amount exceeds balance", async () => {
-        await expect(token.adminBurn(ADDR1.address, ONE_THOUSAND)).to.be.revertedWith(
+        await expect(token.adminBurn(ADDR1.address, ONE_THOUSAND, COURT_ORDER, CASE_ID)).to.be.revertedWith(
           "ERC20: burn amount exceeds balance"
         );
       });
 
-      it("Should adminBurn failed when sender is not the owner", async () => {
-        await expect(token.connect(ADDR1).adminBurn(ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
-          "Ownable: caller is not the owner"
-        );
+      it("Should adminBurn failed when sender is missing the role", async () => {
+        await expect(
+          token.connect(ADDR1).adminBurn(ADDR2.address, ONE_THOUSAND, COURT_ORDER, CASE_ID)
+        ).to.be.revertedWith(missingRole(ADDR1, COMPLIANCE_ROLE));
+      });
+    });
+
+    describe("recoverWallets", () => {
+      const LOST_WALLET = 2;
+
+      beforeEach(async () => {
+        await token.transfer(ADDR1.address, ONE_THOUSAND);
+        await registry.addAllowlist(ADDR2.address);
+      });
+
+      it("Should move the balance and transfer limits to the new wallet", async () => {
+        await token.setPeriodicTransferLimit(ADDR1.address, ONE_THOUSAND, ONE_DAY);
+        await token.setReceiveLimit(ADDR1.address, ONE_THOUSAND);
+        await registry.addAllowlistBatch([OWNER.address, ADDR1.address]);
+        await token.connect(ADDR1).transfer(OWNER.address, ONE_THOUSAND / 4n);
+
+        const transferLimit = await token.transferLimitOf(ADDR1.address);
+        const transferLimitPeriod = await token.transferLimitPeriodOf(ADDR1.address);
+
+        await expect(token.recoverWallets([ADDR1.address], [ADDR2.address], LOST_WALLET, CASE_ID))
+          .to.emit(token, "ForcedTransfer")
+          .withArgs(ADDR1.address, ADDR2.address, (ONE_THOUSAND * 3n) / 4n, LOST_WALLET, CASE_ID)
+          .and.to.emit(token, "MoveTransferLimit")
+          .withArgs(ADDR1.address, ADDR2.address);
+
+        expect(await token.balanceOf(ADDR1.address)).to.equal(0);
+        expect(await token.balanceOf(ADDR2.address)).to.equal((ONE_THOUSAND * 3n) / 4n);
+        expect(await token.transferLimitOf(ADDR2.address)).to.deep.equal(transferLimit);
+        expect(await token.transferLimitPeriodOf(ADDR2.address)).to.deep.equal(transferLimitPeriod);
+        expect(await token.receiveLimitOf(ADDR2.address)).to.deep.equal([true, ONE_THOUSAND, 0n]);
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([false, 0n, 0n]);
+        expect(await token.receiveLimitOf(ADDR1.address)).to.deep.equal([false, 0n, 0n]);
+      });
+
+      it("Should move the vesting schedule and freeze to the new wallet", async () => {
+        await token.setVestingSchedule(ADDR1.address, 0, 0, ONE_DAY, ONE_THOUSAND);
+        await token.freeze(ADDR1.address);
+        await token.freezeAmount(ADDR1.address, ONE_THOUSAND / 2n);
+
+        const vestingSchedule = await token.vestingScheduleOf(ADDR1.address);
+
+        await expect(token.recoverWallets([ADDR1.address], [ADDR2.address], LOST_WALLET, CASE_ID))
+          .to.emit(token, "MoveVestingSchedule")
+          .withArgs(ADDR1.address, ADDR2.address)
+          .and.to.emit(token, "MoveFreeze")
+          .withArgs(ADDR1.address, ADDR2.address);
+
+        expect(await token.vestingScheduleOf(ADDR2.address)).to.deep.equal(vestingSchedule);
+        expect(await token.isFrozen(ADDR2.address)).to.be.true;
+        expect(await token.frozenAmountOf(ADDR2.address)).to.equal(ONE_THOUSAND / 2n);
+        expect(await token.vestingScheduleOf(ADDR1.address)).to.deep.equal([0n, 0n, 0n, 0n]);
+        expect(await token.isFrozen(ADDR1.address)).to.be.false;
+        expect(await token.frozenAmountOf(ADDR1.address)).to.equal(0);
+      });
+
+      it("Should recover wallets in batch", async () => {
+        const newWallets = [ethers.Wallet.createRandom().address, ethers.Wallet.createRandom().address];
+        await token.transfer(ADDR2.address, ONE_THOUSAND);
+        await registry.addAllowlistBatch(newWallets);
+
+        await token.recoverWallets([ADDR1.address, ADDR2.address], newWallets, LOST_WALLET, CASE_ID);
+
+        expect(await token.balanceOf(newWallets[0])).to.equal(ONE_THOUSAND);
+        expect(await token.balanceOf(newWallets[1])).to.equal(ONE_THOUSAND);
+      });
+
+      it("Should recoverWallets failed when the new wallet is in use", async () => {
+        const recover = () => token.recoverWallets([ADDR1.address], [ADDR2.address], LOST_WALLET, CASE_ID);
+
+        await token.transfer(ADDR2.address, 1n);
+        await expect(recover()).to.be.revertedWithCustomError(token, "RecoveryWalletInUse").withArgs(ADDR2.address);
+        await token.adminBurn(ADDR2.address, 1n, LOST_WALLET, CASE_ID);
+
+        await token.setReceiveLimit(ADDR2.address, ONE_THOUSAND);
+        await expect(recover()).to.be.revertedWithCustomError(token, "RecoveryWalletInUse").withArgs(ADDR2.address);
+        await token.unsetReceiveLimit(ADDR2.address);
+
+        await token.setVestingSchedule(ADDR2.address, 0, 0, ONE_DAY, ONE_THOUSAND);
+        await expect(recover()).to.be.revertedWithCustomError(token, "RecoveryWalletInUse").withArgs(ADDR2.address);
+        await token.removeVestingSchedule(ADDR2.address);
+
+        await token.freezeAmount(ADDR2.address, 1n);
+        await expect(recover()).to.be.revertedWithCustomError(token, "RecoveryWalletInUse").withArgs(ADDR2.address);
+        await token.freezeAmount(ADDR2.address, 0);
+
+        await recover();
+      });
+
+      it("Should recoverWallets failed when the new wallet is not allowlisted", async () => {
+        await expect(token.recoverWallets([ADDR2.address], [ADDR1.address], LOST_WALLET, CASE_ID))
+          .to.be.revertedWithCustomError(token, "NotAllowlisted")
+          .withArgs(ADDR1.address);
+      });
+
+      it("Should recoverWallets failed when the arrays have different lengths", async () => {
+        await expect(token.recoverWallets([ADDR1.address], [], LOST_WALLET, CASE_ID))
+          .to.be.revertedWithCustomError(token, "ArrayLengthMismatch")
+          .withArgs(1, 0);
+      });
+
+      it("Should recoverWallets failed when sender is missing the role", async () => {
+        await expect(
+          token.connect(ADDR1).recoverWallets([ADDR1.address], [ADDR2.address], LOST_WALLET, CASE_ID)
+        ).to.be.revertedWith(missingRole(ADDR1, COMPLIANCE_ROLE));
       });
     });
   });
@@ -149,18 +460,18 @@ describe("InvestmentTokenM Contract", () => {
     it("Should transfer failed when sender are not allowlisted account", async () => {
       await token.transfer(ADDR1.address, ONE_THOUSAND);
 
-      await expect(token.connect(ADDR1).transfer(OWNER.address, ONE_THOUSAND)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
-      );
+      await expect(token.connect(ADDR1).transfer(OWNER.address, ONE_THOUSAND))
+        .to.be.revertedWithCustomError(token, "NotAllowlisted")
+        .withArgs(ADDR1.address);
     });
 
     it("Should transfer failed when receiver are not allowlisted account", async () => {
       await token.transfer(ADDR1.address, ONE_THOUSAND);
       await registry.addAllowlist(ADDR1.address);
 
-      await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
-      );
+      await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND))
+        .to.be.revertedWithCustomError(token, "NotAllowlisted")
+        .withArgs(ADDR2.address);
     });
 
     it("Should transferFrom when owner and spender are allowlisted account", async () => {
@@ -183,9 +494,9 @@ describe("InvestmentTokenM Contract", () => {
       await token.connect(ADDR1).approve(ADDR2.address, ONE_THOUSAND);
       await registry.removeAllowlist(ADDR1.address);
 
-      await expect(token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
-      );
+      await expect(
+        token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_THOUSAND)
+      ).to.be.revertedWithCustomError(token, "NotAllowlisted");
     });
 
     it("Should transferFrom failed when spender are not allowlisted account", async () => {
@@ -197,9 +508,9 @@ describe("InvestmentTokenM Contract", () => {
 
       await registry.removeAllowlist(ADDR2.address);
 
-      await expect(token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
-      );
+      await expect(
+        token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_THOUSAND)
+      ).to.be.revertedWithCustomError(token, "NotAllowlisted");
     });
   });
 
@@ -218,8 +529,9 @@ describe("InvestmentTokenM Contract", () => {
       await registry.addAllowlist(ADDR2.address);
 
       await registry.removeAllowlist(ADDR1.address);
-      await expect(token.connect(ADDR1).approve(ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
+      await expect(token.connect(ADDR1).approve(ADDR2.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+        token,
+        "NotAllowlisted"
       );
     });
 
@@ -228,8 +540,9 @@ describe("InvestmentTokenM Contract", () => {
       await registry.addAllowlist(ADDR2.address);
 
       await registry.removeAllowlist(ADDR2.address);
-      await expect(token.connect(ADDR1).approve(ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
+      await expect(token.connect(ADDR1).approve(ADDR2.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+        token,
+        "NotAllowlisted"
       );
     });
 
@@ -250,8 +563,9 @@ describe("InvestmentTokenM Contract", () => {
       await registry.addAllowlist(ADDR2.address);
 
       await registry.removeAllowlist(ADDR1.address);
-      await expect(token.connect(ADDR1).increaseAllowance(ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
+      await expect(token.connect(ADDR1).increaseAllowance(ADDR2.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+        token,
+        "NotAllowlisted"
       );
     });
 
@@ -260,8 +574,9 @@ describe("InvestmentTokenM Contract", () => {
       await registry.addAllowlist(ADDR2.address);
 
       await registry.removeAllowlist(ADDR2.address);
-      await expect(token.connect(ADDR1).increaseAllowance(ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
+      await expect(token.connect(ADDR1).increaseAllowance(ADDR2.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+        token,
+        "NotAllowlisted"
       );
     });
 
@@ -282,8 +597,9 @@ describe("InvestmentTokenM Contract", () => {
       await registry.addAllowlist(ADDR2.address);
 
       await registry.removeAllowlist(ADDR1.address);
-      await expect(token.connect(ADDR1).decreaseAllowance(ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
+      await expect(token.connect(ADDR1).decreaseAllowance(ADDR2.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+        token,
+        "NotAllowlisted"
       );
     });
 
@@ -292,12 +608,101 @@ describe("InvestmentTokenM Contract", () => {
       await registry.addAllowlist(ADDR2.address);
 
       await registry.removeAllowlist(ADDR2.address);
-      await expect(token.connect(ADDR1).decreaseAllowance(ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
+      await expect(token.connect(ADDR1).decreaseAllowance(ADDR2.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+        token,
+        "NotAllowlisted"
       );
     });
   });
 
+  describe("ERC20Permit", () => {
+    let deadline: bigint;
+
+    beforeEach(async () => {
+      await registry.addAllowlist(ADDR1.address);
+      await registry.addAllowlist(ADDR2.address);
+      await token.transfer(ADDR1.address, ONE_THOUSAND);
+
+      deadline = BigInt((await time.latest()) + ONE_DAY);
+    });
+
+    it("Should build permit typed data with the current nonce", async () => {
+      const { domain, message } = await buildPermitTypedData(
+        token,
+        ADDR1.address,
+        ADDR2.address,
+        ONE_THOUSAND,
+        deadline
+      );
+
+      expect(domain.name).to.equal("Investment Token");
+      expect(domain.verifyingContract).to.equal(await token.getAddress());
+      expect(message.nonce).to.equal(0);
+    });
+
+    it("Should permit allowance of the signer to spender", async () => {
+      await expect(permit(token.connect(ADDR2), ADDR1, ADDR2.address, ONE_THOUSAND, deadline))
+        .to.emit(token, "Approval")
+        .withArgs(ADDR1.address, ADDR2.address, ONE_THOUSAND);
+
+      expect(await token.allowance(ADDR1.address, ADDR2.address)).to.equal(ONE_THOUSAND);
+      expect(await token.nonces(ADDR1.address)).to.equal(1);
+
+      await token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_THOUSAND);
+
+      expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_THOUSAND);
+    });
+
+    it("Should permit failed when deadline has expired", async () => {
+      const expired = BigInt(await time.latest());
+
+      await expect(permit(token.connect(ADDR2), ADDR1, ADDR2.address, ONE_THOUSAND, expired)).to.be.revertedWith(
+        "ERC20Permit: expired deadline"
+      );
+    });
+
+    it("Should permit failed when nonce is replayed", async () => {
+      const { v, r, s } = await signPermit(token, ADDR1, ADDR2.address, ONE_THOUSAND, deadline);
+      await token.connect(ADDR2).permit(ADDR1.address, ADDR2.address, ONE_THOUSAND, deadline, v, r, s);
+
+      await expect(
+        token.connect(ADDR2).permit(ADDR1.address, ADDR2.address, ONE_THOUSAND, deadline, v, r, s)
+      ).to.be.revertedWith("ERC20Permit: invalid signature");
+    });
+
+    it("Should permit failed when signature is not from owner", async () => {
+      const { v, r, s } = await signPermit(token, ADDR2, ADDR2.address, ONE_THOUSAND, deadline);
+
+      await expect(
+        token.connect(ADDR2).permit(ADDR1.address, ADDR2.address, ONE_THOUSAND, deadline, v, r, s)
+      ).to.be.revertedWith("ERC20Permit: invalid signature");
+    });
+
+    it("Should permit failed when signer is not allowlisted", async () => {
+      await registry.removeAllowlist(ADDR1.address);
+
+      await expect(
+        permit(token.connect(ADDR2), ADDR1, ADDR2.address, ONE_THOUSAND, deadline)
+      ).to.be.revertedWithCustomError(token, "NotAllowlisted");
+    });
+
+    it("Should permit failed when spender is not allowlisted", async () => {
+      await registry.removeAllowlist(ADDR2.address);
+
+      await expect(
+        permit(token.connect(ADDR1), ADDR1, ADDR2.address, ONE_THOUSAND, deadline)
+      ).to.be.revertedWithCustomError(token, "NotAllowlisted");
+    });
+
+    it("Should permit failed when paused", async () => {
+      await token.pause();
+
+      await expect(
+        permit(token.connect(ADDR2), ADDR1, ADDR2.address, ONE_THOUSAND, deadline)
+      ).to.be.revertedWithCustomError(token, "TokenPaused");
+    });
+  });
+
   describe("Burnable", () => {
     it("Should burn tokens on the owner", async () => {
       await token.burn(0);
@@ -321,9 +726,7 @@ describe("InvestmentTokenM Contract", () => {
     it("Should burn tokens failed when account are not allowlisted", async () => {
       await token.transfer(ADDR1.address, ONE_THOUSAND);
 
-      await expect(token.connect(ADDR1).burn(ONE_THOUSAND)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
-      );
+      await expect(token.connect(ADDR1).burn(ONE_THOUSAND)).to.be.revertedWithCustomError(token, "NotAllowlisted");
     });
 
     it("Should burn tokens failed when amount exceeds balance", async () => {
@@ -364,8 +767,9 @@ describe("InvestmentTokenM Contract", () => {
 
       await registry.removeAllowlist(ADDR2.address);
 
-      await expect(token.connect(ADDR2).burnFrom(ADDR1.address, ONE_MILLION)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
+      await expect(token.connect(ADDR2).burnFrom(ADDR1.address, ONE_MILLION)).to.be.revertedWithCustomError(
+        token,
+        "NotAllowlisted"
       );
     });
 
@@ -378,8 +782,9 @@ describe("InvestmentTokenM Contract", () => {
 
       await registry.removeAllowlist(ADDR1.address);
 
-      await expect(token.connect(ADDR2).burnFrom(ADDR1.address, ONE_MILLION)).to.be.revertedWith(
-        "InvestmentTokenM: account are not allowlisted"
+      await expect(token.connect(ADDR2).burnFrom(ADDR1.address, ONE_MILLION)).to.be.revertedWithCustomError(
+        token,
+        "NotAllowlisted"
       );
     });
   });
@@ -393,14 +798,14 @@ describe("InvestmentTokenM Contract", () => {
         expect(await token.transferLimitable()).to.be.true;
       });
 
-      it("Should enable failed when sender is not the owner", async () => {
+      it("Should enable failed when sender is missing the role", async () => {
         await expect(token.connect(ADDR1).disableTransferLimitable()).to.be.revertedWith(
-          "Ownable: caller is not the owner"
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
         );
       });
 
       it("Should enable failed when transfer limit enabled", async () => {
-        await expect(token.enableTransferLimitable()).to.be.revertedWith("ERC20TransferLimit: transfer limit enabled");
+        await expect(token.enableTransferLimitable()).to.be.revertedWithCustomError(token, "TransferLimitableEnabled");
       });
     });
 
@@ -411,17 +816,18 @@ describe("InvestmentTokenM Contract", () => {
         expect(await token.transferLimitable()).to.be.false;
       });
 
-      it("Should disable failed when sender is not the owner", async () => {
+      it("Should disable failed when sender is missing the role", async () => {
         await expect(token.connect(ADDR1).disableTransferLimitable()).to.be.revertedWith(
-          "Ownable: caller is not the owner"
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
         );
       });
 
       it("Should disable failed when transfer limit disabled", async () => {
         await token.disableTransferLimitable();
 
-        await expect(token.disableTransferLimitable()).to.be.revertedWith(
-          "ERC20TransferLimit: transfer limit disabled"
+        await expect(token.disableTransferLimitable()).to.be.revertedWithCustomError(
+          token,
+          "TransferLimitableDisabled"
         );
       });
     });
@@ -430,20 +836,21 @@ describe("InvestmentTokenM Contract", () => {
       it("Should setTransferLimit success", async () => {
         await token.setTransferLimit(ADDR1.address, ONE_THOUSAND);
 
-        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_THOUSAND]);
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_THOUSAND, 0n]);
       });
 
-      it("Should setTransferLimit failed when sender is not the owner", async () => {
+      it("Should setTransferLimit failed when sender is missing the role", async () => {
         await expect(token.connect(ADDR1).setTransferLimit(ADDR1.address, ONE_THOUSAND)).to.be.revertedWith(
-          "Ownable: caller is not the owner"
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
         );
       });
 
       it("Should setTransferLimit failed when account transfer limit enabled", async () => {
         await token.setTransferLimit(ADDR1.address, ONE_THOUSAND);
 
-        await expect(token.setTransferLimit(ADDR1.address, ONE_THOUSAND)).to.be.revertedWith(
-          "ERC20TransferLimit: account transfer limit enabled"
+        await expect(token.setTransferLimit(ADDR1.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "AccountTransferLimitEnabled"
         );
       });
     });
@@ -453,18 +860,19 @@ describe("InvestmentTokenM Contract", () => {
         await token.setTransferLimit(ADDR1.address, ONE_THOUSAND);
         await token.unsetTransferLimit(ADDR1.address);
 
-        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([false, 0n]);
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([false, 0n, 0n]);
       });
 
-      it("Should unsetTransferLimit failed when sender is not the owner", async () => {
+      it("Should unsetTransferLimit failed when sender is missing the role", async () => {
         await expect(token.connect(ADDR1).unsetTransferLimit(ADDR1.address)).to.be.revertedWith(
-          "Ownable: caller is not the owner"
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
         );
       });
 
       it("Should unsetTransferLimit failed when account transfer limit disabled", async () => {
-        await expect(token.unsetTransferLimit(ADDR1.address)).to.be.revertedWith(
-          "ERC20TransferLimit: account transfer limit disabled"
+        await expect(token.unsetTransferLimit(ADDR1.address)).to.be.revertedWithCustomError(
+          token,
+          "AccountTransferLimitDisabled"
         );
       });
     });
@@ -474,25 +882,26 @@ describe("InvestmentTokenM Contract", () => {
         await token.setTransferLimit(ADDR1.address, 0n);
         await token.increaseTransferLimit(ADDR1.address, ONE_THOUSAND);
 
-        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_THOUSAND]);
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_THOUSAND, 0n]);
       });
 
       it("Should increaseTransferLimit success when account's transfer limit are enable", async () => {
         await token.setTransferLimit(ADDR1.address, 0n);
         await token.increaseTransferLimit(ADDR1.address, ONE_THOUSAND);
 
-        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_THOUSAND]);
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_THOUSAND, 0n]);
       });
 
-      it("Should increaseTransferLimit failed when sender is not the owner", async () => {
+      it("Should increaseTransferLimit failed when sender is missing the role", async () => {
         await expect(token.connect(ADDR1).increaseTransferLimit(ADDR1.address, ONE_THOUSAND)).to.be.revertedWith(
-          "Ownable: caller is not the owner"
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
         );
       });
 
       it("Should increaseTransferLimit failed when account transfer limit disabled", async () => {
-        await expect(token.increaseTransferLimit(ADDR1.address, ONE_THOUSAND)).to.be.revertedWith(
-          "ERC20TransferLimit: account transfer limit disabled"
+        await expect(token.increaseTransferLimit(ADDR1.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "AccountTransferLimitDisabled"
         );
       });
     });
@@ -506,25 +915,26 @@ describe("InvestmentTokenM Contract", () => {
 
         await token.decreaseTransferLimit(ADDR1.address, ONE_HUNDRED);
 
-        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, NINE_HUNDRED]);
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, NINE_HUNDRED, 0n]);
       });
 
       it("Should decreaseTransferLimit success when underflow should be zero value", async () => {
         await token.setTransferLimit(ADDR1.address, ONE_THOUSAND);
         await token.decreaseTransferLimit(ADDR1.address, ONE_MILLION);
 
-        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, 0n]);
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, 0n, 0n]);
       });
 
-      it("Should decreaseTransferLimit failed when sender is not the owner", async () => {
+      it("Should decreaseTransferLimit failed when sender is missing the role", async () => {
         await expect(token.connect(ADDR1).decreaseTransferLimit(ADDR1.address, ONE_THOUSAND)).to.be.revertedWith(
-          "Ownable: caller is not the owner"
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
         );
       });
 
       it("Should decreaseTransferLimit failed when account transfer limit disabled", async () => {
-        await expect(token.decreaseTransferLimit(ADDR1.address, ONE_THOUSAND)).to.be.revertedWith(
-          "ERC20TransferLimit: account transfer limit disabled"
+        await expect(token.decreaseTransferLimit(ADDR1.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "AccountTransferLimitDisabled"
         );
       });
     });
@@ -538,7 +948,7 @@ describe("InvestmentTokenM Contract", () => {
         await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND);
 
         expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_THOUSAND);
-        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, 0n]);
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, 0n, 0n]);
       });
 
       it("Should transfer success with partial transfer limit", async () => {
@@ -552,7 +962,7 @@ describe("InvestmentTokenM Contract", () => {
         await token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED);
 
         expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
-        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, NINE_HUNDRED]);
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, NINE_HUNDRED, 0n]);
       });
 
       it("Should transfer failed with exceeds transfer limit", async () => {
@@ -561,9 +971,9 @@ describe("InvestmentTokenM Contract", () => {
         await token.transfer(ADDR1, ONE_THOUSAND);
         await token.setTransferLimit(ADDR1.address, ONE_THOUSAND);
 
-        await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_MILLION)).to.be.revertedWith(
-          "ERC20TransferLimit: transfer exceeds limit"
-        );
+        await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_MILLION))
+          .to.be.revertedWithCustomError(token, "TransferLimitExceeded")
+          .withArgs(ADDR1.address, ONE_MILLION, ONE_THOUSAND);
       });
     });
 
@@ -581,7 +991,7 @@ describe("InvestmentTokenM Contract", () => {
         await token.connect(ADDR1).transferFrom(ADDR2.address, ADDR1.address, ONE_THOUSAND);
 
         expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
-        expect(await token.transferLimitOf(ADDR2.address)).to.deep.equal([true, 0n]);
+        expect(await token.transferLimitOf(ADDR2.address)).to.deep.equal([true, 0n, 0n]);
       });
 
       it("Should transferFrom success with partial transfer limit", async () => {
@@ -600,7 +1010,7 @@ describe("InvestmentTokenM Contract", () => {
         await token.connect(ADDR1).transferFrom(ADDR2.address, ADDR1.address, ONE_HUNDRED);
 
         expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_HUNDRED);
-        expect(await token.transferLimitOf(ADDR2.address)).to.deep.equal([true, NINE_HUNDRED]);
+        expect(await token.transferLimitOf(ADDR2.address)).to.deep.equal([true, NINE_HUNDRED, 0n]);
       });
 
       it("Should transferFrom failed with exceeds transfer limit", async () => {
@@ -615,107 +1025,1503 @@ describe("InvestmentTokenM Contract", () => {
         expect(await token.allowance(ADDR2.address, ADDR1.address)).to.equal(ONE_HUNDRED);
 
         await token.setTransferLimit(ADDR2.address, ONE_THOUSAND);
-        await expect(token.connect(ADDR1).transferFrom(ADDR2.address, ADDR1.address, ONE_MILLION)).to.be.revertedWith(
-          "ERC20TransferLimit: transfer exceeds limit"
-        );
+        await expect(
+          token.connect(ADDR1).transferFrom(ADDR2.address, ADDR1.address, ONE_MILLION)
+        ).to.be.revertedWithCustomError(token, "TransferLimitExceeded");
       });
     });
-  });
 
-  describe("ERC20AllowListableProxy", () => {
-    describe("setAllowlistRegistry", () => {
-      it("Should setAllowlistRegistry", async () => {
-        const Registry = await ethers.getContractFactory("AllowlistRegistry");
-        const registry = await Registry.deploy();
-        const registryAddr = await registry.getAddress();
+    describe("setPeriodicTransferLimit", () => {
+      it("Should setPeriodicTransferLimit success", async () => {
+        await expect(token.setPeriodicTransferLimit(ADDR1.address, ONE_THOUSAND, ONE_DAY))
+          .to.emit(token, "SetPeriodicTransferLimit")
+          .withArgs(ADDR1.address, ONE_THOUSAND, ONE_DAY);
 
-        await token.setAllowlistRegistry(registryAddr);
-        expect(await token.allowlistRegistry()).to.equal(registryAddr);
-      });
+        const resetAt = BigInt((await time.latest()) + ONE_DAY);
 
-      it("Should setAllowlistRegistry failed when sender is not the owner", async () => {
-        const Registry = await ethers.getContractFactory("AllowlistRegistry");
-        const registry = await Registry.deploy();
-        const registryAddr = await registry.getAddress();
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_THOUSAND, resetAt]);
+        expect(await token.transferLimitPeriodOf(ADDR1.address)).to.deep.equal([ONE_THOUSAND, BigInt(ONE_DAY)]);
+      });
 
-        await expect(token.connect(ADDR1).setAllowlistRegistry(registryAddr)).to.be.revertedWith(
-          "Ownable: caller is not the owner"
+      it("Should setPeriodicTransferLimit failed when period is zero", async () => {
+        await expect(token.setPeriodicTransferLimit(ADDR1.address, ONE_THOUSAND, 0)).to.be.revertedWithCustomError(
+          token,
+          "InvalidLimitPeriod"
         );
       });
-    });
-  });
 
-  describe("Pausable", () => {
-    it("Should pause contract", async () => {
-      await token.pause();
+      it("Should setPeriodicTransferLimit failed when sender is missing the role", async () => {
+        await expect(
+          token.connect(ADDR1).setPeriodicTransferLimit(ADDR1.address, ONE_THOUSAND, ONE_DAY)
+        ).to.be.revertedWith(missingRole(ADDR1, LIMIT_MANAGER_ROLE));
+      });
 
-      expect(await token.paused()).to.be.true;
-    });
+      it("Should setPeriodicTransferLimit failed when account transfer limit enabled", async () => {
+        await token.setTransferLimit(ADDR1.address, ONE_THOUSAND);
 
-    it("Should unpause contract", async () => {
-      await token.pause();
-      await token.unpause();
+        await expect(
+          token.setPeriodicTransferLimit(ADDR1.address, ONE_THOUSAND, ONE_DAY)
+        ).to.be.revertedWithCustomError(token, "AccountTransferLimitEnabled");
+      });
 
-      expect(await token.paused()).to.be.false;
-    });
+      it("Should unsetTransferLimit remove the period", async () => {
+        await token.setPeriodicTransferLimit(ADDR1.address, ONE_THOUSAND, ONE_DAY);
+        await token.unsetTransferLimit(ADDR1.address);
 
-    it("Should unpause contract failed when contract is not paused", async () => {
-      await expect(token.unpause()).to.be.revertedWith("Pausable: not paused");
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([false, 0n, 0n]);
+        expect(await token.transferLimitPeriodOf(ADDR1.address)).to.deep.equal([0n, 0n]);
+      });
     });
 
-    it("Should pause contract failed when contract is paused", async () => {
-      await token.pause();
+    describe("periodic transfer", () => {
+      const ONE_HUNDRED = ethers.parseEther("100");
+      const NINE_HUNDRED = ethers.parseEther("900");
 
-      await expect(token.pause()).to.be.revertedWith("Pausable: paused");
-    });
+      beforeEach(async () => {
+        await registry.addAllowlist(ADDR1.address);
+        await registry.addAllowlist(ADDR2.address);
+        await token.transfer(ADDR1.address, ONE_MILLION);
+        await token.setPeriodicTransferLimit(ADDR1.address, ONE_THOUSAND, ONE_DAY);
+      });
 
-    it("Should pause contract failed when sender is not the owner", async () => {
-      await expect(token.connect(ADDR1).pause()).to.be.revertedWith("Ownable: caller is not the owner");
-    });
+      it("Should transfer failed when exceeds the limit of the period", async () => {
+        await token.connect(ADDR1).transfer(ADDR2.address, NINE_HUNDRED);
 
-    it("Should unpause contract failed when sender is not the owner", async () => {
-      await expect(token.connect(ADDR1).unpause()).to.be.revertedWith("Ownable: caller is not the owner");
-    });
-  });
+        await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND))
+          .to.be.revertedWithCustomError(token, "TransferLimitExceeded")
+          .withArgs(ADDR1.address, ONE_THOUSAND, ONE_HUNDRED);
+      });
 
-  describe("EmergencyWithdrawable", () => {
-    let randomToken: any;
-    let tokenAddr: string;
-    let registryAddr: string;
+      it("Should replenish the limit when the period has elapsed", async () => {
+        const [, , resetAt] = await token.transferLimitOf(ADDR1.address);
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND);
 
-    beforeEach(async () => {
-      const RandomToken = await ethers.getContractFactory("InvestmentTokenM");
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, 0n, resetAt]);
 
-      tokenAddr = await token.getAddress();
-      registryAddr = await registry.getAddress();
+        await time.increaseTo(resetAt);
 
-      randomToken = await RandomToken.deploy("Random Token", "RAND", registryAddr);
-      await randomToken.mint(ONE_MILLION);
-      await randomToken.transfer(tokenAddr, ONE_MILLION);
-    });
+        const nextResetAt = resetAt + BigInt(ONE_DAY);
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_THOUSAND, nextResetAt]);
 
-    it("Should withdraw ERC20 tokens", async () => {
-      await registry.addAllowlist(OWNER.address);
-      await registry.addAllowlist(tokenAddr);
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED);
 
-      const randomTokenAddr = await randomToken.getAddress();
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, NINE_HUNDRED, nextResetAt]);
+      });
 
-      await token.emergencyWithdrawToken(randomTokenAddr);
+      it("Should align the next reset time to the period when several periods have elapsed", async () => {
+        const [, , resetAt] = await token.transferLimitOf(ADDR1.address);
 
-      expect(await randomToken.balanceOf(tokenAddr)).to.equal(0);
-      expect(await randomToken.balanceOf(OWNER.address)).to.equal(ONE_MILLION);
-    });
+        await time.increaseTo(resetAt + BigInt(ONE_DAY * 2 + ONE_DAY / 2));
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED);
 
-    it("Should withdraw ERC20 tokens failed with non-ERC20 address", async () => {
-      await expect(token.emergencyWithdrawToken(ZERO_ADDRESS)).to.be.reverted;
-    });
+        const nextResetAt = resetAt + BigInt(ONE_DAY * 3);
+        expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, NINE_HUNDRED, nextResetAt]);
+      });
 
-    it("Should withdraw ERC20 tokens failed when sender is not the owner", async () => {
-      const randomTokenAddr = await randomToken.getAddress();
+      it("Should transferFrom replenish the limit when the period has elapsed", async () => {
+        await token.connect(ADDR1).approve(ADDR2.address, ONE_MILLION);
+        await token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_THOUSAND);
 
-      await expect(token.connect(ADDR1).emergencyWithdrawToken(randomTokenAddr)).to.be.revertedWith(
-        "Ownable: caller is not the owner"
-      );
+        await expect(
+          token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_HUNDRED)
+        ).to.be.revertedWithCustomError(token, "TransferLimitExceeded");
+
+        await time.increase(ONE_DAY);
+        await token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_HUNDRED);
+
+        expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_THOUSAND + ONE_HUNDRED);
+      });
+
+      it("Should increaseTransferLimit only for the current period", async () => {
+        await token.increaseTransferLimit(ADDR1.address, ONE_THOUSAND);
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND + ONE_HUNDRED);
+
+        await time.increase(ONE_DAY);
+
+        const [, amount] = await token.transferLimitOf(ADDR1.address);
+        expect(amount).to.equal(ONE_THOUSAND);
+      });
+
+      it("Should decreaseTransferLimit only for the current period", async () => {
+        await token.decreaseTransferLimit(ADDR1.address, ONE_THOUSAND);
+
+        await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+          token,
+          "TransferLimitExceeded"
+        );
+
+        await time.increase(ONE_DAY);
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED);
+
+        expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
+      });
+    });
+
+    describe("receive limit", () => {
+      const ONE_HUNDRED = ethers.parseEther("100");
+      const NINE_HUNDRED = ethers.parseEther("900");
+
+      beforeEach(async () => {
+        await registry.addAllowlist(ADDR1.address);
+        await registry.addAllowlist(ADDR2.address);
+        await token.transfer(ADDR1.address, ONE_MILLION);
+      });
+
+      it("Should setReceiveLimit success", async () => {
+        await expect(token.setReceiveLimit(ADDR2.address, ONE_THOUSAND))
+          .to.emit(token, "SetReceiveLimit")
+          .withArgs(ADDR2.address, ONE_THOUSAND);
+
+        expect(await token.receiveLimitOf(ADDR2.address)).to.deep.equal([true, ONE_THOUSAND, 0n]);
+      });
+
+      it("Should setReceiveLimit failed when account receive limit enabled", async () => {
+        await token.setReceiveLimit(ADDR2.address, ONE_THOUSAND);
+
+        await expect(token.setReceiveLimit(ADDR2.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "AccountReceiveLimitEnabled"
+        );
+      });
+
+      it("Should setReceiveLimit failed when sender is missing the role", async () => {
+        await expect(token.connect(ADDR1).setReceiveLimit(ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
+        );
+      });
+
+      it("Should unsetReceiveLimit success", async () => {
+        await token.setPeriodicReceiveLimit(ADDR2.address, ONE_THOUSAND, ONE_DAY);
+
+        await expect(token.unsetReceiveLimit(ADDR2.address))
+          .to.emit(token, "UnsetReceiveLimit")
+          .withArgs(ADDR2.address);
+
+        expect(await token.receiveLimitOf(ADDR2.address)).to.deep.equal([false, 0n, 0n]);
+        expect(await token.receiveLimitPeriodOf(ADDR2.address)).to.deep.equal([0n, 0n]);
+      });
+
+      it("Should unsetReceiveLimit failed when account receive limit disabled", async () => {
+        await expect(token.unsetReceiveLimit(ADDR2.address)).to.be.revertedWithCustomError(
+          token,
+          "AccountReceiveLimitDisabled"
+        );
+      });
+
+      it("Should increase and decrease receive limit", async () => {
+        await token.setReceiveLimit(ADDR2.address, ONE_THOUSAND);
+
+        await expect(token.increaseReceiveLimit(ADDR2.address, ONE_HUNDRED))
+          .to.emit(token, "IncreaseReceiveLimit")
+          .withArgs(ADDR2.address, ONE_HUNDRED);
+        await expect(token.decreaseReceiveLimit(ADDR2.address, ONE_THOUSAND))
+          .to.emit(token, "DecreaseReceiveLimit")
+          .withArgs(ADDR2.address, ONE_THOUSAND);
+
+        expect(await token.receiveLimitOf(ADDR2.address)).to.deep.equal([true, ONE_HUNDRED, 0n]);
+      });
+
+      it("Should transfer failed when exceeds receive limit", async () => {
+        await token.setReceiveLimit(ADDR2.address, ONE_THOUSAND);
+        await token.connect(ADDR1).transfer(ADDR2.address, NINE_HUNDRED);
+
+        expect(await token.receiveLimitOf(ADDR2.address)).to.deep.equal([true, ONE_HUNDRED, 0n]);
+        await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND))
+          .to.be.revertedWithCustomError(token, "ReceiveLimitExceeded")
+          .withArgs(ADDR2.address, ONE_THOUSAND, ONE_HUNDRED);
+      });
+
+      it("Should transferFrom failed when exceeds receive limit", async () => {
+        await token.setReceiveLimit(ADDR2.address, ONE_HUNDRED);
+        await token.connect(ADDR1).approve(ADDR2.address, ONE_THOUSAND);
+
+        await expect(
+          token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_THOUSAND)
+        ).to.be.revertedWithCustomError(token, "ReceiveLimitExceeded");
+      });
+
+      it("Should replenish periodic receive limit when the period has elapsed", async () => {
+        await token.setPeriodicReceiveLimit(ADDR2.address, ONE_THOUSAND, ONE_DAY);
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND);
+
+        await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+          token,
+          "ReceiveLimitExceeded"
+        );
+
+        await time.increase(ONE_DAY);
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED);
+
+        expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_THOUSAND + ONE_HUNDRED);
+      });
+
+      it("Should not limit receive when transfer limitable disabled", async () => {
+        await token.setReceiveLimit(ADDR2.address, 0);
+        await token.disableTransferLimitable();
+
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND);
+
+        expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_THOUSAND);
+      });
+    });
+
+    describe("global transfer limit", () => {
+      const ONE_HUNDRED = ethers.parseEther("100");
+
+      beforeEach(async () => {
+        await registry.addAllowlist(ADDR1.address);
+        await registry.addAllowlist(ADDR2.address);
+        await token.transfer(ADDR1.address, ONE_THOUSAND);
+        await token.transfer(ADDR2.address, ONE_THOUSAND);
+      });
+
+      it("Should setGlobalTransferLimit success", async () => {
+        await expect(token.setGlobalTransferLimit(ONE_THOUSAND, ONE_DAY))
+          .to.emit(token, "SetGlobalTransferLimit")
+          .withArgs(ONE_THOUSAND, ONE_DAY);
+
+        const resetAt = BigInt((await time.latest()) + ONE_DAY);
+
+        expect(await token.globalTransferLimit()).to.deep.equal([true, ONE_THOUSAND, resetAt]);
+        expect(await token.globalTransferLimitPeriod()).to.deep.equal([ONE_THOUSAND, BigInt(ONE_DAY)]);
+      });
+
+      it("Should setGlobalTransferLimit failed when period is zero", async () => {
+        await expect(token.setGlobalTransferLimit(ONE_THOUSAND, 0)).to.be.revertedWithCustomError(
+          token,
+          "InvalidLimitPeriod"
+        );
+      });
+
+      it("Should setGlobalTransferLimit failed when global transfer limit enabled", async () => {
+        await token.setGlobalTransferLimit(ONE_THOUSAND, ONE_DAY);
+
+        await expect(token.setGlobalTransferLimit(ONE_THOUSAND, ONE_DAY)).to.be.revertedWithCustomError(
+          token,
+          "GlobalTransferLimitEnabled"
+        );
+      });
+
+      it("Should setGlobalTransferLimit failed when sender is missing the role", async () => {
+        await expect(token.connect(ADDR1).setGlobalTransferLimit(ONE_THOUSAND, ONE_DAY)).to.be.revertedWith(
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
+        );
+      });
+
+      it("Should unsetGlobalTransferLimit success", async () => {
+        await token.setGlobalTransferLimit(ONE_THOUSAND, ONE_DAY);
+
+        await expect(token.unsetGlobalTransferLimit()).to.emit(token, "UnsetGlobalTransferLimit");
+
+        expect(await token.globalTransferLimit()).to.deep.equal([false, 0n, 0n]);
+      });
+
+      it("Should unsetGlobalTransferLimit failed when global transfer limit disabled", async () => {
+        await expect(token.unsetGlobalTransferLimit()).to.be.revertedWithCustomError(
+          token,
+          "GlobalTransferLimitDisabled"
+        );
+      });
+
+      it("Should limit the total transferred volume of all accounts", async () => {
+        await token.setGlobalTransferLimit(ONE_THOUSAND, ONE_DAY);
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND - ONE_HUNDRED);
+        await token.connect(ADDR2).approve(ADDR1.address, ONE_THOUSAND);
+
+        await expect(token.connect(ADDR1).transferFrom(ADDR2.address, ADDR1.address, ONE_HUNDRED + 1n))
+          .to.be.revertedWithCustomError(token, "GlobalTransferLimitExceeded")
+          .withArgs(ONE_HUNDRED + 1n, ONE_HUNDRED);
+
+        await token.connect(ADDR1).transferFrom(ADDR2.address, ADDR1.address, ONE_HUNDRED);
+
+        await expect(token.connect(ADDR2).transfer(ADDR1.address, 1n)).to.be.revertedWithCustomError(
+          token,
+          "GlobalTransferLimitExceeded"
+        );
+      });
+
+      it("Should replenish the global transfer limit when the period has elapsed", async () => {
+        await token.setGlobalTransferLimit(ONE_THOUSAND, ONE_DAY);
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND);
+
+        await time.increase(ONE_DAY);
+        await token.connect(ADDR2).transfer(ADDR1.address, ONE_THOUSAND);
+
+        expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+      });
+    });
+  });
+
+  describe("ERC20Vestable", () => {
+    const ONE_HUNDRED = ethers.parseEther("100");
+    const CLIFF = 30 * ONE_DAY;
+    const DURATION = 100 * ONE_DAY;
+    let start: number;
+
+    beforeEach(async () => {
+      await registry.addAllowlist(ADDR1.address);
+      await registry.addAllowlist(ADDR2.address);
+      await token.transfer(ADDR1.address, ONE_THOUSAND + ONE_HUNDRED);
+
+      start = (await time.latest()) + ONE_DAY;
+    });
+
+    describe("setVestingSchedule", () => {
+      it("Should setVestingSchedule success", async () => {
+        await expect(token.setVestingSchedule(ADDR1.address, start, CLIFF, DURATION, ONE_THOUSAND))
+          .to.emit(token, "SetVestingSchedule")
+          .withArgs(ADDR1.address, start, CLIFF, DURATION, ONE_THOUSAND);
+
+        expect(await token.vestingScheduleOf(ADDR1.address)).to.deep.equal([
+          BigInt(start),
+          BigInt(CLIFF),
+          BigInt(DURATION),
+          ONE_THOUSAND,
+        ]);
+      });
+
+      it("Should setVestingSchedule failed when duration is zero", async () => {
+        await expect(token.setVestingSchedule(ADDR1.address, start, 0, 0, ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "InvalidVestingDuration"
+        );
+      });
+
+      it("Should setVestingSchedule failed when cliff exceeds duration", async () => {
+        await expect(
+          token.setVestingSchedule(ADDR1.address, start, DURATION + 1, DURATION, ONE_THOUSAND)
+        ).to.be.revertedWithCustomError(token, "VestingCliffExceedsDuration");
+      });
+
+      it("Should setVestingSchedule failed when sender is missing the role", async () => {
+        await expect(
+          token.connect(ADDR1).setVestingSchedule(ADDR1.address, start, CLIFF, DURATION, ONE_THOUSAND)
+        ).to.be.revertedWith(missingRole(ADDR1, LIMIT_MANAGER_ROLE));
+      });
+    });
+
+    describe("removeVestingSchedule", () => {
+      it("Should removeVestingSchedule unlock all tokens", async () => {
+        await token.setVestingSchedule(ADDR1.address, start, CLIFF, DURATION, ONE_THOUSAND);
+
+        await expect(token.removeVestingSchedule(ADDR1.address))
+          .to.emit(token, "RemoveVestingSchedule")
+          .withArgs(ADDR1.address);
+
+        expect(await token.lockedBalanceOf(ADDR1.address)).to.equal(0);
+      });
+
+      it("Should removeVestingSchedule failed when account has no vesting schedule", async () => {
+        await expect(token.removeVestingSchedule(ADDR1.address)).to.be.revertedWithCustomError(
+          token,
+          "NoVestingSchedule"
+        );
+      });
+
+      it("Should removeVestingSchedule failed when sender is missing the role", async () => {
+        await expect(token.connect(ADDR1).removeVestingSchedule(ADDR1.address)).to.be.revertedWith(
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
+        );
+      });
+    });
+
+    describe("lockedBalanceOf", () => {
+      beforeEach(async () => {
+        await token.setVestingSchedule(ADDR1.address, start, CLIFF, DURATION, ONE_THOUSAND);
+      });
+
+      it("Should lock all tokens before the cliff", async () => {
+        expect(await token.lockedBalanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+
+        await time.increaseTo(start + CLIFF - 1);
+
+        expect(await token.lockedBalanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+      });
+
+      it("Should unlock tokens linearly after the cliff", async () => {
+        await time.increaseTo(start + DURATION / 2);
+
+        expect(await token.lockedBalanceOf(ADDR1.address)).to.equal(ONE_THOUSAND / 2n);
+      });
+
+      it("Should unlock all tokens after the duration", async () => {
+        await time.increaseTo(start + DURATION);
+
+        expect(await token.lockedBalanceOf(ADDR1.address)).to.equal(0);
+      });
+
+      it("Should not lock tokens of accounts without vesting schedule", async () => {
+        expect(await token.lockedBalanceOf(ADDR2.address)).to.equal(0);
+      });
+    });
+
+    describe("transfer", () => {
+      beforeEach(async () => {
+        await token.setVestingSchedule(ADDR1.address, start, CLIFF, DURATION, ONE_THOUSAND);
+      });
+
+      it("Should transfer the unlocked balance", async () => {
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED);
+
+        expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
+      });
+
+      it("Should transfer failed when amount exceeds unlocked balance", async () => {
+        await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED + 1n)).to.be.revertedWithCustomError(
+          token,
+          "AmountExceedsUnlockedBalance"
+        );
+      });
+
+      it("Should transfer vested tokens after the cliff", async () => {
+        await time.increaseTo(start + DURATION / 2);
+
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED + ONE_THOUSAND / 2n);
+
+        expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND / 2n);
+      });
+
+      it("Should transferFrom failed when amount exceeds unlocked balance", async () => {
+        await token.connect(ADDR1).approve(ADDR2.address, ONE_THOUSAND);
+
+        await expect(
+          token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_THOUSAND)
+        ).to.be.revertedWithCustomError(token, "AmountExceedsUnlockedBalance");
+      });
+
+      it("Should transfer failed with balance error when amount exceeds balance", async () => {
+        await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_MILLION)).to.be.revertedWith(
+          "ERC20: transfer amount exceeds balance"
+        );
+      });
+
+      it("Should burn failed when amount exceeds unlocked balance", async () => {
+        await expect(token.connect(ADDR1).burn(ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "AmountExceedsUnlockedBalance"
+        );
+      });
+
+      it("Should burnFrom failed when amount exceeds unlocked balance", async () => {
+        await token.connect(ADDR1).approve(ADDR2.address, ONE_THOUSAND);
+
+        await expect(token.connect(ADDR2).burnFrom(ADDR1.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "AmountExceedsUnlockedBalance"
+        );
+      });
+
+      it("Should adminTransfer locked tokens", async () => {
+        await token.adminTransfer(ADDR1.address, ADDR2.address, ONE_THOUSAND, COURT_ORDER, CASE_ID);
+
+        expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_THOUSAND);
+      });
+    });
+  });
+
+  describe("ERC20Freezable", () => {
+    const ONE_HUNDRED = ethers.parseEther("100");
+
+    beforeEach(async () => {
+      await registry.addAllowlist(ADDR1.address);
+      await registry.addAllowlist(ADDR2.address);
+      await token.transfer(ADDR1.address, ONE_THOUSAND);
+      await token.connect(ADDR1).approve(ADDR2.address, ONE_THOUSAND);
+    });
+
+    describe("freeze", () => {
+      it("Should freeze an account", async () => {
+        await expect(token.freeze(ADDR1.address)).to.emit(token, "Freeze").withArgs(ADDR1.address);
+
+        expect(await token.isFrozen(ADDR1.address)).to.be.true;
+        expect(await token.availableBalanceOf(ADDR1.address)).to.equal(0);
+      });
+
+      it("Should freeze failed when account is frozen", async () => {
+        await token.freeze(ADDR1.address);
+
+        await expect(token.freeze(ADDR1.address)).to.be.revertedWithCustomError(token, "AccountFrozen");
+      });
+
+      it("Should freeze failed when sender is missing the role", async () => {
+        await expect(token.connect(ADDR1).freeze(ADDR2.address)).to.be.revertedWith(missingRole(ADDR1, FREEZER_ROLE));
+      });
+
+      it("Should unfreeze an account", async () => {
+        await token.freeze(ADDR1.address);
+
+        await expect(token.unfreeze(ADDR1.address)).to.emit(token, "Unfreeze").withArgs(ADDR1.address);
+
+        expect(await token.isFrozen(ADDR1.address)).to.be.false;
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND);
+      });
+
+      it("Should unfreeze failed when account is not frozen", async () => {
+        await expect(token.unfreeze(ADDR1.address)).to.be.revertedWithCustomError(token, "AccountNotFrozen");
+      });
+
+      describe("when account is frozen", () => {
+        beforeEach(async () => {
+          await token.freeze(ADDR1.address);
+        });
+
+        it("Should transfer failed from the account", async () => {
+          await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+            token,
+            "AccountFrozen"
+          );
+        });
+
+        it("Should transfer failed to the account", async () => {
+          await expect(token.transfer(ADDR1.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+            token,
+            "AccountFrozen"
+          );
+        });
+
+        it("Should transferFrom failed from the account", async () => {
+          await expect(
+            token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_HUNDRED)
+          ).to.be.revertedWithCustomError(token, "AccountFrozen");
+        });
+
+        it("Should transferFrom failed when the caller is frozen", async () => {
+          await registry.addAllowlist(OWNER.address);
+          await token.unfreeze(ADDR1.address);
+          await token.freeze(ADDR2.address);
+
+          await expect(
+            token.connect(ADDR2).transferFrom(ADDR1.address, OWNER.address, ONE_HUNDRED)
+          ).to.be.revertedWithCustomError(token, "AccountFrozen");
+        });
+
+        it("Should approve failed", async () => {
+          await expect(token.connect(ADDR1).approve(ADDR2.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+            token,
+            "AccountFrozen"
+          );
+          await expect(token.connect(ADDR2).approve(ADDR1.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+            token,
+            "AccountFrozen"
+          );
+        });
+
+        it("Should increase and decrease allowance failed", async () => {
+          await expect(
+            token.connect(ADDR1).increaseAllowance(ADDR2.address, ONE_HUNDRED)
+          ).to.be.revertedWithCustomError(token, "AccountFrozen");
+          await expect(
+            token.connect(ADDR1).decreaseAllowance(ADDR2.address, ONE_HUNDRED)
+          ).to.be.revertedWithCustomError(token, "AccountFrozen");
+        });
+
+        it("Should burn and burnFrom failed", async () => {
+          await expect(token.connect(ADDR1).burn(ONE_HUNDRED)).to.be.revertedWithCustomError(token, "AccountFrozen");
+          await expect(token.connect(ADDR2).burnFrom(ADDR1.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+            token,
+            "AccountFrozen"
+          );
+        });
+
+        it("Should let other accounts keep trading", async () => {
+          await token.transfer(ADDR2.address, ONE_HUNDRED);
+
+          expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
+        });
+
+        it("Should adminTransfer tokens of the account", async () => {
+          await token.adminTransfer(ADDR1.address, ADDR2.address, ONE_HUNDRED, COURT_ORDER, CASE_ID);
+
+          expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
+        });
+      });
+    });
+
+    describe("freezeAmount", () => {
+      it("Should freeze an amount of the account", async () => {
+        await expect(token.freezeAmount(ADDR1.address, ONE_HUNDRED))
+          .to.emit(token, "FreezeAmount")
+          .withArgs(ADDR1.address, ONE_HUNDRED);
+
+        expect(await token.frozenAmountOf(ADDR1.address)).to.equal(ONE_HUNDRED);
+        expect(await token.availableBalanceOf(ADDR1.address)).to.equal(ONE_THOUSAND - ONE_HUNDRED);
+      });
+
+      it("Should freezeAmount failed when sender is missing the role", async () => {
+        await expect(token.connect(ADDR1).freezeAmount(ADDR1.address, 0)).to.be.revertedWith(
+          missingRole(ADDR1, FREEZER_ROLE)
+        );
+      });
+
+      it("Should transfer the available balance", async () => {
+        await token.freezeAmount(ADDR1.address, ONE_HUNDRED);
+
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND - ONE_HUNDRED);
+
+        expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_HUNDRED);
+      });
+
+      it("Should transfer and transferFrom failed when amount exceeds available balance", async () => {
+        await token.freezeAmount(ADDR1.address, ONE_HUNDRED);
+
+        await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "AmountExceedsAvailableBalance"
+        );
+        await expect(
+          token.connect(ADDR2).transferFrom(ADDR1.address, ADDR2.address, ONE_THOUSAND)
+        ).to.be.revertedWithCustomError(token, "AmountExceedsAvailableBalance");
+      });
+
+      it("Should burn failed when amount exceeds available balance", async () => {
+        await token.freezeAmount(ADDR1.address, ONE_HUNDRED);
+
+        await expect(token.connect(ADDR1).burn(ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "AmountExceedsAvailableBalance"
+        );
+      });
+
+      it("Should unfreeze the amount when set to zero", async () => {
+        await token.freezeAmount(ADDR1.address, ONE_HUNDRED);
+        await token.freezeAmount(ADDR1.address, 0);
+
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND);
+      });
+
+      it("Should exclude the locked balance from the available balance", async () => {
+        const start = (await time.latest()) + ONE_DAY;
+        await token.setVestingSchedule(ADDR1.address, start, ONE_DAY, ONE_DAY * 10, ONE_HUNDRED * 5n);
+        await token.freezeAmount(ADDR1.address, ONE_HUNDRED);
+
+        expect(await token.availableBalanceOf(ADDR1.address)).to.equal(ONE_HUNDRED * 5n);
+
+        await token.freezeAmount(ADDR1.address, ONE_HUNDRED * 6n);
+
+        expect(await token.availableBalanceOf(ADDR1.address)).to.equal(ONE_HUNDRED * 4n);
+      });
+    });
+  });
+
+  describe("ERC20HoldingLimitable", () => {
+    const ONE_HUNDRED = ethers.parseEther("100");
+    const RETAIL = 1;
+
+    beforeEach(async () => {
+      await registry.setAllowlist(ADDR1.address, 0, RETAIL, "0x5448");
+      await registry.addAllowlist(ADDR2.address);
+    });
+
+    describe("holderCount", () => {
+      it("Should count the holders on mint, transfer and burn", async () => {
+        expect(await token.holderCount()).to.equal(1);
+
+        await token.transfer(ADDR1.address, ONE_HUNDRED);
+        expect(await token.holderCount()).to.equal(2);
+
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED);
+        expect(await token.holderCount()).to.equal(2);
+
+        await token.connect(ADDR2).burn(ONE_HUNDRED);
+        expect(await token.holderCount()).to.equal(1);
+
+        await token.mintTo(ADDR2.address, ONE_HUNDRED);
+        expect(await token.holderCount()).to.equal(2);
+
+        await token.adminBurn(ADDR2.address, ONE_HUNDRED, COURT_ORDER, CASE_ID);
+        expect(await token.holderCount()).to.equal(1);
+      });
+    });
+
+    describe("setMaxHolderCount", () => {
+      it("Should set max holder count", async () => {
+        await expect(token.setMaxHolderCount(2)).to.emit(token, "SetMaxHolderCount").withArgs(2);
+
+        expect(await token.maxHolderCount()).to.equal(2);
+      });
+
+      it("Should transfer failed when holder count exceeds limit", async () => {
+        await token.setMaxHolderCount(2);
+        await token.transfer(ADDR1.address, ONE_HUNDRED);
+
+        await expect(token.transfer(ADDR2.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+          token,
+          "MaxHolderCountExceeded"
+        );
+        await expect(token.mintTo(ADDR2.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+          token,
+          "MaxHolderCountExceeded"
+        );
+      });
+
+      it("Should transfer the whole balance to a new holder at the limit", async () => {
+        await token.setMaxHolderCount(2);
+        await token.transfer(ADDR1.address, ONE_HUNDRED);
+
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED);
+
+        expect(await token.holderCount()).to.equal(2);
+      });
+
+      it("Should setMaxHolderCount failed when below holder count", async () => {
+        await token.transfer(ADDR1.address, ONE_HUNDRED);
+
+        await expect(token.setMaxHolderCount(1)).to.be.revertedWithCustomError(token, "MaxHolderCountBelowHolderCount");
+      });
+
+      it("Should setMaxHolderCount failed when sender is missing the role", async () => {
+        await expect(token.connect(ADDR1).setMaxHolderCount(2)).to.be.revertedWith(
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
+        );
+      });
+    });
+
+    describe("setMaxBalance", () => {
+      it("Should set max balance of an account", async () => {
+        await expect(token.setMaxBalance(ADDR2.address, ONE_HUNDRED))
+          .to.emit(token, "SetMaxBalance")
+          .withArgs(ADDR2.address, ONE_HUNDRED);
+
+        expect(await token.maxBalanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
+      });
+
+      it("Should transfer failed when balance exceeds limit", async () => {
+        await token.setMaxBalance(ADDR2.address, ONE_HUNDRED);
+        await token.transfer(ADDR2.address, ONE_HUNDRED);
+
+        await expect(token.transfer(ADDR2.address, 1)).to.be.revertedWithCustomError(token, "MaxBalanceExceeded");
+        await expect(
+          token.adminTransfer(OWNER.address, ADDR2.address, 1, COURT_ORDER, CASE_ID)
+        ).to.be.revertedWithCustomError(token, "MaxBalanceExceeded");
+      });
+
+      it("Should setMaxBalance failed when sender is missing the role", async () => {
+        await expect(token.connect(ADDR1).setMaxBalance(ADDR1.address, ONE_HUNDRED)).to.be.revertedWith(
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
+        );
+      });
+    });
+
+    describe("setTierMaxBalance", () => {
+      it("Should cap the balance of the accounts of a tier", async () => {
+        await expect(token.setTierMaxBalance(RETAIL, ONE_HUNDRED))
+          .to.emit(token, "SetTierMaxBalance")
+          .withArgs(RETAIL, ONE_HUNDRED);
+
+        expect(await token.tierMaxBalance(RETAIL)).to.equal(ONE_HUNDRED);
+        expect(await token.maxBalanceOf(ADDR1.address)).to.equal(ONE_HUNDRED);
+        expect(await token.maxBalanceOf(ADDR2.address)).to.equal(0);
+
+        await expect(token.transfer(ADDR1.address, ONE_HUNDRED + 1n)).to.be.revertedWithCustomError(
+          token,
+          "MaxBalanceExceeded"
+        );
+        await token.transfer(ADDR2.address, ONE_HUNDRED + 1n);
+      });
+
+      it("Should prefer the max balance of the account over its tier", async () => {
+        await token.setTierMaxBalance(RETAIL, ONE_HUNDRED);
+        await token.setMaxBalance(ADDR1.address, ONE_THOUSAND);
+
+        await token.transfer(ADDR1.address, ONE_THOUSAND);
+
+        expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+      });
+
+      it("Should setTierMaxBalance failed when sender is missing the role", async () => {
+        await expect(token.connect(ADDR1).setTierMaxBalance(RETAIL, ONE_HUNDRED)).to.be.revertedWith(
+          missingRole(ADDR1, LIMIT_MANAGER_ROLE)
+        );
+      });
+    });
+  });
+
+  describe("ERC20Compliance", () => {
+    const ONE_HUNDRED = ethers.parseEther("100");
+    let denylist: any;
+
+    beforeEach(async () => {
+      const Denylist = await ethers.getContractFactory("DenylistModule");
+      denylist = await Denylist.deploy();
+
+      await registry.addAllowlistBatch([OWNER.address, ADDR1.address, ADDR2.address]);
+      await token.transfer(ADDR1.address, ONE_THOUSAND);
+    });
+
+    describe("addComplianceModule", () => {
+      it("Should add compliance module", async () => {
+        await expect(token.addComplianceModule(await denylist.getAddress()))
+          .to.emit(token, "ComplianceModuleAdded")
+          .withArgs(await denylist.getAddress());
+
+        expect(await token.complianceModules()).to.deep.equal([await denylist.getAddress()]);
+      });
+
+      it("Should addComplianceModule failed when module is already added", async () => {
+        await token.addComplianceModule(await denylist.getAddress());
+
+        await expect(token.addComplianceModule(await denylist.getAddress())).to.be.revertedWithCustomError(
+          token,
+          "ComplianceModuleAlreadyAdded"
+        );
+      });
+
+      it("Should addComplianceModule failed when module is zero address", async () => {
+        await expect(token.addComplianceModule(ZERO_ADDRESS)).to.be.revertedWithCustomError(
+          token,
+          "InvalidComplianceModule"
+        );
+      });
+
+      it("Should addComplianceModule failed when sender is missing the role", async () => {
+        await expect(token.connect(ADDR1).addComplianceModule(await denylist.getAddress())).to.be.revertedWith(
+          missingRole(ADDR1, DEFAULT_ADMIN_ROLE)
+        );
+      });
+    });
+
+    describe("removeComplianceModule", () => {
+      it("Should remove compliance module and keep the order of the others", async () => {
+        const Denylist = await ethers.getContractFactory("DenylistModule");
+        const modules = [denylist, await Denylist.deploy(), await Denylist.deploy()];
+        const addresses = await Promise.all(modules.map((module) => module.getAddress()));
+        for (const address of addresses) {
+          await token.addComplianceModule(address);
+        }
+
+        await expect(token.removeComplianceModule(addresses[0]))
+          .to.emit(token, "ComplianceModuleRemoved")
+          .withArgs(addresses[0]);
+
+        expect(await token.complianceModules()).to.deep.equal([addresses[1], addresses[2]]);
+      });
+
+      it("Should removeComplianceModule failed when module is not added", async () => {
+        await expect(token.removeComplianceModule(await denylist.getAddress())).to.be.revertedWithCustomError(
+          token,
+          "ComplianceModuleNotAdded"
+        );
+      });
+
+      it("Should removeComplianceModule failed when sender is missing the role", async () => {
+        await expect(token.connect(ADDR1).removeComplianceModule(await denylist.getAddress())).to.be.revertedWith(
+          missingRole(ADDR1, DEFAULT_ADMIN_ROLE)
+        );
+      });
+    });
+
+    describe("canTransfer", () => {
+      it("Should check the allowlist and the compliance modules", async () => {
+        await token.addComplianceModule(await denylist.getAddress());
+
+        expect(await token.canTransfer(ADDR1.address, ADDR2.address, ADDR1.address, ONE_HUNDRED)).to.be.true;
+
+        await denylist.setDenylist(ADDR2.address, true);
+        expect(await token.canTransfer(ADDR1.address, ADDR2.address, ADDR1.address, ONE_HUNDRED)).to.be.false;
+
+        await registry.removeAllowlist(ADDR2.address);
+        await denylist.setDenylist(ADDR2.address, false);
+        expect(await token.canTransfer(ADDR1.address, ADDR2.address, ADDR1.address, ONE_HUNDRED)).to.be.false;
+      });
+
+      it("Should skip the allowlist when operator has the bypass role", async () => {
+        await registry.removeAllowlist(OWNER.address);
+        await registry.removeAllowlist(ADDR2.address);
+
+        expect(await token.canTransfer(OWNER.address, ADDR2.address, OWNER.address, ONE_HUNDRED)).to.be.true;
+      });
+    });
+
+    describe("transfer", () => {
+      it("Should transfer failed when a compliance module does not allow it", async () => {
+        await token.addComplianceModule(await denylist.getAddress());
+        await denylist.setDenylist(ADDR2.address, true);
+
+        await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+          token,
+          "TransferNotCompliant"
+        );
+
+        await token.connect(ADDR1).approve(OWNER.address, ONE_HUNDRED);
+        await expect(token.transferFrom(ADDR1.address, ADDR2.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+          token,
+          "TransferNotCompliant"
+        );
+      });
+
+      it("Should mintTo failed when a compliance module does not allow it", async () => {
+        await token.addComplianceModule(await denylist.getAddress());
+        await denylist.setDenylist(ADDR2.address, true);
+
+        await expect(token.mintTo(ADDR2.address, ONE_HUNDRED))
+          .to.be.revertedWithCustomError(token, "TransferNotCompliant")
+          .withArgs(ZERO_ADDRESS, ADDR2.address, OWNER.address, ONE_HUNDRED);
+        await expect(token.mintToMany([ADDR1.address, ADDR2.address], [ONE_HUNDRED, ONE_HUNDRED]))
+          .to.be.revertedWithCustomError(token, "TransferNotCompliant")
+          .withArgs(ZERO_ADDRESS, ADDR2.address, OWNER.address, ONE_HUNDRED);
+
+        await token.mintTo(ADDR1.address, ONE_HUNDRED);
+      });
+
+      it("Should transfer when the compliance module is removed", async () => {
+        await token.addComplianceModule(await denylist.getAddress());
+        await denylist.setDenylist(ADDR2.address, true);
+        await token.removeComplianceModule(await denylist.getAddress());
+
+        await token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED);
+
+        expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
+      });
+    });
+  });
+
+  describe("ERC20Snapshot", () => {
+    beforeEach(async () => {
+      await registry.addAllowlist(ADDR1.address);
+      await registry.addAllowlist(ADDR2.address);
+      await token.transfer(ADDR1.address, ONE_THOUSAND);
+    });
+
+    it("Should snapshot emit the snapshot id", async () => {
+      await expect(token.snapshot()).to.emit(token, "Snapshot").withArgs(1);
+      await expect(token.snapshot()).to.emit(token, "Snapshot").withArgs(2);
+    });
+
+    it("Should snapshot failed when sender is missing the role", async () => {
+      await expect(token.connect(ADDR1).snapshot()).to.be.revertedWith(missingRole(ADDR1, SNAPSHOT_ROLE));
+    });
+
+    it("Should keep the balances and total supply at the snapshot", async () => {
+      await token.snapshot();
+
+      await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND);
+      await token.mint(ONE_THOUSAND);
+
+      expect(await token.balanceOfAt(ADDR1.address, 1)).to.equal(ONE_THOUSAND);
+      expect(await token.balanceOfAt(ADDR2.address, 1)).to.equal(0);
+      expect(await token.totalSupplyAt(1)).to.equal(ONE_MILLION);
+      expect(await token.totalSupply()).to.equal(ONE_MILLION + ONE_THOUSAND);
+    });
+
+    it("Should keep the balances at the snapshot on adminTransfer and adminBurn", async () => {
+      await token.snapshot();
+
+      await token.adminTransfer(ADDR1.address, ADDR2.address, ONE_THOUSAND / 2n, COURT_ORDER, CASE_ID);
+      await token.adminBurn(ADDR2.address, ONE_THOUSAND / 2n, COURT_ORDER, CASE_ID);
+
+      expect(await token.balanceOfAt(ADDR1.address, 1)).to.equal(ONE_THOUSAND);
+      expect(await token.balanceOfAt(ADDR2.address, 1)).to.equal(0);
+      expect(await token.totalSupplyAt(1)).to.equal(ONE_MILLION);
+      expect(await token.totalSupply()).to.equal(ONE_MILLION - ONE_THOUSAND / 2n);
+    });
+
+    it("Should balanceOfAt failed when snapshot does not exist", async () => {
+      await expect(token.balanceOfAt(ADDR1.address, 1)).to.be.revertedWith("ERC20Snapshot: nonexistent id");
+    });
+  });
+
+  describe("ERC20AllowListableProxy", () => {
+    describe("setAllowlistRegistry", () => {
+      it("Should setAllowlistRegistry", async () => {
+        const Registry = await ethers.getContractFactory("AllowlistRegistry");
+        const registry = await Registry.deploy();
+        const registryAddr = await registry.getAddress();
+
+        await token.setAllowlistRegistry(registryAddr);
+        expect(await token.allowlistRegistry()).to.equal(registryAddr);
+      });
+
+      it("Should setAllowlistRegistry failed when the address is not a registry", async () => {
+        const tokenAddr = await token.getAddress();
+
+        await expect(token.setAllowlistRegistry(ADDR1.address))
+          .to.be.revertedWithCustomError(token, "InvalidAllowlistRegistry")
+          .withArgs(ADDR1.address);
+        await expect(token.setAllowlistRegistry(tokenAddr))
+          .to.be.revertedWithCustomError(token, "InvalidAllowlistRegistry")
+          .withArgs(tokenAddr);
+        await expect(token.setAllowlistRegistry(ZERO_ADDRESS))
+          .to.be.revertedWithCustomError(token, "InvalidAllowlistRegistry")
+          .withArgs(ZERO_ADDRESS);
+      });
+
+      it("Should setAllowlistRegistry failed when sender is missing the role", async () => {
+        const Registry = await ethers.getContractFactory("AllowlistRegistry");
+        const registry = await Registry.deploy();
+        const registryAddr = await registry.getAddress();
+
+        await expect(token.connect(ADDR1).setAllowlistRegistry(registryAddr)).to.be.revertedWith(
+          missingRole(ADDR1, REGISTRY_ADMIN_ROLE)
+        );
+      });
+    });
+
+    describe("isAllowlist", () => {
+      it("Should not allowlist account after its registry entry has expired", async () => {
+        const expiresAt = (await time.latest()) + ONE_DAY;
+        await registry.setAllowlist(ADDR1.address, expiresAt, 1, "0x5448");
+        await registry.addAllowlist(ADDR2.address);
+        await token.transfer(ADDR1.address, ONE_THOUSAND);
+
+        await time.increaseTo(expiresAt);
+
+        expect(await token.isAllowlist(ADDR1.address)).to.be.false;
+        await expect(token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND)).to.be.revertedWithCustomError(
+          token,
+          "NotAllowlisted"
+        );
+      });
+    });
+  });
+
+  describe("Pausable", () => {
+    it("Should pause contract", async () => {
+      await token.pause();
+
+      expect(await token.paused()).to.be.true;
+    });
+
+    it("Should unpause contract", async () => {
+      await token.pause();
+      await token.unpause();
+
+      expect(await token.paused()).to.be.false;
+    });
+
+    it("Should unpause contract failed when contract is not paused", async () => {
+      await expect(token.unpause()).to.be.revertedWith("Pausable: not paused");
+    });
+
+    it("Should pause contract failed when contract is paused", async () => {
+      await token.pause();
+
+      await expect(token.pause()).to.be.revertedWith("Pausable: paused");
+    });
+
+    it("Should transfer, approve and burn failed when contract is paused", async () => {
+      await token.pause();
+
+      await expect(token.transfer(ADDR1.address, ONE_THOUSAND)).to.be.revertedWithCustomError(token, "TokenPaused");
+      await expect(token.approve(ADDR1.address, ONE_THOUSAND)).to.be.revertedWithCustomError(token, "TokenPaused");
+      await expect(token.burn(ONE_THOUSAND)).to.be.revertedWithCustomError(token, "TokenPaused");
+    });
+
+    it("Should pause contract failed when sender is missing the role", async () => {
+      await expect(token.connect(ADDR1).pause()).to.be.revertedWith(missingRole(ADDR1, PAUSER_ROLE));
+    });
+
+    it("Should unpause contract failed when sender is missing the role", async () => {
+      await expect(token.connect(ADDR1).unpause()).to.be.revertedWith(missingRole(ADDR1, PAUSER_ROLE));
+    });
+  });
+
+  describe("AccessControl", () => {
+    it("Should grant all roles to the deployer", async () => {
+      const roles = [
+        DEFAULT_ADMIN_ROLE,
+        MINTER_ROLE,
+        PAUSER_ROLE,
+        LIMIT_MANAGER_ROLE,
+        COMPLIANCE_ROLE,
+        FREEZER_ROLE,
+        REGISTRY_ADMIN_ROLE,
+        ALLOWLIST_BYPASS_ROLE,
+      ];
+
+      for (const role of roles) {
+        expect(await token.hasRole(role, OWNER.address)).to.be.true;
+      }
+    });
+
+    it("Should mint by the minter only", async () => {
+      await token.grantRole(MINTER_ROLE, ADDR1.address);
+
+      await token.connect(ADDR1).mint(ONE_THOUSAND);
+
+      expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+      await expect(token.connect(ADDR1).pause()).to.be.revertedWith(missingRole(ADDR1, PAUSER_ROLE));
+      await expect(token.connect(ADDR1).renounceMintable()).to.be.revertedWith(missingRole(ADDR1, DEFAULT_ADMIN_ROLE));
+    });
+
+    it("Should pause by the pauser only", async () => {
+      await token.grantRole(PAUSER_ROLE, ADDR1.address);
+
+      await token.connect(ADDR1).pause();
+      expect(await token.paused()).to.be.true;
+
+      await token.connect(ADDR1).unpause();
+      expect(await token.paused()).to.be.false;
+
+      await expect(token.connect(ADDR1).mint(ONE_THOUSAND)).to.be.revertedWith(missingRole(ADDR1, MINTER_ROLE));
+    });
+
+    it("Should manage transfer limits by the limit manager only", async () => {
+      await token.grantRole(LIMIT_MANAGER_ROLE, ADDR1.address);
+
+      await token.connect(ADDR1).setTransferLimit(ADDR2.address, ONE_THOUSAND);
+      await token.connect(ADDR1).disableTransferLimitable();
+
+      expect(await token.transferLimitOf(ADDR2.address)).to.deep.equal([true, ONE_THOUSAND, 0n]);
+      expect(await token.transferLimitable()).to.be.false;
+      await expect(
+        token.connect(ADDR1).adminBurn(OWNER.address, ONE_THOUSAND, COURT_ORDER, CASE_ID)
+      ).to.be.revertedWith(missingRole(ADDR1, COMPLIANCE_ROLE));
+    });
+
+    it("Should adminTransfer and adminBurn by the compliance officer only", async () => {
+      await token.grantRole(COMPLIANCE_ROLE, ADDR1.address);
+
+      await token.connect(ADDR1).adminTransfer(OWNER.address, ADDR2.address, ONE_THOUSAND, COURT_ORDER, CASE_ID);
+      await token.connect(ADDR1).adminBurn(ADDR2.address, ONE_THOUSAND, COURT_ORDER, CASE_ID);
+
+      expect(await token.balanceOf(ADDR2.address)).to.equal(0);
+      expect(await token.totalSupply()).to.equal(ONE_MILLION - ONE_THOUSAND);
+      await expect(token.connect(ADDR1).setTransferLimit(ADDR2.address, ONE_THOUSAND)).to.be.revertedWith(
+        missingRole(ADDR1, LIMIT_MANAGER_ROLE)
+      );
+      await expect(token.connect(ADDR1).freeze(ADDR2.address)).to.be.revertedWith(missingRole(ADDR1, FREEZER_ROLE));
+    });
+
+    it("Should freeze and unfreeze by the freezer only", async () => {
+      await token.grantRole(FREEZER_ROLE, ADDR1.address);
+
+      await token.connect(ADDR1).freeze(ADDR2.address);
+      await token.connect(ADDR1).freezeAmount(OWNER.address, ONE_THOUSAND);
+      await token.connect(ADDR1).unfreeze(ADDR2.address);
+
+      expect(await token.isFrozen(ADDR2.address)).to.be.false;
+      expect(await token.frozenAmountOf(OWNER.address)).to.equal(ONE_THOUSAND);
+      await expect(
+        token.connect(ADDR1).adminBurn(OWNER.address, ONE_THOUSAND, COURT_ORDER, CASE_ID)
+      ).to.be.revertedWith(missingRole(ADDR1, COMPLIANCE_ROLE));
+    });
+
+    it("Should setAllowlistRegistry by the registry admin only", async () => {
+      const Registry = await ethers.getContractFactory("AllowlistRegistry");
+      const newRegistry = await Registry.deploy();
+      const newRegistryAddr = await newRegistry.getAddress();
+      await token.grantRole(REGISTRY_ADMIN_ROLE, ADDR1.address);
+
+      await token.connect(ADDR1).setAllowlistRegistry(newRegistryAddr);
+
+      expect(await token.allowlistRegistry()).to.equal(newRegistryAddr);
+      await expect(token.connect(ADDR1).setTreasury(newRegistryAddr)).to.be.revertedWith(
+        missingRole(ADDR1, DEFAULT_ADMIN_ROLE)
+      );
+    });
+
+    it("Should transfer to non-allowlisted account by the allowlist bypass holder", async () => {
+      await token.transfer(ADDR1.address, ONE_THOUSAND);
+      await token.grantRole(ALLOWLIST_BYPASS_ROLE, ADDR1.address);
+
+      await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND);
+
+      expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_THOUSAND);
+    });
+
+    it("Should transfer failed when the allowlist bypass role is revoked", async () => {
+      await token.revokeRole(ALLOWLIST_BYPASS_ROLE, OWNER.address);
+
+      await expect(token.transfer(ADDR1.address, ONE_THOUSAND)).to.be.revertedWithCustomError(token, "NotAllowlisted");
+    });
+
+    it("Should grantRole failed when sender is missing the admin role", async () => {
+      await token.grantRole(MINTER_ROLE, ADDR1.address);
+
+      await expect(token.connect(ADDR1).grantRole(MINTER_ROLE, ADDR2.address)).to.be.revertedWith(
+        missingRole(ADDR1, DEFAULT_ADMIN_ROLE)
+      );
+    });
+
+    describe("transferAdmin", () => {
+      it("Should transfer the admin role once accepted by the new admin", async () => {
+        await expect(token.transferAdmin(ADDR1.address))
+          .to.emit(token, "AdminTransferStarted")
+          .withArgs(OWNER.address, ADDR1.address);
+
+        expect(await token.pendingAdmin()).to.equal(ADDR1.address);
+        expect(await token.hasRole(DEFAULT_ADMIN_ROLE, ADDR1.address)).to.be.false;
+
+        await expect(token.connect(ADDR1).acceptAdmin())
+          .to.emit(token, "RoleGranted")
+          .withArgs(DEFAULT_ADMIN_ROLE, ADDR1.address, ADDR1.address)
+          .and.to.emit(token, "RoleRevoked")
+          .withArgs(DEFAULT_ADMIN_ROLE, OWNER.address, ADDR1.address);
+
+        expect(await token.pendingAdmin()).to.equal(ZERO_ADDRESS);
+        expect(await token.hasRole(DEFAULT_ADMIN_ROLE, ADDR1.address)).to.be.true;
+        expect(await token.hasRole(DEFAULT_ADMIN_ROLE, OWNER.address)).to.be.false;
+        expect(await token.hasRole(MINTER_ROLE, OWNER.address)).to.be.true;
+      });
+
+      it("Should cancel the transfer with the zero address", async () => {
+        await token.transferAdmin(ADDR1.address);
+        await token.transferAdmin(ZERO_ADDRESS);
+
+        expect(await token.pendingAdmin()).to.equal(ZERO_ADDRESS);
+        await expect(token.connect(ADDR1).acceptAdmin())
+          .to.be.revertedWithCustomError(token, "CallerNotPendingAdmin")
+          .withArgs(ADDR1.address);
+      });
+
+      it("Should acceptAdmin failed when the previous admin no longer has the admin role", async () => {
+        await token.transferAdmin(ADDR1.address);
+        await token.renounceRole(DEFAULT_ADMIN_ROLE, OWNER.address);
+
+        await expect(token.connect(ADDR1).acceptAdmin())
+          .to.be.revertedWithCustomError(token, "AdminTransferRevoked")
+          .withArgs(OWNER.address);
+        expect(await token.hasRole(DEFAULT_ADMIN_ROLE, ADDR1.address)).to.be.false;
+      });
+
+      it("Should grantRole failed with the admin role", async () => {
+        await expect(token.grantRole(DEFAULT_ADMIN_ROLE, ADDR1.address)).to.be.revertedWithCustomError(
+          token,
+          "AdminRoleNotGrantable"
+        );
+        expect(await token.hasRole(DEFAULT_ADMIN_ROLE, ADDR1.address)).to.be.false;
+      });
+
+      it("Should acceptAdmin failed when caller is not the pending admin", async () => {
+        await token.transferAdmin(ADDR1.address);
+
+        await expect(token.connect(ADDR2).acceptAdmin())
+          .to.be.revertedWithCustomError(token, "CallerNotPendingAdmin")
+          .withArgs(ADDR2.address);
+        expect(await token.hasRole(DEFAULT_ADMIN_ROLE, OWNER.address)).to.be.true;
+      });
+
+      it("Should transferAdmin failed when sender is missing the admin role", async () => {
+        await expect(token.connect(ADDR1).transferAdmin(ADDR1.address)).to.be.revertedWith(
+          missingRole(ADDR1, DEFAULT_ADMIN_ROLE)
+        );
+      });
+    });
+  });
+
+  describe("EmergencyWithdrawable", () => {
+    let randomToken: any;
+    let tokenAddr: string;
+    let registryAddr: string;
+    let randomTokenAddr: string;
+
+    beforeEach(async () => {
+      const RandomToken = await ethers.getContractFactory("InvestmentTokenM");
+
+      tokenAddr = await token.getAddress();
+      registryAddr = await registry.getAddress();
+
+      randomToken = await RandomToken.deploy("Random Token", "RAND", registryAddr);
+      randomTokenAddr = await randomToken.getAddress();
+      await randomToken.mint(ONE_MILLION);
+      await randomToken.transfer(tokenAddr, ONE_MILLION);
+
+      await registry.addAllowlist(ADDR2.address);
+      await registry.addAllowlist(tokenAddr);
+      await token.setTreasury(ADDR2.address);
+    });
+
+    it("Should set the treasury", async () => {
+      await expect(token.setTreasury(ADDR1.address))
+        .to.emit(token, "TreasuryChanged")
+        .withArgs(ADDR2.address, ADDR1.address);
+
+      expect(await token.treasury()).to.equal(ADDR1.address);
+    });
+
+    it("Should set the treasury failed with the zero address", async () => {
+      await expect(token.setTreasury(ZERO_ADDRESS))
+        .to.be.revertedWithCustomError(token, "InvalidTreasury")
+        .withArgs(ZERO_ADDRESS);
+    });
+
+    it("Should withdraw failed when the treasury is not set", async () => {
+      const Token = await ethers.getContractFactory("InvestmentTokenM");
+      const other = await Token.deploy("Other Token", "OTK", registryAddr);
+
+      expect(await other.treasury()).to.equal(ZERO_ADDRESS);
+      await expect(other.emergencyWithdraw(ERC20, randomTokenAddr, 0, ONE_THOUSAND))
+        .to.be.revertedWithCustomError(other, "InvalidTreasury")
+        .withArgs(ZERO_ADDRESS);
+    });
+
+    it("Should withdraw ERC20 tokens to the treasury", async () => {
+      await expect(token.emergencyWithdraw(ERC20, randomTokenAddr, 0, ONE_MILLION))
+        .to.emit(token, "EmergencyWithdraw")
+        .withArgs(ERC20, randomTokenAddr, ADDR2.address, 0, ONE_MILLION);
+
+      expect(await randomToken.balanceOf(tokenAddr)).to.equal(0);
+      expect(await randomToken.balanceOf(ADDR2.address)).to.equal(ONE_MILLION);
+      expect(await randomToken.balanceOf(OWNER.address)).to.equal(0);
+    });
+
+    it("Should withdraw part of the ERC20 tokens", async () => {
+      await token.emergencyWithdraw(ERC20, randomTokenAddr, 0, ONE_THOUSAND);
+
+      expect(await randomToken.balanceOf(tokenAddr)).to.equal(ONE_MILLION - ONE_THOUSAND);
+      expect(await randomToken.balanceOf(ADDR2.address)).to.equal(ONE_THOUSAND);
+    });
+
+    it("Should withdraw ERC20 tokens failed with zero amount", async () => {
+      await expect(token.emergencyWithdraw(ERC20, randomTokenAddr, 0, 0)).to.be.revertedWithCustomError(
+        token,
+        "OutOfBalance"
+      );
+    });
+
+    it("Should withdraw ERC20 tokens failed when the amount exceeds the balance", async () => {
+      await expect(token.emergencyWithdraw(ERC20, randomTokenAddr, 0, ONE_MILLION + 1n))
+        .to.be.revertedWithCustomError(token, "EmergencyWithdrawFailed")
+        .withArgs(randomTokenAddr);
+    });
+
+    it("Should withdraw ERC20 tokens failed with non-ERC20 address", async () => {
+      await expect(token.emergencyWithdraw(ERC20, ADDR1.address, 0, ONE_THOUSAND))
+        .to.be.revertedWithCustomError(token, "EmergencyWithdrawFailed")
+        .withArgs(ADDR1.address);
+    });
+
+    it("Should withdraw failed with the token itself", async () => {
+      await registry.addAllowlist(OWNER.address);
+      await token.transfer(tokenAddr, ONE_THOUSAND);
+
+      await expect(token.emergencyWithdraw(ERC20, tokenAddr, 0, ONE_THOUSAND))
+        .to.be.revertedWithCustomError(token, "CustodiedToken")
+        .withArgs(tokenAddr);
+      expect(await token.balanceOf(tokenAddr)).to.equal(ONE_THOUSAND);
+    });
+
+    it("Should receive Ether and withdraw it to the treasury", async () => {
+      await OWNER.sendTransaction({ to: tokenAddr, value: ONE_THOUSAND });
+      expect(await ethers.provider.getBalance(tokenAddr)).to.equal(ONE_THOUSAND);
+
+      await expect(token.emergencyWithdraw(ETHER, ZERO_ADDRESS, 0, ONE_THOUSAND)).to.changeEtherBalances(
+        [tokenAddr, ADDR2.address],
+        [-ONE_THOUSAND, ONE_THOUSAND]
+      );
+    });
+
+    it("Should withdraw Ether to the treasury", async () => {
+      await ethers.provider.send("hardhat_setBalance", [tokenAddr, ethers.toQuantity(ONE_THOUSAND)]);
+      const balance = await ethers.provider.getBalance(ADDR2.address);
+
+      await expect(token.emergencyWithdraw(ETHER, ZERO_ADDRESS, 0, ONE_THOUSAND - 1n))
+        .to.emit(token, "EmergencyWithdraw")
+        .withArgs(ETHER, ZERO_ADDRESS, ADDR2.address, 0, ONE_THOUSAND - 1n);
+
+      expect(await ethers.provider.getBalance(tokenAddr)).to.equal(1);
+      expect(await ethers.provider.getBalance(ADDR2.address)).to.equal(balance + ONE_THOUSAND - 1n);
+    });
+
+    it("Should withdraw Ether failed when the amount exceeds the balance", async () => {
+      await ethers.provider.send("hardhat_setBalance", [tokenAddr, ethers.toQuantity(ONE_THOUSAND)]);
+
+      await expect(token.emergencyWithdraw(ETHER, ZERO_ADDRESS, 0, ONE_THOUSAND + 1n)).to.be.revertedWithCustomError(
+        token,
+        "OutOfBalance"
+      );
+    });
+
+    it("Should withdraw Ether failed when the treasury rejects it", async () => {
+      await ethers.provider.send("hardhat_setBalance", [tokenAddr, ethers.toQuantity(ONE_THOUSAND)]);
+      await token.setTreasury(registryAddr);
+
+      await expect(token.emergencyWithdraw(ETHER, ZERO_ADDRESS, 0, ONE_THOUSAND))
+        .to.be.revertedWithCustomError(token, "EmergencyWithdrawFailed")
+        .withArgs(ZERO_ADDRESS);
+    });
+
+    it("Should withdraw ERC721 tokens to the treasury", async () => {
+      const NFT = await ethers.getContractFactory("ERC721Mock");
+      const nft: any = await NFT.deploy();
+      const nftAddr = await nft.getAddress();
+      await nft.mint(tokenAddr, 0);
+      await nft.mint(tokenAddr, 1);
+
+      await expect(token.emergencyWithdraw(ERC721, nftAddr, 1, 1))
+        .to.emit(token, "EmergencyWithdraw")
+        .withArgs(ERC721, nftAddr, ADDR2.address, 1, 1);
+
+      expect(await nft.ownerOf(0)).to.equal(tokenAddr);
+      expect(await nft.ownerOf(1)).to.equal(ADDR2.address);
+      await expect(token.emergencyWithdraw(ERC721, nftAddr, 2, 1))
+        .to.be.revertedWithCustomError(token, "EmergencyWithdrawFailed")
+        .withArgs(nftAddr);
+    });
+
+    it("Should withdraw ERC1155 tokens to the treasury", async () => {
+      // The token rejects ERC1155 transfers, so they are minted to its address before it is deployed.
+      const Token = await ethers.getContractFactory("InvestmentTokenM");
+      const MultiToken = await ethers.getContractFactory("ERC1155Mock");
+      const multiToken: any = await MultiToken.deploy();
+      const multiTokenAddr = await multiToken.getAddress();
+      const otherAddr = ethers.getCreateAddress({
+        from: OWNER.address,
+        nonce: (await OWNER.getNonce()) + 1,
+      });
+      await multiToken.mint(otherAddr, 7, 10);
+      const other = await Token.deploy("Other Token", "OTK", registryAddr);
+      await other.setTreasury(ADDR2.address);
+
+      await expect(other.emergencyWithdraw(ERC1155, multiTokenAddr, 7, 4))
+        .to.emit(other, "EmergencyWithdraw")
+        .withArgs(ERC1155, multiTokenAddr, ADDR2.address, 7, 4);
+
+      expect(await multiToken.balanceOf(otherAddr, 7)).to.equal(6);
+      expect(await multiToken.balanceOf(ADDR2.address, 7)).to.equal(4);
+    });
+
+    it("Should withdraw failed when sender is missing the role", async () => {
+      await expect(token.connect(ADDR1).emergencyWithdraw(ERC20, randomTokenAddr, 0, ONE_THOUSAND)).to.be.revertedWith(
+        missingRole(ADDR1, DEFAULT_ADMIN_ROLE)
+      );
+      await expect(token.connect(ADDR1).setTreasury(ADDR1.address)).to.be.revertedWith(
+        missingRole(ADDR1, DEFAULT_ADMIN_ROLE)
+      );
+    });
+  });
+
+  describe("lib/errors", () => {
+    it("Should decode the custom error of a failed transaction", async () => {
+      const error = await token
+        .connect(ADDR1)
+        .transfer(ADDR2.address, ONE_THOUSAND)
+        .catch((e: any) => e);
+
+      expect(decodeError(error, [token.interface])).to.deep.equal({
+        name: "NotAllowlisted",
+        signature: "NotAllowlisted(address)",
+        args: { account: ADDR1.address },
+        message: `NotAllowlisted(account=${ADDR1.address})`,
+      });
+    });
+
+    it("Should decode a custom error with its parameters", async () => {
+      await token.setTransferLimit(OWNER.address, ONE_THOUSAND);
+
+      const error = await token.transfer.staticCall(ADDR1.address, ONE_MILLION).catch((e: any) => e);
+
+      expect(renderError(error, [token.interface])).to.equal(
+        `TransferLimitExceeded(account=${OWNER.address}, requested=${ONE_MILLION}, remaining=${ONE_THOUSAND})`
+      );
+    });
+
+    it("Should decode revert strings and panic codes", async () => {
+      const error = await token.transfer.staticCall(ADDR1.address, ONE_MILLION + 1n).catch((e: any) => e);
+      const panic = "0x4e487b710000000000000000000000000000000000000000000000000000000000000011";
+
+      expect(renderError(error)).to.equal("ERC20: transfer amount exceeds balance");
+      expect(decodeError(panic)?.message).to.equal("Panic(0x11)");
+    });
+
+    it("Should fall back to the error message when the error cannot be decoded", async () => {
+      const error = await token
+        .connect(ADDR1)
+        .transfer.staticCall(ADDR2.address, ONE_THOUSAND)
+        .catch((e: any) => e);
+
+      expect(decodeError(error)).to.be.undefined;
+      expect(renderError(new Error("network error"))).to.equal("network error");
     });
   });
 });
@@ -0,0 +1,384 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+const ONE_MILLION = ethers.parseEther("1000000");
+const ONE_THOUSAND = ethers.parseEther("1000");
+const ONE_HUNDRED = ethers.parseEther("100");
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ONE_DAY = 24 * 60 * 60;
+const RATE = ethers.parseEther("0.5");
+
+const Status = { None: 0, Pending: 1, Approved: 2, Rejected: 3, Cancelled: 4 };
+
+describe("RedemptionManager Contract", () => {
+  let manager: any;
+  let token: any;
+  let payoutToken: any;
+  let registry: any;
+  let OWNER: any;
+  let ADDR1: any;
+  let ADDR2: any;
+
+  const request = async (account: any, amount = ONE_HUNDRED) => {
+    await token.connect(account).approve(await manager.getAddress(), amount);
+    return manager.connect(account).requestRedemption(amount);
+  };
+
+  beforeEach(async () => {
+    const Registry = await ethers.getContractFactory("AllowlistRegistry");
+    const Token = await ethers.getContractFactory("InvestmentTokenM");
+    const Manager = await ethers.getContractFactory("RedemptionManager");
+    [OWNER, ADDR1, ADDR2] = await ethers.getSigners();
+
+    registry = await Registry.deploy();
+    const registryAddr = await registry.getAddress();
+    token = await Token.deploy("Investment Token", "ITK", registryAddr);
+    payoutToken = await Token.deploy("Payout Token", "USD", registryAddr);
+    manager = await Manager.deploy(
+      await token.getAddress(),
+      await payoutToken.getAddress(),
+      RATE,
+      ONE_DAY,
+      registryAddr
+    );
+
+    await registry.addAllowlistBatch([OWNER.address, ADDR1.address, await manager.getAddress()]);
+    await token.mint(ONE_MILLION);
+    await token.transfer(ADDR1.address, ONE_THOUSAND);
+    await payoutToken.mint(ONE_MILLION);
+    await payoutToken.transfer(await manager.getAddress(), ONE_THOUSAND);
+  });
+
+  describe("constructor", () => {
+    it("Should set the tokens, rate and window", async () => {
+      expect(await manager.token()).to.equal(await token.getAddress());
+      expect(await manager.payoutToken()).to.equal(await payoutToken.getAddress());
+      expect(await manager.rate()).to.equal(RATE);
+      expect(await manager.window()).to.equal(ONE_DAY);
+    });
+
+    it("Should deploy failed when payout token is the token", async () => {
+      const Manager = await ethers.getContractFactory("RedemptionManager");
+      const address = await token.getAddress();
+
+      await expect(
+        Manager.deploy(address, address, RATE, ONE_DAY, await registry.getAddress())
+      ).to.be.revertedWithCustomError(Manager, "InvalidPayoutToken");
+    });
+
+    it("Should deploy failed when token is zero address", async () => {
+      const Manager = await ethers.getContractFactory("RedemptionManager");
+
+      await expect(
+        Manager.deploy(ZERO_ADDRESS, await payoutToken.getAddress(), RATE, ONE_DAY, await registry.getAddress())
+      ).to.be.revertedWithCustomError(Manager, "InvalidToken");
+    });
+  });
+
+  describe("payoutOf", () => {
+    it("Should pay out at the rate", async () => {
+      expect(await manager.payoutOf(ONE_HUNDRED)).to.equal(ONE_HUNDRED / 2n);
+    });
+
+    it("Should convert the payout to the decimals of the payout token", async () => {
+      const Mock = await ethers.getContractFactory("ERC20DecimalsMock");
+      const Manager = await ethers.getContractFactory("RedemptionManager");
+      const stablecoin = await Mock.deploy(6);
+      const other = await Manager.deploy(
+        await token.getAddress(),
+        await stablecoin.getAddress(),
+        ethers.parseEther("1.5"),
+        ONE_DAY,
+        await registry.getAddress()
+      );
+      const otherAddr = await other.getAddress();
+
+      await registry.addAllowlist(otherAddr);
+      await stablecoin.mint(otherAddr, ethers.parseUnits("1000", 6));
+      await token.connect(ADDR1).approve(otherAddr, ONE_HUNDRED);
+      await other.connect(ADDR1).requestRedemption(ONE_HUNDRED);
+      await other.approveRedemption(0);
+
+      expect(await other.payoutOf(ethers.parseEther("1"))).to.equal(ethers.parseUnits("1.5", 6));
+      expect(await stablecoin.balanceOf(ADDR1.address)).to.equal(ethers.parseUnits("150", 6));
+    });
+
+    it("Should convert the payout to a payout token with more decimals", async () => {
+      const Mock = await ethers.getContractFactory("ERC20DecimalsMock");
+      const Manager = await ethers.getContractFactory("RedemptionManager");
+      const redeemed = await Mock.deploy(6);
+      const other = await Manager.deploy(
+        await redeemed.getAddress(),
+        await payoutToken.getAddress(),
+        RATE,
+        ONE_DAY,
+        await registry.getAddress()
+      );
+
+      expect(await other.payoutOf(ethers.parseUnits("100", 6))).to.equal(ONE_HUNDRED / 2n);
+    });
+  });
+
+  describe("requestRedemption", () => {
+    it("Should escrow the tokens of the request", async () => {
+      const deadline = (await time.latest()) + 2 + ONE_DAY;
+
+      await expect(request(ADDR1))
+        .to.emit(manager, "RedemptionRequested")
+        .withArgs(0, ADDR1.address, ONE_HUNDRED, ONE_HUNDRED / 2n, deadline);
+
+      expect(await token.balanceOf(await manager.getAddress())).to.equal(ONE_HUNDRED);
+      expect(await manager.redemptionCount()).to.equal(1);
+      expect(await manager.redemptionOf(0)).to.deep.equal([
+        ADDR1.address,
+        ONE_HUNDRED,
+        ONE_HUNDRED / 2n,
+        BigInt(deadline),
+        BigInt(Status.Pending),
+      ]);
+    });
+
+    it("Should request failed when account is not allowlisted", async () => {
+      await expect(manager.connect(ADDR2).requestRedemption(ONE_HUNDRED)).to.be.revertedWithCustomError(
+        manager,
+        "NotAllowlisted"
+      );
+    });
+
+    it("Should request failed when payout is zero", async () => {
+      await expect(request(ADDR1, 1n)).to.be.revertedWithCustomError(manager, "ZeroPayout");
+    });
+
+    it("Should request failed when paused", async () => {
+      await manager.pause();
+
+      await expect(request(ADDR1)).to.be.revertedWith("Pausable: paused");
+    });
+
+    it("Should request failed when token is paused", async () => {
+      await token.pause();
+
+      await expect(manager.connect(ADDR1).requestRedemption(ONE_HUNDRED)).to.be.revertedWithCustomError(
+        token,
+        "TokenPaused"
+      );
+    });
+  });
+
+  describe("approveRedemption", () => {
+    beforeEach(async () => {
+      await request(ADDR1);
+    });
+
+    it("Should burn the escrowed tokens and pay out", async () => {
+      const totalSupply = await token.totalSupply();
+
+      await expect(manager.approveRedemption(0))
+        .to.emit(manager, "RedemptionApproved")
+        .withArgs(0, ADDR1.address, ONE_HUNDRED, ONE_HUNDRED / 2n);
+
+      expect(await token.totalSupply()).to.equal(totalSupply - ONE_HUNDRED);
+      expect(await token.balanceOf(await manager.getAddress())).to.equal(0);
+      expect(await payoutToken.balanceOf(ADDR1.address)).to.equal(ONE_HUNDRED / 2n);
+      expect((await manager.redemptionOf(0))[4]).to.equal(Status.Approved);
+    });
+
+    it("Should approve failed when already approved", async () => {
+      await manager.approveRedemption(0);
+
+      await expect(manager.approveRedemption(0)).to.be.revertedWithCustomError(manager, "RedemptionNotPending");
+    });
+
+    it("Should approve failed when window has passed", async () => {
+      await time.increase(ONE_DAY + 1);
+
+      await expect(manager.approveRedemption(0)).to.be.revertedWithCustomError(manager, "RedemptionWindowPassed");
+    });
+
+    it("Should approve failed when account has been removed from allowlist", async () => {
+      await registry.removeAllowlist(ADDR1.address);
+
+      await expect(manager.approveRedemption(0)).to.be.revertedWithCustomError(manager, "NotAllowlisted");
+    });
+
+    it("Should approve failed when redemption does not exist", async () => {
+      await expect(manager.approveRedemption(1)).to.be.revertedWithCustomError(manager, "NonexistentRedemption");
+    });
+
+    it("Should approve failed when caller is not the owner", async () => {
+      await expect(manager.connect(ADDR1).approveRedemption(0)).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("Should approve failed when paused", async () => {
+      await manager.pause();
+
+      await expect(manager.approveRedemption(0)).to.be.revertedWith("Pausable: paused");
+    });
+  });
+
+  describe("rejectRedemption", () => {
+    beforeEach(async () => {
+      await request(ADDR1);
+    });
+
+    it("Should return the escrowed tokens", async () => {
+      await expect(manager.rejectRedemption(0))
+        .to.emit(manager, "RedemptionRejected")
+        .withArgs(0, ADDR1.address, ONE_HUNDRED);
+
+      expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+      expect((await manager.redemptionOf(0))[4]).to.equal(Status.Rejected);
+    });
+
+    it("Should reject failed when already rejected", async () => {
+      await manager.rejectRedemption(0);
+
+      await expect(manager.rejectRedemption(0)).to.be.revertedWithCustomError(manager, "RedemptionNotPending");
+    });
+
+    it("Should reject failed when caller is not the owner", async () => {
+      await expect(manager.connect(ADDR1).rejectRedemption(0)).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("rejectRedemptionTo", () => {
+    beforeEach(async () => {
+      await request(ADDR1);
+      await registry.addAllowlist(ADDR2.address);
+    });
+
+    it("Should return the escrowed tokens of a frozen account to the receiver", async () => {
+      await token.freeze(ADDR1.address);
+      await expect(manager.rejectRedemption(0)).to.be.revertedWithCustomError(token, "AccountFrozen");
+
+      await expect(manager.rejectRedemptionTo(0, ADDR2.address))
+        .to.emit(manager, "RedemptionRejectedTo")
+        .withArgs(0, ADDR1.address, ADDR2.address, ONE_HUNDRED);
+
+      expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
+      expect((await manager.redemptionOf(0))[4]).to.equal(Status.Rejected);
+    });
+
+    it("Should return the escrowed tokens of an account removed from allowlist to the receiver", async () => {
+      await registry.removeAllowlist(ADDR1.address);
+      await time.increase(ONE_DAY + 1);
+      await expect(manager.connect(ADDR1).cancelRedemption(0)).to.be.revertedWithCustomError(token, "NotAllowlisted");
+
+      await manager.rejectRedemptionTo(0, ADDR2.address);
+
+      expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
+    });
+
+    it("Should reject to failed when the account can still receive the tokens", async () => {
+      await expect(manager.rejectRedemptionTo(0, ADDR2.address))
+        .to.be.revertedWithCustomError(manager, "AccountNotStuck")
+        .withArgs(0, ADDR1.address);
+    });
+
+    it("Should reject to failed when the account is unfrozen", async () => {
+      await token.freeze(ADDR1.address);
+      await token.unfreeze(ADDR1.address);
+
+      await expect(manager.rejectRedemptionTo(0, ADDR2.address)).to.be.revertedWithCustomError(
+        manager,
+        "AccountNotStuck"
+      );
+    });
+
+    it("Should reject to failed when already rejected", async () => {
+      await manager.rejectRedemption(0);
+
+      await expect(manager.rejectRedemptionTo(0, ADDR2.address)).to.be.revertedWithCustomError(
+        manager,
+        "RedemptionNotPending"
+      );
+    });
+
+    it("Should reject to failed when caller is not the owner", async () => {
+      await expect(manager.connect(ADDR1).rejectRedemptionTo(0, ADDR1.address)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("cancelRedemption", () => {
+    beforeEach(async () => {
+      await request(ADDR1);
+    });
+
+    it("Should return the escrowed tokens after the window", async () => {
+      await time.increase(ONE_DAY + 1);
+
+      await expect(manager.connect(ADDR1).cancelRedemption(0))
+        .to.emit(manager, "RedemptionCancelled")
+        .withArgs(0, ADDR1.address, ONE_HUNDRED);
+
+      expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+      expect((await manager.redemptionOf(0))[4]).to.equal(Status.Cancelled);
+    });
+
+    it("Should cancel failed within the window", async () => {
+      await expect(manager.connect(ADDR1).cancelRedemption(0)).to.be.revertedWithCustomError(
+        manager,
+        "RedemptionWindowNotPassed"
+      );
+    });
+
+    it("Should cancel failed when caller is not the account", async () => {
+      await time.increase(ONE_DAY + 1);
+
+      await expect(manager.cancelRedemption(0)).to.be.revertedWithCustomError(manager, "CallerNotAccount");
+    });
+  });
+
+  describe("setRate", () => {
+    it("Should set the rate of the next requests", async () => {
+      await request(ADDR1);
+
+      await expect(manager.setRate(RATE * 2n))
+        .to.emit(manager, "RateChanged")
+        .withArgs(RATE, RATE * 2n);
+      await request(ADDR1);
+
+      expect((await manager.redemptionOf(0))[2]).to.equal(ONE_HUNDRED / 2n);
+      expect((await manager.redemptionOf(1))[2]).to.equal(ONE_HUNDRED);
+    });
+
+    it("Should set rate failed when rate is zero", async () => {
+      await expect(manager.setRate(0)).to.be.revertedWithCustomError(manager, "InvalidRate");
+    });
+
+    it("Should set rate failed when caller is not the owner", async () => {
+      await expect(manager.connect(ADDR1).setRate(RATE)).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("setWindow", () => {
+    it("Should set the window", async () => {
+      await expect(manager.setWindow(ONE_DAY * 2))
+        .to.emit(manager, "WindowChanged")
+        .withArgs(ONE_DAY, ONE_DAY * 2);
+    });
+
+    it("Should set window failed when window is zero", async () => {
+      await expect(manager.setWindow(0)).to.be.revertedWithCustomError(manager, "InvalidWindow");
+    });
+  });
+
+  describe("withdrawPayout", () => {
+    it("Should withdraw payout tokens", async () => {
+      await expect(manager.withdrawPayout(OWNER.address, ONE_HUNDRED))
+        .to.emit(manager, "PayoutWithdrawn")
+        .withArgs(OWNER.address, ONE_HUNDRED);
+
+      expect(await payoutToken.balanceOf(await manager.getAddress())).to.equal(ONE_THOUSAND - ONE_HUNDRED);
+    });
+
+    it("Should withdraw failed when caller is not the owner", async () => {
+      await expect(manager.connect(ADDR1).withdrawPayout(ADDR1.address, ONE_HUNDRED)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { buildMerkleDistribution, MerkleDistribution } from "../lib/merkle";
+
+const ONE_MILLION = ethers.parseEther("1000000");
+const ONE_THOUSAND = ethers.parseEther("1000");
+const ONE_HUNDRED = ethers.parseEther("100");
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+describe("RewardDistributor Contract", () => {
+  let distributor: any;
+  let rewardToken: any;
+  let registry: any;
+  let merkle: MerkleDistribution;
+  let OWNER: any;
+  let ADDR1: any;
+  let ADDR2: any;
+  let ADDR3: any;
+
+  const claim = (account: any, id = 0) => {
+    const { amount, proof } = merkle.claims[account.address];
+    return distributor.claim(id, account.address, amount, proof);
+  };
+
+  beforeEach(async () => {
+    const Registry = await ethers.getContractFactory("AllowlistRegistry");
+    const Token = await ethers.getContractFactory("InvestmentTokenM");
+    const Distributor = await ethers.getContractFactory("RewardDistributor");
+    [OWNER, ADDR1, ADDR2, ADDR3] = await ethers.getSigners();
+
+    registry = await Registry.deploy();
+    rewardToken = await Token.deploy("Reward Token", "RWD", await registry.getAddress());
+    distributor = await Distributor.deploy(await registry.getAddress());
+
+    await registry.addAllowlistBatch([OWNER.address, ADDR1.address, ADDR2.address, await distributor.getAddress()]);
+    await rewardToken.mint(ONE_MILLION);
+
+    merkle = buildMerkleDistribution(
+      new Map([
+        [ADDR1.address, ONE_HUNDRED * 3n],
+        [ADDR2.address, ONE_HUNDRED],
+        [ADDR3.address, ONE_HUNDRED],
+      ])
+    );
+  });
+
+  const createDistribution = async (total = merkle.total) => {
+    await rewardToken.approve(await distributor.getAddress(), total);
+    return distributor.createDistribution(await rewardToken.getAddress(), merkle.root, total);
+  };
+
+  describe("createDistribution", () => {
+    it("Should create distribution and deposit the rewards", async () => {
+      await expect(createDistribution())
+        .to.emit(distributor, "DistributionCreated")
+        .withArgs(0, await rewardToken.getAddress(), merkle.root, merkle.total);
+
+      expect(await distributor.distributionCount()).to.equal(1);
+      expect(await distributor.distributionOf(0)).to.deep.equal([
+        await rewardToken.getAddress(),
+        merkle.root,
+        merkle.total,
+        0n,
+        false,
+      ]);
+      expect(await rewardToken.balanceOf(await distributor.getAddress())).to.equal(merkle.total);
+    });
+
+    it("Should create distribution failed when reward token is zero address", async () => {
+      await expect(
+        distributor.createDistribution(ZERO_ADDRESS, merkle.root, merkle.total)
+      ).to.be.revertedWithCustomError(distributor, "InvalidRewardToken");
+    });
+
+    it("Should create distribution failed when merkle root is zero", async () => {
+      await expect(
+        distributor.createDistribution(await rewardToken.getAddress(), ethers.ZeroHash, merkle.total)
+      ).to.be.revertedWithCustomError(distributor, "InvalidMerkleRoot");
+    });
+
+    it("Should create distribution failed when caller is not the owner", async () => {
+      await expect(
+        distributor.connect(ADDR1).createDistribution(await rewardToken.getAddress(), merkle.root, merkle.total)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("claim", () => {
+    beforeEach(async () => {
+      await createDistribution();
+    });
+
+    it("Should claim the reward of an allowlisted account", async () => {
+      await expect(claim(ADDR1))
+        .to.emit(distributor, "Claimed")
+        .withArgs(0, ADDR1.address, ONE_HUNDRED * 3n);
+
+      expect(await rewardToken.balanceOf(ADDR1.address)).to.equal(ONE_HUNDRED * 3n);
+      expect(await distributor.isClaimed(0, ADDR1.address)).to.be.true;
+      expect((await distributor.distributionOf(0))[3]).to.equal(ONE_HUNDRED * 3n);
+    });
+
+    it("Should claim on behalf of an account", async () => {
+      const { amount, proof } = merkle.claims[ADDR2.address];
+
+      await distributor.connect(ADDR1).claim(0, ADDR2.address, amount, proof);
+
+      expect(await rewardToken.balanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
+    });
+
+    it("Should claim failed when already claimed", async () => {
+      await claim(ADDR1);
+
+      await expect(claim(ADDR1)).to.be.revertedWithCustomError(distributor, "AlreadyClaimed");
+    });
+
+    it("Should claim failed when account is not allowlisted", async () => {
+      await expect(claim(ADDR3)).to.be.revertedWithCustomError(distributor, "NotAllowlisted");
+    });
+
+    it("Should claim failed when account has been removed from allowlist", async () => {
+      await registry.removeAllowlist(ADDR1.address);
+
+      await expect(claim(ADDR1)).to.be.revertedWithCustomError(distributor, "NotAllowlisted");
+    });
+
+    it("Should claim failed when amount does not match the proof", async () => {
+      const { proof } = merkle.claims[ADDR2.address];
+
+      await expect(distributor.claim(0, ADDR2.address, ONE_THOUSAND, proof)).to.be.revertedWithCustomError(
+        distributor,
+        "InvalidProof"
+      );
+    });
+
+    it("Should claim failed when proof is of another account", async () => {
+      const { amount, proof } = merkle.claims[ADDR2.address];
+
+      await expect(distributor.claim(0, ADDR1.address, amount, proof)).to.be.revertedWithCustomError(
+        distributor,
+        "InvalidProof"
+      );
+    });
+
+    it("Should claim failed when distribution does not exist", async () => {
+      await expect(claim(ADDR1, 1)).to.be.revertedWithCustomError(distributor, "NonexistentDistribution");
+    });
+
+    it("Should claim failed when claims exceed the distribution total", async () => {
+      await createDistribution(ONE_HUNDRED * 3n);
+      await claim(ADDR1, 1);
+
+      await expect(claim(ADDR2, 1)).to.be.revertedWithCustomError(distributor, "ClaimExceedsTotal");
+    });
+  });
+
+  describe("closeDistribution", () => {
+    beforeEach(async () => {
+      await createDistribution();
+    });
+
+    it("Should close distribution and return the unclaimed rewards", async () => {
+      await claim(ADDR1);
+      const balance = await rewardToken.balanceOf(OWNER.address);
+
+      await expect(distributor.closeDistribution(0, OWNER.address))
+        .to.emit(distributor, "DistributionClosed")
+        .withArgs(0, OWNER.address, ONE_HUNDRED * 2n);
+
+      expect(await rewardToken.balanceOf(OWNER.address)).to.equal(balance + ONE_HUNDRED * 2n);
+      await expect(claim(ADDR2)).to.be.revertedWithCustomError(distributor, "ClosedDistribution");
+    });
+
+    it("Should close distribution failed when already closed", async () => {
+      await distributor.closeDistribution(0, OWNER.address);
+
+      await expect(distributor.closeDistribution(0, OWNER.address)).to.be.revertedWithCustomError(
+        distributor,
+        "ClosedDistribution"
+      );
+    });
+
+    it("Should close distribution failed when caller is not the owner", async () => {
+      await expect(distributor.connect(ADDR1).closeDistribution(0, ADDR1.address)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("setAllowlistRegistry", () => {
+    it("Should set allowlist registry", async () => {
+      const Registry = await ethers.getContractFactory("AllowlistRegistry");
+      const newRegistry = await Registry.deploy();
+
+      await expect(distributor.setAllowlistRegistry(await newRegistry.getAddress()))
+        .to.emit(distributor, "AllowlistRegistryChanged")
+        .withArgs(await registry.getAddress(), await newRegistry.getAddress());
+    });
+
+    it("Should set allowlist registry failed when the address is not a registry", async () => {
+      await expect(distributor.setAllowlistRegistry(ADDR1.address))
+        .to.be.revertedWithCustomError(distributor, "InvalidAllowlistRegistry")
+        .withArgs(ADDR1.address);
+    });
+
+    it("Should set allowlist registry failed when caller is not the owner", async () => {
+      await expect(distributor.connect(ADDR1).setAllowlistRegistry(ADDR1.address)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+});
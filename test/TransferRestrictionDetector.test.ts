@@ -0,0 +1,229 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  assertTransferAllowed,
+  HoldingLimitExceededError,
+  NotAllowlistedError,
+  toTransferRestrictionError,
+  TransferLimitExceededError,
+  TransferPausedError,
+  TransferRestrictionCode,
+} from "../lib/transfer-restrictions";
+
+const ONE_MILLION = ethers.parseEther("1000000");
+const ONE_THOUSAND = ethers.parseEther("1000");
+const ONE_HUNDRED = ethers.parseEther("100");
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ONE_DAY = 24 * 60 * 60;
+
+describe("TransferRestrictionDetector Contract", () => {
+  let detector: any;
+  let token: any;
+  let registry: any;
+  let OWNER: any;
+  let ADDR1: any;
+  let ADDR2: any;
+  let ADDR3: any;
+
+  const detect = (from: any, to: any, amount = ONE_HUNDRED) =>
+    detector.detectTransferRestriction(from.address, to.address, amount);
+
+  beforeEach(async () => {
+    const Registry = await ethers.getContractFactory("AllowlistRegistry");
+    const Token = await ethers.getContractFactory("InvestmentTokenM");
+    const Detector = await ethers.getContractFactory("TransferRestrictionDetector");
+    [OWNER, ADDR1, ADDR2, ADDR3] = await ethers.getSigners();
+
+    registry = await Registry.deploy();
+    token = await Token.deploy("Investment Token", "ITK", await registry.getAddress());
+    detector = await Detector.deploy(await token.getAddress());
+
+    await registry.addAllowlistBatch([OWNER.address, ADDR1.address, ADDR2.address]);
+    await token.mint(ONE_MILLION);
+    await token.transfer(ADDR1.address, ONE_THOUSAND);
+  });
+
+  describe("constructor", () => {
+    it("Should deploy failed when token is zero address", async () => {
+      const Detector = await ethers.getContractFactory("TransferRestrictionDetector");
+
+      await expect(Detector.deploy(ZERO_ADDRESS)).to.be.revertedWithCustomError(Detector, "InvalidToken");
+    });
+  });
+
+  describe("detectTransferRestriction", () => {
+    it("Should return SUCCESS when the transfer is not restricted", async () => {
+      expect(await detect(ADDR1, ADDR2)).to.equal(TransferRestrictionCode.Success);
+
+      await token.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED);
+    });
+
+    it("Should return RECEIVER_ZERO_ADDRESS when receiver is zero address", async () => {
+      expect(await detector.detectTransferRestriction(ADDR1.address, ZERO_ADDRESS, ONE_HUNDRED)).to.equal(
+        TransferRestrictionCode.ReceiverZeroAddress
+      );
+    });
+
+    it("Should return PAUSED when the token is paused", async () => {
+      await token.pause();
+
+      expect(await detect(ADDR1, ADDR2)).to.equal(TransferRestrictionCode.Paused);
+    });
+
+    it("Should return the party that is not allowlisted", async () => {
+      expect(await detect(ADDR3, ADDR2)).to.equal(TransferRestrictionCode.SenderNotAllowlisted);
+      expect(await detect(ADDR1, ADDR3)).to.equal(TransferRestrictionCode.ReceiverNotAllowlisted);
+      expect(
+        await detector.detectTransferFromRestriction(ADDR3.address, ADDR1.address, ADDR2.address, ONE_HUNDRED)
+      ).to.equal(TransferRestrictionCode.OperatorNotAllowlisted);
+
+      await expect(token.connect(ADDR1).transfer(ADDR3.address, ONE_HUNDRED)).to.be.revertedWithCustomError(
+        token,
+        "NotAllowlisted"
+      );
+    });
+
+    it("Should skip the allowlist when operator has the bypass role", async () => {
+      expect(await detect(OWNER, ADDR3)).to.equal(TransferRestrictionCode.Success);
+    });
+
+    it("Should return ACCOUNT_FROZEN when an account is frozen", async () => {
+      await token.freeze(ADDR2.address);
+
+      expect(await detect(ADDR1, ADDR2)).to.equal(TransferRestrictionCode.AccountFrozen);
+    });
+
+    it("Should return INSUFFICIENT_BALANCE when amount exceeds the balance", async () => {
+      expect(await detect(ADDR1, ADDR2, ONE_THOUSAND + 1n)).to.equal(TransferRestrictionCode.InsufficientBalance);
+    });
+
+    it("Should return INSUFFICIENT_ALLOWANCE when amount exceeds the allowance of the operator", async () => {
+      await token.connect(ADDR1).approve(ADDR2.address, ONE_HUNDRED - 1n);
+
+      expect(
+        await detector.detectTransferFromRestriction(ADDR2.address, ADDR1.address, ADDR2.address, ONE_HUNDRED)
+      ).to.equal(TransferRestrictionCode.InsufficientAllowance);
+    });
+
+    it("Should return BALANCE_LOCKED when amount exceeds the available balance", async () => {
+      await token.freezeAmount(ADDR1.address, ONE_THOUSAND);
+
+      expect(await detect(ADDR1, ADDR2)).to.equal(TransferRestrictionCode.BalanceLocked);
+    });
+
+    it("Should return the exceeded transfer limit", async () => {
+      await token.setReceiveLimit(ADDR2.address, ONE_HUNDRED - 1n);
+      expect(await detect(ADDR1, ADDR2)).to.equal(TransferRestrictionCode.ReceiveLimitExceeded);
+
+      await token.setTransferLimit(ADDR1.address, ONE_HUNDRED - 1n);
+      expect(await detect(ADDR1, ADDR2)).to.equal(TransferRestrictionCode.TransferLimitExceeded);
+
+      await token.unsetTransferLimit(ADDR1.address);
+      await token.unsetReceiveLimit(ADDR2.address);
+      await token.setGlobalTransferLimit(ONE_HUNDRED - 1n, ONE_DAY);
+      expect(await detect(ADDR1, ADDR2)).to.equal(TransferRestrictionCode.GlobalTransferLimitExceeded);
+
+      await token.disableTransferLimitable();
+      expect(await detect(ADDR1, ADDR2)).to.equal(TransferRestrictionCode.Success);
+    });
+
+    it("Should return MAX_BALANCE_EXCEEDED when the balance of receiver exceeds its max balance", async () => {
+      await token.setMaxBalance(ADDR2.address, ONE_HUNDRED - 1n);
+
+      expect(await detect(ADDR1, ADDR2)).to.equal(TransferRestrictionCode.MaxBalanceExceeded);
+    });
+
+    it("Should return MAX_HOLDER_COUNT_EXCEEDED unless the sender stops holding", async () => {
+      await token.setMaxHolderCount(2);
+
+      expect(await detect(ADDR1, ADDR2)).to.equal(TransferRestrictionCode.MaxHolderCountExceeded);
+      expect(await detect(ADDR1, ADDR2, ONE_THOUSAND)).to.equal(TransferRestrictionCode.Success);
+    });
+
+    it("Should return NOT_COMPLIANT when a compliance module does not allow the transfer", async () => {
+      const Denylist = await ethers.getContractFactory("DenylistModule");
+      const denylist = await Denylist.deploy();
+      await token.addComplianceModule(await denylist.getAddress());
+      await denylist.setDenylist(ADDR2.address, true);
+
+      expect(await detect(ADDR1, ADDR2)).to.equal(TransferRestrictionCode.NotCompliant);
+    });
+  });
+
+  describe("messageForTransferRestriction", () => {
+    it("Should return the message of a restriction code", async () => {
+      expect(await detector.messageForTransferRestriction(TransferRestrictionCode.Success)).to.equal("No restriction");
+      expect(await detector.messageForTransferRestriction(TransferRestrictionCode.ReceiverNotAllowlisted)).to.equal(
+        "Receiver is not allowlisted"
+      );
+      expect(await detector.messageForTransferRestriction(255)).to.equal("Unknown restriction code");
+    });
+  });
+
+  describe("InvestmentTokenM", () => {
+    it("Should detect the same restrictions as the detector", async () => {
+      await token.freeze(ADDR3.address);
+      await token.setMaxBalance(ADDR2.address, ONE_THOUSAND);
+      await token.connect(ADDR1).approve(ADDR2.address, ONE_HUNDRED);
+      const transfers = [
+        [ADDR1, ADDR1, ADDR2, ONE_HUNDRED],
+        [ADDR1, ADDR1, ADDR3, ONE_HUNDRED],
+        [ADDR1, ADDR1, ADDR2, ONE_THOUSAND + 1n],
+        [ADDR2, ADDR1, ADDR2, ONE_THOUSAND],
+        [OWNER, OWNER, ADDR2, ONE_THOUSAND + 1n],
+      ];
+
+      for (const [operator, from, to, amount] of transfers) {
+        const code = await detector.detectTransferFromRestriction(operator.address, from.address, to.address, amount);
+
+        expect(await token.detectTransferFromRestriction(operator.address, from.address, to.address, amount)).to.equal(
+          code
+        );
+        expect(await token.messageForTransferRestriction(code)).to.equal(
+          await detector.messageForTransferRestriction(code)
+        );
+      }
+      expect(await token.detectTransferRestriction(OWNER.address, ADDR3.address, ONE_HUNDRED)).to.equal(
+        TransferRestrictionCode.AccountFrozen
+      );
+    });
+
+    it("Should throw the typed error of a restricted transfer", async () => {
+      await token.pause();
+
+      const error = await assertTransferAllowed(token, ADDR1.address, ADDR2.address, ONE_HUNDRED).catch((e) => e);
+
+      expect(error).to.be.instanceOf(TransferPausedError);
+      expect(error.message).to.equal("Token is paused");
+    });
+  });
+
+  describe("lib/transfer-restrictions", () => {
+    it("Should map restriction codes to typed errors", () => {
+      const error = toTransferRestrictionError(TransferRestrictionCode.OperatorNotAllowlisted);
+
+      expect(error).to.be.instanceOf(NotAllowlistedError);
+      expect(error?.party).to.equal("operator");
+      expect(toTransferRestrictionError(TransferRestrictionCode.GlobalTransferLimitExceeded)).to.be.instanceOf(
+        TransferLimitExceededError
+      );
+      expect(toTransferRestrictionError(TransferRestrictionCode.Success)).to.be.undefined;
+      expect(() => toTransferRestrictionError(255)).to.throw("TransferRestrictions: unknown restriction code 255");
+    });
+
+    it("Should throw the typed error of a restricted transfer", async () => {
+      await token.setMaxBalance(ADDR2.address, ONE_HUNDRED - 1n);
+
+      const error = await assertTransferAllowed(detector, ADDR1.address, ADDR2.address, ONE_HUNDRED).catch((e) => e);
+
+      expect(error).to.be.instanceOf(HoldingLimitExceededError);
+      expect(error.code).to.equal(TransferRestrictionCode.MaxBalanceExceeded);
+      expect(error.party).to.equal("receiver");
+      expect(error.message).to.equal("Amount exceeds the max balance of the receiver");
+    });
+
+    it("Should not throw when the transfer is not restricted", async () => {
+      await assertTransferAllowed(detector, ADDR1.address, ADDR2.address, ONE_HUNDRED);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+
+const ONE_MILLION = ethers.parseEther("1000000");
+const ONE_THOUSAND = ethers.parseEther("1000");
+const ONE_HUNDRED = ethers.parseEther("100");
+const ONE_DAY = 24 * 60 * 60;
+const RETAIL = 1;
+const TH = "0x5448";
+
+const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
+
+describe("Upgradeable Contracts", () => {
+  let registry: any;
+  let token: any;
+  let OWNER: any;
+  let ADDR1: any;
+  let ADDR2: any;
+
+  beforeEach(async () => {
+    const Registry = await ethers.getContractFactory("AllowlistRegistryUpgradeable");
+    const Token = await ethers.getContractFactory("InvestmentTokenMUpgradeable");
+    [OWNER, ADDR1, ADDR2] = await ethers.getSigners();
+
+    registry = await upgrades.deployProxy(Registry, [], { kind: "transparent" });
+    token = await upgrades.deployProxy(Token, ["Investment Token", "ITK", await registry.getAddress()], {
+      kind: "transparent",
+    });
+
+    await registry.addAllowlistBatch([ADDR1.address, ADDR2.address]);
+    await token.mint(ONE_MILLION);
+  });
+
+  describe("initialize", () => {
+    it("Should initialize the proxies like the constructors", async () => {
+      expect(await registry.owner()).to.equal(OWNER.address);
+      expect(await token.name()).to.equal("Investment Token");
+      expect(await token.symbol()).to.equal("ITK");
+      expect(await token.allowlistRegistry()).to.equal(await registry.getAddress());
+      expect(await token.hasRole(DEFAULT_ADMIN_ROLE, OWNER.address)).to.be.true;
+      expect(await token.mintable()).to.be.true;
+      expect(await token.transferLimitable()).to.be.true;
+    });
+
+    it("Should initialize failed when the proxies are already initialized", async () => {
+      await expect(registry.initialize()).to.be.revertedWith("Initializable: contract is already initialized");
+      await expect(token.initialize("Other Token", "OTK", await registry.getAddress())).to.be.revertedWith(
+        "Initializable: contract is already initialized"
+      );
+    });
+
+    it("Should initialize failed on the implementations", async () => {
+      const registryImpl = await ethers.getContractAt(
+        "AllowlistRegistryUpgradeable",
+        await upgrades.erc1967.getImplementationAddress(await registry.getAddress())
+      );
+      const tokenImpl = await ethers.getContractAt(
+        "InvestmentTokenMUpgradeable",
+        await upgrades.erc1967.getImplementationAddress(await token.getAddress())
+      );
+
+      await expect(registryImpl.initialize()).to.be.revertedWith("Initializable: contract is already initialized");
+      await expect(tokenImpl.initialize("Investment Token", "ITK", await registry.getAddress())).to.be.revertedWith(
+        "Initializable: contract is already initialized"
+      );
+    });
+  });
+
+  describe("upgrade", () => {
+    it("Should keep balances, limits and the registry pointer across a token upgrade", async () => {
+      await token.transfer(ADDR1.address, ONE_THOUSAND);
+      await token.setTransferLimit(ADDR1.address, ONE_HUNDRED);
+      await token.setPeriodicReceiveLimit(ADDR2.address, ONE_THOUSAND, ONE_DAY);
+      await token.freezeAmount(ADDR1.address, ONE_HUNDRED);
+      await token.setMaxBalance(ADDR2.address, ONE_THOUSAND);
+      await token.snapshot();
+      await token.pause();
+
+      const address = await token.getAddress();
+      const domainSeparator = await token.DOMAIN_SEPARATOR();
+      const receiveLimit = await token.receiveLimitOf(ADDR2.address);
+
+      const TokenV2 = await ethers.getContractFactory("InvestmentTokenMUpgradeableV2Mock");
+      const upgraded: any = await upgrades.upgradeProxy(address, TokenV2, {
+        call: { fn: "initializeV2", args: [2] },
+      });
+
+      expect(await upgraded.getAddress()).to.equal(address);
+      expect(await upgraded.version()).to.equal(2);
+      expect(await upgraded.name()).to.equal("Investment Token");
+      expect(await upgraded.totalSupply()).to.equal(ONE_MILLION);
+      expect(await upgraded.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+      expect(await upgraded.balanceOfAt(ADDR1.address, 1)).to.equal(ONE_THOUSAND);
+      expect(await upgraded.holderCount()).to.equal(2);
+      expect(await upgraded.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_HUNDRED, 0n]);
+      expect(await upgraded.receiveLimitOf(ADDR2.address)).to.deep.equal(receiveLimit);
+      expect(await upgraded.frozenAmountOf(ADDR1.address)).to.equal(ONE_HUNDRED);
+      expect(await upgraded.maxBalanceOf(ADDR2.address)).to.equal(ONE_THOUSAND);
+      expect(await upgraded.allowlistRegistry()).to.equal(await registry.getAddress());
+      expect(await upgraded.DOMAIN_SEPARATOR()).to.equal(domainSeparator);
+      expect(await upgraded.paused()).to.be.true;
+      expect(await upgraded.hasRole(DEFAULT_ADMIN_ROLE, OWNER.address)).to.be.true;
+
+      await upgraded.unpause();
+      await expect(upgraded.connect(ADDR1).transfer(ADDR2.address, ONE_HUNDRED + 1n))
+        .to.be.revertedWithCustomError(upgraded, "TransferLimitExceeded")
+        .withArgs(ADDR1.address, ONE_HUNDRED + 1n, ONE_HUNDRED);
+    });
+
+    it("Should keep the allowlist across a registry upgrade", async () => {
+      await registry.setAllowlist(ADDR1.address, 0, RETAIL, TH);
+
+      const address = await registry.getAddress();
+      const RegistryV2 = await ethers.getContractFactory("AllowlistRegistryUpgradeableV2Mock");
+      const upgraded: any = await upgrades.upgradeProxy(address, RegistryV2, {
+        call: { fn: "initializeV2", args: ["2.0.0"] },
+      });
+
+      expect(await upgraded.version()).to.equal("2.0.0");
+      expect(await upgraded.owner()).to.equal(OWNER.address);
+      expect(await upgraded.allowlistCount()).to.equal(2);
+      expect(await upgraded.allowlistEntryOf(ADDR1.address)).to.deep.equal([true, 0n, BigInt(RETAIL), TH]);
+      expect(await token.isAllowlist(ADDR2.address)).to.be.true;
+    });
+
+    it("Should upgrade failed when the storage layout is incompatible", async () => {
+      const Token = await ethers.getContractFactory("InvestmentTokenMUpgradeable");
+
+      await expect(upgrades.validateUpgrade(await registry.getAddress(), Token)).to.be.rejectedWith(
+        "New storage layout is incompatible"
+      );
+    });
+
+    it("Should upgrade failed when the caller is not the proxy admin owner", async () => {
+      const TokenV2 = await ethers.getContractFactory("InvestmentTokenMUpgradeableV2Mock", ADDR1);
+
+      await expect(upgrades.upgradeProxy(await token.getAddress(), TokenV2)).to.be.rejected;
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { deployments, ethers, getNamedAccounts, upgrades } from "hardhat";
+import { loadDeployConfig } from "../deploy-config";
+import { deployProxy } from "../tasks/helpers";
+
+describe("Deployment", () => {
+  const config = loadDeployConfig("hardhat");
+
+  beforeEach(async () => {
+    await deployments.fixture(["InvestmentTokenM"]);
+  });
+
+  it("Should deploy AllowlistRegistry and InvestmentTokenM wired to it", async () => {
+    const registry = await deployments.get("AllowlistRegistry");
+    const deployment = await deployments.get("InvestmentTokenM");
+    const token = await ethers.getContractAt("InvestmentTokenM", deployment.address);
+
+    expect(await token.name()).to.equal(config.investmentTokenM.name);
+    expect(await token.symbol()).to.equal(config.investmentTokenM.symbol);
+    expect(await token.allowlistRegistry()).to.equal(registry.address);
+  });
+
+  it("Should record constructor args of the deployments", async () => {
+    const registry = await deployments.get("AllowlistRegistry");
+    const token = await deployments.get("InvestmentTokenM");
+
+    expect(registry.args).to.deep.equal([]);
+    expect(token.args).to.deep.equal([config.investmentTokenM.name, config.investmentTokenM.symbol, registry.address]);
+  });
+
+  it("Should reuse already deployed contracts", async () => {
+    const registry = await deployments.get("AllowlistRegistry");
+    const token = await deployments.get("InvestmentTokenM");
+
+    await deployments.run(["InvestmentTokenM"], { resetMemory: false, writeDeploymentsToFiles: false });
+
+    expect((await deployments.get("AllowlistRegistry")).address).to.equal(registry.address);
+    expect((await deployments.get("InvestmentTokenM")).address).to.equal(token.address);
+  });
+
+  it("Should deploy RewardDistributor wired to AllowlistRegistry", async () => {
+    await deployments.fixture(["RewardDistributor"]);
+
+    const registry = await deployments.get("AllowlistRegistry");
+    const deployment = await deployments.get("RewardDistributor");
+    const distributor = await ethers.getContractAt("RewardDistributor", deployment.address);
+
+    expect(await distributor.allowlistRegistry()).to.equal(registry.address);
+    expect(deployment.args).to.deep.equal([registry.address]);
+  });
+
+  it("Should deploy TransferRestrictionDetector wired to InvestmentTokenM", async () => {
+    await deployments.fixture(["TransferRestrictionDetector"]);
+
+    const token = await deployments.get("InvestmentTokenM");
+    const deployment = await deployments.get("TransferRestrictionDetector");
+    const detector = await ethers.getContractAt("TransferRestrictionDetector", deployment.address);
+
+    expect(await detector.token()).to.equal(token.address);
+  });
+
+  it("Should skip RedemptionManager without payout token", async () => {
+    await deployments.fixture(["RedemptionManager"]);
+
+    expect(await deployments.getOrNull("RedemptionManager")).to.not.exist;
+  });
+
+  it("Should skip GovernanceTimelock without signers", async () => {
+    await deployments.fixture(["GovernanceTimelock"]);
+    const token = await ethers.getContractAt("InvestmentTokenM", (await deployments.get("InvestmentTokenM")).address);
+    const { deployer } = await getNamedAccounts();
+
+    expect(await deployments.getOrNull("GovernanceTimelock")).to.not.exist;
+    expect(await token.hasRole(ethers.ZeroHash, deployer)).to.be.true;
+  });
+
+  describe("with governance signers", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      const [, SIGNER1, SIGNER2] = await ethers.getSigners();
+      const governance = { signers: [SIGNER1.address, SIGNER2.address], threshold: 2, delay: 86400 };
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "deploy-config-"));
+      fs.writeFileSync(path.join(dir, "hardhat.json"), JSON.stringify({ ...config, governance }));
+      process.env.DEPLOY_CONFIG_DIR = dir;
+
+      // Replaces the token by the upgradeable variant, whose proxy admin is handed over as well.
+      await deployments.delete("InvestmentTokenM");
+      const registry = await deployments.get("AllowlistRegistry");
+      await deployProxy(hre, "InvestmentTokenM", "InvestmentTokenMUpgradeable", [
+        config.investmentTokenM.name,
+        config.investmentTokenM.symbol,
+        registry.address,
+      ]);
+    });
+
+    afterEach(() => {
+      delete process.env.DEPLOY_CONFIG_DIR;
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should hand the token roles and proxy admin over to GovernanceTimelock", async () => {
+      await deployments.run(["GovernanceTimelock"], { resetMemory: false, writeDeploymentsToFiles: false });
+      const governance = await deployments.get("GovernanceTimelock");
+      const deployment = await deployments.get("InvestmentTokenM");
+      const token = await ethers.getContractAt("InvestmentTokenMUpgradeable", deployment.address);
+      const proxyAdmin = await ethers.getContractAt(
+        ["function owner() view returns (address)"],
+        await upgrades.erc1967.getAdminAddress(deployment.address)
+      );
+      const { deployer } = await getNamedAccounts();
+
+      expect(await token.hasRole(ethers.ZeroHash, governance.address)).to.be.true;
+      expect(await token.hasRole(ethers.ZeroHash, deployer)).to.be.false;
+      expect(await token.hasRole(await token.FREEZER_ROLE(), deployer)).to.be.true;
+      expect(await proxyAdmin.owner()).to.equal(governance.address);
+    });
+
+    it("Should skip the handover steps already done", async () => {
+      await deployments.run(["GovernanceTimelock"], { resetMemory: false, writeDeploymentsToFiles: false });
+      await deployments.run(["GovernanceTimelock"], { resetMemory: false, writeDeploymentsToFiles: false });
+      const governance = await deployments.get("GovernanceTimelock");
+      const deployment = await deployments.get("InvestmentTokenM");
+      const proxyAdmin = await ethers.getContractAt(
+        ["function owner() view returns (address)"],
+        await upgrades.erc1967.getAdminAddress(deployment.address)
+      );
+
+      expect(await proxyAdmin.owner()).to.equal(governance.address);
+    });
+  });
+
+  it("Should write the manifest of the network", async () => {
+    const file = path.join(hre.config.paths.deployments, "hardhat", "manifest.json");
+    const registry = await deployments.get("AllowlistRegistry");
+    const token = await deployments.get("InvestmentTokenM");
+
+    try {
+      await deployments.run(["Manifest"], { resetMemory: false, writeDeploymentsToFiles: false });
+
+      const manifest = JSON.parse(fs.readFileSync(file, "utf8"));
+      expect(manifest.network).to.equal("hardhat");
+      expect(manifest.chainId).to.equal("31337");
+      expect(Object.keys(manifest.contracts)).to.have.members(["AllowlistRegistry", "InvestmentTokenM"]);
+      expect(manifest.contracts.AllowlistRegistry).to.deep.equal({
+        address: registry.address,
+        args: [],
+        transactionHash: registry.transactionHash,
+      });
+      expect(manifest.contracts.InvestmentTokenM).to.deep.equal({
+        address: token.address,
+        args: token.args,
+        transactionHash: token.transactionHash,
+      });
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("Should load the config of every configured network", async () => {
+    for (const network of Object.keys(hre.config.networks)) {
+      expect(loadDeployConfig(network).investmentTokenM.name).to.not.be.empty;
+    }
+  });
+
+  it("Should fail to load a config of invalid types", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "deploy-config-"));
+    process.env.DEPLOY_CONFIG_DIR = dir;
+
+    try {
+      fs.writeFileSync(path.join(dir, "hardhat.json"), JSON.stringify([config]));
+      expect(() => loadDeployConfig("hardhat")).to.throw('DeployConfig: invalid config on "hardhat"');
+
+      fs.writeFileSync(path.join(dir, "hardhat.json"), JSON.stringify({ ...config, governance: "none" }));
+      expect(() => loadDeployConfig("hardhat")).to.throw('DeployConfig: invalid governance on "hardhat"');
+
+      const redemptionManager = { ...config.redemptionManager, window: "604800" };
+      fs.writeFileSync(path.join(dir, "hardhat.json"), JSON.stringify({ ...config, redemptionManager }));
+      expect(() => loadDeployConfig("hardhat")).to.throw('DeployConfig: invalid redemptionManager.window "604800"');
+
+      const governance = { ...config.governance, signers: [1] };
+      fs.writeFileSync(path.join(dir, "hardhat.json"), JSON.stringify({ ...config, governance }));
+      expect(() => loadDeployConfig("hardhat")).to.throw('DeployConfig: invalid governance.signers "1"');
+    } finally {
+      delete process.env.DEPLOY_CONFIG_DIR;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Should fail to load config of an unknown network", async () => {
+    expect(() => loadDeployConfig("unknown")).to.throw('DeployConfig: missing config file for network "unknown"');
+  });
+});
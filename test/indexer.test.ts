@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { IndexerOptions, isAllowlisted, remainingLimit, StateIndexer } from "../lib/indexer";
+
+const ONE_MILLION = ethers.parseEther("1000000");
+const ONE_THOUSAND = ethers.parseEther("1000");
+const ONE_HUNDRED = ethers.parseEther("100");
+const ONE_DAY = 24 * 60 * 60;
+const LOST_WALLET = 2;
+const CASE_ID = ethers.id("CASE-001");
+const TH = "0x5448";
+
+describe("StateIndexer", () => {
+  let token: any;
+  let registry: any;
+  let options: IndexerOptions;
+  let OWNER: any;
+  let ADDR1: any;
+  let ADDR2: any;
+  let ADDR3: any;
+
+  const latestTimestamp = async () => (await ethers.provider.getBlock("latest"))!.timestamp;
+
+  beforeEach(async () => {
+    const Registry = await ethers.getContractFactory("AllowlistRegistry");
+    const Token = await ethers.getContractFactory("InvestmentTokenM");
+    [OWNER, ADDR1, ADDR2, ADDR3] = await ethers.getSigners();
+
+    registry = await Registry.deploy();
+    token = await Token.deploy("Investment Token", "ITK", await registry.getAddress());
+
+    options = {
+      token: await token.getAddress(),
+      registry: await registry.getAddress(),
+      startBlock: (await registry.deploymentTransaction().wait()).blockNumber,
+    };
+
+    await registry.addAllowlistBatch([OWNER.address, ADDR1.address, ADDR2.address]);
+    await token.mint(ONE_MILLION);
+    await token.transfer(ADDR1.address, ONE_THOUSAND);
+  });
+
+  it("Should fold balances, allowlist membership and pause state", async () => {
+    await registry.setAllowlist(ADDR3.address, 0, 1, TH);
+    await registry.removeAllowlist(ADDR2.address);
+    await token.connect(ADDR1).burn(ONE_HUNDRED);
+    await token.pause();
+
+    const indexer = new StateIndexer(ethers.provider, options);
+    const blockNumber = await indexer.sync();
+    const { state } = indexer;
+
+    expect(blockNumber).to.equal(await ethers.provider.getBlockNumber());
+    expect(state.paused).to.be.true;
+    expect(state.totalSupply).to.equal(await token.totalSupply());
+    expect(state.balances).to.deep.equal({
+      [OWNER.address]: ONE_MILLION - ONE_THOUSAND,
+      [ADDR1.address]: ONE_THOUSAND - ONE_HUNDRED,
+    });
+    expect(Object.keys(state.allowlist)).to.have.members([OWNER.address, ADDR1.address, ADDR3.address]);
+    expect(state.allowlist[ADDR3.address]).to.deep.equal({ expiresAt: 0n, tier: 1, jurisdiction: TH });
+    expect(isAllowlisted(state, ADDR2.address, await latestTimestamp())).to.be.false;
+
+    await token.unpause();
+    await indexer.sync();
+
+    expect(indexer.state.paused).to.be.false;
+  });
+
+  it("Should expire allowlist entries", async () => {
+    const expiresAt = (await latestTimestamp()) + ONE_DAY;
+    await registry.setAllowlist(ADDR3.address, expiresAt, 0, TH);
+
+    const indexer = new StateIndexer(ethers.provider, options);
+    await indexer.sync();
+
+    expect(isAllowlisted(indexer.state, ADDR3.address, expiresAt - 1)).to.be.true;
+    expect(isAllowlisted(indexer.state, ADDR3.address, expiresAt)).to.be.false;
+  });
+
+  it("Should fold the transfer limits consumed by transfers like the contract", async () => {
+    await token.setTransferLimit(ADDR1.address, ONE_HUNDRED);
+    await token.connect(ADDR1).transfer(ADDR2.address, 30n);
+    await token.increaseTransferLimit(ADDR1.address, 20n);
+    await token.decreaseTransferLimit(ADDR1.address, 10n);
+    await token.setPeriodicReceiveLimit(ADDR2.address, ONE_HUNDRED, ONE_DAY);
+    await token.connect(ADDR1).transfer(ADDR2.address, 40n);
+    await token.setGlobalTransferLimit(ONE_THOUSAND, ONE_DAY);
+    await time.increase(ONE_DAY);
+    await token.connect(ADDR1).transfer(ADDR2.address, 50n);
+
+    const indexer = new StateIndexer(ethers.provider, options);
+    await indexer.sync();
+    const { state } = indexer;
+    const now = await latestTimestamp();
+
+    const [, transferAmount] = await token.transferLimitOf(ADDR1.address);
+    const [, receiveAmount, receiveResetAt] = await token.receiveLimitOf(ADDR2.address);
+    expect(state.transferLimits[ADDR1.address].amount).to.equal(transferAmount);
+    expect(state.transferLimits[ADDR1.address].amount).to.equal(ONE_HUNDRED - 30n + 20n - 10n - 40n - 50n);
+    expect(state.receiveLimits[ADDR2.address].amount).to.equal(receiveAmount);
+    expect(state.receiveLimits[ADDR2.address].resetAt).to.equal(receiveResetAt);
+    expect(remainingLimit(state.globalTransferLimit, now)).to.equal(ONE_THOUSAND - 50n);
+
+    await token.unsetTransferLimit(ADDR1.address);
+    await token.disableTransferLimitable();
+    await token.connect(ADDR1).transfer(ADDR2.address, 60n);
+    await indexer.sync();
+
+    expect(indexer.state.transferLimits[ADDR1.address]).to.be.undefined;
+    expect(indexer.state.transferLimitable).to.be.false;
+    expect(indexer.state.receiveLimits[ADDR2.address].amount).to.equal(receiveAmount);
+  });
+
+  it("Should not consume the limits on forced transfers and move them on wallet recovery", async () => {
+    await token.setTransferLimit(ADDR1.address, ONE_HUNDRED);
+    await token.connect(ADDR1).transfer(ADDR2.address, 30n);
+    await token.adminTransfer(ADDR1.address, ADDR2.address, 40n, LOST_WALLET, CASE_ID);
+    await registry.addAllowlist(ADDR3.address);
+    await token.recoverWallets([ADDR1.address], [ADDR3.address], LOST_WALLET, CASE_ID);
+
+    const indexer = new StateIndexer(ethers.provider, options);
+    await indexer.sync();
+    const { state } = indexer;
+
+    expect(state.balances[ADDR1.address]).to.be.undefined;
+    expect(state.balances[ADDR3.address]).to.equal(await token.balanceOf(ADDR3.address));
+    expect(state.transferLimits[ADDR1.address]).to.be.undefined;
+    expect(state.transferLimits[ADDR3.address].amount).to.equal(ONE_HUNDRED - 30n);
+  });
+
+  it("Should sync in batches and resume from the checkpoint file", async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "state.json");
+    const head = await ethers.provider.getBlockNumber();
+
+    const first = new StateIndexer(ethers.provider, { ...options, file, batchSize: 2 });
+    expect(await first.sync(head - 1)).to.equal(head - 1);
+
+    await token.transfer(ADDR2.address, ONE_HUNDRED);
+    const resumed = new StateIndexer(ethers.provider, { ...options, file, batchSize: 2 });
+    expect(resumed.blockNumber).to.equal(head - 1);
+    expect(resumed.state).to.deep.equal(first.state);
+
+    await resumed.sync();
+    const fresh = new StateIndexer(ethers.provider, options);
+    await fresh.sync();
+
+    expect(resumed.state).to.deep.equal(fresh.state);
+    expect(resumed.state.balances[ADDR2.address]).to.equal(ONE_HUNDRED);
+  });
+
+  it("Should rewind the state on a reorg", async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "state.json");
+    const indexer = new StateIndexer(ethers.provider, { ...options, file, batchSize: 1 });
+    await indexer.sync();
+    const snapshot = await network.provider.send("evm_snapshot");
+
+    await token.transfer(ADDR2.address, ONE_HUNDRED);
+    await registry.addAllowlist(ADDR3.address);
+    await indexer.sync();
+    expect(indexer.state.balances[ADDR2.address]).to.equal(ONE_HUNDRED);
+
+    // Replaces the indexed blocks by other blocks of the same numbers.
+    await network.provider.send("evm_revert", [snapshot]);
+    await time.increase(60);
+    await token.transfer(ADDR1.address, ONE_HUNDRED);
+    await token.pause();
+
+    await indexer.sync();
+    const fresh = new StateIndexer(ethers.provider, options);
+    await fresh.sync();
+
+    expect(indexer.state).to.deep.equal(fresh.state);
+    expect(indexer.state.balances[ADDR2.address]).to.be.undefined;
+    expect(indexer.state.allowlist[ADDR3.address]).to.be.undefined;
+    expect(new StateIndexer(ethers.provider, { ...options, file }).state).to.deep.equal(fresh.state);
+  });
+
+  it("Should load failed with the checkpoint file of another token", async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "state.json");
+    await new StateIndexer(ethers.provider, { ...options, file }).sync();
+
+    expect(() => new StateIndexer(ethers.provider, { ...options, token: ADDR3.address, file })).to.throw(
+      `Indexer: ${file} indexes token ${options.token} and registry ${options.registry}`
+    );
+  });
+});
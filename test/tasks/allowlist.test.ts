@@ -0,0 +1,273 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { deployments, ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+const TH = ethers.hexlify(ethers.toUtf8Bytes("TH"));
+
+describe("AllowlistRegistry Tasks", () => {
+  let registry: any;
+  let ADDR1: any;
+  let ADDR2: any;
+  let ADDR3: any;
+  let dir: string;
+
+  beforeEach(async () => {
+    await deployments.fixture(["AllowlistRegistry"]);
+    [, ADDR1, ADDR2, ADDR3] = await ethers.getSigners();
+
+    registry = await ethers.getContractAt("AllowlistRegistry", (await deployments.get("AllowlistRegistry")).address);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "allowlist-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeCsv = (lines: string[]) => {
+    const file = path.join(dir, "allowlist.csv");
+    fs.writeFileSync(file, lines.join("\n"));
+
+    return file;
+  };
+
+  describe("allowlist:import", () => {
+    it("Should add and remove accounts of the CSV", async () => {
+      await registry.addAllowlist(ADDR3.address);
+      const file = writeCsv(["address,action", ADDR1.address, `${ADDR2.address},add`, `${ADDR3.address},remove`]);
+
+      await hre.run("allowlist:import", { file });
+
+      expect(await registry.isAllowlist(ADDR1.address)).to.be.true;
+      expect(await registry.isAllowlist(ADDR2.address)).to.be.true;
+      expect(await registry.isAllowlist(ADDR3.address)).to.be.false;
+    });
+
+    it("Should submit only the required changes", async () => {
+      await registry.addAllowlist(ADDR1.address);
+      const file = writeCsv([ADDR1.address, ADDR2.address, `${ADDR3.address},remove`]);
+
+      await hre.run("allowlist:import", { file });
+
+      const progress = JSON.parse(fs.readFileSync(`${file}.progress.json`, "utf8"));
+      expect(progress.chunks).to.have.lengthOf(1);
+      expect(progress.chunks[0].action).to.equal("add");
+      expect(progress.chunks[0].accounts).to.deep.equal([ADDR2.address]);
+    });
+
+    it("Should split changes into chunks", async () => {
+      const file = writeCsv([ADDR1.address, ADDR2.address, ADDR3.address]);
+
+      await hre.run("allowlist:import", { file, chunkSize: 2 });
+
+      const progress = JSON.parse(fs.readFileSync(`${file}.progress.json`, "utf8"));
+      expect(progress.chunks.map((chunk: any) => chunk.accounts)).to.deep.equal([
+        [ADDR1.address, ADDR2.address],
+        [ADDR3.address],
+      ]);
+    });
+
+    it("Should split chunks exceeding max gas", async () => {
+      const file = writeCsv([ADDR1.address, ADDR2.address]);
+      const gas = await registry.addAllowlistBatch.estimateGas([ADDR1.address]);
+
+      await hre.run("allowlist:import", { file, maxGas: Number(gas) });
+
+      const progress = JSON.parse(fs.readFileSync(`${file}.progress.json`, "utf8"));
+      expect(progress.chunks).to.have.lengthOf(2);
+    });
+
+    it("Should resume from the progress file", async () => {
+      const file = writeCsv([ADDR1.address, ADDR2.address]);
+      const progressFile = path.join(dir, "progress.json");
+      const registryAddr = await registry.getAddress();
+      fs.writeFileSync(
+        progressFile,
+        JSON.stringify({
+          registry: registryAddr,
+          chunks: [{ action: "add", accounts: [ADDR1.address], transactionHash: "0x" }],
+        })
+      );
+
+      await hre.run("allowlist:import", { file, progress: progressFile });
+
+      expect(await registry.isAllowlist(ADDR1.address)).to.be.false;
+      expect(await registry.isAllowlist(ADDR2.address)).to.be.true;
+    });
+
+    it("Should skip adding and remove expired accounts", async () => {
+      const expiresAt = (await time.latest()) + 24 * 60 * 60;
+      await registry.setAllowlist(ADDR1.address, expiresAt, 1, TH);
+      await registry.setAllowlist(ADDR2.address, expiresAt, 1, TH);
+      await time.increaseTo(expiresAt);
+      const file = writeCsv([ADDR1.address, `${ADDR2.address},remove`]);
+
+      await hre.run("allowlist:import", { file });
+
+      const progress = JSON.parse(fs.readFileSync(`${file}.progress.json`, "utf8"));
+      expect(progress.chunks).to.have.lengthOf(1);
+      expect(progress.chunks[0].action).to.equal("remove");
+      expect(progress.chunks[0].accounts).to.deep.equal([ADDR2.address]);
+      expect(await registry.allowlistCount()).to.equal(1);
+    });
+
+    it("Should import failed with invalid address", async () => {
+      const file = writeCsv(["0x1234"]);
+
+      await expect(hre.run("allowlist:import", { file })).to.be.rejectedWith("Invalid account address: 0x1234");
+    });
+
+    it("Should import failed with conflicting actions", async () => {
+      const file = writeCsv([ADDR1.address, `${ADDR1.address},remove`]);
+
+      await expect(hre.run("allowlist:import", { file })).to.be.rejectedWith(
+        `Conflicting actions for ${ADDR1.address}`
+      );
+    });
+  });
+
+  describe("allowlist:set", () => {
+    it("Should allowlist account with its entry", async () => {
+      await hre.run("allowlist:set", { account: ADDR1.address, expiresAt: 2000000000, tier: 2, jurisdiction: "TH" });
+
+      expect(await registry.allowlistEntryOf(ADDR1.address)).to.deep.equal([true, 2000000000n, 2n, "0x5448"]);
+    });
+
+    it("Should set failed with invalid jurisdiction", async () => {
+      await expect(hre.run("allowlist:set", { account: ADDR1.address, jurisdiction: "tha" })).to.be.rejectedWith(
+        "Invalid jurisdiction: tha"
+      );
+    });
+  });
+
+  describe("allowlist:snapshot", () => {
+    const readSnapshot = (out: string) => JSON.parse(fs.readFileSync(`${out}.json`, "utf8"));
+
+    it("Should export allowlist accounts with the block they were added", async () => {
+      await registry.addAllowlist(ADDR1.address);
+      const tx = await registry.addAllowlist(ADDR2.address);
+      const receipt = await tx.wait();
+      const out = path.join(dir, "snapshot");
+
+      await hre.run("allowlist:snapshot", { out });
+
+      const snapshot = readSnapshot(out);
+      expect(snapshot.count).to.equal(2);
+      expect(snapshot.accounts[1]).to.deep.equal({
+        account: ADDR2.address,
+        expiresAt: "0",
+        addedBlock: receipt.blockNumber,
+        transactionHash: receipt.hash,
+      });
+      expect(snapshot.mismatches).to.deep.equal([]);
+
+      const csv = fs.readFileSync(`${out}.csv`, "utf8").trim().split("\n");
+      expect(csv[0]).to.equal("address,expires_at,added_block,transaction_hash");
+      expect(csv[2]).to.equal(`${ADDR2.address},0,${receipt.blockNumber},${receipt.hash}`);
+    });
+
+    it("Should export allowlist accounts at the given block", async () => {
+      await registry.addAllowlist(ADDR1.address);
+      const block = await ethers.provider.getBlockNumber();
+      await registry.addAllowlist(ADDR2.address);
+      await registry.removeAllowlist(ADDR1.address);
+      const out = path.join(dir, "snapshot");
+
+      await hre.run("allowlist:snapshot", { out, block });
+
+      const snapshot = readSnapshot(out);
+      expect(snapshot.block).to.equal(block);
+      expect(snapshot.accounts.map((entry: any) => entry.account)).to.deep.equal([ADDR1.address]);
+    });
+
+    it("Should flag accounts without added event", async () => {
+      await registry.addAllowlist(ADDR1.address);
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+      await registry.addAllowlist(ADDR2.address);
+      const out = path.join(dir, "snapshot");
+
+      await hre.run("allowlist:snapshot", { out, fromBlock });
+
+      const snapshot = readSnapshot(out);
+      expect(snapshot.accounts[0]).to.deep.equal({
+        account: ADDR1.address,
+        expiresAt: "0",
+        addedBlock: null,
+        transactionHash: null,
+      });
+      expect(snapshot.mismatches).to.deep.equal([{ account: ADDR1.address, reason: "missing-added-event" }]);
+    });
+
+    it("Should export expired accounts apart", async () => {
+      const expiresAt = (await time.latest()) + 24 * 60 * 60;
+      await registry.addAllowlist(ADDR1.address);
+      await registry.setAllowlist(ADDR2.address, expiresAt, 1, TH);
+      await time.increaseTo(expiresAt);
+      const out = path.join(dir, "snapshot");
+
+      await hre.run("allowlist:snapshot", { out });
+
+      const snapshot = readSnapshot(out);
+      expect(snapshot.count).to.equal(1);
+      expect(snapshot.accounts.map((entry: any) => entry.account)).to.deep.equal([ADDR1.address]);
+      expect(snapshot.expired.map((entry: any) => [entry.account, entry.expiresAt])).to.deep.equal([
+        [ADDR2.address, expiresAt.toString()],
+      ]);
+      expect(fs.readFileSync(`${out}.csv`, "utf8")).to.not.contain(ADDR2.address);
+    });
+  });
+
+  describe("allowlist:migrate", () => {
+    let token: any;
+    let newRegistry: any;
+
+    beforeEach(async () => {
+      await deployments.fixture(["InvestmentTokenM"]);
+
+      token = await ethers.getContractAt("InvestmentTokenM", (await deployments.get("InvestmentTokenM")).address);
+      registry = await ethers.getContractAt("AllowlistRegistry", (await deployments.get("AllowlistRegistry")).address);
+      newRegistry = await (await ethers.getContractFactory("AllowlistRegistry")).deploy();
+
+      await registry.setAllowlist(ADDR1.address, 0, 1, TH);
+      await registry.setAllowlist(ADDR2.address, 4102444800, 2, "0x0000");
+    });
+
+    it("Should copy the allowlist entries and repoint the token", async () => {
+      await newRegistry.setAllowlist(ADDR1.address, 0, 1, TH);
+
+      await hre.run("allowlist:migrate", { to: await newRegistry.getAddress() });
+
+      expect(await newRegistry.allowlistCount()).to.equal(2);
+      expect(await newRegistry.allowlistEntryOf(ADDR1.address)).to.deep.equal([true, 0n, 1n, TH]);
+      expect(await newRegistry.allowlistEntryOf(ADDR2.address)).to.deep.equal([true, 4102444800n, 2n, "0x0000"]);
+      expect(await token.allowlistRegistry()).to.equal(await newRegistry.getAddress());
+    });
+
+    it("Should not repoint the token with --skip-repoint", async () => {
+      await hre.run("allowlist:migrate", { to: await newRegistry.getAddress(), skipRepoint: true });
+
+      expect(await newRegistry.allowlistCount()).to.equal(2);
+      expect(await token.allowlistRegistry()).to.equal(await registry.getAddress());
+    });
+
+    it("Should migrate failed when the new registry has other accounts", async () => {
+      await newRegistry.addAllowlist(ADDR3.address);
+
+      await expect(hre.run("allowlist:migrate", { to: await newRegistry.getAddress() })).to.be.rejectedWith(
+        `Allowlist parity check failed:\n  ${ADDR3.address} is not in the source registry`
+      );
+      expect(await token.allowlistRegistry()).to.equal(await registry.getAddress());
+    });
+
+    it("Should migrate failed when the caller does not own the new registry", async () => {
+      await newRegistry.transferOwnership(ADDR1.address);
+      await newRegistry.connect(ADDR1).acceptOwnership();
+
+      await expect(hre.run("allowlist:migrate", { to: await newRegistry.getAddress() })).to.be.rejectedWith(
+        "setAllowlistBatch reverted: Ownable: caller is not the owner"
+      );
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import hre, { deployments, ethers } from "hardhat";
+import { hashLeaf, verifyProof } from "../../lib/merkle";
+import { createProofServer } from "../../lib/proof-server";
+
+const ONE_THOUSAND = ethers.parseEther("1000");
+
+describe("Distribution Tasks", () => {
+  let token: any;
+  let registry: any;
+  let distributor: any;
+  let OWNER: any;
+  let ADDR1: any;
+  let ADDR2: any;
+  let dir: string;
+
+  beforeEach(async () => {
+    await deployments.fixture(["InvestmentTokenM", "RewardDistributor"]);
+    [OWNER, ADDR1, ADDR2] = await ethers.getSigners();
+
+    token = await ethers.getContractAt("InvestmentTokenM", (await deployments.get("InvestmentTokenM")).address);
+    registry = await ethers.getContractAt("AllowlistRegistry", (await deployments.get("AllowlistRegistry")).address);
+    distributor = await ethers.getContractAt("RewardDistributor", (await deployments.get("RewardDistributor")).address);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "distribution-"));
+
+    await registry.addAllowlist(ADDR1.address);
+    await registry.addAllowlist(ADDR2.address);
+    await token.mintTo(ADDR1.address, ONE_THOUSAND * 3n);
+    await token.mintTo(ADDR2.address, ONE_THOUSAND);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const readCsv = (file: string) => fs.readFileSync(file, "utf8").trim().split("\n");
+
+  describe("distribution:export", () => {
+    it("Should export the holder balances and rewards at the snapshot", async () => {
+      await token.snapshot();
+      await token.connect(ADDR1).transfer(ADDR2.address, ONE_THOUSAND);
+      await token.mint(ONE_THOUSAND);
+      const out = path.join(dir, "distribution.csv");
+
+      await hre.run("distribution:export", { snapshot: 1, out, reward: "100", rewardDecimals: 6 });
+
+      const rows = [
+        [ADDR1.address, ONE_THOUSAND * 3n, 75000000n].join(","),
+        [ADDR2.address, ONE_THOUSAND, 25000000n].join(","),
+      ];
+      expect(readCsv(out)).to.deep.equal(["address,balance,reward", ...rows.sort()]);
+    });
+
+    it("Should export zero rewards without reward amount", async () => {
+      await token.snapshot();
+      const out = path.join(dir, "distribution.csv");
+
+      await hre.run("distribution:export", { snapshot: 1, out });
+
+      expect(readCsv(out)).to.include(`${ADDR2.address},${ONE_THOUSAND},0`);
+    });
+
+    it("Should export failed when snapshot does not exist", async () => {
+      await expect(hre.run("distribution:export", { snapshot: 1, out: path.join(dir, "out.csv") })).to.be.rejectedWith(
+        "Snapshot 1 not found"
+      );
+    });
+
+    it("Should export failed when holders are missed", async () => {
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+      await token.snapshot();
+
+      await expect(
+        hre.run("distribution:export", { snapshot: 1, out: path.join(dir, "out.csv"), fromBlock })
+      ).to.be.rejectedWith(`Snapshot 1 balances sum to 0 but total supply is ${ONE_THOUSAND * 4n}`);
+    });
+  });
+
+  const exportMerkle = async () => {
+    await token.snapshot();
+    const file = path.join(dir, "distribution.csv");
+    const out = path.join(dir, "merkle.json");
+
+    await hre.run("distribution:export", { snapshot: 1, out: file, reward: "400" });
+    await hre.run("distribution:merkle", { file, out });
+
+    return out;
+  };
+
+  describe("distribution:merkle", () => {
+    it("Should build the Merkle tree of the rewards", async () => {
+      const merkle = JSON.parse(fs.readFileSync(await exportMerkle(), "utf8"));
+
+      expect(merkle.total).to.equal(ethers.parseEther("400").toString());
+      expect(merkle.claims[ADDR1.address].amount).to.equal(ethers.parseEther("300").toString());
+
+      const leaf = hashLeaf(ADDR2.address, ethers.parseEther("100"));
+      expect(verifyProof(leaf, merkle.claims[ADDR2.address].proof, merkle.root)).to.be.true;
+    });
+
+    it("Should build failed when the CSV has no rewards", async () => {
+      const file = path.join(dir, "distribution.csv");
+      fs.writeFileSync(file, `address,balance,reward\n${ADDR1.address},1,0\n`);
+
+      await expect(hre.run("distribution:merkle", { file, out: path.join(dir, "merkle.json") })).to.be.rejectedWith(
+        "Merkle: no rewards to distribute"
+      );
+    });
+  });
+
+  describe("distribution:create", () => {
+    it("Should deposit the rewards and let holders claim", async () => {
+      const merkle = await exportMerkle();
+      await registry.addAllowlist(OWNER.address);
+      await registry.addAllowlist(await distributor.getAddress());
+      await token.mint(ethers.parseEther("400"));
+
+      await hre.run("distribution:create", { merkle, rewardToken: await token.getAddress() });
+
+      const { root, claims } = JSON.parse(fs.readFileSync(merkle, "utf8"));
+      expect((await distributor.distributionOf(0))[1]).to.equal(root);
+
+      const { amount, proof } = claims[ADDR1.address];
+      await distributor.claim(0, ADDR1.address, amount, proof);
+      expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND * 3n + BigInt(amount));
+    });
+  });
+
+  describe("proof server", () => {
+    let server: any;
+    let url: string;
+
+    beforeEach(async () => {
+      const merkle = JSON.parse(fs.readFileSync(await exportMerkle(), "utf8"));
+      server = createProofServer({ ...merkle, total: BigInt(merkle.total) });
+
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("Should serve the proof of an account", async () => {
+      const response = await fetch(`${url}/proofs/${ADDR1.address.toLowerCase()}`);
+      const body = await response.json();
+
+      expect(response.status).to.equal(200);
+      expect(body.account).to.equal(ADDR1.address);
+      expect(body.amount).to.equal(ethers.parseEther("300").toString());
+
+      const { root } = await (await fetch(`${url}/root`)).json();
+      expect(verifyProof(hashLeaf(ADDR1.address, BigInt(body.amount)), body.proof, root)).to.be.true;
+    });
+
+    it("Should serve not found for an account without reward", async () => {
+      const response = await fetch(`${url}/proofs/${OWNER.address}`);
+
+      expect(response.status).to.equal(404);
+    });
+
+    it("Should serve bad request for an invalid address", async () => {
+      const response = await fetch(`${url}/proofs/alice`);
+
+      expect(response.status).to.equal(400);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { deployments, ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+const ONE_HUNDRED = ethers.parseEther("100");
+const ONE_DAY = 24 * 60 * 60;
+const COURT_ORDER = 1;
+const CASE_ID = ethers.id("CASE-001");
+
+const QUEUED = 2;
+const EXECUTED = 3;
+const CANCELLED = 4;
+
+describe("GovernanceTimelock Tasks", () => {
+  let governance: any;
+  let token: any;
+  let OWNER: any;
+  let ADDR1: any;
+
+  const propose = async (method: string, args: any[]) =>
+    hre.run("governance:propose", {
+      contract: "InvestmentTokenM",
+      method,
+      args,
+      governance: await governance.getAddress(),
+    });
+
+  beforeEach(async () => {
+    await deployments.fixture(["InvestmentTokenM"]);
+    [OWNER, ADDR1] = await ethers.getSigners();
+
+    token = await ethers.getContractAt("InvestmentTokenM", (await deployments.get("InvestmentTokenM")).address);
+    const registry = await ethers.getContractAt(
+      "AllowlistRegistry",
+      (
+        await deployments.get("AllowlistRegistry")
+      ).address
+    );
+
+    const Governance = await ethers.getContractFactory("GovernanceTimelock");
+    governance = await Governance.deploy([OWNER.address, ADDR1.address], 2, ONE_DAY);
+
+    await registry.addAllowlist(ADDR1.address);
+    await token.mintTo(ADDR1.address, ONE_HUNDRED);
+    await token.grantRole(await token.COMPLIANCE_ROLE(), await governance.getAddress());
+  });
+
+  it("Should propose an operation approved by the caller", async () => {
+    await propose("adminBurn", [ADDR1.address, ONE_HUNDRED.toString(), COURT_ORDER, CASE_ID]);
+
+    const [target, data] = await governance.operationOf(0);
+    expect(target).to.equal(await token.getAddress());
+    expect(data).to.equal(
+      token.interface.encodeFunctionData("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID])
+    );
+    expect(await governance.hasApproved(0, OWNER.address)).to.be.true;
+  });
+
+  it("Should propose failed when the call would revert from the governance", async () => {
+    await expect(propose("renounceMintable", [])).to.be.rejectedWith(
+      `renounceMintable would revert from the governance: AccessControl: account ${(
+        await governance.getAddress()
+      ).toLowerCase()} is missing role ${ethers.ZeroHash}`
+    );
+    expect(await governance.operationCount()).to.equal(0);
+  });
+
+  it("Should approve and execute an operation", async () => {
+    await governance
+      .connect(ADDR1)
+      .propose(
+        await token.getAddress(),
+        token.interface.encodeFunctionData("adminBurn", [ADDR1.address, ONE_HUNDRED, COURT_ORDER, CASE_ID])
+      );
+
+    await hre.run("governance:approve", { id: 0, governance: await governance.getAddress() });
+    expect((await governance.operationOf(0))[3]).to.equal(QUEUED);
+
+    await time.increase(ONE_DAY);
+    await hre.run("governance:execute", { id: 0, governance: await governance.getAddress() });
+
+    expect((await governance.operationOf(0))[3]).to.equal(EXECUTED);
+    expect(await token.balanceOf(ADDR1.address)).to.equal(0);
+  });
+
+  it("Should execute failed when the delay has not passed", async () => {
+    await propose("adminBurn", [ADDR1.address, ONE_HUNDRED.toString(), COURT_ORDER, CASE_ID]);
+    await governance.connect(ADDR1).approve(0);
+
+    await expect(
+      hre.run("governance:execute", { id: 0, governance: await governance.getAddress() })
+    ).to.be.rejectedWith(/^execute reverted: OperationNotReady\(id=0, eta=\d+\)$/);
+  });
+
+  it("Should cancel an operation", async () => {
+    await propose("adminBurn", [ADDR1.address, ONE_HUNDRED.toString(), COURT_ORDER, CASE_ID]);
+
+    await hre.run("governance:cancel", { id: 0, governance: await governance.getAddress() });
+
+    expect((await governance.operationOf(0))[3]).to.equal(CANCELLED);
+  });
+
+  it("Should list the pending operations", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "governance-"));
+    const out = path.join(dir, "pending.csv");
+
+    try {
+      await propose("adminBurn", [ADDR1.address, ONE_HUNDRED.toString(), COURT_ORDER, CASE_ID]);
+      await propose("adminBurn", [ADDR1.address, "1", COURT_ORDER, CASE_ID]);
+      await hre.run("governance:cancel", { id: 0, governance: await governance.getAddress() });
+      await hre.run("governance:pending", { out, governance: await governance.getAddress() });
+
+      const rows = fs.readFileSync(out, "utf8").trim().split("\n");
+      expect(rows.length).to.equal(2);
+      expect(rows[1]).to.match(new RegExp(`^1,Proposed,${await token.getAddress()},0x[0-9a-f]+,1,0$`));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { deployments, ethers } from "hardhat";
+
+const ONE_THOUSAND = ethers.parseEther("1000");
+const ONE_HUNDRED = ethers.parseEther("100");
+const ONE_DAY = 24 * 60 * 60;
+
+describe("RedemptionManager Tasks", () => {
+  let manager: any;
+  let token: any;
+  let payoutToken: any;
+  let registry: any;
+  let ADDR1: any;
+  let ADDR2: any;
+
+  beforeEach(async () => {
+    await deployments.fixture(["InvestmentTokenM"]);
+    [, ADDR1, ADDR2] = await ethers.getSigners();
+
+    token = await ethers.getContractAt("InvestmentTokenM", (await deployments.get("InvestmentTokenM")).address);
+    registry = await ethers.getContractAt("AllowlistRegistry", (await deployments.get("AllowlistRegistry")).address);
+
+    const Token = await ethers.getContractFactory("InvestmentTokenM");
+    const Manager = await ethers.getContractFactory("RedemptionManager");
+    payoutToken = await Token.deploy("Payout Token", "USD", await registry.getAddress());
+    manager = await Manager.deploy(
+      await token.getAddress(),
+      await payoutToken.getAddress(),
+      ethers.parseEther("1"),
+      ONE_DAY,
+      await registry.getAddress()
+    );
+
+    await registry.addAllowlistBatch([ADDR1.address, await manager.getAddress()]);
+    await token.mintTo(ADDR1.address, ONE_THOUSAND);
+    await payoutToken.mint(ONE_THOUSAND);
+    await payoutToken.transfer(await manager.getAddress(), ONE_THOUSAND);
+
+    for (let i = 0; i < 2; i++) {
+      await token.connect(ADDR1).approve(await manager.getAddress(), ONE_HUNDRED);
+      await manager.connect(ADDR1).requestRedemption(ONE_HUNDRED);
+    }
+  });
+
+  it("Should approve a redemption", async () => {
+    await hre.run("redemption:approve", { id: 0, manager: await manager.getAddress() });
+
+    expect(await payoutToken.balanceOf(ADDR1.address)).to.equal(ONE_HUNDRED);
+  });
+
+  it("Should reject a redemption", async () => {
+    await hre.run("redemption:reject", { id: 1, manager: await manager.getAddress() });
+
+    expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND - ONE_HUNDRED);
+  });
+
+  it("Should reject a redemption to another account", async () => {
+    await token.freeze(ADDR1.address);
+    await registry.addAllowlist(ADDR2.address);
+
+    await hre.run("redemption:reject", { id: 1, to: ADDR2.address, manager: await manager.getAddress() });
+
+    expect(await token.balanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
+  });
+
+  it("Should list the pending redemptions", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "redemption-"));
+    const out = path.join(dir, "pending.csv");
+
+    try {
+      await hre.run("redemption:approve", { id: 0, manager: await manager.getAddress() });
+      await hre.run("redemption:pending", { out, manager: await manager.getAddress() });
+
+      const rows = fs.readFileSync(out, "utf8").trim().split("\n");
+      expect(rows.length).to.equal(2);
+      expect(rows[1]).to.match(new RegExp(`^1,${ADDR1.address},${ONE_HUNDRED},${ONE_HUNDRED},\\d+$`));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,359 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { deployments, ethers } from "hardhat";
+
+const ONE_THOUSAND = ethers.parseEther("1000");
+const ONE_HUNDRED = ethers.parseEther("100");
+
+describe("InvestmentTokenM Tasks", () => {
+  let token: any;
+  let registry: any;
+  let OWNER: any;
+  let ADDR1: any;
+  let ADDR2: any;
+
+  beforeEach(async () => {
+    await deployments.fixture(["InvestmentTokenM"]);
+    [OWNER, ADDR1, ADDR2] = await ethers.getSigners();
+
+    token = await ethers.getContractAt("InvestmentTokenM", (await deployments.get("InvestmentTokenM")).address);
+    registry = await ethers.getContractAt("AllowlistRegistry", (await deployments.get("AllowlistRegistry")).address);
+  });
+
+  describe("token:mint", () => {
+    it("Should mint decimal amount to the caller", async () => {
+      await hre.run("token:mint", { amount: "1000.5" });
+
+      expect(await token.balanceOf(OWNER.address)).to.equal(ethers.parseEther("1000.5"));
+    });
+
+    it("Should mint on the given token address", async () => {
+      await hre.run("token:mint", { amount: "1000", token: await token.getAddress() });
+
+      expect(await token.balanceOf(OWNER.address)).to.equal(ONE_THOUSAND);
+    });
+
+    it("Should mint failed with invalid amount", async () => {
+      await expect(hre.run("token:mint", { amount: "-1" })).to.be.rejectedWith("Invalid amount: -1");
+    });
+
+    it("Should mint failed with invalid token address", async () => {
+      await expect(hre.run("token:mint", { amount: "1", token: "0x1234" })).to.be.rejectedWith(
+        "Invalid InvestmentTokenM address: 0x1234"
+      );
+    });
+
+    it("Should not send the transaction when the dry-run reverts", async () => {
+      await token.renounceMintable();
+      const nonce = await OWNER.getNonce();
+
+      await expect(hre.run("token:mint", { amount: "1000" })).to.be.rejectedWith("mint reverted: MintingRenounced()");
+      expect(await OWNER.getNonce()).to.equal(nonce);
+    });
+  });
+
+  describe("token:mint-to", () => {
+    it("Should mint to an allowlisted account", async () => {
+      await registry.addAllowlist(ADDR1.address);
+
+      await hre.run("token:mint-to", { to: ADDR1.address, amount: "1000" });
+
+      expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+    });
+
+    it("Should mint to failed with invalid account address", async () => {
+      await expect(hre.run("token:mint-to", { to: "bob", amount: "1000" })).to.be.rejectedWith(
+        "Invalid to address: bob"
+      );
+    });
+  });
+
+  describe("token:set-max-supply", () => {
+    it("Should set max supply", async () => {
+      await hre.run("token:set-max-supply", { amount: "1000" });
+
+      expect(await token.maxSupply()).to.equal(ONE_THOUSAND);
+    });
+  });
+
+  describe("token:pause", () => {
+    it("Should pause and unpause the token", async () => {
+      await hre.run("token:pause");
+      expect(await token.paused()).to.be.true;
+
+      await hre.run("token:unpause");
+      expect(await token.paused()).to.be.false;
+    });
+  });
+
+  describe("token:snapshot", () => {
+    it("Should snapshot the balances", async () => {
+      await hre.run("token:mint", { amount: "1000" });
+      await hre.run("token:snapshot");
+      await hre.run("token:mint", { amount: "1000" });
+
+      expect(await token.balanceOfAt(OWNER.address, 1)).to.equal(ONE_THOUSAND);
+    });
+  });
+
+  describe("transfer limit", () => {
+    it("Should set and increase transfer limit", async () => {
+      await hre.run("token:set-transfer-limit", { account: ADDR1.address, amount: "100" });
+      expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_HUNDRED, 0n]);
+
+      await hre.run("token:increase-transfer-limit", { account: ADDR1.address, amount: "900" });
+      expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_THOUSAND, 0n]);
+    });
+
+    it("Should set periodic transfer limit", async () => {
+      await hre.run("token:set-periodic-transfer-limit", { account: ADDR1.address, amount: "100", period: 86400 });
+
+      expect(await token.transferLimitPeriodOf(ADDR1.address)).to.deep.equal([ONE_HUNDRED, 86400n]);
+    });
+
+    it("Should set transfer limit failed with invalid account address", async () => {
+      await expect(hre.run("token:set-transfer-limit", { account: "alice", amount: "100" })).to.be.rejectedWith(
+        "Invalid account address: alice"
+      );
+    });
+  });
+
+  describe("vesting", () => {
+    it("Should set and remove vesting schedule", async () => {
+      await hre.run("token:set-vesting-schedule", {
+        account: ADDR1.address,
+        start: 1000,
+        cliff: 86400,
+        duration: 864000,
+        amount: "1000",
+      });
+      expect(await token.vestingScheduleOf(ADDR1.address)).to.deep.equal([1000n, 86400n, 864000n, ONE_THOUSAND]);
+
+      await hre.run("token:remove-vesting-schedule", { account: ADDR1.address });
+      expect(await token.vestingScheduleOf(ADDR1.address)).to.deep.equal([0n, 0n, 0n, 0n]);
+    });
+  });
+
+  describe("freeze", () => {
+    it("Should freeze and unfreeze an account", async () => {
+      await hre.run("token:freeze", { account: ADDR1.address });
+      expect(await token.isFrozen(ADDR1.address)).to.be.true;
+
+      await hre.run("token:unfreeze", { account: ADDR1.address });
+      expect(await token.isFrozen(ADDR1.address)).to.be.false;
+    });
+
+    it("Should freeze an amount of an account", async () => {
+      await hre.run("token:freeze-amount", { account: ADDR1.address, amount: "100" });
+
+      expect(await token.frozenAmountOf(ADDR1.address)).to.equal(ONE_HUNDRED);
+    });
+  });
+
+  describe("holding limits", () => {
+    it("Should set the max balance of an account and a tier", async () => {
+      await hre.run("token:set-max-balance", { account: ADDR1.address, amount: "100" });
+      await hre.run("token:set-tier-max-balance", { tier: 1, amount: "1000" });
+
+      expect(await token.maxBalanceOf(ADDR1.address)).to.equal(ONE_HUNDRED);
+      expect(await token.tierMaxBalance(1)).to.equal(ONE_THOUSAND);
+    });
+
+    it("Should set the max holder count", async () => {
+      await hre.run("token:set-max-holder-count", { count: 10 });
+
+      expect(await token.maxHolderCount()).to.equal(10);
+    });
+  });
+
+  describe("compliance modules", () => {
+    it("Should add and remove a compliance module", async () => {
+      const Denylist = await ethers.getContractFactory("DenylistModule");
+      const module = await (await Denylist.deploy()).getAddress();
+
+      await hre.run("token:add-compliance-module", { module });
+      expect(await token.complianceModules()).to.deep.equal([module]);
+
+      await hre.run("token:remove-compliance-module", { module });
+      expect(await token.complianceModules()).to.deep.equal([]);
+    });
+  });
+
+  describe("admin", () => {
+    beforeEach(async () => {
+      await token.mint(ONE_THOUSAND);
+    });
+
+    it("Should adminTransfer tokens with the hash of the case ID", async () => {
+      await hre.run("token:admin-transfer", {
+        from: OWNER.address,
+        to: ADDR1.address,
+        amount: "100",
+        reason: 1,
+        caseId: "CASE-001",
+      });
+
+      const [event] = await token.queryFilter(token.filters.ForcedTransfer());
+      expect(event.args).to.deep.equal([OWNER.address, ADDR1.address, ONE_HUNDRED, 1n, ethers.id("CASE-001")]);
+      expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_HUNDRED);
+    });
+
+    it("Should adminBurn tokens with a bytes32 case ID", async () => {
+      const caseId = ethers.id("CASE-002");
+
+      await hre.run("token:admin-burn", { account: OWNER.address, amount: "100", reason: 1, caseId });
+
+      const [event] = await token.queryFilter(token.filters.ForcedBurn());
+      expect(event.args).to.deep.equal([OWNER.address, ONE_HUNDRED, 1n, caseId]);
+      expect(await token.balanceOf(OWNER.address)).to.equal(ONE_THOUSAND - ONE_HUNDRED);
+    });
+
+    it("Should recover the wallets of the CSV", async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "recover-"));
+      const file = path.join(dir, "wallets.csv");
+      fs.writeFileSync(file, ["lost,new", `${OWNER.address},${ADDR1.address}`].join("\n"));
+      await registry.addAllowlist(ADDR1.address);
+      await token.setTransferLimit(OWNER.address, ONE_HUNDRED);
+
+      try {
+        await hre.run("token:recover-wallets", { file, reason: 2, caseId: "CASE-003" });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+
+      expect(await token.balanceOf(OWNER.address)).to.equal(0);
+      expect(await token.balanceOf(ADDR1.address)).to.equal(ONE_THOUSAND);
+      expect(await token.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_HUNDRED, 0n]);
+    });
+
+    it("Should renounce mintable", async () => {
+      await hre.run("token:renounce-mintable");
+
+      expect(await token.mintable()).to.be.false;
+    });
+
+    it("Should set allowlist registry", async () => {
+      const Registry = await ethers.getContractFactory("AllowlistRegistry");
+      const newRegistry = await Registry.deploy();
+      const newRegistryAddr = await newRegistry.getAddress();
+
+      await hre.run("token:set-allowlist-registry", { registry: newRegistryAddr });
+
+      expect(await token.allowlistRegistry()).to.equal(newRegistryAddr);
+    });
+
+    it("Should emergency withdraw the whole balance to the treasury", async () => {
+      const Token = await ethers.getContractFactory("InvestmentTokenM");
+      const other = await Token.deploy("Other Token", "OTK", await registry.getAddress());
+      const tokenAddr = await token.getAddress();
+      await registry.addAllowlistBatch([OWNER.address, ADDR2.address, tokenAddr]);
+      await other.mint(ONE_THOUSAND);
+      await other.transfer(tokenAddr, ONE_HUNDRED);
+
+      await hre.run("token:set-treasury", { treasury: ADDR2.address });
+      await hre.run("token:emergency-withdraw", { kind: "ERC20", asset: await other.getAddress() });
+
+      expect(await token.treasury()).to.equal(ADDR2.address);
+      expect(await other.balanceOf(tokenAddr)).to.equal(0);
+      expect(await other.balanceOf(ADDR2.address)).to.equal(ONE_HUNDRED);
+    });
+
+    it("Should emergency withdraw part of the Ether", async () => {
+      const tokenAddr = await token.getAddress();
+      await ethers.provider.send("hardhat_setBalance", [tokenAddr, ethers.toQuantity(ONE_HUNDRED)]);
+
+      await hre.run("token:set-treasury", { treasury: ADDR2.address });
+      await hre.run("token:emergency-withdraw", { kind: "Ether", amount: "0.5" });
+
+      expect(await ethers.provider.getBalance(tokenAddr)).to.equal(ONE_HUNDRED - ethers.parseEther("0.5"));
+    });
+
+    it("Should emergency withdraw part of an ERC20 balance in its decimals", async () => {
+      const Mock = await ethers.getContractFactory("ERC20DecimalsMock");
+      const stablecoin = await Mock.deploy(6);
+      const tokenAddr = await token.getAddress();
+      await stablecoin.mint(tokenAddr, ethers.parseUnits("100", 6));
+
+      await hre.run("token:set-treasury", { treasury: ADDR2.address });
+      await hre.run("token:emergency-withdraw", {
+        kind: "ERC20",
+        asset: await stablecoin.getAddress(),
+        amount: "12.5",
+      });
+
+      expect(await stablecoin.balanceOf(ADDR2.address)).to.equal(ethers.parseUnits("12.5", 6));
+    });
+
+    it("Should emergency withdraw failed with a fractional ERC1155 amount", async () => {
+      await expect(
+        hre.run("token:emergency-withdraw", { kind: "ERC1155", asset: ADDR1.address, id: "1", amount: "1.5" })
+      ).to.be.rejectedWith("Invalid amount: 1.5, expected a number of tokens");
+    });
+
+    it("Should emergency withdraw failed with invalid kind", async () => {
+      await expect(hre.run("token:emergency-withdraw", { kind: "ERC777" })).to.be.rejectedWith(
+        "Invalid kind: ERC777, expected one of Ether, ERC20, ERC721, ERC1155"
+      );
+    });
+  });
+
+  describe("roles", () => {
+    const MINTER_ROLE = ethers.id("MINTER_ROLE");
+
+    it("Should grant and revoke a role", async () => {
+      await hre.run("token:grant-role", { role: "MINTER_ROLE", account: ADDR1.address });
+      expect(await token.hasRole(MINTER_ROLE, ADDR1.address)).to.be.true;
+
+      await hre.run("token:revoke-role", { role: "MINTER_ROLE", account: ADDR1.address });
+      expect(await token.hasRole(MINTER_ROLE, ADDR1.address)).to.be.false;
+    });
+
+    it("Should grant role failed with unknown role", async () => {
+      await expect(hre.run("token:grant-role", { role: "OWNER", account: ADDR1.address })).to.be.rejectedWith(
+        "Invalid role: OWNER"
+      );
+    });
+
+    it("Should grant role failed with the admin role", async () => {
+      await expect(
+        hre.run("token:grant-role", { role: "DEFAULT_ADMIN_ROLE", account: ADDR1.address })
+      ).to.be.rejectedWith("DEFAULT_ADMIN_ROLE is not granted, transfer it with token:transfer-admin");
+    });
+  });
+
+  describe("admin transfer", () => {
+    const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
+
+    it("Should start to transfer the admin role", async () => {
+      await hre.run("token:transfer-admin", { account: ADDR1.address });
+
+      expect(await token.pendingAdmin()).to.equal(ADDR1.address);
+      expect(await token.hasRole(DEFAULT_ADMIN_ROLE, OWNER.address)).to.be.true;
+    });
+
+    it("Should accept the transfer of the admin role", async () => {
+      await token.transferAdmin(ADDR1.address);
+      await token.connect(ADDR1).acceptAdmin();
+      await token.connect(ADDR1).transferAdmin(OWNER.address);
+
+      await hre.run("token:accept-admin");
+
+      expect(await token.hasRole(DEFAULT_ADMIN_ROLE, OWNER.address)).to.be.true;
+      expect(await token.hasRole(DEFAULT_ADMIN_ROLE, ADDR1.address)).to.be.false;
+    });
+
+    it("Should accept admin failed when the caller is not the pending admin", async () => {
+      await hre.run("token:transfer-admin", { account: ADDR1.address });
+
+      await expect(hre.run("token:accept-admin")).to.be.rejectedWith("acceptAdmin reverted");
+    });
+
+    it("Should transfer admin failed with invalid account", async () => {
+      await expect(hre.run("token:transfer-admin", { account: "0x1234" })).to.be.rejectedWith(
+        "Invalid account address: 0x1234"
+      );
+    });
+  });
+});
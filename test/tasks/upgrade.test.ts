@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import hre, { deployments, ethers, upgrades } from "hardhat";
+import { deployProxy } from "../../tasks/helpers";
+
+const ONE_MILLION = ethers.parseEther("1000000");
+const ONE_HUNDRED = ethers.parseEther("100");
+
+describe("Upgrade Tasks", () => {
+  let registry: any;
+  let token: any;
+  let ADDR1: any;
+
+  beforeEach(async () => {
+    await deployments.fixture(["InvestmentTokenM"]);
+    await deployments.delete("InvestmentTokenM");
+    await deployments.delete("AllowlistRegistry");
+    [, ADDR1] = await ethers.getSigners();
+
+    const { address: registryAddress } = await deployProxy(
+      hre,
+      "AllowlistRegistry",
+      "AllowlistRegistryUpgradeable",
+      []
+    );
+    const { address: tokenAddress } = await deployProxy(hre, "InvestmentTokenM", "InvestmentTokenMUpgradeable", [
+      "Investment Token",
+      "ITK",
+      registryAddress,
+    ]);
+
+    registry = await ethers.getContractAt("AllowlistRegistryUpgradeable", registryAddress);
+    token = await ethers.getContractAt("InvestmentTokenMUpgradeable", tokenAddress);
+  });
+
+  describe("deployProxy", () => {
+    it("Should record the proxy with its implementation as the deployment", async () => {
+      const deployment = await deployments.get("InvestmentTokenM");
+
+      expect(deployment.address).to.equal(await token.getAddress());
+      expect(deployment.implementation).to.equal(await upgrades.erc1967.getImplementationAddress(deployment.address));
+      expect(deployment.args).to.deep.equal(["Investment Token", "ITK", await registry.getAddress()]);
+      expect(await token.allowlistRegistry()).to.equal(await registry.getAddress());
+    });
+
+    it("Should reuse the proxy when it is already deployed", async () => {
+      const result = await deployProxy(hre, "AllowlistRegistry", "AllowlistRegistryUpgradeable", []);
+
+      expect(result).to.deep.equal({ address: await registry.getAddress(), newlyDeployed: false });
+    });
+  });
+
+  describe("upgrade:validate", () => {
+    it("Should pass when the implementation is upgrade safe", async () => {
+      await hre.run("upgrade:validate", {
+        name: "InvestmentTokenM",
+        implementation: "InvestmentTokenMUpgradeableV2Mock",
+      });
+    });
+
+    it("Should fail when the storage layout is incompatible", async () => {
+      await expect(
+        hre.run("upgrade:validate", { name: "AllowlistRegistry", implementation: "InvestmentTokenMUpgradeable" })
+      ).to.be.rejectedWith("New storage layout is incompatible");
+    });
+
+    it("Should fail when the contract is not upgradeable", async () => {
+      await expect(hre.run("upgrade:validate", { name: "RewardDistributor" })).to.be.rejectedWith(
+        "Unknown upgradeable contract: RewardDistributor"
+      );
+    });
+  });
+
+  describe("upgrade:apply", () => {
+    it("Should upgrade the proxy and keep its state", async () => {
+      await registry.addAllowlist(ADDR1.address);
+      await token.mint(ONE_MILLION);
+      await token.transfer(ADDR1.address, ONE_HUNDRED);
+      await token.setTransferLimit(ADDR1.address, ONE_HUNDRED);
+      const previous = (await deployments.get("InvestmentTokenM")).implementation;
+
+      await hre.run("upgrade:apply", {
+        name: "InvestmentTokenM",
+        implementation: "InvestmentTokenMUpgradeableV2Mock",
+        call: "initializeV2",
+        callArgs: [2],
+      });
+
+      const upgraded = await ethers.getContractAt("InvestmentTokenMUpgradeableV2Mock", await token.getAddress());
+      const deployment = await deployments.get("InvestmentTokenM");
+      expect(await upgraded.version()).to.equal(2);
+      expect(await upgraded.balanceOf(ADDR1.address)).to.equal(ONE_HUNDRED);
+      expect(await upgraded.transferLimitOf(ADDR1.address)).to.deep.equal([true, ONE_HUNDRED, 0n]);
+      expect(await upgraded.allowlistRegistry()).to.equal(await registry.getAddress());
+      expect(deployment.implementation).to.not.equal(previous);
+      expect(deployment.implementation).to.equal(await upgrades.erc1967.getImplementationAddress(deployment.address));
+    });
+
+    it("Should upgrade failed when the storage layout is incompatible", async () => {
+      const implementation = await upgrades.erc1967.getImplementationAddress(await registry.getAddress());
+
+      await expect(
+        hre.run("upgrade:apply", { name: "AllowlistRegistry", implementation: "InvestmentTokenMUpgradeable" })
+      ).to.be.rejectedWith("New storage layout is incompatible");
+      expect(await upgrades.erc1967.getImplementationAddress(await registry.getAddress())).to.equal(implementation);
+    });
+  });
+});